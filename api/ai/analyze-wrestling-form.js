@@ -0,0 +1,33 @@
+import { analyzeWrestlingForm, FormAnalysisRequestError } from '../../server/lib/form-analysis.js';
+import { resolveFormCoachProvider } from '../../server/lib/form-coach-providers.js';
+
+// Resolved once per warm instance
+const formCoachProvider = resolveFormCoachProvider();
+
+export default async function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const result = await analyzeWrestlingForm(req.body, { provider: await formCoachProvider });
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof FormAnalysisRequestError) {
+      return res.status(400).json({ error: 'Invalid form analysis request', message: error.message });
+    }
+    console.error('❌ Form analysis error:', error);
+    res.status(500).json({ error: 'Failed to analyze form', message: error.message });
+  }
+}
@@ -0,0 +1,35 @@
+// Compiled from server/coach by `npm run build:server` (part of `npm run build`)
+import { readTechniqueManifest } from '../server/dist/coach/technique-catalog.js';
+
+// Bundled with the function via the static import.meta.url reference
+const TECHNIQUE_MANIFEST_URL = new URL('../public/technique-manifest.json', import.meta.url);
+
+export default async function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    // Checked with the headset's schema - broken entries are logged and left out
+    const manifest = await readTechniqueManifest(TECHNIQUE_MANIFEST_URL);
+    res.setHeader('Cache-Control', 's-maxage=60, stale-while-revalidate=300');
+    res.status(200).json(manifest);
+  } catch (error) {
+    console.error('❌ Error loading technique manifest:', error);
+    res.status(500).json({
+      error: 'Failed to load technique manifest',
+      message: error.message
+    });
+  }
+}
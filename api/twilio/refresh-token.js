@@ -0,0 +1,44 @@
+import { createVideoAccessFromEnv, VideoAccessError } from '../../server/lib/video-access.js';
+
+// One per warm instance - rate limits are counted per instance
+const videoAccess = createVideoAccessFromEnv(process.env);
+
+// Vercel puts the caller's address first in x-forwarded-for
+function clientAddress(req) {
+  const forwarded = req.headers['x-forwarded-for'];
+  return (typeof forwarded === 'string' && forwarded.split(',')[0].trim()) || req.socket?.remoteAddress || 'unknown';
+}
+
+/** A fresh short-lived token for the session in the Authorization header */
+export default function handler(req, res) {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version, Authorization');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    const grant = videoAccess.refreshToken(req.body, req.headers.authorization, clientAddress(req));
+    console.log(`✅ Generated ${grant.role} token for identity: ${grant.identity}, room: ${grant.room}`);
+    res.json(grant);
+  } catch (error) {
+    if (error instanceof VideoAccessError) {
+      if (error.retryAfter) res.setHeader('Retry-After', String(error.retryAfter));
+      return res.status(error.status).json({ error: error.message });
+    }
+    console.error('❌ Error generating token:', error);
+    res.status(500).json({
+      error: 'Failed to generate token',
+      message: error.message
+    });
+  }
+}
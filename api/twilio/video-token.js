@@ -1,17 +1,21 @@
-import twilio from 'twilio';
+import { createVideoAccessFromEnv, VideoAccessError } from '../../server/lib/video-access.js';
 
-const {
-  TWILIO_ACCOUNT_SID,
-  TWILIO_API_KEY,
-  TWILIO_API_SECRET,
-} = process.env;
+// One per warm instance - rate limits are counted per instance
+const videoAccess = createVideoAccessFromEnv(process.env);
 
+// Vercel puts the caller's address first in x-forwarded-for
+function clientAddress(req) {
+  const forwarded = req.headers['x-forwarded-for'];
+  return (typeof forwarded === 'string' && forwarded.split(',')[0].trim()) || req.socket?.remoteAddress || 'unknown';
+}
+
+/** Redeems an invite code for a short-lived token and the session to refresh it with */
 export default function handler(req, res) {
   // Enable CORS
   res.setHeader('Access-Control-Allow-Credentials', 'true');
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
-  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version, Authorization');
 
   if (req.method === 'OPTIONS') {
     res.status(200).end();
@@ -23,51 +27,14 @@ export default function handler(req, res) {
   }
 
   try {
-    const { room, identity } = req.body;
-
-    if (!room || !identity) {
-      return res.status(400).json({
-        error: 'Missing required fields: room and identity'
-      });
-    }
-
-    if (!TWILIO_ACCOUNT_SID || !TWILIO_API_KEY || !TWILIO_API_SECRET) {
-      return res.status(500).json({
-        error: 'Server configuration error: Missing Twilio credentials'
-      });
-    }
-
-    // Create access token
-    const AccessToken = twilio.jwt.AccessToken;
-    const VideoGrant = AccessToken.VideoGrant;
-
-    const token = new AccessToken(
-      TWILIO_ACCOUNT_SID,
-      TWILIO_API_KEY,
-      TWILIO_API_SECRET,
-      { identity }
-    );
-
-    // Create Video grant
-    const videoGrant = new VideoGrant({
-      room,
-    });
-
-    // Add grant to token
-    token.addGrant(videoGrant);
-
-    // Generate JWT
-    const jwt = token.toJwt();
-
-    console.log(`✅ Generated token for identity: ${identity}, room: ${room}`);
-
-    res.json({
-      token: jwt,
-      room,
-      identity,
-    });
-
+    const grant = videoAccess.issueToken(req.body, clientAddress(req));
+    console.log(`✅ Generated ${grant.role} token for identity: ${grant.identity}, room: ${grant.room}`);
+    res.json(grant);
   } catch (error) {
+    if (error instanceof VideoAccessError) {
+      if (error.retryAfter) res.setHeader('Retry-After', String(error.retryAfter));
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('❌ Error generating token:', error);
     res.status(500).json({
       error: 'Failed to generate token',
@@ -1,7 +1,14 @@
 import OpenAI from 'openai';
-import { writeFileSync, unlinkSync, createReadStream } from 'fs';
-import { join } from 'path';
-import { tmpdir } from 'os';
+// Compiled from server/coach by `npm run build:server` (part of `npm run build`)
+import {
+  COACH_STREAM_HEADERS,
+  CoachRequestError,
+  createCoachServiceFromEnv,
+  formatServerSentEvent,
+} from '../server/dist/coach/coach-service.js';
+import { loadTechniqueCatalog } from '../server/dist/coach/technique-catalog.js';
+import { authorizeCoachSession } from '../server/lib/coach-access.js';
+import { createVideoAccessFromEnv, VideoAccessError } from '../server/lib/video-access.js';
 
 // Vercel config for binary body handling
 export const config = {
@@ -10,43 +17,18 @@ export const config = {
   },
 };
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Bundled with the function via the static import.meta.url reference
+const TECHNIQUE_MANIFEST_URL = new URL('../public/technique-manifest.json', import.meta.url);
 
-const COACH_ANDY_PERSONA = `You are Coach Andy O'Berlin - Indiana Coach of the Year with 30+ years of wrestling experience and 25 years of coaching.
+// Conversation memory lives as long as this instance stays warm
+const coach = createCoachServiceFromEnv(
+  process.env,
+  (options) => new OpenAI(options),
+  loadTechniqueCatalog(TECHNIQUE_MANIFEST_URL)
+);
 
-**Your Coaching Style:**
-- Direct, no-nonsense communication - no corporate BS
-- ADHD-friendly: Keep responses concise and actionable
-- Mission-driven: "Build better wrestlers and better people"
-- Champion mindset: "Hard work beats talent when talent doesn't work hard"
-
-**Your Background:**
-- Indiana Coach of the Year
-- 30+ years in wrestling, 25 years coaching
-- Computer Science degree + 20 years tech experience
-- Built successful businesses through ethical AI
-
-**How You Coach:**
-- Be direct and to the point
-- Give specific, actionable technique advice
-- Reference the technique videos around the wrestler
-- Use wrestling terminology naturally
-- Push wrestlers to be their best
-- Balance toughness with genuine care
-- Celebrate wins enthusiastically: "THAT'S what I'm talking about!"
-- When correcting: "Here's what you need to fix..."
-
-**Available Techniques** (videos around the room):
-1. Single Leg Takedown
-2. Double Leg Takedown
-3. Cradle
-4. Escape
-5. Standup
-6. Switch
-
-Keep responses under 3 sentences. Be the coach they need - tough, direct, and caring.`;
+// Room sessions - a wrestler's remembered conversation is only used by them
+const videoAccess = createVideoAccessFromEnv(process.env);
 
 // Helper to read raw body as buffer
 async function getRawBody(req) {
@@ -63,7 +45,7 @@ export default async function handler(req, res) {
   res.setHeader('Access-Control-Allow-Credentials', 'true');
   res.setHeader('Access-Control-Allow-Origin', '*');
   res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
-  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version');
+  res.setHeader('Access-Control-Allow-Headers', 'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version, Authorization');
 
   if (req.method === 'OPTIONS') {
     res.status(200).end();
@@ -75,123 +57,38 @@ export default async function handler(req, res) {
   }
 
   try {
-    // Read raw body as buffer
-    const audioBuffer = await getRawBody(req);
-
-    if (!audioBuffer || audioBuffer.length === 0) {
-      return res.status(400).json({ error: 'No audio data received' });
-    }
-
-    console.log('🎤 Received audio data:', audioBuffer.length, 'bytes');
-
-    // Save audio to temporary file for Whisper
-    const tempFile = join(tmpdir(), `audio-${Date.now()}.webm`);
-    writeFileSync(tempFile, audioBuffer);
-
-    console.log('💾 Saved audio to:', tempFile);
-
-    // Transcribe with Whisper
-    const transcription = await openai.audio.transcriptions.create({
-      file: createReadStream(tempFile),
-      model: 'whisper-1',
-    });
-
-    const transcript = transcription.text;
-    console.log('🗣️ Whisper transcription:', transcript);
-
-    // Delete temp file
-    unlinkSync(tempFile);
-
-    if (!transcript || transcript.trim().length === 0) {
-      return res.json({
-        transcript: '',
-        response: "Didn't catch that. Speak louder!",
-        audioUrl: null
-      });
-    }
-
-    // Get Coach Andy response
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: COACH_ANDY_PERSONA
+    // Body is the audio - who is talking comes in the query string, their room session in Authorization
+    const session = authorizeCoachSession(videoAccess, req.headers.authorization, req.query);
+    const audio = await getRawBody(req);
+    const options = { wakePhrase: typeof req.query.wake === 'string' ? req.query.wake : undefined };
+
+    // Server-sent events when asked for: transcript, tokens and audio as they come
+    if (req.headers.accept?.includes('text/event-stream')) {
+      await coach.streamVoiceChat(
+        audio,
+        session,
+        (event) => {
+          if (!res.headersSent) res.writeHead(200, COACH_STREAM_HEADERS);
+          res.write(formatServerSentEvent(event));
         },
-        {
-          role: "user",
-          content: transcript
-        }
-      ],
-      temperature: 0.8,
-      max_tokens: 150,
-    });
-
-    let response = completion.choices[0]?.message?.content ||
-      "Good work! Keep pushing yourself!";
-
-    // Clean any markdown
-    response = response
-      .replace(/\*\*/g, '')
-      .replace(/\*/g, '')
-      .replace(/#{1,6}\s/g, '')
-      .trim();
-
-    console.log(`💬 Coach Andy: "${transcript}" → "${response}"`);
-
-    // Generate audio with ElevenLabs (optional)
-    let audioUrl = null;
-    const hasElevenLabsKey = !!process.env.ELEVENLABS_API_KEY;
-    const hasElevenLabsVoice = !!process.env.ELEVENLABS_VOICE_ID;
-    console.log(`🔑 ElevenLabs: key=${hasElevenLabsKey}, voice=${hasElevenLabsVoice}`);
-
-    if (process.env.ELEVENLABS_API_KEY && process.env.ELEVENLABS_VOICE_ID) {
-      try {
-        const elevenLabsResponse = await fetch(
-          `https://api.elevenlabs.io/v1/text-to-speech/${process.env.ELEVENLABS_VOICE_ID}`,
-          {
-            method: 'POST',
-            headers: {
-              'Accept': 'audio/mpeg',
-              'Content-Type': 'application/json',
-              'xi-api-key': process.env.ELEVENLABS_API_KEY
-            },
-            body: JSON.stringify({
-              text: response,
-              model_id: 'eleven_monolingual_v1',
-              voice_settings: {
-                stability: 0.5,
-                similarity_boost: 0.75
-              }
-            })
-          }
-        );
-
-        console.log(`📞 ElevenLabs API status: ${elevenLabsResponse.status}`);
-
-        if (elevenLabsResponse.ok) {
-          const audioBuffer = await elevenLabsResponse.arrayBuffer();
-          const base64Audio = Buffer.from(audioBuffer).toString('base64');
-          audioUrl = `data:audio/mpeg;base64,${base64Audio}`;
-          console.log(`🔊 Generated audio for Coach Andy response (${base64Audio.length} chars)`);
-        } else {
-          const errorText = await elevenLabsResponse.text();
-          console.error(`❌ ElevenLabs API Error ${elevenLabsResponse.status}:`, errorText);
-        }
-      } catch (audioError) {
-        console.error('❌ ElevenLabs Error:', audioError);
-      }
+        options
+      );
+      return res.end();
     }
 
-    res.json({ transcript, response, audioUrl });
-
+    res.status(200).json(await coach.voiceChat(audio, session, options));
   } catch (error) {
+    if (error instanceof VideoAccessError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof CoachRequestError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('❌ Voice chat error:', error);
-    res.status(500).json({
-      error: 'Failed to process audio',
-      transcript: '',
-      response: "Technical difficulties! Keep training!",
-      audioUrl: null
-    });
+    if (res.headersSent) {
+      res.write(formatServerSentEvent({ type: 'error', error: 'Failed to process audio' }));
+      return res.end();
+    }
+    res.status(500).json({ error: 'Failed to process audio' });
   }
 }
@@ -0,0 +1,202 @@
+/**
+ * Pose Track Extraction CLI
+ *
+ *   npm run pose:extract -- <video> --technique <id>
+ *   npm run pose:extract -- --videos <dir> [--manifest public/technique-manifest.json]
+ *
+ * Batch mode looks for `<dir>/<techniqueId>.<ext>` for every technique in the
+ * manifest and skips techniques that already have a track unless `--force`.
+ * Tracks are written to `public/pose-tracks/`, where the headset looks for them.
+ */
+
+import { access, readdir, readFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { parseTechniqueManifest } from '../../src/lib/techniques/technique-manifest.ts';
+import { BINARY_TRACK_EXTENSION } from '../../src/lib/pose/reference-track.ts';
+import { openFrameSource } from './frame-source.ts';
+import { createBlazePoseEstimator, type BlazePoseModelType, type PoseEstimator } from './pose-estimator.ts';
+import { extractReferenceTrack, TRACK_FORMATS, writeReferenceTrack, type TrackFormat } from './extract.ts';
+
+const VIDEO_EXTENSIONS = ['.mp4', '.mov', '.m4v', '.webm', '.mkv', '.y4m'];
+const MODEL_TYPES: readonly BlazePoseModelType[] = ['lite', 'full', 'heavy'];
+
+const USAGE = `Usage:
+  pose:extract <video> --technique <id> [options]
+  pose:extract --videos <dir> [--manifest <file>] [options]
+
+Options:
+  --out <dir>         output directory (default public/pose-tracks)
+  --fps <n>           sample rate in frames per second (default 15)
+  --format <f>        json | binary | both (default json)
+  --model <type>      BlazePose lite | full | heavy (default lite, as on the headset)
+  --model-dir <dir>   load detector/ and landmark/ models from disk instead of TF Hub
+  --min-score <n>     drop detections with a lower mean keypoint score (default 0.3)
+  --no-smoothing      keep raw detections
+  --force             re-extract techniques that already have a track`;
+
+interface Job {
+  techniqueId: string;
+  videoPath: string;
+}
+
+function fail(message: string): never {
+  console.error(`[POSE] ❌ ${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function readNumber(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    fail(`--${name} must be a non-negative number`);
+  }
+  return number;
+}
+
+async function exists(path: string) {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function batchJobs(videosDir: string, manifestPath: string): Promise<Job[]> {
+  const manifest = parseTechniqueManifest(JSON.parse(await readFile(manifestPath, 'utf8')), (error) =>
+    console.warn(`[POSE] ⚠️ Skipping invalid manifest entry: ${error.message}`)
+  );
+  const videos = new Map(
+    (await readdir(videosDir))
+      .filter((file) => VIDEO_EXTENSIONS.includes(extname(file).toLowerCase()))
+      .map((file) => [file.slice(0, -extname(file).length), join(videosDir, file)])
+  );
+
+  return manifest.techniques.flatMap(({ id }) => {
+    const videoPath = videos.get(id);
+    if (!videoPath) {
+      console.warn(`[POSE] ⚠️ No local video for ${id} in ${videosDir}`);
+      return [];
+    }
+    return [{ techniqueId: id, videoPath }];
+  });
+}
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      technique: { type: 'string' },
+      videos: { type: 'string' },
+      manifest: { type: 'string', default: 'public/technique-manifest.json' },
+      out: { type: 'string', default: 'public/pose-tracks' },
+      fps: { type: 'string' },
+      format: { type: 'string', default: 'json' },
+      model: { type: 'string', default: 'lite' },
+      'model-dir': { type: 'string' },
+      'min-score': { type: 'string' },
+      'no-smoothing': { type: 'boolean', default: false },
+      force: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const format = values.format as TrackFormat;
+  if (!TRACK_FORMATS.includes(format)) {
+    fail(`--format must be one of ${TRACK_FORMATS.join(', ')}`);
+  }
+  const modelType = values.model as BlazePoseModelType;
+  if (!MODEL_TYPES.includes(modelType)) {
+    fail(`--model must be one of ${MODEL_TYPES.join(', ')}`);
+  }
+  const sampleFps = readNumber(values.fps, 'fps', 15);
+  if (sampleFps <= 0) {
+    fail('--fps must be greater than 0');
+  }
+  const minScore = readNumber(values['min-score'], 'min-score', 0.3);
+
+  let jobs: Job[];
+  if (values.videos) {
+    jobs = await batchJobs(values.videos, values.manifest);
+  } else if (positionals.length === 1 && values.technique) {
+    jobs = [{ techniqueId: values.technique, videoPath: positionals[0] }];
+  } else {
+    fail('pass a video and --technique, or --videos <dir>');
+  }
+
+  if (!values.force) {
+    const pending: Job[] = [];
+    for (const job of jobs) {
+      const extension = format === 'binary' ? BINARY_TRACK_EXTENSION : '.json';
+      if (await exists(join(values.out, `${job.techniqueId}${extension}`))) {
+        console.log(`[POSE] Skipping ${job.techniqueId} - track exists (use --force to redo)`);
+      } else {
+        pending.push(job);
+      }
+    }
+    jobs = pending;
+  }
+
+  if (jobs.length === 0) {
+    console.log('[POSE] Nothing to extract');
+    return;
+  }
+
+  console.log(`[POSE] Loading BlazePose ${modelType} (tfjs CPU backend)...`);
+  let estimator: PoseEstimator;
+  try {
+    estimator = await createBlazePoseEstimator({ modelType, modelDir: values['model-dir'] ?? null });
+  } catch (error) {
+    console.error(`[POSE] ❌ Could not load BlazePose (offline? pass --model-dir): ${(error as Error).message}`);
+    process.exit(1);
+  }
+
+  let failures = 0;
+  try {
+    for (const { techniqueId, videoPath } of jobs) {
+      const started = Date.now();
+      try {
+        const source = await openFrameSource(videoPath, sampleFps);
+        let sampled = 0;
+        let detected = 0;
+        const track = await extractReferenceTrack(source, estimator, {
+          techniqueId,
+          minScore,
+          smoothing: values['no-smoothing'] ? null : {},
+          onFrame: (frame) => {
+            sampled++;
+            if (frame.detected) detected++;
+            if (sampled % 30 === 0) {
+              process.stdout.write(`\r[POSE] ${techniqueId}: ${frame.t.toFixed(1)}s`);
+            }
+          },
+        });
+        const written = await writeReferenceTrack(track, values.out, format);
+        const seconds = ((Date.now() - started) / 1000).toFixed(1);
+        console.log(
+          `\r[POSE] ✅ ${techniqueId}: ${detected}/${sampled} frames with a pose in ${seconds}s → ${written.join(', ')}`
+        );
+      } catch (error) {
+        failures++;
+        console.error(`\r[POSE] ❌ ${techniqueId}: ${(error as Error).message}`);
+      }
+    }
+  } finally {
+    estimator.dispose();
+  }
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+main().catch((error) => {
+  console.error('[POSE] ❌', error);
+  process.exit(1);
+});
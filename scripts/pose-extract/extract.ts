@@ -0,0 +1,85 @@
+/**
+ * Pose Track Extraction
+ *
+ * Runs a pose estimator over the sampled frames of a clip and turns the
+ * detections into a smoothed reference track in the format the headset loads.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  BINARY_TRACK_EXTENSION,
+  REFERENCE_TRACK_VERSION,
+  encodeReferenceTrack,
+  serializeReferenceTrack,
+  type PoseFrame,
+  type ReferenceTrack,
+} from '../../src/lib/pose/reference-track.ts';
+import { smoothPoseFrames, type OneEuroOptions } from '../../src/lib/pose/pose-smoothing.ts';
+import type { FrameSource } from './frame-source.ts';
+import type { PoseEstimator } from './pose-estimator.ts';
+
+export const TRACK_FORMATS = ['json', 'binary', 'both'] as const;
+
+export type TrackFormat = (typeof TRACK_FORMATS)[number];
+
+export interface ExtractOptions {
+  techniqueId: string;
+  /** Detections whose mean keypoint score is below this are dropped (gap in the track) */
+  minScore: number;
+  /** null disables smoothing */
+  smoothing: Partial<OneEuroOptions> | null;
+  onFrame?: (frame: { t: number; detected: boolean }) => void;
+}
+
+export async function extractReferenceTrack(
+  source: FrameSource,
+  estimator: PoseEstimator,
+  options: ExtractOptions
+): Promise<ReferenceTrack> {
+  const frames: PoseFrame[] = [];
+
+  for await (const frame of source.frames()) {
+    const keypoints = await estimator.estimate(frame);
+    const meanScore = keypoints
+      ? keypoints.reduce((sum, keypoint) => sum + keypoint.score, 0) / keypoints.length
+      : 0;
+    const detected = keypoints !== null && meanScore >= options.minScore;
+    if (detected) {
+      frames.push({ t: frame.t, keypoints });
+    }
+    options.onFrame?.({ t: frame.t, detected });
+  }
+
+  return {
+    version: REFERENCE_TRACK_VERSION,
+    techniqueId: options.techniqueId,
+    fps: source.fps,
+    width: source.width,
+    height: source.height,
+    // Restart the filter after more than one missed frame so re-detections snap in place
+    frames: options.smoothing ? smoothPoseFrames(frames, options.smoothing, 2 / source.fps) : frames,
+  };
+}
+
+/**
+ * Write `<techniqueId>.json` and/or `<techniqueId>.ptrk` into `outDir`.
+ * Returns the written paths.
+ */
+export async function writeReferenceTrack(track: ReferenceTrack, outDir: string, format: TrackFormat): Promise<string[]> {
+  await mkdir(outDir, { recursive: true });
+  const written: string[] = [];
+
+  if (format === 'json' || format === 'both') {
+    const path = join(outDir, `${track.techniqueId}.json`);
+    await writeFile(path, `${JSON.stringify(serializeReferenceTrack(track))}\n`);
+    written.push(path);
+  }
+  if (format === 'binary' || format === 'both') {
+    const path = join(outDir, `${track.techniqueId}${BINARY_TRACK_EXTENSION}`);
+    await writeFile(path, encodeReferenceTrack(track));
+    written.push(path);
+  }
+
+  return written;
+}
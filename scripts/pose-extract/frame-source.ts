@@ -0,0 +1,317 @@
+/**
+ * Frame Sources
+ *
+ * Decoded RGB frames from a local video file, already down-sampled to the
+ * rate the track is extracted at. YUV4MPEG2 (`.y4m`) files are decoded here
+ * directly - that's what the test fixtures use - everything else (mp4, mov,
+ * webm...) goes through the system's `ffmpeg` / `ffprobe`.
+ */
+
+import { spawn } from 'node:child_process';
+import { open } from 'node:fs/promises';
+import { extname } from 'node:path';
+
+export interface VideoFrame {
+  /** Seconds from the start of the clip */
+  t: number;
+  width: number;
+  height: number;
+  /** Packed RGB, 3 bytes per pixel, rows top to bottom */
+  data: Uint8Array;
+}
+
+export interface FrameSource {
+  width: number;
+  height: number;
+  /** Rate of the frames `frames()` yields (≤ the requested sample rate) */
+  fps: number;
+  frames(): AsyncIterable<VideoFrame>;
+}
+
+export class FrameSourceError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'FrameSourceError';
+    this.path = path;
+  }
+}
+
+/**
+ * Indices of the source frames to keep so the output runs at ~`sampleFps`.
+ * Keeps every frame when the source is already at or below that rate.
+ */
+function keepsFrame(index: number, sourceFps: number, sampleFps: number) {
+  if (sampleFps >= sourceFps) {
+    return true;
+  }
+  const step = sourceFps / sampleFps;
+  return Math.floor(index / step) !== Math.floor((index - 1) / step);
+}
+
+function parseFrameRate(value: string): number {
+  const [numerator, denominator = '1'] = value.split(/[:/]/);
+  const fps = Number(numerator) / Number(denominator);
+  return Number.isFinite(fps) && fps > 0 ? fps : 0;
+}
+
+function clampByte(value: number) {
+  return value < 0 ? 0 : value > 255 ? 255 : Math.round(value);
+}
+
+// BT.601, studio range (16-235) unless the file says otherwise
+function yuvToRgb(y: number, u: number, v: number, fullRange: boolean, out: Uint8Array, offset: number) {
+  const luma = fullRange ? y : (y - 16) * (255 / 219);
+  const cb = (u - 128) * (fullRange ? 1 : 255 / 224);
+  const cr = (v - 128) * (fullRange ? 1 : 255 / 224);
+  out[offset] = clampByte(luma + 1.402 * cr);
+  out[offset + 1] = clampByte(luma - 0.344136 * cb - 0.714136 * cr);
+  out[offset + 2] = clampByte(luma + 1.772 * cb);
+}
+
+type Y4mChroma = '420' | '444' | 'mono';
+
+interface Y4mHeader {
+  width: number;
+  height: number;
+  fps: number;
+  chroma: Y4mChroma;
+  fullRange: boolean;
+  headerBytes: number;
+}
+
+function parseY4mHeader(buffer: Uint8Array, path: string): Y4mHeader {
+  const newline = buffer.indexOf(0x0a);
+  if (newline < 0) {
+    throw new FrameSourceError(path, 'missing YUV4MPEG2 header');
+  }
+  const [signature, ...params] = new TextDecoder().decode(buffer.subarray(0, newline)).split(' ');
+  if (signature !== 'YUV4MPEG2') {
+    throw new FrameSourceError(path, 'not a YUV4MPEG2 file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let fps = 0;
+  let colorspace = '420jpeg';
+  let fullRange = false;
+  params.forEach((param) => {
+    const value = param.slice(1);
+    switch (param[0]) {
+      case 'W':
+        width = Number(value);
+        break;
+      case 'H':
+        height = Number(value);
+        break;
+      case 'F':
+        fps = parseFrameRate(value);
+        break;
+      case 'I':
+        if (value !== 'p' && value !== '?') {
+          throw new FrameSourceError(path, `interlaced video (I${value}) is not supported`);
+        }
+        break;
+      case 'C':
+        colorspace = value;
+        break;
+      case 'X':
+        // "420jpeg" only names the chroma siting - ffmpeg flags full range separately
+        if (value === 'COLORRANGE=FULL') {
+          fullRange = true;
+        }
+        break;
+    }
+  });
+
+  if (!(width > 0 && height > 0 && fps > 0)) {
+    throw new FrameSourceError(path, 'header is missing W, H or F');
+  }
+
+  const chroma: Y4mChroma | null = colorspace.startsWith('420')
+    ? '420'
+    : colorspace === '444'
+      ? '444'
+      : colorspace === 'mono'
+        ? 'mono'
+        : null;
+  if (!chroma) {
+    throw new FrameSourceError(path, `unsupported colorspace C${colorspace} (use 420, 444 or mono)`);
+  }
+
+  return { width, height, fps, chroma, fullRange, headerBytes: newline + 1 };
+}
+
+function y4mFrameBytes({ width, height, chroma }: Y4mHeader) {
+  const luma = width * height;
+  if (chroma === 'mono') return luma;
+  if (chroma === '444') return luma * 3;
+  return luma + 2 * Math.ceil(width / 2) * Math.ceil(height / 2);
+}
+
+function y4mToRgb(planes: Uint8Array, header: Y4mHeader): Uint8Array {
+  const { width, height, chroma, fullRange } = header;
+  const rgb = new Uint8Array(width * height * 3);
+  const luma = width * height;
+  const chromaWidth = chroma === '420' ? Math.ceil(width / 2) : width;
+  const chromaSize = chroma === '420' ? chromaWidth * Math.ceil(height / 2) : luma;
+
+  for (let row = 0; row < height; row++) {
+    for (let column = 0; column < width; column++) {
+      const pixel = row * width + column;
+      let u = 128;
+      let v = 128;
+      if (chroma !== 'mono') {
+        const chromaIndex = chroma === '420' ? (row >> 1) * chromaWidth + (column >> 1) : pixel;
+        u = planes[luma + chromaIndex];
+        v = planes[luma + chromaSize + chromaIndex];
+      }
+      yuvToRgb(planes[pixel], u, v, fullRange, rgb, pixel * 3);
+    }
+  }
+  return rgb;
+}
+
+/**
+ * Stream frames out of a `.y4m` file without loading the whole clip - raw
+ * YUV is large even for a few seconds of video.
+ */
+export async function openY4mFrameSource(path: string, sampleFps: number): Promise<FrameSource> {
+  const probe = new Uint8Array(1024);
+  const headerFile = await open(path, 'r');
+  let header: Y4mHeader;
+  try {
+    const { bytesRead } = await headerFile.read(probe, 0, probe.length, 0);
+    header = parseY4mHeader(probe.subarray(0, bytesRead), path);
+  } finally {
+    await headerFile.close();
+  }
+  const frameBytes = y4mFrameBytes(header);
+
+  async function* frames(): AsyncGenerator<VideoFrame> {
+    const file = await open(path, 'r');
+    const marker = new Uint8Array(256);
+    const planes = new Uint8Array(frameBytes);
+    let position = header.headerBytes;
+    try {
+      for (let index = 0; ; index++) {
+        // Each frame starts with "FRAME" plus optional parameters up to a newline
+        const { bytesRead } = await file.read(marker, 0, marker.length, position);
+        if (bytesRead === 0) return;
+        const newline = marker.subarray(0, bytesRead).indexOf(0x0a);
+        if (newline < 0 || new TextDecoder().decode(marker.subarray(0, 5)) !== 'FRAME') {
+          throw new FrameSourceError(path, `frame ${index} is corrupt`);
+        }
+        position += newline + 1;
+
+        if (keepsFrame(index, header.fps, sampleFps)) {
+          const { bytesRead: planeBytes } = await file.read(planes, 0, frameBytes, position);
+          if (planeBytes < frameBytes) {
+            throw new FrameSourceError(path, `frame ${index} is truncated`);
+          }
+          yield { t: index / header.fps, width: header.width, height: header.height, data: y4mToRgb(planes, header) };
+        }
+        position += frameBytes;
+      }
+    } finally {
+      await file.close();
+    }
+  }
+
+  return { width: header.width, height: header.height, fps: Math.min(sampleFps, header.fps), frames };
+}
+
+function run(command: string, args: string[]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    child.stdout.on('data', (chunk: Buffer) => stdout.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve(Buffer.concat(stdout));
+      } else {
+        reject(new Error(`${command} exited with ${code}: ${Buffer.concat(stderr).toString().trim()}`));
+      }
+    });
+  });
+}
+
+/**
+ * Any container/codec ffmpeg can read. ffmpeg resamples to `sampleFps` and
+ * converts to RGB, so only the frames we keep are ever piped through.
+ */
+export async function openFfmpegFrameSource(path: string, sampleFps: number): Promise<FrameSource> {
+  let probe: { streams?: { width?: number; height?: number; avg_frame_rate?: string }[] };
+  try {
+    const output = await run('ffprobe', [
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'stream=width,height,avg_frame_rate',
+      '-of', 'json',
+      path,
+    ]);
+    probe = JSON.parse(output.toString());
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new FrameSourceError(path, 'ffmpeg/ffprobe not found - install ffmpeg or convert the clip to .y4m');
+    }
+    throw new FrameSourceError(path, (error as Error).message);
+  }
+
+  const stream = probe.streams?.[0];
+  const width = stream?.width ?? 0;
+  const height = stream?.height ?? 0;
+  const sourceFps = parseFrameRate(stream?.avg_frame_rate ?? '');
+  if (!(width > 0 && height > 0 && sourceFps > 0)) {
+    throw new FrameSourceError(path, 'no readable video stream');
+  }
+  const fps = Math.min(sampleFps, sourceFps);
+  const frameBytes = width * height * 3;
+
+  async function* frames(): AsyncGenerator<VideoFrame> {
+    const ffmpeg = spawn(
+      'ffmpeg',
+      ['-v', 'error', '-i', path, '-vf', `fps=${fps}`, '-f', 'rawvideo', '-pix_fmt', 'rgb24', 'pipe:1'],
+      { stdio: ['ignore', 'pipe', 'pipe'] }
+    );
+    const stderr: Buffer[] = [];
+    ffmpeg.stderr.on('data', (chunk: Buffer) => stderr.push(chunk));
+    const exited = new Promise<number | null>((resolve, reject) => {
+      ffmpeg.on('error', reject);
+      ffmpeg.on('close', resolve);
+    });
+
+    let pending: Buffer = Buffer.alloc(0);
+    let index = 0;
+    try {
+      for await (const chunk of ffmpeg.stdout as AsyncIterable<Buffer>) {
+        pending = pending.length ? Buffer.concat([pending, chunk]) : chunk;
+        while (pending.length >= frameBytes) {
+          yield { t: index / fps, width, height, data: new Uint8Array(pending.subarray(0, frameBytes)) };
+          pending = pending.subarray(frameBytes);
+          index++;
+        }
+      }
+      const code = await exited;
+      if (code !== 0) {
+        throw new FrameSourceError(path, `ffmpeg exited with ${code}: ${Buffer.concat(stderr).toString().trim()}`);
+      }
+    } finally {
+      if (ffmpeg.exitCode === null) {
+        ffmpeg.kill();
+      }
+    }
+  }
+
+  return { width, height, fps, frames };
+}
+
+export function openFrameSource(path: string, sampleFps: number): Promise<FrameSource> {
+  return extname(path).toLowerCase() === '.y4m'
+    ? openY4mFrameSource(path, sampleFps)
+    : openFfmpegFrameSource(path, sampleFps);
+}
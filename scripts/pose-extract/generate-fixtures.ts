@@ -0,0 +1,52 @@
+/**
+ * Regenerates the tiny `.y4m` clips the extraction tests run on:
+ *
+ *   npx tsc -p tsconfig.scripts.json && node node_modules/.tmp/scripts/scripts/pose-extract/generate-fixtures.js
+ *
+ * `sliding-figure.y4m` - 48x36 @ 24fps, 1s: a bright block ("athlete") that
+ * slides left to right on a dark mat and is missing for frames 10-13.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+const FIXTURE_DIR = 'tests/fixtures/pose';
+const WIDTH = 48;
+const HEIGHT = 36;
+const FPS = 24;
+const FRAME_COUNT = 24;
+const HIDDEN_FRAMES = new Set([10, 11, 12, 13]);
+
+function slidingFigureFrame(index: number): Uint8Array {
+  const luma = WIDTH * HEIGHT;
+  const chroma = (WIDTH / 2) * (HEIGHT / 2);
+  const planes = new Uint8Array(luma + 2 * chroma);
+  planes.fill(16, 0, luma);
+  planes.fill(128, luma);
+
+  if (!HIDDEN_FRAMES.has(index)) {
+    const left = 6 + index;
+    for (let row = 8; row < 30; row++) {
+      planes.fill(235, row * WIDTH + left, row * WIDTH + left + 8);
+    }
+  }
+  return planes;
+}
+
+async function main() {
+  const header = `YUV4MPEG2 W${WIDTH} H${HEIGHT} F${FPS}:1 Ip A1:1 C420jpeg\n`;
+  const chunks: Uint8Array[] = [new TextEncoder().encode(header)];
+  for (let index = 0; index < FRAME_COUNT; index++) {
+    chunks.push(new TextEncoder().encode('FRAME\n'), slidingFigureFrame(index));
+  }
+
+  await mkdir(FIXTURE_DIR, { recursive: true });
+  const path = join(FIXTURE_DIR, 'sliding-figure.y4m');
+  await writeFile(path, Buffer.concat(chunks));
+  console.log(`[POSE] ✅ Wrote ${path}`);
+}
+
+main().catch((error) => {
+  console.error('[POSE] ❌', error);
+  process.exit(1);
+});
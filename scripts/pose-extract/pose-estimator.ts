@@ -0,0 +1,97 @@
+/**
+ * Pose Estimators
+ *
+ * The same BlazePose model the headset runs (tfjs runtime), on the pure-JS
+ * CPU backend so extraction works on any Linux box without a GPU or native
+ * TensorFlow build.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+import * as poseDetection from '@tensorflow-models/pose-detection';
+import type { PoseKeypoint } from '../../src/lib/pose/reference-track.ts';
+import type { VideoFrame } from './frame-source.ts';
+
+export interface PoseEstimator {
+  /** Normalized keypoints (0-1, origin top-left) or null when nobody was found */
+  estimate(frame: VideoFrame): Promise<PoseKeypoint[] | null>;
+  dispose(): void;
+}
+
+export type BlazePoseModelType = 'lite' | 'full' | 'heavy';
+
+export interface BlazePoseEstimatorOptions {
+  /** Must match the client's detector for comparable tracks - the headset runs 'lite' */
+  modelType: BlazePoseModelType;
+  /**
+   * Directory with `detector/model.json` and `landmark/model.json` (plus
+   * weight shards) for fully offline runs. Downloaded from TF Hub otherwise.
+   */
+  modelDir: string | null;
+}
+
+// tfjs' own file:// handler lives in tfjs-node - read a converted graph model from disk
+function fileModelHandler(modelJsonPath: string): tf.io.IOHandler {
+  return {
+    load: async () => {
+      const modelJson = JSON.parse(await readFile(modelJsonPath, 'utf8'));
+      const manifest: tf.io.WeightsManifestConfig = modelJson.weightsManifest ?? [];
+      const shards = await Promise.all(
+        manifest.flatMap((group) => group.paths).map((path) => readFile(join(dirname(modelJsonPath), path)))
+      );
+      const weightData = new Uint8Array(Buffer.concat(shards)).buffer;
+      return {
+        modelTopology: modelJson.modelTopology,
+        format: modelJson.format,
+        generatedBy: modelJson.generatedBy,
+        convertedBy: modelJson.convertedBy,
+        signature: modelJson.signature,
+        userDefinedMetadata: modelJson.userDefinedMetadata,
+        weightSpecs: manifest.flatMap((group) => group.weights),
+        weightData,
+      };
+    },
+  };
+}
+
+export async function createBlazePoseEstimator(options: BlazePoseEstimatorOptions): Promise<PoseEstimator> {
+  await tf.setBackend('cpu');
+  await tf.ready();
+
+  const detector = await poseDetection.createDetector(poseDetection.SupportedModels.BlazePose, {
+    runtime: 'tfjs',
+    modelType: options.modelType,
+    // The extractor smooths the whole track afterwards
+    enableSmoothing: false,
+    ...(options.modelDir
+      ? {
+          detectorModelUrl: fileModelHandler(join(options.modelDir, 'detector', 'model.json')),
+          landmarkModelUrl: fileModelHandler(join(options.modelDir, 'landmark', 'model.json')),
+        }
+      : {}),
+  });
+
+  return {
+    async estimate(frame) {
+      const image = tf.tensor3d(frame.data, [frame.height, frame.width, 3], 'int32');
+      try {
+        const [pose] = await detector.estimatePoses(image, { flipHorizontal: false }, frame.t * 1000);
+        if (!pose) {
+          return null;
+        }
+        return pose.keypoints.map((keypoint) => ({
+          x: keypoint.x / frame.width,
+          y: keypoint.y / frame.height,
+          z: (keypoint.z ?? 0) / frame.width,
+          score: keypoint.score ?? 0,
+        }));
+      } finally {
+        image.dispose();
+      }
+    },
+    dispose() {
+      detector.dispose();
+    },
+  };
+}
@@ -0,0 +1,192 @@
+/**
+ * Coach Andy Conversations
+ *
+ * Server-side chat memory so Coach Andy remembers what the wrestler asked a
+ * minute ago. One session per user per room, held in memory: the most recent
+ * messages are kept word for word and, once the history grows past a limit,
+ * the oldest ones are folded into a running summary that rides along in the
+ * system prompt.
+ *
+ * Memory is per process - the Express server keeps it for its lifetime, a
+ * serverless instance only while it stays warm.
+ */
+
+import type { ChatMessage, ChatModel } from './coach-providers.ts';
+import type { CoachChatTurn } from './coach-types.ts';
+
+export interface ConversationSession {
+  key: string;
+  summary: string | null;
+  messages: CoachChatTurn[];
+  updatedAt: number;
+}
+
+export type ConversationSummarizer = (previousSummary: string | null, turns: CoachChatTurn[]) => Promise<string>;
+
+export interface ConversationStoreOptions {
+  /** Messages kept verbatim after summarizing (user + assistant each count) */
+  keepMessages: number;
+  /** Summarize once the verbatim history grows past this */
+  summarizeAfter: number;
+  /** Forget conversations idle for this long */
+  idleTimeoutMs: number;
+  /** The least recently used sessions are dropped past this many */
+  maxSessions: number;
+  summarize: ConversationSummarizer;
+  now: () => number;
+}
+
+export interface ConversationStore {
+  get(key: string): ConversationSession;
+  /** Chat messages for the model: persona, running summary, remembered turns and the new message */
+  buildMessages(key: string, persona: string, userMessage: string): ChatMessage[];
+  append(key: string, userMessage: string, assistantMessage: string): Promise<ConversationSession>;
+  reset(key: string): boolean;
+  readonly size: number;
+}
+
+const MAX_KEY_PART_LENGTH = 64;
+const MAX_SUMMARY_LENGTH = 1200;
+
+function keyPart(value: unknown) {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    return null;
+  }
+  return value.trim().slice(0, MAX_KEY_PART_LENGTH);
+}
+
+/**
+ * Session key for a user in a room; null without both - outside a room nobody
+ * can prove who is talking, so nothing is remembered
+ */
+export function conversationKey(userId: unknown, room: unknown) {
+  const user = keyPart(userId);
+  const inRoom = keyPart(room);
+  return user && inRoom ? `${inRoom}:${user}` : null;
+}
+
+/**
+ * Offline summarizer: keeps the questions, which is what Coach Andy needs to
+ * avoid repeating himself.
+ */
+export const summarizeTurnsLocally: ConversationSummarizer = async (previousSummary, turns) => {
+  const questions = turns.filter((turn) => turn.role === 'user').map((turn) => turn.content.trim());
+  const summary = [previousSummary, questions.length ? `Wrestler asked about: ${questions.join('; ')}` : null]
+    .filter(Boolean)
+    .join(' ');
+  // Keep the newest part when it gets long
+  return summary.length > MAX_SUMMARY_LENGTH ? `…${summary.slice(-MAX_SUMMARY_LENGTH)}` : summary;
+};
+
+/** Summarize with the chat model */
+export function createModelSummarizer(chat: ChatModel): ConversationSummarizer {
+  return async (previousSummary, turns) => {
+    const transcript = turns
+      .map((turn) => `${turn.role === 'user' ? 'Wrestler' : 'Coach'}: ${turn.content}`)
+      .join('\n');
+    const summary = await chat.complete(
+      [
+        {
+          role: 'system',
+          content:
+            'Summarize this wrestling coaching conversation for the coach\'s memory in under 80 words: what the wrestler is working on, what they asked and what they were told. Plain text, no markdown.',
+        },
+        {
+          role: 'user',
+          content: previousSummary ? `Summary so far: ${previousSummary}\n\nNew messages:\n${transcript}` : transcript,
+        },
+      ],
+      { temperature: 0.3, maxTokens: 160 }
+    );
+
+    if (!summary) {
+      throw new Error('empty summary');
+    }
+    return summary.slice(0, MAX_SUMMARY_LENGTH);
+  };
+}
+
+export const DEFAULT_CONVERSATION_OPTIONS: ConversationStoreOptions = {
+  keepMessages: 8,
+  summarizeAfter: 16,
+  idleTimeoutMs: 2 * 60 * 60 * 1000,
+  maxSessions: 500,
+  summarize: summarizeTurnsLocally,
+  now: Date.now,
+};
+
+export function createConversationStore(options: Partial<ConversationStoreOptions> = {}): ConversationStore {
+  const { keepMessages, summarizeAfter, idleTimeoutMs, maxSessions, summarize, now } = {
+    ...DEFAULT_CONVERSATION_OPTIONS,
+    ...options,
+  };
+
+  // Insertion order = least recently used first
+  const sessions = new Map<string, ConversationSession>();
+
+  function prune() {
+    const cutoff = now() - idleTimeoutMs;
+    for (const [key, session] of sessions) {
+      if (session.updatedAt < cutoff) {
+        sessions.delete(key);
+      }
+    }
+  }
+
+  function get(key: string): ConversationSession {
+    prune();
+    const oldest = sessions.keys().next();
+    if (!sessions.has(key) && sessions.size >= maxSessions && !oldest.done) {
+      // Make room by forgetting the least recently used
+      sessions.delete(oldest.value);
+    }
+    const session = sessions.get(key) ?? { key, summary: null, messages: [], updatedAt: now() };
+    // Re-insert to mark as recently used
+    sessions.delete(key);
+    sessions.set(key, session);
+    return session;
+  }
+
+  return {
+    get,
+
+    buildMessages(key, persona, userMessage) {
+      const { summary, messages } = get(key);
+      return [
+        { role: 'system', content: persona },
+        ...(summary ? [{ role: 'system' as const, content: `Earlier in this conversation: ${summary}` }] : []),
+        ...messages,
+        { role: 'user', content: userMessage },
+      ];
+    },
+
+    // Summarizes the oldest turns when the history is too long. If the
+    // summarizer fails the local one takes over, so the history stays bounded.
+    async append(key, userMessage, assistantMessage) {
+      const session = get(key);
+      session.messages.push({ role: 'user', content: userMessage }, { role: 'assistant', content: assistantMessage });
+      session.updatedAt = now();
+
+      if (session.messages.length <= summarizeAfter) {
+        return session;
+      }
+
+      const folded = session.messages.splice(0, session.messages.length - keepMessages);
+      try {
+        session.summary = await summarize(session.summary, folded);
+      } catch (error) {
+        console.warn('⚠️ Conversation summary failed, using local summary:', (error as Error).message);
+        session.summary = await summarizeTurnsLocally(session.summary, folded);
+      }
+      return session;
+    },
+
+    reset(key) {
+      return sessions.delete(key);
+    },
+
+    get size() {
+      return sessions.size;
+    },
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Coach Personas
+ *
+ * Who is coaching: the system prompt, voice, portrait, card heading and the
+ * techniques each head coach teaches from. A program adds its coach here;
+ * the backend builds the prompt from it and the chat card shows the name and
+ * portrait. A room can be given its own coach (`rooms`), and `?persona=<id>`
+ * on the training page picks one outright. No Node imports - the headset bundles it.
+ */
+
+import type { CoachSession } from './coach-types.ts';
+
+/** Enough of a technique to list it - TechniqueRef on the server, the manifest entry in the headset */
+interface TechniqueEntry {
+  id: string;
+  title: string;
+}
+
+export interface CoachPersona {
+  id: string;
+  /** How he's addressed and logged, e.g. "Coach Andy" */
+  name: string;
+  /** Heading on the chat card */
+  title: string;
+  /** Portrait on the chat card, served from public/ */
+  avatarUrl: string;
+  /** First line on an empty chat card */
+  greeting: string;
+  /** System prompt - `{{name}}` and `{{techniques}}` are filled in for every reply */
+  prompt: string;
+  /** Voice per speech provider (`elevenlabs` voice id, `openai` voice name); others use the provider's default */
+  voices?: Partial<Record<string, string>>;
+  /** Technique ids he teaches from, in the order to list them; the whole library when left out */
+  techniques?: string[];
+  /** Rooms that get this coach when the page doesn't ask for one */
+  rooms?: string[];
+}
+
+export const DEFAULT_COACH_PERSONA_ID = 'andy';
+
+export const COACH_PERSONAS: CoachPersona[] = [
+  {
+    id: DEFAULT_COACH_PERSONA_ID,
+    name: 'Coach Andy',
+    title: 'LATORA LEG CAMP',
+    avatarUrl: '/latora.jpg',
+    greeting: 'Hey wrestler! Ask me anything about technique.',
+    prompt: `You are Coach Andy O'Berlin - Indiana Coach of the Year with 30+ years of wrestling experience and 25 years of coaching.
+
+**Your Coaching Style:**
+- Direct, no-nonsense communication - no corporate BS
+- ADHD-friendly: Keep responses concise and actionable
+- Mission-driven: "Build better wrestlers and better people"
+- Champion mindset: "Hard work beats talent when talent doesn't work hard"
+
+**Your Background:**
+- Indiana Coach of the Year
+- 30+ years in wrestling, 25 years coaching
+- Computer Science degree + 20 years tech experience
+- Built successful businesses through ethical AI
+
+**How You Coach:**
+- Be direct and to the point
+- Give specific, actionable technique advice
+- Reference the technique videos around the wrestler
+- Use wrestling terminology naturally
+- Push wrestlers to be their best
+- Balance toughness with genuine care
+- Celebrate wins enthusiastically: "THAT'S what I'm talking about!"
+- When correcting: "Here's what you need to fix..."
+
+{{techniques}}
+
+Keep responses under 3 sentences. Be the coach they need - tough, direct, and caring.`,
+  },
+];
+
+/**
+ * The coach for a session: the one it asks for by id, else the one its room
+ * belongs to, else the first in the registry. Unknown ids fall through
+ * rather than fail - a stale link still gets a coach.
+ */
+export function resolveCoachPersona(
+  { persona, room }: Pick<CoachSession, 'persona' | 'room'>,
+  personas: CoachPersona[] = COACH_PERSONAS
+): CoachPersona {
+  return (
+    personas.find((entry) => entry.id === persona) ??
+    (room ? personas.find((entry) => entry.rooms?.includes(room)) : undefined) ??
+    personas[0]
+  );
+}
+
+/** The techniques a coach teaches from, as they are in the library right now */
+export function personaTechniques<T extends TechniqueEntry>(persona: CoachPersona, library: T[]): T[] {
+  if (!persona.techniques) return library;
+  return persona.techniques.flatMap((id) => library.find((technique) => technique.id === id) ?? []);
+}
+
+/**
+ * System prompt for one reply. The technique list comes from the library, so
+ * it names the videos that are actually on the cards; with no library (or
+ * none of his left in it) the section is dropped.
+ */
+export function renderPersonaPrompt(persona: CoachPersona, library: TechniqueEntry[]) {
+  const techniques = personaTechniques(persona, library);
+  const list =
+    techniques.length > 0
+      ? `**Available Techniques** (videos around the room):\n${techniques
+          .map((technique, index) => `${index + 1}. ${technique.title}`)
+          .join('\n')}`
+      : '';
+
+  return persona.prompt
+    .replaceAll('{{name}}', persona.name)
+    .replaceAll('{{techniques}}', list)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
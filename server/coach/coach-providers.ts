@@ -0,0 +1,506 @@
+/**
+ * Coach Andy Providers
+ *
+ * The three models behind the voice pipeline - chat completion, speech-to-text
+ * and text-to-speech - as small interfaces, with implementations for OpenAI,
+ * ElevenLabs, any OpenAI-compatible local server (llama.cpp, Ollama,
+ * faster-whisper-server, Kokoro/Piper speech servers, ...) and a deterministic
+ * fake that needs no network at all.
+ *
+ * Selected per capability from the environment:
+ *   COACH_PROVIDER          default for all three: openai | local | fake | none
+ *   COACH_CHAT_PROVIDER     openai | local | fake | none
+ *   COACH_STT_PROVIDER      openai | local | fake | none
+ *   COACH_TTS_PROVIDER      elevenlabs | openai | local | fake | none
+ *   COACH_LOCAL_URL         base URL of the local server (default http://127.0.0.1:8080/v1)
+ *   COACH_CHAT_TOOLS        off = never offer the model tools (for local models without function calling)
+ * Without any of these, chat and speech-to-text use OpenAI when OPENAI_API_KEY
+ * is set and voice uses ElevenLabs when ELEVENLABS_API_KEY and
+ * ELEVENLABS_VOICE_ID are.
+ *
+ * No SDK imports - the caller hands in a factory for OpenAI clients, so the
+ * local provider is just the same client pointed at another base URL.
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ChatCompletionOptions {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/** A function the model may call - `parameters` is a JSON schema object */
+export interface ChatTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** JSON, as the model wrote it - may be malformed */
+  arguments: string;
+}
+
+/** The conversation once tools are involved: the model's calls and their results */
+export type ToolChatMessage =
+  | ChatMessage
+  | { role: 'assistant'; content: string; toolCalls: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+/** Reply text deltas, then any tool calls once each is complete */
+export type ToolChatPart = { type: 'text'; text: string } | { type: 'tool-call'; call: ToolCall };
+
+export interface ChatModel {
+  readonly name: string;
+  /** The assistant's reply, or an empty string when the model said nothing */
+  complete(messages: ChatMessage[], options?: ChatCompletionOptions): Promise<string>;
+  /** The reply as it is generated, in text deltas - optional, `complete` is used without it */
+  stream?(messages: ChatMessage[], options?: ChatCompletionOptions): AsyncIterable<string>;
+  /** Streamed reply that may call `tools` instead of (or before) answering - optional */
+  streamWithTools?(
+    messages: ToolChatMessage[],
+    tools: ChatTool[],
+    options?: ChatCompletionOptions
+  ): AsyncIterable<ToolChatPart>;
+}
+
+export interface SpeechToText {
+  readonly name: string;
+  transcribe(audio: Uint8Array, mimeType: string): Promise<string>;
+  /** The transcript in text deltas as it is recognized - optional */
+  transcribeStream?(audio: Uint8Array, mimeType: string): AsyncIterable<string>;
+}
+
+export interface SpeechOptions {
+  /** Provider voice (ElevenLabs voice id, OpenAI voice name) instead of the configured one */
+  voice?: string;
+}
+
+export interface TextToSpeech {
+  readonly name: string;
+  /** Audio as a data URL, or null when synthesis failed */
+  synthesize(text: string, options?: SpeechOptions): Promise<string | null>;
+}
+
+type OpenAIChatMessage =
+  | ChatMessage
+  | {
+      role: 'assistant';
+      content: string;
+      tool_calls: { id: string; type: 'function'; function: { name: string; arguments: string } }[];
+    }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface ChatCompletionRequest {
+  model: string;
+  messages: OpenAIChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  tools?: { type: 'function'; function: ChatTool }[];
+}
+
+interface ToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface TranscriptionRequest {
+  file: File;
+  model: string;
+}
+
+/** The slice of the OpenAI client the providers use */
+export interface OpenAICompatibleClient {
+  chat: {
+    completions: {
+      create(request: ChatCompletionRequest & { stream?: false }): Promise<{
+        choices: { message?: { content?: string | null } }[];
+      }>;
+      create(request: ChatCompletionRequest & { stream: true }): Promise<
+        AsyncIterable<{ choices: { delta?: { content?: string | null; tool_calls?: ToolCallDelta[] } }[] }>
+      >;
+    };
+  };
+  audio: {
+    transcriptions: {
+      create(request: TranscriptionRequest & { stream?: false }): Promise<{ text: string }>;
+      // Only the gpt-4o-*-transcribe models stream
+      create(request: TranscriptionRequest & { stream: true }): Promise<AsyncIterable<{ type: string; delta?: string }>>;
+    };
+    speech: {
+      create(request: {
+        model: string;
+        voice: string;
+        input: string;
+        response_format?: 'mp3' | 'wav';
+      }): Promise<{ arrayBuffer(): Promise<ArrayBuffer> }>;
+    };
+  };
+}
+
+export type OpenAIClientFactory = (options: { apiKey: string; baseURL?: string }) => OpenAICompatibleClient;
+
+export const CHAT_PROVIDERS = ['openai', 'local', 'fake', 'none'] as const;
+export const STT_PROVIDERS = ['openai', 'local', 'fake', 'none'] as const;
+export const TTS_PROVIDERS = ['elevenlabs', 'openai', 'local', 'fake', 'none'] as const;
+
+export const DEFAULT_LOCAL_URL = 'http://127.0.0.1:8080/v1';
+
+export function createOpenAIChatModel(client: OpenAICompatibleClient, model = 'gpt-4o-mini', name = 'openai'): ChatModel {
+  return {
+    name,
+    async complete(messages, { temperature, maxTokens } = {}) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+      });
+      return completion.choices[0]?.message?.content?.trim() ?? '';
+    },
+    async *stream(messages, { temperature, maxTokens } = {}) {
+      const chunks = await client.chat.completions.create({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens,
+        stream: true,
+      });
+      for await (const chunk of chunks) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    },
+    async *streamWithTools(messages, tools, { temperature, maxTokens } = {}) {
+      const chunks = await client.chat.completions.create({
+        model,
+        messages: messages.map(toOpenAIMessage),
+        temperature,
+        max_tokens: maxTokens,
+        tools: tools.map((tool) => ({ type: 'function', function: tool })),
+        stream: true,
+      });
+      // Calls arrive in pieces, keyed by index - name first, then the arguments a few characters at a time
+      const calls: ToolCall[] = [];
+      for await (const chunk of chunks) {
+        const delta = chunk.choices[0]?.delta;
+        if (delta?.content) yield { type: 'text', text: delta.content };
+        for (const part of delta?.tool_calls ?? []) {
+          const call = (calls[part.index] ??= { id: '', name: '', arguments: '' });
+          if (part.id) call.id = part.id;
+          call.name += part.function?.name ?? '';
+          call.arguments += part.function?.arguments ?? '';
+        }
+      }
+      for (const call of calls) {
+        if (call?.name) yield { type: 'tool-call', call };
+      }
+    },
+  };
+}
+
+function toOpenAIMessage(message: ToolChatMessage): OpenAIChatMessage {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if ('toolCalls' in message) {
+    return {
+      role: 'assistant',
+      content: message.content,
+      tool_calls: message.toolCalls.map(({ id, name, arguments: args }) => ({
+        id,
+        type: 'function',
+        function: { name, arguments: args },
+      })),
+    };
+  }
+  return message;
+}
+
+function audioFile(audio: Uint8Array, mimeType: string) {
+  const extension = mimeType.split(/[/;]/)[1] || 'webm';
+  // Copy onto a plain ArrayBuffer - Node Buffers can be views into a shared pool
+  return new File([new Uint8Array(audio)], `audio.${extension}`, { type: mimeType });
+}
+
+export function createOpenAISpeechToText(client: OpenAICompatibleClient, model = 'whisper-1', name = 'openai'): SpeechToText {
+  const stt: SpeechToText = {
+    name,
+    async transcribe(audio, mimeType) {
+      const { text } = await client.audio.transcriptions.create({ file: audioFile(audio, mimeType), model });
+      return text.trim();
+    },
+  };
+  // Whisper answers all at once; the newer transcribe models can stream partial text
+  if (model.includes('transcribe')) {
+    stt.transcribeStream = async function* (audio, mimeType) {
+      const events = await client.audio.transcriptions.create({ file: audioFile(audio, mimeType), model, stream: true });
+      for await (const event of events) {
+        if (event.type === 'transcript.text.delta' && event.delta) yield event.delta;
+      }
+    };
+  }
+  return stt;
+}
+
+export function createOpenAITextToSpeech(
+  client: OpenAICompatibleClient,
+  { model = 'tts-1', voice = 'onyx', name = 'openai' }: { model?: string; voice?: string; name?: string } = {}
+): TextToSpeech {
+  return {
+    name,
+    async synthesize(text, options = {}) {
+      try {
+        const speech = await client.audio.speech.create({
+          model,
+          voice: options.voice ?? voice,
+          input: text,
+          response_format: 'mp3',
+        });
+        const base64Audio = Buffer.from(await speech.arrayBuffer()).toString('base64');
+        console.log(`🔊 Generated ${name} audio for Coach Andy response (${base64Audio.length} chars)`);
+        return `data:audio/mpeg;base64,${base64Audio}`;
+      } catch (error) {
+        console.error(`❌ ${name} speech error:`, error);
+        return null;
+      }
+    },
+  };
+}
+
+export function createElevenLabsTts({
+  apiKey,
+  voiceId,
+  fetchImpl = fetch,
+}: {
+  apiKey: string;
+  voiceId: string;
+  fetchImpl?: typeof fetch;
+}): TextToSpeech {
+  return {
+    name: 'elevenlabs',
+    async synthesize(text, options = {}) {
+      try {
+        const response = await fetchImpl(`https://api.elevenlabs.io/v1/text-to-speech/${options.voice ?? voiceId}`, {
+          method: 'POST',
+          headers: {
+            Accept: 'audio/mpeg',
+            'Content-Type': 'application/json',
+            'xi-api-key': apiKey,
+          },
+          body: JSON.stringify({
+            text,
+            model_id: 'eleven_monolingual_v1',
+            voice_settings: {
+              stability: 0.5,
+              similarity_boost: 0.75,
+            },
+          }),
+        });
+
+        if (!response.ok) {
+          console.error(`❌ ElevenLabs API Error ${response.status}:`, await response.text());
+          return null;
+        }
+        const base64Audio = Buffer.from(await response.arrayBuffer()).toString('base64');
+        console.log(`🔊 Generated audio for Coach Andy response (${base64Audio.length} chars)`);
+        return `data:audio/mpeg;base64,${base64Audio}`;
+      } catch (error) {
+        console.error('❌ ElevenLabs Error:', error);
+        return null;
+      }
+    },
+  };
+}
+
+/**
+ * Offline chat stand-in: answers the last wrestler message with the same
+ * line every time, so tests can assert on it.
+ */
+export function createFakeChatModel(): ChatModel {
+  function answer(messages: ChatMessage[]) {
+    const question = [...messages].reverse().find((message) => message.role === 'user')?.content.trim() ?? '';
+    return `Coach Andy heard "${question}". Hands up, hips down, and drill it again!`;
+  }
+  return {
+    name: 'fake',
+    async complete(messages) {
+      return answer(messages);
+    },
+    async *stream(messages) {
+      yield* words(answer(messages));
+    },
+  };
+}
+
+// Word-sized deltas, spaces kept, like a streaming model sends them
+function words(text: string) {
+  return text.match(/\S+\s*/g) ?? [];
+}
+
+const FAKE_TRANSCRIPT = 'How do I finish a single leg?';
+
+/**
+ * Offline speech-to-text stand-in: a body that is plain UTF-8 text is
+ * "transcribed" as itself (tests post the words they want heard), real audio
+ * always comes back as the same question.
+ */
+export function createFakeSpeechToText(): SpeechToText {
+  const stt: SpeechToText = {
+    name: 'fake',
+    async *transcribeStream(audio, mimeType) {
+      yield* words(await stt.transcribe(audio, mimeType));
+    },
+    async transcribe(audio) {
+      try {
+        const text = new TextDecoder('utf-8', { fatal: true }).decode(audio).trim();
+        // Control characters other than whitespace mean binary
+        const binary = [...text].some((char) => char < ' ' && !'\t\n\r'.includes(char));
+        if (text && !binary) {
+          return text;
+        }
+      } catch {
+        // Not text - real audio
+      }
+      return FAKE_TRANSCRIPT;
+    },
+  };
+  return stt;
+}
+
+const FAKE_SAMPLE_RATE = 8000;
+const FAKE_SECONDS_PER_WORD = 0.25;
+const FAKE_MAX_SECONDS = 4;
+
+/**
+ * Offline text-to-speech stand-in: a silent 8 kHz WAV about as long as the
+ * line would take to say, so the client's playback path still runs.
+ */
+export function createFakeTextToSpeech(): TextToSpeech {
+  return {
+    name: 'fake',
+    async synthesize(text) {
+      const words = text.split(/\s+/).filter(Boolean).length;
+      const samples = Math.round(Math.min(FAKE_MAX_SECONDS, words * FAKE_SECONDS_PER_WORD) * FAKE_SAMPLE_RATE);
+      const wav = Buffer.alloc(44 + samples, 128); // 8-bit PCM silence is 128
+      wav.write('RIFF', 0, 'ascii');
+      wav.writeUInt32LE(36 + samples, 4);
+      wav.write('WAVEfmt ', 8, 'ascii');
+      wav.writeUInt32LE(16, 16); // fmt chunk size
+      wav.writeUInt16LE(1, 20); // PCM
+      wav.writeUInt16LE(1, 22); // mono
+      wav.writeUInt32LE(FAKE_SAMPLE_RATE, 24);
+      wav.writeUInt32LE(FAKE_SAMPLE_RATE, 28); // byte rate
+      wav.writeUInt16LE(1, 32); // block align
+      wav.writeUInt16LE(8, 34); // bits per sample
+      wav.write('data', 36, 'ascii');
+      wav.writeUInt32LE(samples, 40);
+      return `data:audio/wav;base64,${wav.toString('base64')}`;
+    },
+  };
+}
+
+export interface CoachProviders {
+  chat: ChatModel | null;
+  stt: SpeechToText | null;
+  tts: TextToSpeech | null;
+}
+
+function pick<T extends string>(
+  variable: string,
+  requested: string,
+  allowed: readonly T[]
+): T | 'none' {
+  if ((allowed as readonly string[]).includes(requested)) {
+    return requested as T;
+  }
+  console.warn(`⚠️ Unknown ${variable} "${requested}" (expected ${allowed.join(', ')}) - disabled`);
+  return 'none';
+}
+
+/**
+ * Chat, speech-to-text and text-to-speech providers from environment
+ * variables (see the header). `createOpenAIClient` is only called for the
+ * openai and local providers.
+ */
+export function resolveCoachProviders(
+  env: Record<string, string | undefined>,
+  createOpenAIClient: OpenAIClientFactory | null
+): CoachProviders {
+  const { ELEVENLABS_API_KEY: elevenLabsKey, ELEVENLABS_VOICE_ID: elevenLabsVoice } = env;
+  const hasOpenAI = Boolean(env.OPENAI_API_KEY);
+  const hasElevenLabs = Boolean(elevenLabsKey && elevenLabsVoice);
+
+  const clients = new Map<'openai' | 'local', OpenAICompatibleClient | null>();
+  function client(kind: 'openai' | 'local') {
+    if (!clients.has(kind)) {
+      if (!createOpenAIClient) {
+        console.warn(`⚠️ No OpenAI client available for the ${kind} coach provider - disabled`);
+        clients.set(kind, null);
+      } else if (kind === 'openai') {
+        if (!env.OPENAI_API_KEY) {
+          console.warn('⚠️ Coach provider openai needs OPENAI_API_KEY - disabled');
+        }
+        clients.set(kind, env.OPENAI_API_KEY ? createOpenAIClient({ apiKey: env.OPENAI_API_KEY }) : null);
+      } else {
+        // Local servers ignore the key but the SDK insists on one
+        clients.set(kind, createOpenAIClient({ apiKey: env.COACH_LOCAL_API_KEY || 'local', baseURL: env.COACH_LOCAL_URL || DEFAULT_LOCAL_URL }));
+      }
+    }
+    return clients.get(kind) ?? null;
+  }
+
+  const chatKind = pick('COACH_CHAT_PROVIDER', env.COACH_CHAT_PROVIDER || env.COACH_PROVIDER || (hasOpenAI ? 'openai' : 'none'), CHAT_PROVIDERS);
+  const sttKind = pick('COACH_STT_PROVIDER', env.COACH_STT_PROVIDER || env.COACH_PROVIDER || (hasOpenAI ? 'openai' : 'none'), STT_PROVIDERS);
+  const ttsKind = pick('COACH_TTS_PROVIDER', env.COACH_TTS_PROVIDER || env.COACH_PROVIDER || (hasElevenLabs ? 'elevenlabs' : 'none'), TTS_PROVIDERS);
+
+  let chat: ChatModel | null = null;
+  if (chatKind === 'fake') {
+    chat = createFakeChatModel();
+  } else if (chatKind !== 'none') {
+    const chatClient = client(chatKind);
+    const model = env.COACH_CHAT_MODEL || (chatKind === 'openai' ? 'gpt-4o-mini' : 'local');
+    chat = chatClient && createOpenAIChatModel(chatClient, model, chatKind);
+    if (chat && env.COACH_CHAT_TOOLS === 'off') {
+      delete chat.streamWithTools;
+    }
+  }
+
+  let stt: SpeechToText | null = null;
+  if (sttKind === 'fake') {
+    stt = createFakeSpeechToText();
+  } else if (sttKind !== 'none') {
+    const sttClient = client(sttKind);
+    const model = env.COACH_STT_MODEL || (sttKind === 'openai' ? 'whisper-1' : 'whisper');
+    stt = sttClient && createOpenAISpeechToText(sttClient, model, sttKind);
+  }
+
+  let tts: TextToSpeech | null = null;
+  if (ttsKind === 'fake') {
+    tts = createFakeTextToSpeech();
+  } else if (ttsKind === 'elevenlabs') {
+    if (elevenLabsKey && elevenLabsVoice) {
+      tts = createElevenLabsTts({ apiKey: elevenLabsKey, voiceId: elevenLabsVoice });
+    } else {
+      console.warn('⚠️ Coach provider elevenlabs needs ELEVENLABS_API_KEY and ELEVENLABS_VOICE_ID - disabled');
+    }
+  } else if (ttsKind !== 'none') {
+    const ttsClient = client(ttsKind);
+    tts =
+      ttsClient &&
+      createOpenAITextToSpeech(ttsClient, {
+        model: env.COACH_TTS_MODEL || (ttsKind === 'openai' ? 'tts-1' : 'tts'),
+        voice: env.COACH_TTS_VOICE,
+        name: ttsKind,
+      });
+  }
+
+  console.log(`🔑 Coach providers: chat=${chat?.name ?? 'none'}, stt=${stt?.name ?? 'none'}, tts=${tts?.name ?? 'none'}`);
+  return { chat, stt, tts };
+}
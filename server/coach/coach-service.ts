@@ -0,0 +1,535 @@
+/**
+ * Coach Andy Service
+ *
+ * Everything behind `/api/vr-coach-chat` and `/api/vr-voice-chat`: the
+ * session's coach persona (coach-personas.ts - prompt and voice), prompt
+ * building with conversation memory, markdown stripping and
+ * the fallback lines when a provider is missing or fails. The chat model,
+ * speech-to-text and text-to-speech are pluggable (coach-providers.ts).
+ * Voice chat can also stream: partial transcript, reply tokens and audio a
+ * sentence at a time, so the headset starts talking before the reply is done.
+ * Utterances that are scene commands ("next video", voice-commands.ts) skip
+ * the chat model and come back as a typed command. With a technique library
+ * the model also gets tools (coach-tools.ts) to point at and play the videos
+ * around the wrestler; those calls come back as actions. The Express server
+ * and the serverless functions are thin adapters that parse the HTTP request and
+ * send back whatever this returns.
+ *
+ * No SDK imports - adapters pass in a factory for OpenAI clients (the backend
+ * and the functions pin different SDK versions).
+ */
+
+import {
+  conversationKey,
+  createConversationStore,
+  createModelSummarizer,
+  type ConversationStore,
+} from './coach-conversations.ts';
+import {
+  resolveCoachProviders,
+  type ChatCompletionOptions,
+  type ChatMessage,
+  type ChatModel,
+  type OpenAIClientFactory,
+  type SpeechToText,
+  type TextToSpeech,
+  type ToolCall,
+  type ToolChatMessage,
+} from './coach-providers.ts';
+import { COACH_PERSONAS, renderPersonaPrompt, resolveCoachPersona, type CoachPersona } from './coach-personas.ts';
+import { COACH_TOOL_GUIDE, COACH_TOOLS, runCoachTool } from './coach-tools.ts';
+import type { TechniqueSource } from './technique-catalog.ts';
+import type {
+  CoachAction,
+  CoachChatResponse,
+  CoachConversation,
+  CoachResetResponse,
+  CoachSession,
+  CoachVoiceResponse,
+  CoachVoiceStreamEvent,
+} from './coach-types.ts';
+import { describeSceneCommand, parseVoiceCommand } from './voice-commands.ts';
+
+/** What Coach Andy says when he can't say anything smarter */
+export const COACH_FALLBACKS = {
+  noModel: 'Keep working hard! That single leg setup needs to be faster - explode into it!',
+  emptyCompletion: 'Good work! Keep pushing yourself!',
+  chatError: "That's the spirit! Keep grinding and trust the process!",
+  noSpeech: "Didn't catch that. Speak louder!",
+  voiceError: 'Technical difficulties! Keep training!',
+  wakeOnly: "I'm here. What do you need?",
+} as const;
+
+// Filler words allowed before the wake phrase ("uh, hey coach")
+const WAKE_PHRASE_LEAD_WORDS = 2;
+const MAX_WAKE_PHRASE_LENGTH = 40;
+// Model calls per reply while it is still using tools
+const MAX_TOOL_ROUNDS = 3;
+const REPLY_OPTIONS: ChatCompletionOptions = { temperature: 0.8, maxTokens: 150 };
+
+/** Bad request body - `message` is safe to send back to the client */
+export class CoachRequestError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(message);
+    this.name = 'CoachRequestError';
+    this.path = path;
+  }
+}
+
+/** Models love markdown; TTS reads the asterisks out loud */
+export function stripMarkdown(text: string) {
+  return removeMarkdown(text).trim();
+}
+
+// Untrimmed, so streamed deltas keep the spaces between them
+function removeMarkdown(text: string) {
+  return text
+    .replace(/\*\*/g, '')
+    .replace(/\*/g, '')
+    .replace(/#{1,6}\s/g, '');
+}
+
+/**
+ * Splits finished sentences off the front of streamed text - a sentence ends
+ * at . ! or ? (plus any closing quote or bracket) followed by whitespace.
+ */
+export function takeSentences(text: string): { sentences: string[]; rest: string } {
+  const sentences: string[] = [];
+  const boundary = /[.!?]+["')\]]*\s+/g;
+  let start = 0;
+  for (let match = boundary.exec(text); match; match = boundary.exec(text)) {
+    const sentence = text.slice(start, match.index + match[0].length).trim();
+    if (sentence) sentences.push(sentence);
+    start = match.index + match[0].length;
+  }
+  return { sentences, rest: text.slice(start) };
+}
+
+/**
+ * What was said after the wake phrase, or null when the transcript doesn't
+ * start with it. Case and punctuation are ignored ("Hey, Coach!" matches
+ * "hey coach"), and a couple of filler words may come first.
+ */
+export function matchWakePhrase(transcript: string, wakePhrase: string): string | null {
+  const wanted = wakePhrase.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? [];
+  if (wanted.length === 0) return transcript.trim();
+
+  const words = [...transcript.matchAll(/[\p{L}\p{N}']+/gu)];
+  for (let start = 0; start <= WAKE_PHRASE_LEAD_WORDS && start + wanted.length <= words.length; start++) {
+    if (wanted.every((word, offset) => words[start + offset][0].toLowerCase() === word)) {
+      const last = words[start + wanted.length - 1];
+      return transcript
+        .slice((last.index ?? 0) + last[0].length)
+        .replace(/^[\s,.!?;:-]+/, '')
+        .trim();
+    }
+  }
+  return null;
+}
+
+/** Response headers for a voice chat event stream */
+export const COACH_STREAM_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // Stop nginx-style proxies from buffering the stream
+  'X-Accel-Buffering': 'no',
+} as const;
+
+/** One server-sent event, named after its type */
+export function formatServerSentEvent(event: CoachVoiceStreamEvent) {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+export interface CoachServiceOptions {
+  /** Null answers with the canned fallback */
+  chat: ChatModel | null;
+  stt?: SpeechToText | null;
+  tts?: TextToSpeech | null;
+  conversations?: ConversationStore;
+  /** Coaches to pick from per session; the first is the default */
+  personas?: CoachPersona[];
+  /** Technique library for "play <technique>" voice commands and the model's tools - no library, no tools */
+  techniques?: TechniqueSource;
+}
+
+export interface VoiceChatOptions {
+  /** Defaults to audio/webm */
+  mimeType?: string;
+  /** Only answer utterances that start with this, e.g. "hey coach" */
+  wakePhrase?: string;
+}
+
+export interface CoachService {
+  /** POST /api/vr-coach-chat - throws CoachRequestError on a bad body, never on provider failures */
+  chat(body: unknown): Promise<CoachChatResponse>;
+  /** POST /api/vr-voice-chat - throws CoachRequestError on empty audio, never on provider failures */
+  voiceChat(audio: Uint8Array | null | undefined, session: CoachSession, options?: VoiceChatOptions): Promise<CoachVoiceResponse>;
+  /**
+   * Streaming POST /api/vr-voice-chat: `emit` gets every event, ending with
+   * `done`. Throws CoachRequestError on empty audio before emitting anything.
+   */
+  streamVoiceChat(
+    audio: Uint8Array | null | undefined,
+    session: CoachSession,
+    emit: (event: CoachVoiceStreamEvent) => void,
+    options?: VoiceChatOptions
+  ): Promise<CoachVoiceResponse>;
+  getConversation(session: CoachSession): CoachConversation;
+  resetConversation(session: CoachSession): CoachResetResponse;
+}
+
+export function createCoachService({
+  chat,
+  stt = null,
+  tts = null,
+  conversations = createConversationStore(),
+  personas = COACH_PERSONAS,
+  techniques,
+}: CoachServiceOptions): CoachService {
+  // Runs the model with the coach tools until it answers in text. Lookups are
+  // answered here; scene actions are collected and passed to `onAction`
+  async function* toolReply(
+    model: ChatModel,
+    messages: ChatMessage[],
+    actions: CoachAction[],
+    onAction: (action: CoachAction) => void = () => {}
+  ): AsyncIterable<string> {
+    const library = techniques ? await techniques() : [];
+    const conversation: ToolChatMessage[] = [...messages];
+
+    for (let round = 0; round < MAX_TOOL_ROUNDS && model.streamWithTools; round++) {
+      let text = '';
+      const calls: ToolCall[] = [];
+      for await (const part of model.streamWithTools(conversation, COACH_TOOLS, REPLY_OPTIONS)) {
+        if (part.type === 'text') {
+          text += part.text;
+          yield part.text;
+        } else {
+          calls.push(part.call);
+        }
+      }
+      if (calls.length === 0) return;
+
+      conversation.push({ role: 'assistant', content: text, toolCalls: calls });
+      for (const call of calls) {
+        const { result, action } = runCoachTool(call, library);
+        console.log(`🛠️ Coach tool ${call.name} ${call.arguments} → ${action?.type ?? result.slice(0, 80)}`);
+        if (action) {
+          actions.push(action);
+          onAction(action);
+        }
+        conversation.push({ role: 'tool', toolCallId: call.id, content: result });
+      }
+    }
+  }
+
+  // The persona's prompt lists its techniques as they are in the library now.
+  // Tools need a library to talk about and a model that can call them
+  // Outside a room there's no memory: just the prompt and the message
+  async function buildReplyMessages(model: ChatModel, session: CoachSession, key: string | null, message: string) {
+    const persona = resolveCoachPersona(session, personas);
+    const prompt = renderPersonaPrompt(persona, techniques ? await techniques() : []);
+    const withTools = Boolean(techniques && model.streamWithTools);
+    const system = withTools ? `${prompt}\n\n${COACH_TOOL_GUIDE}` : prompt;
+    const messages: ChatMessage[] = key
+      ? conversations.buildMessages(key, system, message)
+      : [
+          { role: 'system', content: system },
+          { role: 'user', content: message },
+        ];
+    return { persona, withTools, messages };
+  }
+
+  async function reply(model: ChatModel, session: CoachSession, message: string) {
+    const key = conversationKey(session.userId, session.room);
+    const { persona, withTools, messages } = await buildReplyMessages(model, session, key, message);
+    const actions: CoachAction[] = [];
+
+    let completion = '';
+    if (withTools) {
+      for await (const delta of toolReply(model, messages, actions)) completion += delta;
+      completion = completion.trim();
+    } else {
+      completion = await model.complete(messages, REPLY_OPTIONS);
+    }
+    const response = stripMarkdown(completion || COACH_FALLBACKS.emptyCompletion);
+
+    console.log(`💬 ${persona.name}: "${message}" → "${response}"`);
+    if (key) await conversations.append(key, message, response);
+    return { response, actions };
+  }
+
+  // In the session's coach's own voice, when he has one for this provider
+  function speechOptions(session: CoachSession) {
+    return { voice: tts ? resolveCoachPersona(session, personas).voices?.[tts.name] : undefined };
+  }
+
+  async function speak(text: string, session: CoachSession) {
+    return tts ? tts.synthesize(text, speechOptions(session)) : null;
+  }
+
+  function checkAudio(audio: Uint8Array | null | undefined): asserts audio is Uint8Array {
+    if (!audio || audio.length === 0) {
+      throw new CoachRequestError('audio', 'No audio data received');
+    }
+    console.log('🎤 Received audio data:', audio.length, 'bytes');
+  }
+
+  // Voices each sentence as soon as it is complete; synthesis runs in
+  // parallel but audio events go out in sentence order
+  function sentenceSpeaker(session: CoachSession, emit: (event: CoachVoiceStreamEvent) => void) {
+    const options = speechOptions(session);
+    let pending = '';
+    let index = 0;
+    let spoken = Promise.resolve();
+
+    function say(sentence: string) {
+      if (!tts) return;
+      const audio = tts.synthesize(sentence, options).catch((error) => {
+        console.error('❌ Sentence speech error:', error);
+        return null;
+      });
+      const position = index++;
+      spoken = spoken.then(async () => {
+        const audioUrl = await audio;
+        if (audioUrl) emit({ type: 'audio', index: position, text: sentence, audioUrl });
+      });
+    }
+
+    return {
+      push(text: string) {
+        const { sentences, rest } = takeSentences(pending + text);
+        pending = rest;
+        sentences.forEach(say);
+      },
+      async finish() {
+        if (pending.trim()) say(pending.trim());
+        pending = '';
+        await spoken;
+      },
+    };
+  }
+
+  async function streamReply(
+    model: ChatModel,
+    session: CoachSession,
+    message: string,
+    emit: (event: CoachVoiceStreamEvent) => void
+  ) {
+    const key = conversationKey(session.userId, session.room);
+    const { persona, withTools, messages } = await buildReplyMessages(model, session, key, message);
+    const actions: CoachAction[] = [];
+    const speaker = sentenceSpeaker(session, emit);
+    let text = '';
+
+    // Actions go out as soon as they're known, so the card lights up while he talks
+    const deltas = withTools
+      ? toolReply(model, messages, actions, (action) => emit({ type: 'action', action }))
+      : model.stream
+        ? model.stream(messages, REPLY_OPTIONS)
+        : [await model.complete(messages, REPLY_OPTIONS)];
+    for await (const delta of deltas) {
+      const clean = removeMarkdown(delta);
+      if (!clean) continue;
+      text += clean;
+      emit({ type: 'token', text: clean });
+      speaker.push(clean);
+    }
+
+    let response = text.trim();
+    if (!response) {
+      response = COACH_FALLBACKS.emptyCompletion;
+      emit({ type: 'token', text: response });
+      speaker.push(response);
+    }
+    await speaker.finish();
+
+    console.log(`💬 ${persona.name} (streamed): "${message}" → "${response}"`);
+    if (key) await conversations.append(key, message, response);
+    return { response, actions };
+  }
+
+  // Leaves `actions` out of the body when there were none
+  function withActions<T extends CoachChatResponse>(result: T, actions: CoachAction[]): T {
+    return actions.length > 0 ? { ...result, actions } : result;
+  }
+
+  async function streamTranscript(
+    recognizer: SpeechToText,
+    audio: Uint8Array,
+    mimeType: string,
+    emit: (event: CoachVoiceStreamEvent) => void
+  ) {
+    if (!recognizer.transcribeStream) {
+      return recognizer.transcribe(audio, mimeType);
+    }
+    let transcript = '';
+    for await (const delta of recognizer.transcribeStream(audio, mimeType)) {
+      transcript += delta;
+      emit({ type: 'transcript', text: transcript.trim(), final: false });
+    }
+    return transcript.trim();
+  }
+
+  // Null when the utterance should be answered as is, otherwise the short
+  // answer for a missing wake phrase or one said on its own
+  async function checkWakePhrase(heard: string, wakePhrase: string | undefined, session: CoachSession) {
+    const phrase = wakePhrase?.trim().slice(0, MAX_WAKE_PHRASE_LENGTH);
+    if (!phrase) return { transcript: heard, answer: null };
+
+    const question = matchWakePhrase(heard, phrase);
+    if (question === null) {
+      console.log(`💤 No wake phrase in "${heard}" - ignored`);
+      return { transcript: '', answer: { transcript: '', response: '', audioUrl: null, ignored: true } };
+    }
+    if (!question) {
+      const response = COACH_FALLBACKS.wakeOnly;
+      return { transcript: '', answer: { transcript: '', response, audioUrl: await speak(response, session) } };
+    }
+    return { transcript: question, answer: null };
+  }
+
+  // Scene commands aren't conversation - they stay out of the memory and aren't voiced
+  async function checkCommand(transcript: string): Promise<CoachVoiceResponse | null> {
+    const library = techniques ? await techniques() : [];
+    const command = parseVoiceCommand(transcript, library);
+    if (!command) return null;
+
+    const response = describeSceneCommand(command, library);
+    console.log(`🎬 Scene command: "${transcript}" →`, command);
+    return { transcript, response, audioUrl: null, command };
+  }
+
+  return {
+    async chat(body) {
+      const { message, userId, room, persona } = (body ?? {}) as Partial<
+        Record<'message' | 'userId' | 'room' | 'persona', unknown>
+      >;
+      if (typeof message !== 'string' || message.trim().length === 0) {
+        throw new CoachRequestError('message', 'Message is required');
+      }
+      const session = {
+        userId: typeof userId === 'string' ? userId : undefined,
+        room: typeof room === 'string' ? room : undefined,
+        persona: typeof persona === 'string' ? persona : undefined,
+      };
+
+      if (!chat) {
+        console.error('Coach chat model not configured');
+        return { response: COACH_FALLBACKS.noModel, audioUrl: null };
+      }
+
+      try {
+        const { response, actions } = await reply(chat, session, message);
+        return withActions({ response, audioUrl: await speak(response, session) }, actions);
+      } catch (error) {
+        console.error('❌ Coach chat error:', error);
+        return { response: COACH_FALLBACKS.chatError, audioUrl: null };
+      }
+    },
+
+    async voiceChat(audio, session, { mimeType = 'audio/webm', wakePhrase } = {}) {
+      checkAudio(audio);
+
+      if (!chat || !stt) {
+        console.error('Speech-to-text or chat model not configured');
+        return { transcript: '', response: COACH_FALLBACKS.voiceError, audioUrl: null };
+      }
+
+      try {
+        const heard = await stt.transcribe(audio, mimeType);
+        console.log(`🗣️ ${stt.name} transcription:`, heard);
+        if (!heard) {
+          return { transcript: '', response: COACH_FALLBACKS.noSpeech, audioUrl: null };
+        }
+        const { transcript, answer } = await checkWakePhrase(heard, wakePhrase, session);
+        if (answer) return answer;
+        const command = await checkCommand(transcript);
+        if (command) return command;
+
+        const { response, actions } = await reply(chat, session, transcript);
+        return withActions({ transcript, response, audioUrl: await speak(response, session) }, actions);
+      } catch (error) {
+        console.error('❌ Voice chat error:', error);
+        return { transcript: '', response: COACH_FALLBACKS.voiceError, audioUrl: null };
+      }
+    },
+
+    async streamVoiceChat(audio, session, emit, { mimeType = 'audio/webm', wakePhrase } = {}) {
+      checkAudio(audio);
+      const finish = (result: CoachVoiceResponse) => {
+        emit({ type: 'done', ...result });
+        return result;
+      };
+
+      if (!chat || !stt) {
+        console.error('Speech-to-text or chat model not configured');
+        return finish({ transcript: '', response: COACH_FALLBACKS.voiceError, audioUrl: null });
+      }
+
+      try {
+        // Partial text is only worth showing once we know Coach Andy will answer
+        const heard = wakePhrase
+          ? await stt.transcribe(audio, mimeType)
+          : await streamTranscript(stt, audio, mimeType, emit);
+        console.log(`🗣️ ${stt.name} transcription:`, heard);
+        if (!heard) {
+          return finish({ transcript: '', response: COACH_FALLBACKS.noSpeech, audioUrl: null });
+        }
+        const { transcript, answer } = await checkWakePhrase(heard, wakePhrase, session);
+        if (answer) return finish(answer);
+        emit({ type: 'transcript', text: transcript, final: true });
+        const command = await checkCommand(transcript);
+        if (command) return finish(command);
+
+        const { response, actions } = await streamReply(chat, session, transcript, emit);
+        return finish(withActions({ transcript, response, audioUrl: null }, actions));
+      } catch (error) {
+        console.error('❌ Voice chat stream error:', error);
+        return finish({ transcript: '', response: COACH_FALLBACKS.voiceError, audioUrl: null });
+      }
+    },
+
+    getConversation(session) {
+      const key = conversationKey(session.userId, session.room);
+      if (!key) return { summary: null, messages: [] };
+      const { summary, messages } = conversations.get(key);
+      return { summary, messages };
+    },
+
+    resetConversation(session) {
+      const key = conversationKey(session.userId, session.room);
+      if (key) {
+        conversations.reset(key);
+        console.log(`🧹 Reset Coach Andy conversation ${key}`);
+      }
+      return { success: true };
+    },
+  };
+}
+
+/**
+ * Service wired from environment variables - providers as described in
+ * coach-providers.ts. Conversation summaries go through the chat model when
+ * it is a real one. `techniques` feeds voice commands that name a video and
+ * the personas' technique lists, and turns on the model's tools.
+ */
+export function createCoachServiceFromEnv(
+  env: Record<string, string | undefined>,
+  createOpenAIClient: OpenAIClientFactory | null,
+  techniques?: TechniqueSource
+): CoachService {
+  const { chat, stt, tts } = resolveCoachProviders(env, createOpenAIClient);
+
+  return createCoachService({
+    chat,
+    stt,
+    tts,
+    techniques,
+    // The fake model would only echo the transcript back
+    conversations: createConversationStore(chat && chat.name !== 'fake' ? { summarize: createModelSummarizer(chat) } : {}),
+  });
+}
@@ -0,0 +1,164 @@
+/**
+ * Coach Andy Tools
+ *
+ * What the chat model can do besides talk: look up the technique videos
+ * around the wrestler, point at one, play one (from a timestamp, in slow
+ * motion) and start a rep-counted drill. Lookups are answered here; the rest
+ * become CoachActions for the headset to carry out. Arguments are checked
+ * against the library first, so a made-up id is an error the model can
+ * recover from rather than a card that never lights up.
+ */
+
+import type { ChatTool, ToolCall } from './coach-providers.ts';
+import type { CoachAction } from './coach-types.ts';
+import { searchTechniques, type TechniqueRef } from './technique-catalog.ts';
+
+/** Added to the persona whenever the tools are offered */
+export const COACH_TOOL_GUIDE = `**The Room:**
+- The technique videos around the wrestler are real cards - call list_techniques to see which exist
+- Only talk about videos list_techniques returned; never invent one
+- When a video helps, highlight_card it or play_card it (slow it down, or start at the key moment) while you explain
+- start_drill starts a rep-counted drill the wrestler does in front of the camera
+- Say titles, never ids - everything you write is spoken out loud`;
+
+// Same ids as DRILL_IDS in src/lib/drills/rep-counter.ts
+export const COACH_DRILL_IDS = ['stance-motion', 'sprawl', 'level-change', 'penetration-step'] as const;
+
+const PLAYBACK_RATES = [0.25, 0.5, 1] as const;
+const MAX_LISTED = 40;
+const MAX_SETS = 10;
+const MAX_TARGET_REPS = 50;
+
+const TECHNIQUE_ID = { type: 'string', description: 'Technique id from list_techniques' };
+
+export const COACH_TOOLS: ChatTool[] = [
+  {
+    name: 'list_techniques',
+    description: 'Technique videos on the cards around the wrestler: id, title, category and tags.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Words from the title, category or tags, e.g. "leg camp 5". Leave out to list everything.',
+        },
+      },
+    },
+  },
+  {
+    name: 'highlight_card',
+    description: "Make a technique card glow and turn the wrestler's view towards it.",
+    parameters: {
+      type: 'object',
+      properties: { techniqueId: TECHNIQUE_ID },
+      required: ['techniqueId'],
+    },
+  },
+  {
+    name: 'play_card',
+    description: 'Play a technique video, optionally from a time and in slow motion. Stops the video playing before it.',
+    parameters: {
+      type: 'object',
+      properties: {
+        techniqueId: TECHNIQUE_ID,
+        startSeconds: { type: 'number', minimum: 0, description: 'Where to start, in seconds' },
+        rate: { type: 'number', enum: [...PLAYBACK_RATES], description: 'Playback speed; 1 is normal' },
+      },
+      required: ['techniqueId'],
+    },
+  },
+  {
+    name: 'start_drill',
+    description: 'Start a rep-counted drill on the drill counter - the camera counts the reps.',
+    parameters: {
+      type: 'object',
+      properties: {
+        drillId: { type: 'string', enum: [...COACH_DRILL_IDS] },
+        sets: { type: 'integer', minimum: 1, maximum: MAX_SETS },
+        targetReps: { type: 'integer', minimum: 1, maximum: MAX_TARGET_REPS },
+      },
+      required: ['drillId'],
+    },
+  },
+];
+
+export interface CoachToolOutcome {
+  /** Sent back to the model as the call's result */
+  result: string;
+  /** What the headset should do, when the call was for the scene */
+  action: CoachAction | null;
+}
+
+function failed(message: string): CoachToolOutcome {
+  return { result: `Error: ${message}`, action: null };
+}
+
+function done(result: string, action: CoachAction): CoachToolOutcome {
+  return { result, action };
+}
+
+function wholeNumber(value: unknown, max: number) {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(1, Math.round(value))) : undefined;
+}
+
+/** Runs one tool call from the model; never throws */
+export function runCoachTool(call: ToolCall, techniques: TechniqueRef[]): CoachToolOutcome {
+  let args: Record<string, unknown>;
+  try {
+    args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+  } catch {
+    return failed('arguments are not valid JSON');
+  }
+  if (!args || typeof args !== 'object') {
+    return failed('arguments must be an object');
+  }
+
+  if (call.name === 'list_techniques') {
+    const query = typeof args.query === 'string' ? args.query : '';
+    const found = searchTechniques(query, techniques);
+    return {
+      result: JSON.stringify({ total: found.length, techniques: found.slice(0, MAX_LISTED) }),
+      action: null,
+    };
+  }
+
+  if (call.name === 'start_drill') {
+    const drillId = COACH_DRILL_IDS.find((id) => id === args.drillId);
+    if (!drillId) return failed(`drillId must be one of ${COACH_DRILL_IDS.join(', ')}`);
+    const sets = wholeNumber(args.sets, MAX_SETS);
+    const targetReps = wholeNumber(args.targetReps, MAX_TARGET_REPS);
+    return done(`Started ${drillId} on the drill counter`, {
+      type: 'start-drill',
+      drillId,
+      ...(sets !== undefined && { sets }),
+      ...(targetReps !== undefined && { targetReps }),
+    });
+  }
+
+  if (call.name !== 'highlight_card' && call.name !== 'play_card') {
+    return failed(`unknown tool ${call.name}`);
+  }
+  const technique = techniques.find((entry) => entry.id === args.techniqueId);
+  if (!technique) {
+    return failed(`no technique with id ${JSON.stringify(args.techniqueId)} - call list_techniques for the ids`);
+  }
+
+  if (call.name === 'highlight_card') {
+    return done(`${technique.title} is glowing and the wrestler is looking at it`, {
+      type: 'highlight-card',
+      techniqueId: technique.id,
+    });
+  }
+
+  const startSeconds =
+    typeof args.startSeconds === 'number' && Number.isFinite(args.startSeconds) && args.startSeconds > 0
+      ? args.startSeconds
+      : undefined;
+  const rate = PLAYBACK_RATES.find((value) => value === args.rate);
+  return done(`${technique.title} is playing${rate && rate !== 1 ? ` at ${rate}x` : ''}`, {
+    type: 'play-card',
+    techniqueId: technique.id,
+    ...(startSeconds !== undefined && { startSeconds }),
+    ...(rate !== undefined && { rate }),
+  });
+}
@@ -0,0 +1,110 @@
+/**
+ * Coach Andy API Types
+ *
+ * Request and response bodies for `/api/vr-coach-chat` and
+ * `/api/vr-voice-chat`, shared by the coach service, its Express and
+ * serverless adapters and the React chat cards. Types only - safe to import
+ * from the browser bundle.
+ */
+
+export interface CoachChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/** Who is talking - Coach Andy keeps one conversation per user per room, none outside a room */
+export interface CoachSession {
+  userId?: string;
+  room?: string;
+  /** Coach persona id (coach-personas.ts); the room's coach or the default when left out */
+  persona?: string;
+}
+
+/** POST /api/vr-coach-chat */
+export interface CoachChatRequest extends CoachSession {
+  message: string;
+}
+
+/**
+ * Something Coach Andy does in the scene while he talks - the model's tool
+ * calls, checked against the technique library and carried out by the
+ * headset. Technique ids are card ids.
+ */
+export type CoachAction =
+  | { type: 'highlight-card'; techniqueId: string }
+  | { type: 'play-card'; techniqueId: string; startSeconds?: number; rate?: 0.25 | 0.5 | 1 }
+  | { type: 'start-drill'; drillId: string; sets?: number; targetReps?: number };
+
+export interface CoachChatResponse {
+  response: string;
+  /** Coach Andy's voice as a data URL, when TTS is configured */
+  audioUrl: string | null;
+  /** Cards to point at, videos to play, drills to start - in the order he asked */
+  actions?: CoachAction[];
+}
+
+/** Layouts a voice command can switch the technique cards to */
+export type SceneLayoutMode = 'ring' | 'arc' | 'wall' | 'carousel';
+
+/**
+ * A spoken instruction for the VR scene rather than a question for Coach
+ * Andy ("play leg camp five", "slow it down", "arrange as wall"). The
+ * headset carries it out; `play-technique` names a card by technique id.
+ */
+export type SceneCommand =
+  | { type: 'play-technique'; techniqueId: string }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'restart' }
+  | { type: 'speed'; rate: 0.25 | 0.5 | 1 }
+  | { type: 'speed'; change: 'slower' | 'faster' }
+  | { type: 'next-video' }
+  | { type: 'previous-video' }
+  | { type: 'arrange'; mode: SceneLayoutMode }
+  | { type: 'screenshot' }
+  | { type: 'mirror' };
+
+/**
+ * POST /api/vr-voice-chat - the body is the recorded audio, the session goes
+ * in the query string, plus `wake=<phrase>` to only answer when addressed
+ */
+export interface CoachVoiceResponse extends CoachChatResponse {
+  /** What the wrestler said, minus any wake phrase; empty when nothing was understood */
+  transcript: string;
+  /** Wake phrase required but not said - Coach Andy wasn't being talked to */
+  ignored?: boolean;
+  /** The utterance was a scene command - `response` is its short confirmation, not a chat reply */
+  command?: SceneCommand;
+}
+
+/**
+ * POST /api/vr-voice-chat with `Accept: text/event-stream` - one server-sent
+ * event per message, the event name matching `type`. Audio arrives a
+ * sentence at a time while the rest of the reply is still generating, and
+ * actions as soon as the model asks for them (they are in `done` too); `done`
+ * closes the stream with the whole exchange (its `audioUrl` is always null).
+ */
+export type CoachVoiceStreamEvent =
+  | { type: 'transcript'; text: string; final: boolean }
+  | { type: 'token'; text: string }
+  | { type: 'audio'; index: number; text: string; audioUrl: string }
+  | { type: 'action'; action: CoachAction }
+  | ({ type: 'done' } & CoachVoiceResponse)
+  | { type: 'error'; error: string };
+
+/** GET /api/vr-coach-chat?userId=…&room=… */
+export interface CoachConversation {
+  /** Older turns folded into a summary, if any */
+  summary: string | null;
+  messages: CoachChatTurn[];
+}
+
+/** DELETE /api/vr-coach-chat?userId=…&room=… */
+export interface CoachResetResponse {
+  success: true;
+}
+
+/** Any 4xx body */
+export interface CoachErrorResponse {
+  error: string;
+}
@@ -0,0 +1,165 @@
+/**
+ * Technique Catalog
+ *
+ * The technique library as the coach sees it: id, title, category and tags
+ * from the same manifest `/api/techniques` serves. Voice commands use it to
+ * turn "play leg camp five" into a card id, and Coach Andy's tools to find
+ * the videos he talks about. The file is re-read at most every `maxAgeMs`,
+ * so new clips show up without a restart. It is checked with the schema the
+ * headset uses (technique-manifest.ts), so the coach never offers a clip the
+ * cards left out.
+ */
+
+import { readFile } from 'fs/promises';
+import { parseTechniqueManifest, type TechniqueManifest } from './technique-manifest.ts';
+
+export interface TechniqueRef {
+  id: string;
+  title: string;
+  category: string;
+  tags: string[];
+}
+
+/** Where the coach service gets the technique library from */
+export type TechniqueSource = () => Promise<TechniqueRef[]>;
+
+const DEFAULT_MAX_AGE_MS = 30_000;
+
+const ONES: Record<string, number> = {
+  zero: 0,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+};
+
+const TEENS: Record<string, number> = {
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  thirteen: 13,
+  fourteen: 14,
+  fifteen: 15,
+  sixteen: 16,
+  seventeen: 17,
+  eighteen: 18,
+  nineteen: 19,
+};
+
+const TENS: Record<string, number> = { twenty: 20, thirty: 30, forty: 40, fifty: 50 };
+
+// Words in a technique request that don't name the technique
+const TARGET_FILLERS = new Set(['the', 'a', 'an', 'me', 'video', 'clip', 'technique', 'number', 'no', 'of', 'that']);
+
+/** Lower case words, punctuation dropped - "Leg Camp #5" → leg, camp, 5 */
+export function normalizeWords(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+/** "twenty two" → "22", "five" → "5"; anything else is left alone */
+function spellNumbers(said: string[]) {
+  const result: string[] = [];
+  for (let index = 0; index < said.length; index++) {
+    const word = said[index];
+    if (word in TENS) {
+      const next = said[index + 1];
+      const ones = next !== undefined && next in ONES && ONES[next] > 0 ? ONES[next] : 0;
+      if (ones) index++;
+      result.push(String(TENS[word] + ones));
+    } else if (word in TEENS) {
+      result.push(String(TEENS[word]));
+    } else if (word in ONES) {
+      result.push(String(ONES[word]));
+    } else {
+      result.push(word);
+    }
+  }
+  return result;
+}
+
+function techniqueWords(technique: TechniqueRef) {
+  return new Set([
+    ...normalizeWords(technique.title),
+    ...normalizeWords(technique.category),
+    ...technique.tags.flatMap((tag) => normalizeWords(tag.replace(/[-_]/g, ' '))),
+    ...normalizeWords(technique.id.replace(/[-_]/g, ' ')),
+  ]);
+}
+
+/**
+ * The technique every spoken word points at - "leg camp five" is Leg Camp
+ * #5, not #15. When several match, the one whose title says the most of
+ * it (and the least else) wins.
+ */
+export function findTechnique(name: string, techniques: TechniqueRef[]): TechniqueRef | null {
+  const wanted = spellNumbers(normalizeWords(name)).filter((word) => !TARGET_FILLERS.has(word));
+  if (wanted.length === 0) return null;
+
+  let best: { technique: TechniqueRef; score: number } | null = null;
+  for (const technique of techniques) {
+    if (!wanted.every((word) => techniqueWords(technique).has(word))) continue;
+
+    const title = normalizeWords(technique.title);
+    const score = wanted.filter((word) => title.includes(word)).length * 100 - title.length;
+    if (!best || score > best.score) {
+      best = { technique, score };
+    }
+  }
+  return best?.technique ?? null;
+}
+
+/** Every technique all the words in `query` point at, in library order; no words lists everything */
+export function searchTechniques(query: string, techniques: TechniqueRef[]): TechniqueRef[] {
+  const wanted = spellNumbers(normalizeWords(query)).filter((word) => !TARGET_FILLERS.has(word));
+  return techniques.filter((technique) => {
+    const known = techniqueWords(technique);
+    return wanted.every((word) => known.has(word));
+  });
+}
+
+/**
+ * The techniques in a parsed manifest file. Entries the headset would skip
+ * are skipped here too; a manifest it would reject throws
+ * `TechniqueManifestError`.
+ */
+export function readTechniqueRefs(manifest: unknown): TechniqueRef[] {
+  return parseTechniqueManifest(manifest).techniques.map(({ id, title, category, tags }) => ({
+    id,
+    title,
+    category,
+    tags,
+  }));
+}
+
+/** The manifest file as `/api/techniques` serves it: checked, with invalid entries left out */
+export async function readTechniqueManifest(path: string | URL): Promise<TechniqueManifest> {
+  return parseTechniqueManifest(JSON.parse(await readFile(path, 'utf8')));
+}
+
+/** Reads the manifest file; a missing or broken file is an empty library, not an error */
+export function loadTechniqueCatalog(path: string | URL, maxAgeMs = DEFAULT_MAX_AGE_MS): TechniqueSource {
+  let cached: { techniques: TechniqueRef[]; loadedAt: number } | null = null;
+
+  return async () => {
+    if (cached && Date.now() - cached.loadedAt < maxAgeMs) {
+      return cached.techniques;
+    }
+    try {
+      const techniques = readTechniqueRefs(JSON.parse(await readFile(path, 'utf8')));
+      cached = { techniques, loadedAt: Date.now() };
+      return techniques;
+    } catch (error) {
+      console.error('❌ Error loading technique catalog:', error);
+      return cached?.techniques ?? [];
+    }
+  };
+}
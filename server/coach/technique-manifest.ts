@@ -0,0 +1,211 @@
+/**
+ * Technique Manifest
+ *
+ * Schema of the technique video library (`public/technique-manifest.json`),
+ * shared by everything that reads it: the headset before it lays out the
+ * cards (src/lib/techniques/technique-manifest.ts), `/api/techniques` before
+ * it serves the file and the coach's technique catalog. All three accept,
+ * skip and reject the same entries.
+ */
+
+export const TECHNIQUE_MANIFEST_VERSION = 1;
+
+export const TECHNIQUE_CATEGORIES = [
+  'takedown',
+  'defense',
+  'escape',
+  'reversal',
+  'turn',
+  'pin',
+  'drill',
+  'uncategorized',
+] as const;
+
+export type TechniqueCategory = (typeof TECHNIQUE_CATEGORIES)[number];
+
+/** Where the match is when the technique starts */
+export const TECHNIQUE_POSITIONS = ['neutral', 'top', 'bottom'] as const;
+
+export type TechniquePosition = (typeof TECHNIQUE_POSITIONS)[number];
+
+export const TECHNIQUE_DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const;
+
+export type TechniqueDifficulty = (typeof TECHNIQUE_DIFFICULTIES)[number];
+
+export interface TechniqueEntry {
+  id: string;
+  title: string;
+  category: TechniqueCategory;
+  /** null until the clip has been tagged */
+  position: TechniquePosition | null;
+  difficulty: TechniqueDifficulty | null;
+  /** Weight class the clip targets, or 'all' */
+  weightClass: string;
+  tags: string[];
+  streamUrl: string;
+  thumbnailUrl: string | null;
+  /** Pre-extracted reference keypoints; defaults to /pose-tracks/<id>.json */
+  poseTrackUrl: string | null;
+  durationSeconds: number | null;
+}
+
+export interface TechniqueManifest {
+  version: number;
+  techniques: TechniqueEntry[];
+}
+
+export class TechniqueManifestError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'TechniqueManifestError';
+    this.path = path;
+  }
+}
+
+type FieldReader<T> = (value: unknown, path: string) => T;
+
+const readString: FieldReader<string> = (value, path) => {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new TechniqueManifestError(path, 'expected a non-empty string');
+  }
+  return value.trim();
+};
+
+const readUrl: FieldReader<string> = (value, path) => {
+  const raw = readString(value, path);
+  try {
+    // Relative URLs are allowed for clips hosted alongside the app
+    new URL(raw, 'http://localhost');
+  } catch {
+    throw new TechniqueManifestError(path, `invalid URL "${raw}"`);
+  }
+  return raw;
+};
+
+const readOptionalUrl: FieldReader<string | null> = (value, path) =>
+  value === undefined || value === null ? null : readUrl(value, path);
+
+const readOptionalDuration: FieldReader<number | null> = (value, path) => {
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new TechniqueManifestError(path, 'expected a positive number of seconds');
+  }
+  return value;
+};
+
+const readCategory: FieldReader<TechniqueCategory> = (value, path) => {
+  const raw = readString(value, path);
+  if (!(TECHNIQUE_CATEGORIES as readonly string[]).includes(raw)) {
+    throw new TechniqueManifestError(
+      path,
+      `unknown category "${raw}" (expected one of ${TECHNIQUE_CATEGORIES.join(', ')})`
+    );
+  }
+  return raw as TechniqueCategory;
+};
+
+function optionalEnumReader<T extends string>(values: readonly T[], label: string): FieldReader<T | null> {
+  return (value, path) => {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    const raw = readString(value, path);
+    if (!(values as readonly string[]).includes(raw)) {
+      throw new TechniqueManifestError(path, `unknown ${label} "${raw}" (expected one of ${values.join(', ')})`);
+    }
+    return raw as T;
+  };
+}
+
+const readOptionalPosition = optionalEnumReader(TECHNIQUE_POSITIONS, 'position');
+const readOptionalDifficulty = optionalEnumReader(TECHNIQUE_DIFFICULTIES, 'difficulty');
+
+const readTags: FieldReader<string[]> = (value, path) => {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new TechniqueManifestError(path, 'expected an array of strings');
+  }
+  return value.map((tag, index) => readString(tag, `${path}[${index}]`).toLowerCase());
+};
+
+function readTechnique(value: unknown, path: string): TechniqueEntry {
+  if (!value || typeof value !== 'object') {
+    throw new TechniqueManifestError(path, 'expected an object');
+  }
+
+  const entry = value as Record<string, unknown>;
+
+  return {
+    id: readString(entry.id, `${path}.id`),
+    title: readString(entry.title, `${path}.title`),
+    category: readCategory(entry.category ?? 'uncategorized', `${path}.category`),
+    position: readOptionalPosition(entry.position, `${path}.position`),
+    difficulty: readOptionalDifficulty(entry.difficulty, `${path}.difficulty`),
+    weightClass:
+      entry.weightClass === undefined ? 'all' : readString(entry.weightClass, `${path}.weightClass`),
+    tags: readTags(entry.tags, `${path}.tags`),
+    streamUrl: readUrl(entry.streamUrl, `${path}.streamUrl`),
+    thumbnailUrl: readOptionalUrl(entry.thumbnailUrl, `${path}.thumbnailUrl`),
+    poseTrackUrl: readOptionalUrl(entry.poseTrackUrl, `${path}.poseTrackUrl`),
+    durationSeconds: readOptionalDuration(entry.durationSeconds, `${path}.durationSeconds`),
+  };
+}
+
+/**
+ * Validate raw JSON against the manifest schema.
+ *
+ * Throws `TechniqueManifestError` for structural problems (wrong version,
+ * missing array, duplicate ids). Individual malformed entries are skipped and
+ * reported through `onInvalidEntry` so one bad clip doesn't blank the library.
+ */
+export function parseTechniqueManifest(
+  raw: unknown,
+  onInvalidEntry: (error: TechniqueManifestError) => void = (error) =>
+    console.warn('[TECHNIQUES] Skipping invalid manifest entry:', error.message)
+): TechniqueManifest {
+  if (!raw || typeof raw !== 'object') {
+    throw new TechniqueManifestError('manifest', 'expected an object');
+  }
+
+  const manifest = raw as Record<string, unknown>;
+
+  if (manifest.version !== TECHNIQUE_MANIFEST_VERSION) {
+    throw new TechniqueManifestError(
+      'manifest.version',
+      `unsupported version ${String(manifest.version)} (expected ${TECHNIQUE_MANIFEST_VERSION})`
+    );
+  }
+
+  if (!Array.isArray(manifest.techniques)) {
+    throw new TechniqueManifestError('manifest.techniques', 'expected an array');
+  }
+
+  const seenIds = new Set<string>();
+  const techniques: TechniqueEntry[] = [];
+
+  manifest.techniques.forEach((value, index) => {
+    const path = `manifest.techniques[${index}]`;
+    try {
+      const technique = readTechnique(value, path);
+      if (seenIds.has(technique.id)) {
+        throw new TechniqueManifestError(`${path}.id`, `duplicate id "${technique.id}"`);
+      }
+      seenIds.add(technique.id);
+      techniques.push(technique);
+    } catch (error) {
+      if (error instanceof TechniqueManifestError) {
+        onInvalidEntry(error);
+        return;
+      }
+      throw error;
+    }
+  });
+
+  return { version: TECHNIQUE_MANIFEST_VERSION, techniques };
+}
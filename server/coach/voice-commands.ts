@@ -0,0 +1,169 @@
+/**
+ * Voice Commands
+ *
+ * Grammar that picks scene commands out of voice transcripts - "play leg
+ * camp five", "slow it down", "next video", "arrange as wall", "take a
+ * screenshot". The whole utterance has to be the command (give or take
+ * "please", "can you" and the like), so "show me how to finish a double
+ * leg" still goes to Coach Andy. Technique names are matched against the
+ * catalog; a name that matches nothing is a question, not a command.
+ */
+
+import type { SceneCommand, SceneLayoutMode } from './coach-types.ts';
+import { findTechnique, normalizeWords, type TechniqueRef } from './technique-catalog.ts';
+
+// Politeness and addressing around a command, stripped from either end
+const LEADING_FILLERS = [
+  'hey coach',
+  'coach',
+  'ok',
+  'okay',
+  'please',
+  'can you',
+  'could you',
+  'would you',
+  'will you',
+  'go ahead and',
+  "let's",
+  'lets',
+  'i want to',
+  'i wanna',
+  "i'd like to",
+  'just',
+].map((filler) => filler.split(' '));
+
+const TRAILING_FILLERS = ['please', 'coach', 'for me', 'now', 'thanks', 'thank you'].map((filler) =>
+  filler.split(' ')
+);
+
+const LAYOUT_WORDS: Record<string, SceneLayoutMode> = {
+  ring: 'ring',
+  circle: 'ring',
+  arc: 'arc',
+  wall: 'wall',
+  grid: 'wall',
+  carousel: 'carousel',
+};
+
+const SPEED_RATES: Record<string, 0.25 | 0.5 | 1> = {
+  quarter: 0.25,
+  half: 0.5,
+  normal: 1,
+  full: 1,
+  regular: 1,
+};
+
+const IT = '(?: (?:it|that|this|the video|video|the clip|clip|playback))?';
+const VIDEO = '(?: (?:one|video|clip|technique|card))?';
+
+// Checked in order; the first match wins
+const COMMAND_PATTERNS: [RegExp, (match: RegExpExecArray) => SceneCommand][] = [
+  [new RegExp(`^(?:pause|stop|freeze|hold on|hold up|hold it)${IT}$`), () => ({ type: 'pause' })],
+  [new RegExp(`^(?:resume|unpause|continue|keep going|keep playing|play)${IT}$`), () => ({ type: 'resume' })],
+  [
+    new RegExp(`^(?:restart|replay|rewind|start over|start it over|play it again|play that again|again)${IT}$`),
+    () => ({ type: 'restart' }),
+  ],
+  [/^(?:from the top|from the beginning|back to the start)$/, () => ({ type: 'restart' })],
+  [
+    /^(?:slow (?:it |that |this )?down|slower|go slower|slow motion|slow mo)$/,
+    () => ({ type: 'speed', change: 'slower' }),
+  ],
+  [/^(?:speed (?:it |that |this )?up|faster|go faster)$/, () => ({ type: 'speed', change: 'faster' })],
+  [
+    /^(?:(?:play|set it|go|put it)(?: at| to)? )?(quarter|half|normal|full|regular) speed$/,
+    (match) => ({ type: 'speed', rate: SPEED_RATES[match[1]] }),
+  ],
+  [/^real ?time$/, () => ({ type: 'speed', rate: 1 })],
+  [new RegExp(`^(?:next|skip)${VIDEO}$`), () => ({ type: 'next-video' })],
+  [new RegExp(`^(?:previous|go back|back|last one|last video)${VIDEO}$`), () => ({ type: 'previous-video' })],
+  [
+    /^(?:(?:arrange|lay out|layout|switch|change|set|put|show|make)(?: (?:it|them|everything|the cards|cards|the videos|videos|the layout|layout))?(?: (?:as|in|into|to|like))?(?: (?:a|an|the))? )?(ring|circle|arc|wall|grid|carousel)(?: (?:layout|mode|view))?$/,
+    (match) => ({ type: 'arrange', mode: LAYOUT_WORDS[match[1]] }),
+  ],
+  [/^(?:(?:take|grab|snap|capture|get)(?: (?:a|an|me a))? )?(?:screenshot|screen shot|screen grab|snapshot)$/, () => ({
+    type: 'screenshot',
+  })],
+  [/^(?:take|grab|snap|capture)(?: (?:a|an|me a))? (?:picture|photo|pic)$/, () => ({ type: 'screenshot' })],
+  [
+    /^(?:mirror|flip|unmirror|unflip)(?: (?:it|them|everything|all|the video|the videos|videos|the cards|cards))?$/,
+    () => ({ type: 'mirror' }),
+  ],
+  [/^(?:mirror mode|switch sides)$/, () => ({ type: 'mirror' })],
+];
+
+const PLAY_TECHNIQUE = /^(?:play|show|watch|pull up|open|put on|load|go to)(?: me)? (.+)$/;
+
+function stripFillers(said: string[]) {
+  let start = 0;
+  let end = said.length;
+  const matchesAt = (filler: string[], at: number) => filler.every((word, offset) => said[at + offset] === word);
+
+  for (let changed = true; changed; ) {
+    changed = false;
+    for (const filler of LEADING_FILLERS) {
+      if (start + filler.length <= end && matchesAt(filler, start)) {
+        start += filler.length;
+        changed = true;
+      }
+    }
+    for (const filler of TRAILING_FILLERS) {
+      if (end - filler.length >= start && matchesAt(filler, end - filler.length)) {
+        end -= filler.length;
+        changed = true;
+      }
+    }
+  }
+  return said.slice(start, end);
+}
+
+/** The scene command a transcript asks for, or null when it's something to answer */
+export function parseVoiceCommand(transcript: string, techniques: TechniqueRef[]): SceneCommand | null {
+  const phrase = stripFillers(normalizeWords(transcript)).join(' ');
+  if (!phrase) return null;
+
+  for (const [pattern, command] of COMMAND_PATTERNS) {
+    const match = pattern.exec(phrase);
+    if (match) return command(match);
+  }
+
+  const target = PLAY_TECHNIQUE.exec(phrase)?.[1];
+  const technique = target ? findTechnique(target, techniques) : null;
+  return technique ? { type: 'play-technique', techniqueId: technique.id } : null;
+}
+
+const LAYOUT_NAMES: Record<SceneLayoutMode, string> = {
+  ring: 'Ring',
+  arc: 'Arc',
+  wall: 'Wall',
+  carousel: 'Carousel',
+};
+
+/** Short confirmation for the headset - shown, not spoken */
+export function describeSceneCommand(command: SceneCommand, techniques: TechniqueRef[] = []): string {
+  switch (command.type) {
+    case 'play-technique': {
+      const title = techniques.find((technique) => technique.id === command.techniqueId)?.title;
+      return `Playing ${title ?? command.techniqueId}`;
+    }
+    case 'pause':
+      return 'Paused';
+    case 'resume':
+      return 'Playing';
+    case 'restart':
+      return 'From the top';
+    case 'speed':
+      if ('rate' in command) return command.rate === 1 ? 'Normal speed' : `${command.rate}x speed`;
+      return command.change === 'slower' ? 'Slowing it down' : 'Speeding it up';
+    case 'next-video':
+      return 'Next video';
+    case 'previous-video':
+      return 'Previous video';
+    case 'arrange':
+      return `${LAYOUT_NAMES[command.mode]} layout`;
+    case 'screenshot':
+      return 'Screenshot';
+    case 'mirror':
+      return 'Flipping the videos';
+  }
+}
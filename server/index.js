@@ -1,8 +1,22 @@
 import express from 'express';
 import cors from 'cors';
-import twilio from 'twilio';
 import dotenv from 'dotenv';
 import OpenAI from 'openai';
+import { fileURLToPath } from 'url';
+import { analyzeWrestlingForm, FormAnalysisRequestError } from './lib/form-analysis.js';
+import { resolveFormCoachProvider } from './lib/form-coach-providers.js';
+import { attachCoachChannelRelay, COACH_CHANNEL_PATH } from './lib/coach-channel-relay.js';
+import { authorizeCoachSession } from './lib/coach-access.js';
+import { createLayoutStore, LayoutStoreError } from './lib/layout-store.js';
+import { createVideoAccessFromEnv, VideoAccessError } from './lib/video-access.js';
+// Compiled from server/coach by `npm run build:server` (run automatically before start/dev)
+import {
+  COACH_STREAM_HEADERS,
+  CoachRequestError,
+  createCoachServiceFromEnv,
+  formatServerSentEvent,
+} from './dist/coach/coach-service.js';
+import { loadTechniqueCatalog, readTechniqueManifest } from './dist/coach/technique-catalog.js';
 
 dotenv.config();
 
@@ -15,337 +29,234 @@ const openai = new OpenAI({
   apiKey,
 });
 
+// Technique video library manifest - read on every request so new clips show up without a restart
+const TECHNIQUE_MANIFEST_PATH = process.env.TECHNIQUE_MANIFEST_PATH ||
+  new URL('../public/technique-manifest.json', import.meta.url);
+
+// Coach Andy chat service, with conversation memory per user per room.
+// Providers come from COACH_*_PROVIDER; local ones get their own client.
+// Voice commands ("play leg camp five") look techniques up in the manifest.
+const coach = createCoachServiceFromEnv(
+  process.env,
+  (options) => (options.baseURL ? new OpenAI(options) : openai),
+  loadTechniqueCatalog(TECHNIQUE_MANIFEST_PATH)
+);
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Which proxies to believe about the client address - the token rate limit is keyed on req.ip,
+// which is the proxy's own address unless it's trusted. Express syntax: a hop count, true, or
+// comma-separated addresses/subnets; loopback covers the Vite dev proxy.
+const TRUST_PROXY = process.env.TRUST_PROXY || 'loopback';
+app.set(
+  'trust proxy',
+  /^\d+$/.test(TRUST_PROXY) ? Number(TRUST_PROXY) : { true: true, false: false }[TRUST_PROXY] ?? TRUST_PROXY
+);
+
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Form analysis posts up to 300 keypoint frames plus an optional reference image
+app.use(express.json({ limit: '8mb' }));
 app.use(express.raw({ type: 'audio/webm', limit: '10mb' }));
 
-// Twilio credentials from environment
-const {
-  TWILIO_ACCOUNT_SID,
-  TWILIO_API_KEY,
-  TWILIO_API_SECRET,
-} = process.env;
+// Who may join which room, from VIDEO_INVITES and the Twilio credentials
+const videoAccess = createVideoAccessFromEnv(process.env);
 
 // Health check
 app.get('/health', (req, res) => {
   res.json({ status: 'ok', service: 'aether-vr-backend' });
 });
 
-// Generate Twilio Video access token
-app.post('/api/twilio/video-token', (req, res) => {
+app.get('/api/techniques', async (req, res) => {
   try {
-    const { room, identity } = req.body;
+    // Checked with the headset's schema - broken entries are logged and left out
+    const manifest = await readTechniqueManifest(TECHNIQUE_MANIFEST_PATH);
+    res.set('Cache-Control', 'no-cache');
+    res.json(manifest);
+  } catch (error) {
+    console.error('❌ Error loading technique manifest:', error);
+    res.status(500).json({
+      error: 'Failed to load technique manifest',
+      message: error.message
+    });
+  }
+});
 
-    if (!room || !identity) {
-      return res.status(400).json({
-        error: 'Missing required fields: room and identity'
-      });
-    }
+// Per-user card layouts (optional sync target for the headset's localStorage layouts).
+// Only the wrestler's own room session may read or change them - stored per session for shared invites.
+const layoutStore = createLayoutStore(fileURLToPath(new URL('./data/card-layouts.json', import.meta.url)));
 
-    if (!TWILIO_ACCOUNT_SID || !TWILIO_API_KEY || !TWILIO_API_SECRET) {
-      return res.status(500).json({
-        error: 'Server configuration error: Missing Twilio credentials'
-      });
-    }
-
-    // Create access token
-    const AccessToken = twilio.jwt.AccessToken;
-    const VideoGrant = AccessToken.VideoGrant;
+function sendLayoutError(res, error, action) {
+  if (error instanceof VideoAccessError || error instanceof LayoutStoreError) {
+    if (error.status >= 500) console.error(`❌ Error ${action} layouts:`, error.message);
+    return res.status(error.status).json({ error: error.message });
+  }
+  console.error(`❌ Error ${action} layouts:`, error);
+  res.status(500).json({ error: `Failed ${action} layouts`, message: error.message });
+}
 
-    const token = new AccessToken(
-      TWILIO_ACCOUNT_SID,
-      TWILIO_API_KEY,
-      TWILIO_API_SECRET,
-      { identity }
-    );
+app.get('/api/layouts/:userId', async (req, res) => {
+  try {
+    const { owner } = videoAccess.authorize(req.headers.authorization, { userId: req.params.userId });
+    res.json({ layouts: await layoutStore.list(owner) });
+  } catch (error) {
+    sendLayoutError(res, error, 'reading');
+  }
+});
 
-    // Create Video grant
-    const videoGrant = new VideoGrant({
-      room,
-    });
+app.put('/api/layouts/:userId/:name', async (req, res) => {
+  try {
+    const { userId, name } = req.params;
+    const { owner } = videoAccess.authorize(req.headers.authorization, { userId });
+    await layoutStore.save(owner, name, req.body);
 
-    // Add grant to token
-    token.addGrant(videoGrant);
+    console.log(`💾 Saved layout "${name}" for ${userId}`);
+    res.json({ success: true });
+  } catch (error) {
+    sendLayoutError(res, error, 'saving');
+  }
+});
 
-    // Generate JWT
-    const jwt = token.toJwt();
+app.delete('/api/layouts/:userId/:name', async (req, res) => {
+  try {
+    const { userId, name } = req.params;
+    const { owner } = videoAccess.authorize(req.headers.authorization, { userId });
+    await layoutStore.remove(owner, name);
+    res.json({ success: true });
+  } catch (error) {
+    sendLayoutError(res, error, 'deleting');
+  }
+});
 
-    console.log(`✅ Generated token for identity: ${identity}, room: ${room}`);
+// Wrestling form analysis - rule-based checks over a keypoint sequence, optionally reworded by an LLM
+const formCoachProvider = resolveFormCoachProvider(process.env, () => openai);
 
-    res.json({
-      token: jwt,
-      room,
-      identity,
-    });
+app.post('/api/ai/analyze-wrestling-form', async (req, res) => {
+  try {
+    const result = await analyzeWrestlingForm(req.body, { provider: await formCoachProvider });
+    console.log(`🤼 Form analysis (${result.provider}): ${result.framesAnalyzed} frames → ${result.tips.length} tips`);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof FormAnalysisRequestError) {
+      return res.status(400).json({ error: 'Invalid form analysis request', message: error.message });
+    }
+    console.error('❌ Form analysis error:', error);
+    res.status(500).json({ error: 'Failed to analyze form', message: error.message });
+  }
+});
 
+// Twilio Video access tokens - only for an invite code, then refreshed with the session it issues
+function sendVideoToken(res, issue) {
+  try {
+    const grant = issue();
+    console.log(`✅ Generated ${grant.role} token for identity: ${grant.identity}, room: ${grant.room}`);
+    res.json(grant);
   } catch (error) {
+    if (error instanceof VideoAccessError) {
+      if (error.retryAfter) res.set('Retry-After', String(error.retryAfter));
+      if (error.status >= 500) console.error('❌ Video token error:', error.message);
+      return res.status(error.status).json({ error: error.message });
+    }
     console.error('❌ Error generating token:', error);
     res.status(500).json({
       error: 'Failed to generate token',
       message: error.message
     });
   }
+}
+
+app.post('/api/twilio/video-token', (req, res) => {
+  sendVideoToken(res, () => videoAccess.issueToken(req.body, req.ip));
 });
 
-// VR Voice Chat with Whisper transcription + Coach Andy response
+app.post('/api/twilio/refresh-token', (req, res) => {
+  sendVideoToken(res, () => videoAccess.refreshToken(req.body, req.headers.authorization, req.ip));
+});
+
+// Coach Andy - voice and text chat; all logic lives in coach/coach-service.ts
 app.post('/api/vr-voice-chat', async (req, res) => {
   try {
-    if (!req.body || req.body.length === 0) {
-      return res.status(400).json({ error: 'No audio data received' });
-    }
-
-    console.log('🎤 Received audio data:', req.body.length, 'bytes');
-
-    // Save audio to temporary file for Whisper
-    const fs = await import('fs');
-    const path = await import('path');
-    const { fileURLToPath } = await import('url');
-
-    const __filename = fileURLToPath(import.meta.url);
-    const __dirname = path.dirname(__filename);
-
-    const tempDir = path.join(__dirname, 'temp');
-    if (!fs.existsSync(tempDir)) {
-      fs.mkdirSync(tempDir, { recursive: true });
-    }
-
-    const tempFile = path.join(tempDir, `audio-${Date.now()}.webm`);
-    fs.writeFileSync(tempFile, req.body);
-
-    console.log('💾 Saved audio to:', tempFile);
-
-    // Transcribe with Whisper
-    const transcription = await openai.audio.transcriptions.create({
-      file: fs.createReadStream(tempFile),
-      model: 'whisper-1',
-    });
-
-    const transcript = transcription.text;
-    console.log('🗣️ Whisper transcription:', transcript);
-
-    // Delete temp file
-    fs.unlinkSync(tempFile);
-
-    if (!transcript || transcript.trim().length === 0) {
-      return res.json({
-        transcript: '',
-        response: "Didn't catch that. Speak louder!",
-        audioUrl: null
-      });
-    }
-
-    // Get Coach Andy response
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: COACH_ANDY_PERSONA
+    // Body is the audio - who is talking comes in the query string, their room session in Authorization
+    const body = Buffer.isBuffer(req.body) ? req.body : null;
+    const session = authorizeCoachSession(videoAccess, req.headers.authorization, req.query);
+    const options = { wakePhrase: typeof req.query.wake === 'string' ? req.query.wake : undefined };
+
+    // Server-sent events when asked for: transcript, tokens and audio as they come
+    if (req.accepts(['application/json', 'text/event-stream']) === 'text/event-stream') {
+      await coach.streamVoiceChat(
+        body,
+        session,
+        (event) => {
+          if (!res.headersSent) res.writeHead(200, COACH_STREAM_HEADERS);
+          res.write(formatServerSentEvent(event));
         },
-        {
-          role: "user",
-          content: transcript
-        }
-      ],
-      temperature: 0.8,
-      max_tokens: 150,
-    });
-
-    let response = completion.choices[0]?.message?.content ||
-      "Good work! Keep pushing yourself!";
-
-    // Clean any markdown
-    response = response
-      .replace(/\*\*/g, '')
-      .replace(/\*/g, '')
-      .replace(/#{1,6}\s/g, '')
-      .trim();
-
-    console.log(`💬 Coach Andy: "${transcript}" → "${response}"`);
-
-    // Generate audio with ElevenLabs
-    let audioUrl = null;
-    if (process.env.ELEVENLABS_API_KEY && process.env.ELEVENLABS_VOICE_ID) {
-      try {
-        const elevenLabsResponse = await fetch(
-          `https://api.elevenlabs.io/v1/text-to-speech/${process.env.ELEVENLABS_VOICE_ID}`,
-          {
-            method: 'POST',
-            headers: {
-              'Accept': 'audio/mpeg',
-              'Content-Type': 'application/json',
-              'xi-api-key': process.env.ELEVENLABS_API_KEY
-            },
-            body: JSON.stringify({
-              text: response,
-              model_id: 'eleven_monolingual_v1',
-              voice_settings: {
-                stability: 0.5,
-                similarity_boost: 0.75
-              }
-            })
-          }
-        );
-
-        if (elevenLabsResponse.ok) {
-          const audioBuffer = await elevenLabsResponse.arrayBuffer();
-          const base64Audio = Buffer.from(audioBuffer).toString('base64');
-          audioUrl = `data:audio/mpeg;base64,${base64Audio}`;
-          console.log(`🔊 Generated audio for Coach Andy response`);
-        }
-      } catch (audioError) {
-        console.error('❌ ElevenLabs Error:', audioError);
-      }
+        options
+      );
+      return res.end();
     }
 
-    res.json({ transcript, response, audioUrl });
-
+    res.json(await coach.voiceChat(body, session, options));
   } catch (error) {
+    if (error instanceof VideoAccessError) {
+      return res.status(error.status).json({ error: error.message });
+    }
+    if (error instanceof CoachRequestError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('❌ Voice chat error:', error);
-    res.status(500).json({
-      error: 'Failed to process audio',
-      transcript: '',
-      response: "Technical difficulties! Keep training!",
-      audioUrl: null
-    });
+    if (res.headersSent) {
+      res.write(formatServerSentEvent({ type: 'error', error: 'Failed to process audio' }));
+      return res.end();
+    }
+    res.status(500).json({ error: 'Failed to process audio' });
   }
 });
 
-// Coach Andy AI Chatbot endpoint
-const COACH_ANDY_PERSONA = `You are Coach Andy O'Berlin - Indiana Coach of the Year with 30+ years of wrestling experience and 25 years of coaching.
-
-**Your Coaching Style:**
-- Direct, no-nonsense communication - no corporate BS
-- ADHD-friendly: Keep responses concise and actionable
-- Mission-driven: "Build better wrestlers and better people"
-- Champion mindset: "Hard work beats talent when talent doesn't work hard"
-
-**Your Background:**
-- Indiana Coach of the Year
-- 30+ years in wrestling, 25 years coaching
-- Computer Science degree + 20 years tech experience
-- Built successful businesses through ethical AI
-
-**How You Coach:**
-- Be direct and to the point
-- Give specific, actionable technique advice
-- Reference the technique videos around the wrestler
-- Use wrestling terminology naturally
-- Push wrestlers to be their best
-- Balance toughness with genuine care
-- Celebrate wins enthusiastically: "THAT'S what I'm talking about!"
-- When correcting: "Here's what you need to fix..."
+// Remembered conversation, so a chat card can restore or reset its transcript - the wrestler's own room session only
+function conversationRoute(run) {
+  return (req, res) => {
+    try {
+      res.json(run(authorizeCoachSession(videoAccess, req.headers.authorization, req.query, { requireRoom: true })));
+    } catch (error) {
+      if (error instanceof VideoAccessError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      console.error('❌ Coach conversation error:', error);
+      res.status(500).json({ error: 'Failed to load the conversation' });
+    }
+  };
+}
 
-**Available Techniques** (videos around the room):
-1. Single Leg Takedown
-2. Double Leg Takedown
-3. Cradle
-4. Escape
-5. Standup
-6. Switch
+app.get('/api/vr-coach-chat', conversationRoute((session) => coach.getConversation(session)));
 
-Keep responses under 3 sentences. Be the coach they need - tough, direct, and caring.`;
+app.delete('/api/vr-coach-chat', conversationRoute((session) => coach.resetConversation(session)));
 
 app.post('/api/vr-coach-chat', async (req, res) => {
   try {
-    const { message } = req.body;
-
-    if (!message) {
-      return res.status(400).json({
-        error: 'Message is required'
-      });
-    }
-
-    if (!process.env.OPENAI_API_KEY) {
-      console.error('OpenAI API key not configured');
-      return res.json({
-        response: "Keep working hard! That single leg setup needs to be faster - explode into it!",
-        audioUrl: null
-      });
+    const session = authorizeCoachSession(videoAccess, req.headers.authorization, req.body);
+    res.json(await coach.chat({ message: req.body?.message, ...session }));
+  } catch (error) {
+    if (error instanceof VideoAccessError) {
+      return res.status(error.status).json({ error: error.message });
     }
-
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4o-mini",
-      messages: [
-        {
-          role: "system",
-          content: COACH_ANDY_PERSONA
-        },
-        {
-          role: "user",
-          content: message
-        }
-      ],
-      temperature: 0.8,
-      max_tokens: 150,
-    });
-
-    let response = completion.choices[0]?.message?.content ||
-      "Good work! Keep pushing yourself!";
-
-    // Clean any markdown
-    response = response
-      .replace(/\*\*/g, '')
-      .replace(/\*/g, '')
-      .replace(/#{1,6}\s/g, '')
-      .trim();
-
-    console.log(`💬 Coach Andy: "${message}" → "${response}"`);
-
-    // Generate audio with ElevenLabs
-    let audioUrl = null;
-    if (process.env.ELEVENLABS_API_KEY && process.env.ELEVENLABS_VOICE_ID) {
-      try {
-        const elevenLabsResponse = await fetch(
-          `https://api.elevenlabs.io/v1/text-to-speech/${process.env.ELEVENLABS_VOICE_ID}`,
-          {
-            method: 'POST',
-            headers: {
-              'Accept': 'audio/mpeg',
-              'Content-Type': 'application/json',
-              'xi-api-key': process.env.ELEVENLABS_API_KEY
-            },
-            body: JSON.stringify({
-              text: response,
-              model_id: 'eleven_monolingual_v1',
-              voice_settings: {
-                stability: 0.5,
-                similarity_boost: 0.75
-              }
-            })
-          }
-        );
-
-        if (elevenLabsResponse.ok) {
-          const audioBuffer = await elevenLabsResponse.arrayBuffer();
-          const base64Audio = Buffer.from(audioBuffer).toString('base64');
-          audioUrl = `data:audio/mpeg;base64,${base64Audio}`;
-          console.log(`🔊 Generated audio for Coach Andy response`);
-        } else {
-          console.error('❌ ElevenLabs API Error:', elevenLabsResponse.statusText);
-        }
-      } catch (audioError) {
-        console.error('❌ ElevenLabs Error:', audioError);
-      }
+    if (error instanceof CoachRequestError) {
+      return res.status(400).json({ error: error.message });
     }
-
-    res.json({ response, audioUrl });
-
-  } catch (error) {
-    console.error('❌ OpenAI API Error:', error);
-    res.json({
-      response: "That's the spirit! Keep grinding and trust the process!",
-      audioUrl: null
-    });
+    console.error('❌ Coach chat error:', error);
+    res.status(500).json({ error: 'Failed to chat with Coach Andy' });
   }
 });
 
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Aether VR Backend running on http://localhost:${PORT}`);
   console.log(`📹 Twilio Video Token API: http://localhost:${PORT}/api/twilio/video-token`);
+  console.log(`🔄 Twilio Token Refresh API: http://localhost:${PORT}/api/twilio/refresh-token`);
   console.log(`💬 Coach Andy Chat API: http://localhost:${PORT}/api/vr-coach-chat`);
+  console.log(`🎬 Technique Manifest API: http://localhost:${PORT}/api/techniques`);
+  console.log(`🤼 Form Analysis API: http://localhost:${PORT}/api/ai/analyze-wrestling-form`);
+  console.log(`🎛️ Coach Channel relay: ws://localhost:${PORT}${COACH_CHANNEL_PATH}`);
 });
+
+// WebSocket fallback for the coach's session controls when there is no Twilio room - room sessions only
+attachCoachChannelRelay(server, videoAccess);
@@ -0,0 +1,40 @@
+/**
+ * Coach Access
+ *
+ * Which conversation a Coach Andy request may use. Memory is kept per
+ * wrestler per room, so inside a room the caller has to show that wrestler's
+ * room session (video-access.js) - for chatting as much as for restoring or
+ * resetting, since whatever is remembered goes into the next prompt. The
+ * conversation belongs to what the session owns: the wrestler when their
+ * invite names them, otherwise that session alone. Outside a room there is
+ * no session to say who is talking, so nothing is remembered. Shared by
+ * the Express server and the Vercel functions.
+ */
+
+import { VideoAccessError } from './video-access.js';
+
+/**
+ * The session to hand the coach service: `{ userId, room, persona }` once
+ * `authorization` proves it's that wrestler's, with `userId` the session's
+ * owner; just `{ persona }` outside a room. Throws a VideoAccessError
+ * otherwise.
+ * @param {{ authorize(authorization: string | undefined, scope?: { userId?: string, room?: string }): { owner: string } }} access
+ * @param {string | undefined} authorization
+ * @param {{ userId?: unknown, room?: unknown, persona?: unknown } | null | undefined} fields from the body or query
+ * @param {{ requireRoom?: boolean }} [options] restoring and resetting need a remembered conversation
+ * @returns {{ userId?: string, room?: string, persona?: string }}
+ */
+export function authorizeCoachSession(access, authorization, fields, { requireRoom = false } = {}) {
+  const { userId, room, persona } = fields ?? {};
+  const session = { persona: typeof persona === 'string' && persona ? persona : undefined };
+
+  if (typeof room !== 'string' || !room) {
+    if (requireRoom) throw new VideoAccessError(400, 'userId and room are required');
+    return session;
+  }
+  if (typeof userId !== 'string' || !userId) {
+    throw new VideoAccessError(400, 'userId and room are required');
+  }
+  const { owner } = access.authorize(authorization, { userId, room });
+  return { ...session, userId: owner, room };
+}
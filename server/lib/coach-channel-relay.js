@@ -0,0 +1,82 @@
+/**
+ * Coach Channel Relay
+ *
+ * WebSocket fallback for the coach channel (src/lib/room/coach-channel.ts)
+ * when there is no Twilio room to carry it: every text message a client
+ * sends is passed to the other clients in the same room. Clients connect
+ * with the room session their invite was exchanged for (video-access.js),
+ * and only into a room that invite opens; each message goes out wrapped
+ * with the sender's verified role - `{ role, data }` - so headsets can take
+ * commands from coaches alone. The clients validate what they receive. Only
+ * the local server runs this - serverless deployments can't hold a socket
+ * open.
+ */
+
+import { WebSocketServer } from 'ws';
+import { VideoAccessError } from './video-access.js';
+
+export const COACH_CHANNEL_PATH = '/api/coach-channel';
+
+// Same ceiling as a Twilio data track message
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+/**
+ * Serves the relay on `server`'s upgrade requests to COACH_CHANNEL_PATH;
+ * clients pick their room with `?room=` and prove who they are with
+ * `?session=` (browsers can't set headers on a WebSocket).
+ * @param {import('http').Server} server
+ * @param {{ authorize(authorization: string | undefined, scope?: { room?: string }): { name: string, role: string } }} access
+ */
+export function attachCoachChannelRelay(server, access) {
+  /** @type {Map<string, Set<import('ws').WebSocket>>} */
+  const rooms = new Map();
+  const relay = new WebSocketServer({ server, path: COACH_CHANNEL_PATH, maxPayload: MAX_MESSAGE_BYTES });
+
+  relay.on('connection', (socket, req) => {
+    // ws reports oversized or malformed frames as 'error' - unhandled, that would take the server down
+    socket.on('error', (error) => {
+      console.warn(`⚠️ Coach channel: dropping a client - ${error.message}`);
+      socket.terminate();
+    });
+
+    const params = new URL(req.url ?? '', 'http://localhost').searchParams;
+    const room = params.get('room');
+    if (!room) {
+      socket.close(1008, 'Missing room');
+      return;
+    }
+
+    let client;
+    try {
+      client = access.authorize(`Bearer ${params.get('session') ?? ''}`, { room });
+    } catch (error) {
+      if (!(error instanceof VideoAccessError)) throw error;
+      console.warn(`🚫 Coach channel: refused a client for ${room} - ${error.message}`);
+      socket.close(1008, error.status === 403 ? 'Not invited to this room' : 'Session required');
+      return;
+    }
+
+    let peers = rooms.get(room);
+    if (!peers) {
+      peers = new Set();
+      rooms.set(room, peers);
+    }
+    peers.add(socket);
+    console.log(`🔌 Coach channel: ${client.name} (${client.role}) joined ${room} (${peers.size} connected)`);
+
+    socket.on('message', (data, isBinary) => {
+      if (isBinary) return;
+      const envelope = JSON.stringify({ role: client.role, data: data.toString() });
+      peers.forEach((peer) => {
+        if (peer !== socket && peer.readyState === peer.OPEN) peer.send(envelope);
+      });
+    });
+
+    socket.on('close', () => {
+      peers.delete(socket);
+      if (peers.size === 0) rooms.delete(room);
+    });
+  });
+
+  return relay;
+}
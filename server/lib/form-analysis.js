@@ -0,0 +1,377 @@
+/**
+ * Wrestling Form Analysis
+ *
+ * Deterministic form checks over a short BlazePose keypoint sequence sent by
+ * the headset (AICoachingAssistant), optionally reworded/enriched by an LLM
+ * provider (see form-coach-providers.js). Shared by the Express server and
+ * the Vercel function so both answer identically.
+ *
+ * Keypoints use the reference-track layout: normalized 0-1 with the origin
+ * top-left, 33 BlazePose joints stored as [x, y, z, score].
+ */
+
+export const TIP_TYPES = ['stance', 'movement', 'technique', 'positioning'];
+export const TIP_SEVERITIES = ['info', 'warning', 'critical'];
+
+export const MAX_FRAMES = 300;
+const KEYPOINT_COUNT = 33;
+// ~4MB of base64 JPEG is plenty for a single reference frame
+const MAX_IMAGE_LENGTH = 4 * 1024 * 1024;
+
+/**
+ * @typedef {'stance' | 'movement' | 'technique' | 'positioning'} TipType
+ * @typedef {'info' | 'warning' | 'critical'} TipSeverity
+ * @typedef {{ type: TipType, severity: TipSeverity, message: string, check?: string }} CoachingTip
+ * @typedef {{ x: number, y: number, z: number, score: number }} Keypoint
+ * @typedef {{ t: number, keypoints: Keypoint[] }} PoseFrame
+ * @typedef {{ exercise: string, aspect: number, frames: PoseFrame[], image: string | null }} FormAnalysisRequest
+ */
+
+export class FormAnalysisRequestError extends Error {
+  constructor(path, message) {
+    super(`${path}: ${message}`);
+    this.name = 'FormAnalysisRequestError';
+    this.path = path;
+  }
+}
+
+function readKeypoint(value, path) {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every((n) => typeof n === 'number' && Number.isFinite(n))) {
+    throw new FormAnalysisRequestError(path, 'expected [x, y, z, score]');
+  }
+  const [x, y, z, score] = value;
+  return { x, y, z, score };
+}
+
+function readFrame(value, path) {
+  if (!value || typeof value !== 'object') {
+    throw new FormAnalysisRequestError(path, 'expected an object');
+  }
+  if (typeof value.t !== 'number' || !Number.isFinite(value.t)) {
+    throw new FormAnalysisRequestError(`${path}.t`, 'expected a time in seconds');
+  }
+  if (!Array.isArray(value.k) || value.k.length !== KEYPOINT_COUNT) {
+    throw new FormAnalysisRequestError(`${path}.k`, `expected ${KEYPOINT_COUNT} keypoints`);
+  }
+  return { t: value.t, keypoints: value.k.map((keypoint, index) => readKeypoint(keypoint, `${path}.k[${index}]`)) };
+}
+
+/**
+ * Validate a request body: `{ exercise, aspect?, frames: [{ t, k }], image? }`.
+ * @returns {FormAnalysisRequest}
+ */
+export function parseFormAnalysisRequest(body) {
+  if (!body || typeof body !== 'object') {
+    throw new FormAnalysisRequestError('body', 'expected a JSON object');
+  }
+  if (typeof body.exercise !== 'string' || body.exercise.trim().length === 0) {
+    throw new FormAnalysisRequestError('exercise', 'expected a non-empty string');
+  }
+  const aspect = body.aspect ?? 1;
+  if (typeof aspect !== 'number' || !Number.isFinite(aspect) || aspect <= 0) {
+    throw new FormAnalysisRequestError('aspect', 'expected a positive number (frame width / height)');
+  }
+  if (!Array.isArray(body.frames)) {
+    throw new FormAnalysisRequestError('frames', 'expected an array of keypoint frames');
+  }
+  if (body.frames.length > MAX_FRAMES) {
+    throw new FormAnalysisRequestError('frames', `at most ${MAX_FRAMES} frames per request`);
+  }
+  const image = body.image ?? null;
+  if (image !== null && (typeof image !== 'string' || !image.startsWith('data:image/') || image.length > MAX_IMAGE_LENGTH)) {
+    throw new FormAnalysisRequestError('image', 'expected an image data URL under 4MB');
+  }
+
+  const frames = body.frames.map((frame, index) => readFrame(frame, `frames[${index}]`));
+  frames.sort((a, b) => a.t - b.t);
+
+  return { exercise: body.exercise.trim().toLowerCase(), aspect, frames, image };
+}
+
+// ---------------------------------------------------------------------------
+// Measurements
+// ---------------------------------------------------------------------------
+
+const MIN_SCORE = 0.5;
+const NOSE = 0;
+const SHOULDERS = [11, 12];
+const WRISTS = [15, 16];
+const HIPS = [23, 24];
+const KNEES = [25, 26];
+const ANKLES = [27, 28];
+
+function point(frame, aspect, index) {
+  const keypoint = frame.keypoints[index];
+  if (!keypoint || keypoint.score < MIN_SCORE) return null;
+  return { x: keypoint.x * aspect, y: keypoint.y, z: keypoint.z * aspect };
+}
+
+function midpoint(frame, aspect, [left, right]) {
+  const a = point(frame, aspect, left);
+  const b = point(frame, aspect, right);
+  return a && b ? { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 } : null;
+}
+
+function distance(a, b) {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function angleBetween(u, v) {
+  const lengths = Math.hypot(u.x, u.y, u.z) * Math.hypot(v.x, v.y, v.z);
+  if (lengths === 0) return 0;
+  const cos = Math.max(-1, Math.min(1, (u.x * v.x + u.y * v.y + u.z * v.z) / lengths));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+function mean(values) {
+  const measured = values.filter((value) => value !== null);
+  return measured.length ? measured.reduce((sum, value) => sum + value, 0) / measured.length : null;
+}
+
+function median(values) {
+  const measured = values.filter((value) => value !== null).sort((a, b) => a - b);
+  if (measured.length === 0) return null;
+  const middle = Math.floor(measured.length / 2);
+  return measured.length % 2 ? measured[middle] : (measured[middle - 1] + measured[middle]) / 2;
+}
+
+function kneeFlexion(frame, aspect, side) {
+  const [hip, knee, ankle] = [HIPS[side], KNEES[side], ANKLES[side]].map((index) => point(frame, aspect, index));
+  if (!hip || !knee || !ankle) return null;
+  const toHip = { x: hip.x - knee.x, y: hip.y - knee.y, z: hip.z - knee.z };
+  const toAnkle = { x: ankle.x - knee.x, y: ankle.y - knee.y, z: ankle.z - knee.z };
+  return 180 - angleBetween(toHip, toAnkle);
+}
+
+function hipHeight(frame, aspect, side) {
+  const [hip, knee, ankle] = [HIPS[side], KNEES[side], ANKLES[side]].map((index) => point(frame, aspect, index));
+  if (!hip || !knee || !ankle) return null;
+  const leg = distance(hip, knee) + distance(knee, ankle);
+  return leg > 0 ? (ankle.y - hip.y) / leg : null;
+}
+
+/**
+ * Per-frame body measurements, in body units (see stance-analysis.ts on the client).
+ */
+function measureFrame(frame, aspect) {
+  const shoulders = midpoint(frame, aspect, SHOULDERS);
+  const hips = midpoint(frame, aspect, HIPS);
+  const torso = shoulders && hips ? distance(shoulders, hips) : 0;
+  if (!shoulders || !hips || torso <= 0) {
+    return null;
+  }
+
+  const nose = point(frame, aspect, NOSE);
+  const knees = midpoint(frame, aspect, KNEES);
+  const leftShoulder = point(frame, aspect, SHOULDERS[0]);
+  const rightShoulder = point(frame, aspect, SHOULDERS[1]);
+  const shoulderWidth = Math.abs(leftShoulder.x - rightShoulder.x);
+  const leftAnkle = point(frame, aspect, ANKLES[0]);
+  const rightAnkle = point(frame, aspect, ANKLES[1]);
+  const wrists = WRISTS.map((index) => point(frame, aspect, index)).filter(Boolean);
+
+  return {
+    t: frame.t,
+    kneeBend: mean([kneeFlexion(frame, aspect, 0), kneeFlexion(frame, aspect, 1)]),
+    hipHeight: mean([hipHeight(frame, aspect, 0), hipHeight(frame, aspect, 1)]),
+    backAngle: angleBetween({ x: shoulders.x - hips.x, y: shoulders.y - hips.y, z: shoulders.z - hips.z }, { x: 0, y: -1, z: 0 }),
+    headHeight: nose ? (shoulders.y - nose.y) / torso : null,
+    headBelowHips: nose ? nose.y > hips.y : null,
+    footWidth: leftAnkle && rightAnkle && shoulderWidth > 0 ? Math.abs(leftAnkle.x - rightAnkle.x) / shoulderWidth : null,
+    handHeight: knees && wrists.length ? (knees.y - Math.max(...wrists.map((wrist) => wrist.y))) / torso : null,
+    // Raw image-space values - level changes are scaled by the starting torso in levelDrop()
+    hipY: hips.y,
+    torso,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Checks
+// ---------------------------------------------------------------------------
+
+const SHOT_EXERCISES = ['takedown', 'shot', 'penetration-step', 'level-change', 'single-leg', 'double-leg'];
+const SPRAWL_EXERCISES = ['defense', 'sprawl'];
+
+function fraction(measurements, read) {
+  const values = measurements.map(read).filter((value) => value !== null);
+  return values.length ? values.filter(Boolean).length / values.length : 0;
+}
+
+function tip(check, type, severity, message) {
+  return { check, type, severity, message };
+}
+
+/**
+ * Each check returns a tip or null. Thresholds mirror the client's
+ * DEFAULT_STANCE_THRESHOLDS so the HUD and the coach agree.
+ */
+const STANCE_CHECKS = [
+  ({ summary }) =>
+    summary.kneeBend !== null && summary.kneeBend < 45
+      ? tip('knee-bend', 'stance', summary.kneeBend < 25 ? 'critical' : 'warning', 'Bend your knees - you\'re standing too tall to shoot or defend')
+      : null,
+  ({ summary }) =>
+    summary.hipHeight !== null && summary.hipHeight > 0.8
+      ? tip('hip-height', 'stance', summary.hipHeight > 0.9 ? 'critical' : 'warning', 'Drop your level - get your hips down')
+      : null,
+  ({ summary }) =>
+    summary.backAngle !== null && summary.backAngle > 55
+      ? tip('back-angle', 'stance', summary.backAngle > 70 ? 'critical' : 'warning', 'Chest up - you\'re bent over and easy to snap down')
+      : null,
+  ({ measurements }) => {
+    const headDown = fraction(measurements, (m) => (m.headHeight === null ? null : m.headHeight < 0.1));
+    return headDown >= 0.3 ? tip('head-position', 'stance', headDown >= 0.6 ? 'critical' : 'warning', 'Head up - eyes on your opponent') : null;
+  },
+  ({ summary }) =>
+    summary.footWidth !== null && summary.footWidth < 1
+      ? tip('foot-width', 'positioning', summary.footWidth < 0.7 ? 'critical' : 'warning', 'Widen your base - feet at least shoulder width')
+      : null,
+  ({ measurements }) => {
+    const handsLow = fraction(measurements, (m) => (m.handHeight === null ? null : m.handHeight < 0));
+    return handsLow >= 0.3
+      ? tip('hand-position', 'positioning', handsLow >= 0.6 ? 'critical' : 'warning', 'Hands up - keep them in front of your knees')
+      : null;
+  },
+];
+
+/**
+ * How far the hips dropped below where they started the clip, in starting
+ * torso lengths (bending over shortens the torso on camera, so it can't be
+ * re-measured per frame), plus when the drop began and bottomed out.
+ */
+function levelDrop(measurements) {
+  const opening = measurements.slice(0, Math.max(1, Math.ceil(measurements.length / 5)));
+  const torso = median(opening.map((m) => m.torso));
+  const startY = median(opening.map((m) => m.hipY));
+  const lowest = measurements.reduce((best, m) => (m.hipY > best.hipY ? m : best), measurements[0]);
+  const drop = (lowest.hipY - startY) / torso;
+  // First frame that's clearly on the way down
+  const began = measurements.find((m) => (m.hipY - startY) / torso >= drop * 0.2) ?? measurements[0];
+  return { drop, seconds: lowest.t - began.t };
+}
+
+const SHOT_CHECKS = [
+  ({ summary }) => {
+    const drop = summary.levelDrop;
+    return drop < 0.35
+      ? tip('level-change', 'technique', drop < 0.15 ? 'critical' : 'warning', 'Change levels before you shoot - drop your hips, not your head')
+      : null;
+  },
+  ({ measurements }) =>
+    measurements.some((m) => m.headBelowHips)
+      ? tip('head-below-hips', 'technique', 'critical', 'Keep your head above your hips on the shot')
+      : null,
+];
+
+const SPRAWL_CHECKS = [
+  ({ summary }) => {
+    const drop = summary.levelDrop;
+    return drop < 0.8 ? tip('sprawl-depth', 'technique', drop < 0.5 ? 'critical' : 'warning', 'Sprawl harder - hips all the way to the mat') : null;
+  },
+  ({ measurements }) => {
+    const { drop, seconds } = levelDrop(measurements);
+    // Only time a sprawl that actually happened
+    return drop >= 0.5 && seconds > 0.6 ? tip('sprawl-speed', 'movement', seconds > 1 ? 'critical' : 'warning', 'Faster sprawl - snap your hips back the moment they shoot') : null;
+  },
+];
+
+const SEVERITY_ORDER = { critical: 0, warning: 1, info: 2 };
+
+/**
+ * Run the rule-based checks for an exercise.
+ * @param {FormAnalysisRequest} request
+ * @returns {{ tips: CoachingTip[], metrics: Record<string, number | null>, framesAnalyzed: number }}
+ */
+export function runFormChecks({ exercise, aspect, frames }) {
+  const measurements = frames.map((frame) => measureFrame(frame, aspect)).filter(Boolean);
+  if (measurements.length < 3) {
+    return {
+      tips: [tip('visibility', 'positioning', 'info', 'Step back so the camera can see you head to toe')],
+      metrics: {},
+      framesAnalyzed: measurements.length,
+    };
+  }
+
+  const summary = {
+    kneeBend: median(measurements.map((m) => m.kneeBend)),
+    hipHeight: median(measurements.map((m) => m.hipHeight)),
+    backAngle: median(measurements.map((m) => m.backAngle)),
+    headHeight: median(measurements.map((m) => m.headHeight)),
+    footWidth: median(measurements.map((m) => m.footWidth)),
+    handHeight: median(measurements.map((m) => m.handHeight)),
+    levelDrop: levelDrop(measurements).drop,
+  };
+
+  // Mid-shot and mid-sprawl bodies aren't in stance - only judge stance for stance work
+  const checks = SHOT_EXERCISES.includes(exercise)
+    ? SHOT_CHECKS
+    : SPRAWL_EXERCISES.includes(exercise)
+      ? SPRAWL_CHECKS
+      : STANCE_CHECKS;
+  const tips = checks
+    .map((check) => check({ measurements, summary }))
+    .filter(Boolean)
+    .sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  if (tips.length === 0) {
+    tips.push(tip('all-clear', SHOT_EXERCISES.includes(exercise) || SPRAWL_EXERCISES.includes(exercise) ? 'technique' : 'stance', 'info', 'THAT\'S what I\'m talking about - form looks solid, keep it up'));
+  }
+
+  const metrics = Object.fromEntries(
+    Object.entries(summary).map(([key, value]) => [key, value === null ? null : Math.round(value * 100) / 100])
+  );
+  return { tips, metrics, framesAnalyzed: measurements.length };
+}
+
+/**
+ * Validate tips coming back from an LLM provider. Anything malformed is dropped.
+ * @returns {CoachingTip[]}
+ */
+export function sanitizeTips(value) {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter(
+      (item) =>
+        item &&
+        TIP_TYPES.includes(item.type) &&
+        TIP_SEVERITIES.includes(item.severity) &&
+        typeof item.message === 'string' &&
+        item.message.trim().length > 0
+    )
+    .map(({ type, severity, message, check }) => ({
+      type,
+      severity,
+      message: message.trim().slice(0, 240),
+      ...(typeof check === 'string' ? { check } : {}),
+    }));
+}
+
+/**
+ * Validate, run the checks and (optionally) let a provider enrich the tips.
+ * Provider failures fall back to the rule-based tips - the headset always
+ * gets an answer.
+ *
+ * @param {unknown} body request body
+ * @param {{ provider?: import('./form-coach-providers.js').FormCoachProvider | null }} options
+ */
+export async function analyzeWrestlingForm(body, { provider = null } = {}) {
+  const request = parseFormAnalysisRequest(body);
+  const result = runFormChecks(request);
+
+  if (!provider || result.framesAnalyzed < 3) {
+    return { ...result, provider: 'rules' };
+  }
+
+  try {
+    const tips = sanitizeTips(
+      await provider.enrich({ exercise: request.exercise, tips: result.tips, metrics: result.metrics, image: request.image })
+    );
+    if (tips.length === 0) {
+      throw new Error('provider returned no usable tips');
+    }
+    return { ...result, tips, provider: provider.name };
+  } catch (error) {
+    console.warn(`⚠️ Form coach provider "${provider.name}" failed, using rule-based tips:`, error.message);
+    return { ...result, provider: 'rules' };
+  }
+}
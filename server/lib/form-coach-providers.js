@@ -0,0 +1,119 @@
+/**
+ * Form Coach Providers
+ *
+ * Optional LLM pass over the rule-based form tips: rewords them in Coach
+ * Andy's voice and can add one observation of its own (e.g. from the
+ * reference frame). A provider is `{ name, enrich(input) }` where `enrich`
+ * resolves to an array of CoachingTip-shaped objects; the caller validates
+ * them and falls back to the rule tips on any failure.
+ *
+ * Select with FORM_ANALYSIS_PROVIDER=openai|mock|none. Defaults to openai
+ * when OPENAI_API_KEY is set, otherwise rules only.
+ */
+
+/**
+ * @typedef {import('./form-analysis.js').CoachingTip} CoachingTip
+ * @typedef {{ exercise: string, tips: CoachingTip[], metrics: Record<string, number | null>, image: string | null }} FormCoachInput
+ * @typedef {{ name: string, enrich(input: FormCoachInput): Promise<unknown> }} FormCoachProvider
+ */
+
+export const FORM_COACH_PROVIDERS = ['openai', 'mock', 'none'];
+
+const FORM_COACH_PROMPT = `You are Coach Andy O'Berlin, a direct, no-nonsense wrestling coach, reviewing a wrestler's form from pose-tracking data.
+
+You get the exercise, body measurements and a list of issues already found by rule-based checks. Rewrite each issue as a short, punchy coaching cue (under 15 words, no markdown). Keep every issue's "type" and "severity" and "check" unchanged and keep them in the same order. If an image is attached and you see one more clear problem the rules missed, add it at the end.
+
+Measurements: kneeBend (degrees of knee flex), hipHeight (hip height / leg length), backAngle (degrees of torso lean from vertical), headHeight (nose above shoulders, torso lengths), footWidth (ankle spread / shoulder width), handHeight (wrists above knees, torso lengths), levelDrop (how far the hips dropped during the clip, torso lengths).
+
+Answer with JSON only: {"tips": [{"type": "stance"|"movement"|"technique"|"positioning", "severity": "info"|"warning"|"critical", "message": string, "check"?: string}]}`;
+
+/**
+ * OpenAI chat completion in JSON mode. Pass the OpenAI client in so this
+ * module doesn't need the SDK (or a key) to load.
+ * @returns {FormCoachProvider}
+ */
+export function createOpenAIFormCoach({ client, model = 'gpt-4o-mini' }) {
+  return {
+    name: 'openai',
+    async enrich({ exercise, tips, metrics, image }) {
+      const details = JSON.stringify({ exercise, metrics, tips });
+      const completion = await client.chat.completions.create({
+        model,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: FORM_COACH_PROMPT },
+          {
+            role: 'user',
+            content: image
+              ? [
+                  { type: 'text', text: details },
+                  { type: 'image_url', image_url: { url: image, detail: 'low' } },
+                ]
+              : details,
+          },
+        ],
+        temperature: 0.6,
+        max_tokens: 400,
+      });
+
+      const content = completion.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error('empty completion');
+      }
+      return JSON.parse(content).tips;
+    },
+  };
+}
+
+/**
+ * Deterministic stand-in for offline development and tests: keeps the rule
+ * tips and appends a summary tip.
+ * @returns {FormCoachProvider}
+ */
+export function createMockFormCoach() {
+  return {
+    name: 'mock',
+    async enrich({ exercise, tips }) {
+      const issues = tips.filter((item) => item.severity !== 'info').length;
+      return [
+        ...tips,
+        {
+          type: 'technique',
+          severity: 'info',
+          check: 'summary',
+          message: issues === 0 ? `Clean ${exercise} - keep it up` : `${issues} thing${issues === 1 ? '' : 's'} to fix on your ${exercise}`,
+        },
+      ];
+    },
+  };
+}
+
+/**
+ * Provider from environment, or null for rules only.
+ * `createOpenAIClient` is only called when the OpenAI provider is picked.
+ * @returns {Promise<FormCoachProvider | null>}
+ */
+export async function resolveFormCoachProvider(env = process.env, createOpenAIClient = defaultOpenAIClient) {
+  const requested = env.FORM_ANALYSIS_PROVIDER || (env.OPENAI_API_KEY ? 'openai' : 'none');
+
+  switch (requested) {
+    case 'none':
+      return null;
+    case 'mock':
+      return createMockFormCoach();
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        console.warn('⚠️ FORM_ANALYSIS_PROVIDER=openai but OPENAI_API_KEY is not set - using rule-based tips only');
+        return null;
+      }
+      return createOpenAIFormCoach({ client: await createOpenAIClient(env.OPENAI_API_KEY), model: env.FORM_ANALYSIS_MODEL });
+    default:
+      console.warn(`⚠️ Unknown FORM_ANALYSIS_PROVIDER "${requested}" (expected ${FORM_COACH_PROVIDERS.join(', ')}) - using rule-based tips only`);
+      return null;
+  }
+}
+
+async function defaultOpenAIClient(apiKey) {
+  const { default: OpenAI } = await import('openai');
+  return new OpenAI({ apiKey });
+}
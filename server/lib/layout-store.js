@@ -0,0 +1,156 @@
+/**
+ * Card Layout Store
+ *
+ * The server side of layout sync (src/lib/layouts/card-layouts.ts): every
+ * user's saved layouts in one JSON file, by user and then by layout name.
+ * Requests overlap, so changes are applied one at a time - each reads the
+ * file, changes it and writes a temp file that is renamed over the old one,
+ * so a crash mid-write leaves the previous version rather than half a file.
+ * Users and layouts are kept in null-prototype maps and names that mean
+ * something to plain objects are refused outright.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+const RESERVED_NAMES = new Set(['__proto__', 'constructor', 'prototype']);
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * @typedef {{ name: string, updatedAt: number, cards: Record<string, unknown> } & Record<string, unknown>} StoredLayout
+ * @typedef {Record<string, Record<string, StoredLayout>>} LayoutFile
+ */
+
+export class LayoutStoreError extends Error {
+  /**
+   * @param {number} status HTTP status to answer with
+   * @param {string} message
+   */
+  constructor(status, message) {
+    super(message);
+    this.name = 'LayoutStoreError';
+    this.status = status;
+  }
+}
+
+/**
+ * @param {'user' | 'layout name'} kind
+ * @param {unknown} value
+ * @returns {string}
+ */
+function checkName(kind, value) {
+  if (typeof value !== 'string' || !value.trim() || value.length > MAX_NAME_LENGTH) {
+    throw new LayoutStoreError(400, `A ${kind} of 1-${MAX_NAME_LENGTH} characters is required`);
+  }
+  if (RESERVED_NAMES.has(value)) {
+    throw new LayoutStoreError(400, `"${value}" can't be used as a ${kind}`);
+  }
+  return value;
+}
+
+/**
+ * @param {unknown} value
+ * @returns {Record<string, any>}
+ */
+function toMap(value) {
+  const map = Object.create(null);
+  return value && typeof value === 'object' && !Array.isArray(value) ? Object.assign(map, value) : map;
+}
+
+/**
+ * @param {string} path JSON file to keep the layouts in; created on the first save
+ */
+export function createLayoutStore(path) {
+  const tempPath = `${path}.tmp`;
+  /** @type {Promise<unknown>} */
+  let queue = Promise.resolve();
+
+  /** @returns {Promise<LayoutFile>} */
+  async function read() {
+    try {
+      const store = toMap(JSON.parse(await readFile(path, 'utf8')));
+      for (const userId of Object.keys(store)) store[userId] = toMap(store[userId]);
+      return store;
+    } catch (error) {
+      if (/** @type {NodeJS.ErrnoException} */ (error).code === 'ENOENT') return Object.create(null);
+      throw error;
+    }
+  }
+
+  /** @param {LayoutFile} store */
+  async function write(store) {
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(tempPath, JSON.stringify(store, null, 2));
+    await rename(tempPath, path);
+  }
+
+  /**
+   * Runs `change` on the current file and writes the result, after every
+   * change queued before it
+   * @template T
+   * @param {(store: LayoutFile) => T} change
+   * @returns {Promise<T>}
+   */
+  function update(change) {
+    const run = queue.then(async () => {
+      const store = await read();
+      const result = change(store);
+      await write(store);
+      return result;
+    });
+    queue = run.catch(() => {});
+    return run;
+  }
+
+  return {
+    /**
+     * @param {string} userId
+     * @returns {Promise<StoredLayout[]>}
+     */
+    async list(userId) {
+      const store = await read();
+      return Object.values(store[checkName('user', userId)] ?? {});
+    },
+
+    /**
+     * @param {string} userId
+     * @param {string} name
+     * @param {unknown} layout request body; needs `cards`
+     * @returns {Promise<StoredLayout>}
+     */
+    async save(userId, name, layout) {
+      checkName('user', userId);
+      checkName('layout name', name);
+      if (!layout || typeof layout !== 'object' || !('cards' in layout) || !layout.cards) {
+        throw new LayoutStoreError(400, 'Layout body with cards is required');
+      }
+      const body = /** @type {Record<string, unknown>} */ (layout);
+      const stored = /** @type {StoredLayout} */ ({
+        ...body,
+        name,
+        updatedAt: typeof body.updatedAt === 'number' ? body.updatedAt : Date.now(),
+      });
+      return update((store) => {
+        store[userId] ??= Object.create(null);
+        store[userId][name] = stored;
+        return stored;
+      });
+    },
+
+    /**
+     * @param {string} userId
+     * @param {string} name
+     * @returns {Promise<boolean>} whether there was such a layout
+     */
+    async remove(userId, name) {
+      checkName('user', userId);
+      checkName('layout name', name);
+      return update((store) => {
+        const layouts = store[userId];
+        if (!layouts || !(name in layouts)) return false;
+        delete layouts[name];
+        return true;
+      });
+    },
+  };
+}
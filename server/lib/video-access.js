@@ -0,0 +1,395 @@
+/**
+ * Video Access
+ *
+ * Who may join which training room. A Twilio Video token is only minted for
+ * an invite code (VIDEO_INVITES) or for a session issued when one was
+ * redeemed. The invite decides the role - coach, athlete or observer - and
+ * the rooms it opens. Tokens are short-lived; clients come back to the
+ * refresh endpoint with their session for a new one on every (re)connect.
+ * Shared by the Express server and the Vercel functions so both answer
+ * identically.
+ *
+ * Twilio grants can't limit what a participant publishes, so the role is
+ * carried in the identity (`<name>-<role>-<timestamp>`, see
+ * src/lib/room/room-tracks.ts) and checked here before anything is signed:
+ * nobody joins as a coach without a coach invite.
+ *
+ * Names are chosen by whoever redeems the invite, so a name alone proves
+ * nothing. An invite that names its athlete only redeems for that name, and
+ * no other invite may use it. Sessions from such an invite own the
+ * wrestler's data (synced layouts, Coach Andy's memory) on any headset;
+ * sessions from a shared team invite only own their own.
+ */
+
+import crypto from 'crypto';
+import twilio from 'twilio';
+
+export const VIDEO_ROLES = ['coach', 'athlete', 'observer'];
+
+// Role in the identity - headsets have always joined as `vr`
+export const IDENTITY_ROLES = { coach: 'coach', athlete: 'vr', observer: 'observer' };
+
+export const DEFAULT_TOKEN_TTL_SECONDS = 10 * 60;
+export const DEFAULT_SESSION_TTL_SECONDS = 12 * 60 * 60;
+// Token and refresh requests per client per minute - slows down guessing invite codes
+export const DEFAULT_RATE_LIMIT = 20;
+
+const MAX_NAME_LENGTH = 64;
+const MAX_ROOM_LENGTH = 128;
+
+/**
+ * @typedef {'coach' | 'athlete' | 'observer'} VideoRole
+ * @typedef {{ role: VideoRole, rooms: string[], name?: string }} VideoInvite
+ * @typedef {{ name: string, role: VideoRole, invite: string, sid: string, iat: number, exp: number }} VideoSession
+ * @typedef {{ token: string, room: string, identity: string, role: VideoRole, expiresAt: string }} VideoTokenGrant
+ */
+
+export class VideoAccessError extends Error {
+  /**
+   * @param {number} status HTTP status to answer with
+   * @param {string} message
+   * @param {number} [retryAfter] seconds, for 429s
+   */
+  constructor(status, message, retryAfter) {
+    super(message);
+    this.name = 'VideoAccessError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * VIDEO_INVITES: a JSON object of invite code → `{ role, rooms, name? }`, e.g.
+ * `{"TIGERS-COACH": {"role": "coach", "rooms": ["tigers-*"]}}`. Rooms are
+ * exact names, prefixes ending in `*`, or `*` for any room. `name` makes it
+ * one person's invite.
+ * @param {string | undefined} value
+ * @returns {Map<string, VideoInvite>}
+ */
+export function parseVideoInvites(value) {
+  const invites = new Map();
+  if (!value || !value.trim()) return invites;
+
+  let parsed;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new Error('VIDEO_INVITES is not valid JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('VIDEO_INVITES must be an object of invite code → { role, rooms }');
+  }
+
+  for (const [code, invite] of Object.entries(parsed)) {
+    if (!VIDEO_ROLES.includes(invite?.role)) {
+      throw new Error(`VIDEO_INVITES.${code}.role must be one of ${VIDEO_ROLES.join(', ')}`);
+    }
+    if (!Array.isArray(invite.rooms) || !invite.rooms.every((room) => typeof room === 'string' && room)) {
+      throw new Error(`VIDEO_INVITES.${code}.rooms must be a list of room names or patterns`);
+    }
+    if (invite.name !== undefined && !isVideoName(invite.name)) {
+      throw new Error(`VIDEO_INVITES.${code}.name must be a name of 1-${MAX_NAME_LENGTH} characters`);
+    }
+    invites.set(code, { role: invite.role, rooms: invite.rooms, ...(invite.name !== undefined && { name: invite.name }) });
+  }
+  return invites;
+}
+
+function isVideoName(value) {
+  return typeof value === 'string' && value.trim() === value && value.length > 0 && value.length <= MAX_NAME_LENGTH;
+}
+
+// Named invites reserve their name however it is capitalized
+function nameKey(name) {
+  return name.toLowerCase();
+}
+
+/** Whether `room` is on an invite's allow-list */
+export function isRoomAllowed(rooms, room) {
+  return rooms.some((pattern) =>
+    pattern.endsWith('*') ? room.startsWith(pattern.slice(0, -1)) : room === pattern
+  );
+}
+
+/** Same convention as parseRoomIdentity on the client */
+export function parseVideoIdentity(identity) {
+  const match = /^(.+)-([a-z]+)-(\d+)$/.exec(identity);
+  return match ? { name: match[1], role: match[2] } : null;
+}
+
+// Sessions name their invite by fingerprint, so removing an invite ends its sessions without the code being in the token
+function inviteFingerprint(code) {
+  return crypto.createHash('sha256').update(code).digest('base64url').slice(0, 16);
+}
+
+function sign(payload, secret) {
+  return crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * `<payload>.<signature>`, both base64url - HMAC-SHA256 over the payload
+ * @param {VideoSession} session
+ * @param {string} secret
+ */
+export function signVideoSession(session, secret) {
+  const payload = Buffer.from(JSON.stringify(session)).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * The session in `token`, or null when it's malformed, tampered with or expired
+ * @returns {VideoSession | null}
+ */
+export function verifyVideoSession(token, secret, now = Date.now()) {
+  if (typeof token !== 'string') return null;
+  const [payload, signature, extra] = token.split('.');
+  if (!payload || !signature || extra !== undefined) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (typeof session?.exp !== 'number' || session.exp * 1000 <= now) return null;
+    return session;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fixed one-minute windows per client key, in memory - per process on the
+ * Express server, per warm instance on Vercel.
+ * @param {{ limit: number, windowMs?: number }} options
+ */
+export function createRateLimiter({ limit, windowMs = 60_000 }) {
+  /** @type {Map<string, { count: number, resetAt: number }>} */
+  const windows = new Map();
+
+  return {
+    /** Counts one request; throws a 429 VideoAccessError once `key` is over the limit */
+    take(key, now = Date.now()) {
+      if (windows.size > 10_000) {
+        windows.forEach((window, existing) => {
+          if (window.resetAt <= now) windows.delete(existing);
+        });
+      }
+
+      let window = windows.get(key);
+      if (!window || window.resetAt <= now) {
+        window = { count: 0, resetAt: now + windowMs };
+        windows.set(key, window);
+      }
+      window.count++;
+      if (window.count > limit) {
+        throw new VideoAccessError(429, 'Too many token requests - try again shortly', Math.ceil((window.resetAt - now) / 1000));
+      }
+    },
+  };
+}
+
+function readRoom(body) {
+  const room = body?.room;
+  if (typeof room !== 'string' || !room || room.length > MAX_ROOM_LENGTH) {
+    throw new VideoAccessError(400, 'Missing required fields: room and identity');
+  }
+  return room;
+}
+
+function readIdentity(body, role) {
+  const identity = body?.identity;
+  if (typeof identity !== 'string' || !identity) {
+    throw new VideoAccessError(400, 'Missing required fields: room and identity');
+  }
+  const parsed = parseVideoIdentity(identity);
+  if (!parsed || parsed.name.length > MAX_NAME_LENGTH) {
+    throw new VideoAccessError(400, 'Identity must be <name>-<role>-<timestamp>');
+  }
+  if (parsed.role !== IDENTITY_ROLES[role]) {
+    throw new VideoAccessError(403, `This invite is for the ${role} role`);
+  }
+  return { identity, name: parsed.name };
+}
+
+function readBearer(authorization) {
+  const match = typeof authorization === 'string' ? /^Bearer\s+(\S+)$/i.exec(authorization) : null;
+  return match ? match[1] : null;
+}
+
+/**
+ * @param {{
+ *   accountSid?: string, apiKey?: string, apiSecret?: string,
+ *   invites: Map<string, VideoInvite>,
+ *   sessionSecret?: string,
+ *   tokenTtlSeconds?: number,
+ *   sessionTtlSeconds?: number,
+ *   rateLimit?: number,
+ *   now?: () => number,
+ * }} options
+ */
+export function createVideoAccess({
+  accountSid,
+  apiKey,
+  apiSecret,
+  invites,
+  sessionSecret = apiSecret,
+  tokenTtlSeconds = DEFAULT_TOKEN_TTL_SECONDS,
+  sessionTtlSeconds = DEFAULT_SESSION_TTL_SECONDS,
+  rateLimit = DEFAULT_RATE_LIMIT,
+  now = Date.now,
+}) {
+  const limiter = createRateLimiter({ limit: rateLimit });
+  const fingerprints = new Map([...invites.keys()].map((code) => [inviteFingerprint(code), code]));
+  const reservedNames = new Set(
+    [...invites.values()].flatMap((invite) => (invite.name === undefined ? [] : [nameKey(invite.name)]))
+  );
+
+  // Only minting needs Twilio - sessions are checked with the session secret alone
+  function checkConfigured() {
+    if (!accountSid || !apiKey || !apiSecret || !sessionSecret) {
+      throw new VideoAccessError(500, 'Server configuration error: Missing Twilio credentials');
+    }
+    if (invites.size === 0) {
+      throw new VideoAccessError(500, 'Server configuration error: No video invites configured (VIDEO_INVITES)');
+    }
+  }
+
+  function checkName(invite, name) {
+    if (invite.name !== undefined && name !== invite.name) {
+      throw new VideoAccessError(403, `This invite is for ${invite.name}`);
+    }
+    if (invite.name === undefined && reservedNames.has(nameKey(name))) {
+      throw new VideoAccessError(403, `${name} has their own invite`);
+    }
+  }
+
+  function checkRoom(invite, room) {
+    if (!isRoomAllowed(invite.rooms, room)) {
+      throw new VideoAccessError(403, `Not invited to room ${room}`);
+    }
+  }
+
+  // The session behind the header and its invite as configured now - a withdrawn invite ends the session
+  function readSession(authorization) {
+    if (!sessionSecret) throw new VideoAccessError(401, 'Room sessions are not set up on this server');
+    const session = verifyVideoSession(readBearer(authorization), sessionSecret, now());
+    if (!session || typeof session.sid !== 'string') {
+      throw new VideoAccessError(401, 'Session missing or expired - redeem the invite again');
+    }
+    const code = fingerprints.get(session.invite);
+    const invite = code ? invites.get(code) : undefined;
+    if (!invite || invite.role !== session.role || (invite.name !== undefined && invite.name !== session.name)) {
+      throw new VideoAccessError(401, 'The invite for this session was withdrawn');
+    }
+    return { session, invite };
+  }
+
+  /** @returns {VideoTokenGrant} */
+  function mint(identity, room, role) {
+    const { AccessToken } = twilio.jwt;
+    const token = new AccessToken(accountSid, apiKey, apiSecret, { identity, ttl: tokenTtlSeconds });
+    token.addGrant(new AccessToken.VideoGrant({ room }));
+    // AccessToken stamps its own clock, so expiresAt is only as exact as the two agree
+    const expiresAt = new Date(now() + tokenTtlSeconds * 1000).toISOString();
+    return { token: token.toJwt(), room, identity, role, expiresAt };
+  }
+
+  return {
+    /**
+     * Redeems an invite: `{ room, identity, invite }` → a token plus the
+     * session to refresh it with
+     * @param {unknown} body
+     * @param {string} client rate limit key, usually the caller's address
+     */
+    issueToken(body, client) {
+      limiter.take(client, now());
+      checkConfigured();
+
+      const code = typeof body?.invite === 'string' ? body.invite.trim() : '';
+      const invite = code ? invites.get(code) : undefined;
+      if (!invite) throw new VideoAccessError(401, code ? 'Invite code not recognized' : 'An invite code is required');
+
+      const room = readRoom(body);
+      const { identity, name } = readIdentity(body, invite.role);
+      checkName(invite, name);
+      checkRoom(invite, room);
+
+      const issuedAt = Math.floor(now() / 1000);
+      const session = {
+        name,
+        role: invite.role,
+        invite: inviteFingerprint(code),
+        sid: crypto.randomBytes(12).toString('base64url'),
+        iat: issuedAt,
+        exp: issuedAt + sessionTtlSeconds,
+      };
+      return {
+        ...mint(identity, room, invite.role),
+        session: signVideoSession(session, sessionSecret),
+        sessionExpiresAt: new Date(session.exp * 1000).toISOString(),
+      };
+    },
+
+    /**
+     * A fresh token for a session: `Authorization: Bearer <session>` and
+     * `{ room, identity }`. The identity keeps the session's name and role;
+     * the room is checked against the invite as it is configured now.
+     * @param {unknown} body
+     * @param {string | undefined} authorization
+     * @param {string} client
+     */
+    refreshToken(body, authorization, client) {
+      limiter.take(client, now());
+      checkConfigured();
+
+      const { session, invite } = readSession(authorization);
+
+      const room = readRoom(body);
+      const { identity, name } = readIdentity(body, session.role);
+      if (name !== session.name) throw new VideoAccessError(403, 'Identity does not match the session');
+      checkRoom(invite, room);
+      return mint(identity, room, session.role);
+    },
+
+    /**
+     * Who is behind `Authorization: Bearer <session>`, for everything that
+     * acts for a wrestler without minting a token - the coach channel relay,
+     * synced layouts, Coach Andy's memory. `userId`, when given, has to be the
+     * session's name and `room` has to be on its invite. `owner` is what to
+     * key the caller's data by: the name for a named invite, otherwise this
+     * session alone. Works without Twilio credentials.
+     * @param {string | undefined} authorization
+     * @param {{ userId?: string, room?: string }} [scope]
+     * @returns {{ name: string, role: VideoRole, owner: string }}
+     */
+    authorize(authorization, { userId, room } = {}) {
+      const { session, invite } = readSession(authorization);
+      if (userId !== undefined && userId !== session.name) {
+        throw new VideoAccessError(403, 'Session belongs to someone else');
+      }
+      if (room !== undefined) checkRoom(invite, room);
+      const owner = invite.name === undefined ? `session:${session.sid}` : session.name;
+      return { name: session.name, role: session.role, owner };
+    },
+  };
+}
+
+/** From TWILIO_*, VIDEO_INVITES and the optional VIDEO_* settings; the session secret falls back to TWILIO_API_SECRET */
+export function createVideoAccessFromEnv(env = process.env) {
+  const positive = (value, fallback) => {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) && parsed > 0 ? Math.floor(parsed) : fallback;
+  };
+
+  return createVideoAccess({
+    accountSid: env.TWILIO_ACCOUNT_SID,
+    apiKey: env.TWILIO_API_KEY,
+    apiSecret: env.TWILIO_API_SECRET,
+    invites: parseVideoInvites(env.VIDEO_INVITES),
+    sessionSecret: env.VIDEO_SESSION_SECRET || env.TWILIO_API_SECRET,
+    tokenTtlSeconds: positive(env.VIDEO_TOKEN_TTL, DEFAULT_TOKEN_TTL_SECONDS),
+    sessionTtlSeconds: positive(env.VIDEO_SESSION_TTL, DEFAULT_SESSION_TTL_SECONDS),
+    rateLimit: positive(env.VIDEO_TOKEN_RATE_LIMIT, DEFAULT_RATE_LIMIT),
+  });
+}
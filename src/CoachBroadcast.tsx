@@ -1,140 +1,122 @@
 import { useState, useRef, useEffect } from 'react';
 import { Button } from './components/ui/button';
 import { Video, VideoOff, Mic, MicOff, LogOut } from 'lucide-react';
+import { AthleteTile } from './components/coach/AthleteTile';
+import { CoachControls } from './components/coach/CoachControls';
+import { AthleteRoster, type AthleteFeed } from './lib/room/athlete-roster';
+import { CoachChannel } from './lib/room/coach-channel';
+import { RoomConnection, type RoomConnectionState, type RoomConnectionStatus } from './lib/room/room-connection';
+import { roomIdentity } from './lib/room/room-tracks';
+
+const STATUS_LABELS: Record<RoomConnectionStatus, string> = {
+  idle: '⚪ Disconnected',
+  connecting: '🔄 Connecting',
+  connected: '🟢 Connected',
+  reconnecting: '🟡 Reconnecting',
+  error: '🔴 Failed',
+};
+
+const STATUS_COLORS: Record<RoomConnectionStatus, string> = {
+  idle: 'text-slate-400',
+  connecting: 'text-slate-300',
+  connected: 'text-green-400',
+  reconnecting: 'text-yellow-400',
+  error: 'text-red-400',
+};
 
 function CoachBroadcast() {
   // Get URL parameters
   const urlParams = new URLSearchParams(window.location.search);
   const roomName = urlParams.get('room') || 'wrestling-test-room';
   const coachName = urlParams.get('coach') || 'Coach';
+  // ?role=observer watches the athletes without broadcasting or sending commands - it takes an observer invite
+  const observer = urlParams.get('role') === 'observer';
 
-  const [isConnected, setIsConnected] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
+  // The room connection reconnects by itself; the roster and the session controls ride on it
+  const [connection] = useState(
+    () =>
+      new RoomConnection({
+        roomName,
+        identity: roomIdentity(coachName, observer ? 'observer' : 'coach'),
+        connect: observer ? { audio: false, video: false } : { audio: true, video: { width: 1280, height: 720 } },
+      })
+  );
+  const [roster] = useState(() => new AthleteRoster(connection));
+  // Commands for the headsets - the room's data track once broadcasting, the local relay before
+  const [channel] = useState(() => new CoachChannel(roomName, coachName, 'coach'));
+  const [{ status, room, retries, error }, setConnectionState] = useState<RoomConnectionState>(() =>
+    connection.getState()
+  );
   const [isVideoOn, setIsVideoOn] = useState(true);
   const [isMuted, setIsMuted] = useState(false);
-  const [participantCount, setParticipantCount] = useState(0);
-  const [error, setError] = useState<string | null>(null);
+  const [athletes, setAthletes] = useState<AthleteFeed[]>([]);
+  const [spotlightSid, setSpotlightSid] = useState<string | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
-  const roomRef = useRef<any>(null);
-  const localTrackRef = useRef<any>(null);
-
-  const connectToRoom = async () => {
-    try {
-      setIsConnecting(true);
-      setError(null);
-      console.log('🎥 [COACH] Connecting to room:', roomName);
 
-      // Dynamic import of Twilio Video
-      const Video = await import('twilio-video');
-
-      // Get token from API
-      const response = await fetch('/api/twilio/video-token', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          room: roomName,
-          identity: `${coachName}-coach-${Date.now()}`
-        })
-      });
-
-      if (!response.ok) {
-        throw new Error(`Failed to get token: ${response.status}`);
-      }
-
-      const { token } = await response.json();
-      console.log('✅ [COACH] Got token, connecting...');
-
-      // Connect to room with video and audio
-      const room = await Video.connect(token, {
-        name: roomName,
-        audio: true,
-        video: { width: 1280, height: 720 }
-      });
+  useEffect(() => {
+    const unsubscribeConnection = connection.subscribe(setConnectionState);
+    const unsubscribeRoster = roster.subscribe(setAthletes);
+    if (!observer) {
+      channel.connectRelay();
+      channel.attachRoom(connection);
+    }
+    return () => {
+      unsubscribeConnection();
+      unsubscribeRoster();
+      channel.dispose();
+      roster.dispose();
+      connection.dispose();
+    };
+  }, [channel, connection, observer, roster]);
 
-      roomRef.current = room;
-      console.log('✅ [COACH] Connected to room:', room.name);
+  // Every full reconnect brings new local tracks - show the new camera...
+  useEffect(() => {
+    room?.localParticipant.videoTracks.forEach(({ track }) => {
+      if (videoRef.current) videoRef.current.srcObject = new MediaStream([track.mediaStreamTrack]);
+    });
+  }, [room]);
 
-      // Display local video
-      room.localParticipant.videoTracks.forEach((publication: any) => {
-        if (publication.track && videoRef.current) {
-          videoRef.current.srcObject = new MediaStream([publication.track.mediaStreamTrack]);
-          localTrackRef.current = publication.track;
-        }
-      });
+  // ...and keep the coach's camera and mic choices on them
+  useEffect(() => {
+    room?.localParticipant.videoTracks.forEach(({ track }) => track.enable(isVideoOn));
+  }, [room, isVideoOn]);
 
-      // Track participants
-      setParticipantCount(room.participants.size);
+  useEffect(() => {
+    room?.localParticipant.audioTracks.forEach(({ track }) => track.enable(!isMuted));
+  }, [room, isMuted]);
 
-      room.on('participantConnected', (participant: any) => {
-        console.log('👤 [COACH] Participant joined:', participant.identity);
-        setParticipantCount(room.participants.size);
-      });
+  // Reconnecting keeps the broadcast controls up - the coach hasn't left
+  const isConnected = status === 'connected' || status === 'reconnecting';
+  const isConnecting = status === 'connecting';
 
-      room.on('participantDisconnected', (participant: any) => {
-        console.log('👋 [COACH] Participant left:', participant.identity);
-        setParticipantCount(room.participants.size);
-      });
+  // Falls back to the grid when the spotlighted athlete leaves
+  const spotlighted = athletes.find((athlete) => athlete.sid === spotlightSid) ?? null;
 
-      setIsConnected(true);
-      setIsConnecting(false);
-    } catch (err: any) {
-      console.error('❌ [COACH] Connection error:', err);
-      setError(err.message || 'Failed to connect');
-      setIsConnecting(false);
-    }
+  const connectToRoom = () => {
+    console.log('🎥 [COACH] Connecting to room:', roomName);
+    connection.connect();
   };
 
   const disconnectFromRoom = () => {
-    if (roomRef.current) {
-      roomRef.current.disconnect();
-      roomRef.current = null;
-      setIsConnected(false);
-      setParticipantCount(0);
-      console.log('👋 [COACH] Disconnected from room');
-    }
+    connection.disconnect();
+    setSpotlightSid(null);
+    console.log('👋 [COACH] Disconnected from room');
   };
 
-  const toggleVideo = () => {
-    if (localTrackRef.current) {
-      if (isVideoOn) {
-        localTrackRef.current.disable();
-      } else {
-        localTrackRef.current.enable();
-      }
-      setIsVideoOn(!isVideoOn);
-    }
-  };
+  const toggleVideo = () => setIsVideoOn((on) => !on);
+  const toggleAudio = () => setIsMuted((muted) => !muted);
 
-  const toggleAudio = () => {
-    if (roomRef.current) {
-      roomRef.current.localParticipant.audioTracks.forEach((publication: any) => {
-        if (publication.track) {
-          if (isMuted) {
-            publication.track.enable();
-          } else {
-            publication.track.disable();
-          }
-        }
-      });
-      setIsMuted(!isMuted);
-    }
+  const toggleSpotlight = (sid: string) => {
+    setSpotlightSid((current) => (current === sid ? null : sid));
   };
 
-  useEffect(() => {
-    return () => {
-      if (roomRef.current) {
-        roomRef.current.disconnect();
-      }
-    };
-  }, []);
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 text-white p-8">
-      <div className="max-w-4xl mx-auto">
+      <div className="max-w-6xl mx-auto">
         <div className="mb-8 text-center">
           <h1 className="text-4xl font-bold mb-2">🎥 Coach Broadcast</h1>
-          <p className="text-slate-300">Share your video with athletes in VR</p>
+          <p className="text-slate-300">Share your video with athletes in VR and watch every one of them</p>
         </div>
 
         {/* Connection Info */}
@@ -150,19 +132,19 @@ function CoachBroadcast() {
             </div>
             <div>
               <span className="text-slate-400">Status:</span>
-              <span className={`ml-2 font-semibold ${isConnected ? 'text-green-400' : 'text-slate-400'}`}>
-                {isConnected ? '🟢 Connected' : '⚪ Disconnected'}
+              <span className={`ml-2 font-semibold ${STATUS_COLORS[status]}`}>
+                {status === 'reconnecting' && retries > 0 ? `${STATUS_LABELS.reconnecting} (try ${retries})` : STATUS_LABELS[status]}
               </span>
             </div>
             <div>
               <span className="text-slate-400">Athletes:</span>
-              <span className="ml-2 font-semibold text-blue-400">{participantCount}</span>
+              <span className="ml-2 font-semibold text-blue-400">{athletes.length}</span>
             </div>
           </div>
         </div>
 
         {/* Video Preview */}
-        <div className="bg-slate-800 rounded-lg p-4 mb-6 border border-slate-700">
+        <div className={`bg-slate-800 rounded-lg p-4 mb-6 border border-slate-700 ${observer ? 'hidden' : ''}`}>
           <video
             ref={videoRef}
             autoPlay
@@ -187,7 +169,12 @@ function CoachBroadcast() {
               size="lg"
               className="bg-green-600 hover:bg-green-700 text-white px-8"
             >
-              {isConnecting ? '🔄 Connecting...' : '📡 Start Broadcasting'}
+              {isConnecting ? '🔄 Connecting...' : observer ? '👀 Start Watching' : '📡 Start Broadcasting'}
+            </Button>
+          ) : observer ? (
+            <Button onClick={disconnectFromRoom} size="lg" variant="destructive" className="px-8">
+              <LogOut className="w-5 h-5 mr-2" />
+              Stop Watching
             </Button>
           ) : (
             <>
@@ -218,8 +205,69 @@ function CoachBroadcast() {
           )}
         </div>
 
+        {/* Athlete dashboard */}
+        {isConnected && (
+          <div className="bg-slate-800/50 backdrop-blur rounded-lg p-4 mb-6 border border-slate-700">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-bold">🤼 Athletes</h2>
+              <p className="text-sm text-slate-400">
+                {spotlighted
+                  ? `Spotlight: ${spotlighted.name} - click again for the grid`
+                  : 'Click an athlete to spotlight them and hear their mic'}
+              </p>
+            </div>
+
+            {athletes.length === 0 ? (
+              <p className="text-center text-slate-400 py-12">
+                No athletes yet - share the athlete URL below
+              </p>
+            ) : spotlighted ? (
+              <div className="space-y-4">
+                <AthleteTile
+                  athlete={spotlighted}
+                  roster={roster}
+                  spotlighted
+                  onSpotlight={() => toggleSpotlight(spotlighted.sid)}
+                />
+                {athletes.length > 1 && (
+                  <div className="grid grid-cols-3 md:grid-cols-5 gap-2">
+                    {athletes
+                      .filter((athlete) => athlete.sid !== spotlighted.sid)
+                      .map((athlete) => (
+                        <AthleteTile
+                          key={athlete.sid}
+                          athlete={athlete}
+                          roster={roster}
+                          spotlighted={false}
+                          compact
+                          onSpotlight={() => toggleSpotlight(athlete.sid)}
+                        />
+                      ))}
+                  </div>
+                )}
+              </div>
+            ) : (
+              <div className={`grid gap-4 ${athletes.length === 1 ? 'grid-cols-1' : 'grid-cols-1 md:grid-cols-2 xl:grid-cols-3'}`}>
+                {athletes.map((athlete) => (
+                  <AthleteTile
+                    key={athlete.sid}
+                    athlete={athlete}
+                    roster={roster}
+                    spotlighted={false}
+                    onSpotlight={() => toggleSpotlight(athlete.sid)}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {!observer && (
+          <CoachControls channel={channel} athleteNames={[...new Set(athletes.map((athlete) => athlete.name))]} />
+        )}
+
         {/* Error Display */}
-        {error && (
+        {status === 'error' && error && (
           <div className="bg-red-900/20 border border-red-500 rounded-lg p-4 mb-6">
             <p className="text-red-400">❌ Error: {error}</p>
           </div>
@@ -232,19 +280,27 @@ function CoachBroadcast() {
             <div>
               <span className="font-semibold text-white">Coach URL:</span>
               <p className="font-mono text-xs bg-slate-900 p-2 rounded mt-1">
-                {window.location.origin}/coach.html?room={roomName}&coach={coachName}
+                {window.location.origin}/coach.html?room={roomName}&coach={coachName}&invite=&lt;coach invite&gt;
               </p>
             </div>
             <div>
               <span className="font-semibold text-white">Athlete URL (for VR):</span>
               <p className="font-mono text-xs bg-slate-900 p-2 rounded mt-1">
-                {window.location.origin}/?room={roomName}&user=Athlete
+                {window.location.origin}/?room={roomName}&user=Athlete&invite=&lt;athlete invite&gt;
+              </p>
+            </div>
+            <div>
+              <span className="font-semibold text-white">Observer URL (watch only):</span>
+              <p className="font-mono text-xs bg-slate-900 p-2 rounded mt-1">
+                {window.location.origin}/coach.html?room={roomName}&coach=Observer&role=observer&invite=&lt;observer invite&gt;
               </p>
             </div>
             <div className="pt-2 border-t border-slate-700">
               <p>1. Coach: Click "Start Broadcasting" to share your video</p>
               <p>2. Athlete: Open the athlete URL on Quest 2 browser</p>
               <p>3. Athlete: Enter VR mode and see coach video on the right panel</p>
+              <p>4. Coach: Each athlete shows up under Athletes - click one to spotlight them and hear their mic</p>
+              <p>5. Coach: Use Session Controls to play, pause or spotlight a technique, send a tip or start a drill - each headset answers in the log</p>
             </div>
           </div>
         </div>
@@ -16,6 +16,9 @@ function VRTraining() {
   const urlParams = new URLSearchParams(window.location.search);
   const roomName = urlParams.get('room') || undefined;
   const userName = urlParams.get('user') || 'Wrestler';
+  // ?persona=<persona id> - otherwise the room's coach (server/coach/coach-personas.ts).
+  // Not ?coach=, which is the coach's display name on the coach dashboard
+  const coachPersona = urlParams.get('persona') || undefined;
 
   const [showCoach, setShowCoach] = useState(true);
   const [showTechnique, setShowTechnique] = useState(false);
@@ -190,6 +193,7 @@ function VRTraining() {
           onBackgroundReady={setPanoramaReady}
           roomName={roomName}
           userName={userName}
+          coachPersona={coachPersona}
           onScreenshot={takeScreenshot}
         />
       </div>
@@ -0,0 +1,157 @@
+import { useEffect, useRef } from 'react';
+import type { AudioTrack, VideoTrack } from 'twilio-video';
+import type { AthleteFeed, AthleteRoster } from '../../lib/room/athlete-roster';
+import { BLAZEPOSE_CONNECTIONS } from '../../lib/pose/reference-track';
+
+interface AthleteTileProps {
+  athlete: AthleteFeed;
+  roster: AthleteRoster;
+  spotlighted: boolean;
+  /** Small tile in the strip under the spotlight */
+  compact?: boolean;
+  onSpotlight: () => void;
+}
+
+// Skeleton is cleared when no pose arrives for this long
+const POSE_STALE_MS = 1000;
+const MIN_KEYPOINT_SCORE = 0.3;
+
+function TrackVideo({ track, className }: { track: VideoTrack; className: string }) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    track.attach(video);
+    return () => {
+      track.detach(video);
+    };
+  }, [track]);
+
+  return <video ref={videoRef} autoPlay playsInline muted className={className} />;
+}
+
+function TrackAudio({ track }: { track: AudioTrack }) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    track.attach(audio);
+    return () => {
+      track.detach(audio);
+    };
+  }, [track]);
+
+  return <audio ref={audioRef} autoPlay />;
+}
+
+// Draws the athlete's keypoints over their webcam, letterboxed the same way
+// as the object-contain video underneath
+function PoseOverlay({ roster, sid }: { roster: AthleteRoster; sid: string }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    let clearTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = roster.subscribePose(sid, ({ keypoints, aspect }) => {
+      canvas.width = canvas.clientWidth;
+      canvas.height = canvas.clientHeight;
+      const width = Math.min(canvas.width, canvas.height * aspect);
+      const height = width / aspect;
+      const left = (canvas.width - width) / 2;
+      const top = (canvas.height - height) / 2;
+      const point = (index: number) => {
+        const keypoint = keypoints[index];
+        return keypoint && keypoint.score >= MIN_KEYPOINT_SCORE
+          ? ([left + keypoint.x * width, top + keypoint.y * height] as const)
+          : null;
+      };
+
+      context.clearRect(0, 0, canvas.width, canvas.height);
+      context.strokeStyle = '#22d3ee';
+      context.fillStyle = '#facc15';
+      context.lineWidth = 2;
+      for (const [from, to] of BLAZEPOSE_CONNECTIONS) {
+        const a = point(from);
+        const b = point(to);
+        if (!a || !b) continue;
+        context.beginPath();
+        context.moveTo(a[0], a[1]);
+        context.lineTo(b[0], b[1]);
+        context.stroke();
+      }
+      keypoints.forEach((_, index) => {
+        const at = point(index);
+        if (!at) return;
+        context.beginPath();
+        context.arc(at[0], at[1], 3, 0, Math.PI * 2);
+        context.fill();
+      });
+
+      clearTimeout(clearTimer);
+      clearTimer = setTimeout(() => context.clearRect(0, 0, canvas.width, canvas.height), POSE_STALE_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      clearTimeout(clearTimer);
+    };
+  }, [roster, sid]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+}
+
+// One wrestler on the coach dashboard: the headset view when they publish it
+// (webcam picture-in-picture), otherwise the webcam, with their pose drawn on
+// the webcam. Only the spotlighted athlete is heard.
+export function AthleteTile({ athlete, roster, spotlighted, compact = false, onSpotlight }: AthleteTileProps) {
+  const main = athlete.headsetView ?? athlete.webcam;
+  const webcamInset = athlete.headsetView ? athlete.webcam : null;
+
+  return (
+    <button
+      type="button"
+      onClick={onSpotlight}
+      className={`relative w-full overflow-hidden rounded-lg bg-slate-900 text-left border-2 transition-colors ${
+        spotlighted ? 'border-cyan-400' : 'border-slate-700 hover:border-slate-500'
+      }`}
+      style={{ aspectRatio: '16/9' }}
+      title={spotlighted ? 'Back to the grid' : `Spotlight ${athlete.name}`}
+    >
+      {main ? (
+        <TrackVideo track={main} className="absolute inset-0 w-full h-full object-contain" />
+      ) : (
+        <div className="absolute inset-0 flex items-center justify-center text-slate-500 text-sm">
+          Waiting for video...
+        </div>
+      )}
+      {athlete.hasPose && !webcamInset && <PoseOverlay roster={roster} sid={athlete.sid} />}
+
+      {webcamInset && (
+        <div
+          className={`absolute bottom-2 right-2 overflow-hidden rounded border border-slate-600 bg-slate-900 ${
+            compact ? 'w-1/3' : 'w-1/4'
+          }`}
+          style={{ aspectRatio: '4/3' }}
+        >
+          <TrackVideo track={webcamInset} className="absolute inset-0 w-full h-full object-contain" />
+          {athlete.hasPose && <PoseOverlay roster={roster} sid={athlete.sid} />}
+        </div>
+      )}
+
+      {spotlighted && athlete.audio && <TrackAudio track={athlete.audio} />}
+
+      <div className="absolute top-2 left-2 flex items-center gap-2 rounded bg-slate-900/80 px-2 py-1 text-xs">
+        <span className="font-semibold text-white">{athlete.name}</span>
+        {athlete.headsetView && <span className="text-cyan-400">🥽 VR</span>}
+        {athlete.webcam && <span className="text-slate-300">📷</span>}
+        {athlete.hasPose && <span className="text-yellow-400">🦴 Pose</span>}
+        {spotlighted && <span className="text-green-400">{athlete.audio ? '🔊' : '🔇'}</span>}
+      </div>
+    </button>
+  );
+}
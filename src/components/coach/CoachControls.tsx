@@ -0,0 +1,204 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../ui/button';
+import {
+  describeCoachCommand,
+  type CoachChannel,
+  type CoachChannelState,
+  type CoachCommand,
+} from '../../lib/room/coach-channel';
+import { DRILL_IDS, DRILLS } from '../../lib/drills/rep-counter';
+import { loadTechniqueManifest, type TechniqueEntry } from '../../lib/techniques/technique-manifest';
+
+interface CoachControlsProps {
+  channel: CoachChannel;
+  /** Athletes the coach can address one by one */
+  athleteNames: string[];
+}
+
+const TRANSPORT_LABELS = {
+  twilio: 'Room data track',
+  websocket: 'Local relay',
+} as const;
+
+const inputClass = 'rounded bg-slate-900 border border-slate-600 px-2 py-1 text-sm text-white';
+
+// Directing the session from the dashboard: what to play, pause, look at,
+// a tip for the headset and drills to start - with each headset's answer
+export function CoachControls({ channel, athleteNames }: CoachControlsProps) {
+  const [state, setState] = useState<CoachChannelState>(() => channel.getState());
+  const [techniques, setTechniques] = useState<TechniqueEntry[]>([]);
+  const [target, setTarget] = useState<string>('');
+  const [techniqueId, setTechniqueId] = useState('');
+  const [startSeconds, setStartSeconds] = useState(0);
+  const [tip, setTip] = useState('');
+  const [drillId, setDrillId] = useState<string>(DRILL_IDS[0]);
+  const [sets, setSets] = useState(3);
+  const [targetReps, setTargetReps] = useState(10);
+
+  useEffect(() => channel.subscribe(setState), [channel]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    loadTechniqueManifest(controller.signal)
+      .then((manifest) => {
+        setTechniques(manifest.techniques);
+        setTechniqueId((current) => current || (manifest.techniques[0]?.id ?? ''));
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) console.error('❌ [COACH] Could not load techniques:', error);
+      });
+    return () => controller.abort();
+  }, []);
+
+  // An athlete who left drops back to everyone
+  const to = athleteNames.includes(target) ? target : null;
+  const connected = state.transports.length > 0;
+  const send = (command: CoachCommand) => channel.send(command, to);
+  const titleOf = (id: string) => techniques.find((technique) => technique.id === id)?.title ?? id;
+
+  const sendTip = () => {
+    const text = tip.trim();
+    if (!text) return;
+    send({ type: 'coaching-tip', text });
+    setTip('');
+  };
+
+  return (
+    <div className="bg-slate-800/50 backdrop-blur rounded-lg p-4 mb-6 border border-slate-700">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">🎛️ Session Controls</h2>
+        <p className={`text-sm ${connected ? 'text-green-400' : 'text-slate-400'}`}>
+          {connected
+            ? `🟢 ${state.transports.map((kind) => TRANSPORT_LABELS[kind]).join(' + ')}`
+            : '⚪ Not connected - start broadcasting or run the local server'}
+        </p>
+      </div>
+
+      <div className="space-y-3 text-sm">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-slate-400 w-20">Send to</span>
+          <select className={inputClass} value={to ?? ''} onChange={(event) => setTarget(event.target.value)}>
+            <option value="">Everyone</option>
+            {athleteNames.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-slate-400 w-20">Technique</span>
+          <select className={inputClass} value={techniqueId} onChange={(event) => setTechniqueId(event.target.value)}>
+            {techniques.map((technique) => (
+              <option key={technique.id} value={technique.id}>
+                {technique.title}
+              </option>
+            ))}
+          </select>
+          <label className="flex items-center gap-1 text-slate-400">
+            from
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              className={`${inputClass} w-20`}
+              value={startSeconds}
+              onChange={(event) => setStartSeconds(Math.max(0, Number(event.target.value) || 0))}
+            />
+            s
+          </label>
+          <Button
+            size="sm"
+            disabled={!connected || !techniqueId}
+            onClick={() => send({ type: 'play-technique', techniqueId, startSeconds })}
+          >
+            ▶ Play
+          </Button>
+          <Button size="sm" variant="secondary" disabled={!connected} onClick={() => send({ type: 'pause' })}>
+            ⏸ Pause
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            disabled={!connected || !techniqueId}
+            onClick={() => send({ type: 'spotlight-card', techniqueId })}
+          >
+            ✨ Spotlight
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-slate-400 w-20">Tip</span>
+          <input
+            className={`${inputClass} flex-1 min-w-48`}
+            value={tip}
+            maxLength={200}
+            placeholder="Hips down, head up"
+            onChange={(event) => setTip(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') sendTip();
+            }}
+          />
+          <Button size="sm" disabled={!connected || !tip.trim()} onClick={sendTip}>
+            📣 Send
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-slate-400 w-20">Drill</span>
+          <select className={inputClass} value={drillId} onChange={(event) => setDrillId(event.target.value)}>
+            {DRILL_IDS.map((id) => (
+              <option key={id} value={id}>
+                {DRILLS[id].label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={1}
+            className={`${inputClass} w-16`}
+            value={sets}
+            onChange={(event) => setSets(Math.max(1, Math.round(Number(event.target.value)) || 1))}
+          />
+          <span className="text-slate-400">sets of</span>
+          <input
+            type="number"
+            min={1}
+            className={`${inputClass} w-16`}
+            value={targetReps}
+            onChange={(event) => setTargetReps(Math.max(1, Math.round(Number(event.target.value)) || 1))}
+          />
+          <Button
+            size="sm"
+            disabled={!connected}
+            onClick={() => send({ type: 'start-drill', drillId, sets, targetReps })}
+          >
+            ⏱ Start
+          </Button>
+        </div>
+      </div>
+
+      {state.sent.length > 0 && (
+        <ul className="mt-4 space-y-1 text-xs border-t border-slate-700 pt-3 max-h-48 overflow-y-auto">
+          {state.sent.map((sent) => (
+            <li key={sent.id} className="flex flex-wrap gap-x-3">
+              <span className="text-slate-500">{new Date(sent.sentAt).toLocaleTimeString()}</span>
+              <span className="text-white">{describeCoachCommand(sent.command, titleOf)}</span>
+              <span className="text-slate-400">→ {sent.to ?? 'everyone'}</span>
+              {sent.acks.length === 0 ? (
+                <span className="text-slate-500">waiting for the headset…</span>
+              ) : (
+                sent.acks.map((ack) => (
+                  <span key={ack.from} className={ack.ok ? 'text-green-400' : 'text-orange-400'}>
+                    {ack.ok ? '✓' : '✗'} {ack.from}: {ack.message}
+                  </span>
+                ))
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
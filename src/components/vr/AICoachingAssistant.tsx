@@ -4,36 +4,41 @@ import { useState, useEffect, useRef } from 'react';
 import { Text, Html } from '@react-three/drei';
 import { useXR } from '@react-three/xr';
 import * as THREE from 'three';
+import { stanceCorrections, type StanceAnalysis, type StanceMetricId } from '../../lib/pose/stance-analysis';
+import { useStanceAnalysis } from '../../lib/pose/use-stance-analysis';
+import { PoseClipBuffer, requestFormAnalysis, type FormCoachingTip } from '../../lib/pose/form-analysis';
 
-interface CoachingTip {
-  type: 'stance' | 'movement' | 'technique' | 'positioning';
-  severity: 'info' | 'warning' | 'critical';
-  message: string;
+interface CoachingTip extends FormCoachingTip {
   timestamp: number;
 }
 
 interface AICoachingAssistantProps {
   exercise: string;
-  handData?: any;
+  /** Body stance analysis - analyzed from the live pose when omitted */
+  stance?: StanceAnalysis | null;
   enabled: boolean;
 }
 
-export function AICoachingAssistant({ exercise, handData, enabled }: AICoachingAssistantProps) {
+// Where the wrestler's feet and hands are is positioning; the rest is stance
+const POSITIONING_METRICS: StanceMetricId[] = ['foot-width', 'foot-stagger', 'hand-position'];
+
+export function AICoachingAssistant({ exercise, stance: stanceProp, enabled }: AICoachingAssistantProps) {
   const { isPresenting } = useXR();
+  const liveStance = useStanceAnalysis(enabled && isPresenting && stanceProp === undefined);
+  const stance = stanceProp === undefined ? liveStance : stanceProp;
   const [tips, setTips] = useState<CoachingTip[]>([]);
   const [currentTip, setCurrentTip] = useState<CoachingTip | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const videoCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const clipBufferRef = useRef<PoseClipBuffer | null>(null);
   const analysisIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
     if (!enabled || !isPresenting) return;
 
-    // Create canvas for capturing VR view
-    const canvas = document.createElement('canvas');
-    canvas.width = 640;
-    canvas.height = 480;
-    videoCanvasRef.current = canvas;
+    // Keep the last two seconds of pose to send with each analysis
+    const clipBuffer = new PoseClipBuffer(2000);
+    clipBuffer.start();
+    clipBufferRef.current = clipBuffer;
 
     // Start periodic analysis (every 3 seconds to avoid rate limits)
     analysisIntervalRef.current = setInterval(() => {
@@ -44,36 +49,23 @@ export function AICoachingAssistant({ exercise, handData, enabled }: AICoachingA
       if (analysisIntervalRef.current) {
         clearInterval(analysisIntervalRef.current);
       }
+      clipBuffer.stop();
+      clipBufferRef.current = null;
     };
   }, [enabled, isPresenting, exercise]);
 
   const analyzeForm = async () => {
-    if (!videoCanvasRef.current || isAnalyzing) return;
+    // Nothing to analyze until the wrestler has been in view
+    const clip = clipBufferRef.current?.toClip();
+    if (!clip || isAnalyzing) return;
 
     setIsAnalyzing(true);
 
     try {
-      // Capture current view
-      const canvas = videoCanvasRef.current;
-      const imageData = canvas.toDataURL('image/jpeg', 0.8);
-
-      // Send to AI for analysis
-      const response = await fetch('/api/ai/analyze-wrestling-form', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          image: imageData,
-          exercise,
-          handData
-        })
-      });
-
-      if (!response.ok) throw new Error('Analysis failed');
-
-      const { tips: newTips } = await response.json();
+      const { tips: newTips } = await requestFormAnalysis({ exercise, ...clip });
 
       // Add new tips
-      const tipsWithTimestamp = newTips.map((tip: Omit<CoachingTip, 'timestamp'>) => ({
+      const tipsWithTimestamp: CoachingTip[] = newTips.map((tip) => ({
         ...tip,
         timestamp: Date.now()
       }));
@@ -81,8 +73,8 @@ export function AICoachingAssistant({ exercise, handData, enabled }: AICoachingA
       setTips((prev) => [...tipsWithTimestamp, ...prev].slice(0, 10));
 
       // Set current tip to the most important one
-      const criticalTip = tipsWithTimestamp.find((t: CoachingTip) => t.severity === 'critical');
-      const warningTip = tipsWithTimestamp.find((t: CoachingTip) => t.severity === 'warning');
+      const criticalTip = tipsWithTimestamp.find((t) => t.severity === 'critical');
+      const warningTip = tipsWithTimestamp.find((t) => t.severity === 'warning');
       setCurrentTip(criticalTip || warningTip || tipsWithTimestamp[0] || null);
 
     } catch (error) {
@@ -94,29 +86,20 @@ export function AICoachingAssistant({ exercise, handData, enabled }: AICoachingA
 
   // Rule-based coaching (fallback when AI is not available)
   useEffect(() => {
-    if (!enabled || !handData) return;
+    if (!enabled || !stance) return;
 
     const localTips: CoachingTip[] = [];
 
     // Analyze stance based on exercise
     if (exercise === 'stance') {
-      if (handData.stanceScore < 70) {
+      stanceCorrections(stance).slice(0, 2).forEach((metric) => {
         localTips.push({
-          type: 'stance',
-          severity: 'warning',
-          message: 'Keep your hands up and maintain a low center of gravity',
+          type: POSITIONING_METRICS.includes(metric.id) ? 'positioning' : 'stance',
+          severity: metric.severity,
+          message: metric.message,
           timestamp: Date.now()
         });
-      }
-
-      if (handData.handPosition === 'high') {
-        localTips.push({
-          type: 'positioning',
-          severity: 'critical',
-          message: 'Your hands are too high - lower them to chest level',
-          timestamp: Date.now()
-        });
-      }
+      });
     }
 
     if (exercise === 'takedown') {
@@ -144,7 +127,7 @@ export function AICoachingAssistant({ exercise, handData, enabled }: AICoachingA
       }
     }
 
-  }, [exercise, handData, enabled]);
+  }, [exercise, stance, enabled]);
 
   // Auto-rotate tips every 5 seconds
   useEffect(() => {
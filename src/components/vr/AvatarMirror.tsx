@@ -10,19 +10,24 @@ import '@tensorflow/tfjs-backend-webgl';
 // Optional: WebGPU backend for better performance
 import '@tensorflow/tfjs-backend-webgpu';
 import { supportsXRLayers, createQuadLayer } from '@/lib/xr-layers';
+import { mirrorKeypoints } from '../../lib/pose/keypoint-mirror';
+import { publishLivePose } from '../../lib/pose/live-pose';
 
 interface AvatarMirrorProps {
   position?: [number, number, number];
   rotation?: [number, number, number];
   cameraDeviceId?: string; // Allow external camera selection
   onXRLayerChange?: (layer: XRQuadLayer | null) => void;
+  /** Flip the feed and skeleton left-right - pass the technique mirror setting so both match */
+  mirrored?: boolean;
 }
 
 export function AvatarMirror({
   position = [0, 1.5, -2],
   rotation = [0, 0, 0],
   cameraDeviceId,
-  onXRLayerChange
+  onXRLayerChange,
+  mirrored = false
 }: AvatarMirrorProps) {
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const materialRef = useRef<THREE.MeshBasicMaterial | null>(null);
@@ -30,6 +35,9 @@ export function AvatarMirror({
   const canvasContextRef = useRef<CanvasRenderingContext2D | null>(null);
   const detectorRef = useRef<poseDetection.PoseDetector | null>(null);
   const videoTrackRef = useRef<MediaStreamTrack | null>(null);
+  const keypointsRef = useRef<poseDetection.Keypoint[] | null>(null);
+  const isEstimatingRef = useRef(false);
+  const frameCountRef = useRef(0);
 
   // XR session tracking for video playback management
   const { session } = useXR();
@@ -428,7 +436,39 @@ export function AvatarMirror({
         // Draw current video frame into the mirror canvas
         const drawContext = canvasContextRef.current;
         if (drawContext) {
+          drawContext.save();
+          if (mirrored) {
+            drawContext.translate(canvas.width, 0);
+            drawContext.scale(-1, 1);
+          }
           drawContext.drawImage(video, 0, 0, canvas.width, canvas.height);
+          drawContext.restore();
+
+          if (keypointsRef.current) {
+            drawSkeleton(drawContext, keypointsRef.current, canvas.width, canvas.height, mirrored);
+          }
+        }
+
+        // Pose estimation every 3rd frame, never overlapping - keeps Quest frame rate up
+        frameCountRef.current += 1;
+        const detector = detectorRef.current;
+        if (detector && !isEstimatingRef.current && frameCountRef.current % 3 === 0) {
+          isEstimatingRef.current = true;
+          detector
+            .estimatePoses(video)
+            .then((poses) => {
+              keypointsRef.current = poses[0]?.keypoints ?? null;
+              if (keypointsRef.current) {
+                // Share with the ghost comparison / stance analysis
+                publishLivePose('avatar-mirror', keypointsRef.current, video.videoWidth, video.videoHeight);
+              }
+            })
+            .catch((error) => {
+              console.warn('[AvatarMirror] Pose estimation failed:', error);
+            })
+            .finally(() => {
+              isEstimatingRef.current = false;
+            });
         }
       }
 
@@ -514,7 +554,8 @@ function drawSkeleton(
   ctx: CanvasRenderingContext2D,
   keypoints: poseDetection.Keypoint[],
   width: number,
-  height: number
+  _height: number,
+  mirrored: boolean
 ) {
   // Extra defensive checks
   if (!keypoints || !Array.isArray(keypoints) || keypoints.length === 0) return;
@@ -522,11 +563,8 @@ function drawSkeleton(
   try {
     const minConfidence = 0.3;
 
-    // Mirror X coordinates
-    const mirroredKeypoints = keypoints.map(kp => ({
-      ...kp,
-      x: width - kp.x
-    }));
+    // Keypoints are in camera space - flip them (and swap left/right joints) with the feed
+    const mirroredKeypoints = mirrored ? mirrorKeypoints(keypoints, width) : keypoints;
 
     if (!mirroredKeypoints || mirroredKeypoints.length === 0) return;
 
@@ -0,0 +1,106 @@
+'use client';
+
+import React from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import { useXR } from '@react-three/xr';
+
+interface CardHighlightGuideProps {
+  /** World position of the card Coach Andy is pointing at */
+  target: [number, number, number] | null;
+  label: string | null;
+}
+
+// How far off the line of sight a card can be before the headset shows an arrow
+const IN_VIEW_ANGLE = 0.5;
+// Desktop camera swing speed (share of the remaining angle per second)
+const TURN_RATE = 4;
+const GUIDE_DISTANCE = 1.2;
+const GUIDE_SIDE_OFFSET = 0.38;
+
+type OrbitControlsLike = THREE.EventDispatcher & { target: THREE.Vector3; update(): void };
+
+// Turns the wrestler towards a highlighted card: on desktop the orbit camera
+// swings round to it, in the headset (where only the wrestler can turn their
+// head) an arrow at the edge of view points the way
+export function CardHighlightGuide({ target, label }: CardHighlightGuideProps) {
+  const { camera } = useThree();
+  const controls = useThree((state) => state.controls) as OrbitControlsLike | null;
+  const isPresenting = useXR((xr) => Boolean(xr.session));
+  const guideRef = React.useRef<THREE.Group>(null);
+  const [side, setSide] = React.useState<'left' | 'right' | null>(null);
+  const turningRef = React.useRef(false);
+  const scratch = React.useMemo(
+    () => ({ card: new THREE.Vector3(), offset: new THREE.Vector3(), forward: new THREE.Vector3(), local: new THREE.Vector3() }),
+    []
+  );
+
+  React.useEffect(() => {
+    turningRef.current = Boolean(target);
+  }, [target]);
+
+  useFrame((_, delta) => {
+    if (!target) return;
+    const { card, offset, forward, local } = scratch;
+    card.set(...target);
+
+    if (!isPresenting) {
+      if (!turningRef.current || !controls) return;
+      // Put the camera on the far side of the orbit centre, looking through it at the card
+      offset.copy(camera.position).sub(controls.target);
+      const towardCard = Math.atan2(card.x - controls.target.x, card.z - controls.target.z);
+      const current = Math.atan2(offset.x, offset.z);
+      const wanted = towardCard + Math.PI;
+      const remaining = Math.atan2(Math.sin(wanted - current), Math.cos(wanted - current));
+      if (Math.abs(remaining) < 0.01) {
+        turningRef.current = false;
+        return;
+      }
+      offset.applyAxisAngle(THREE.Object3D.DEFAULT_UP, remaining * Math.min(1, delta * TURN_RATE));
+      camera.position.copy(controls.target).add(offset);
+      controls.update();
+      return;
+    }
+
+    // Where the card is relative to where the wrestler is looking
+    local.copy(card).applyMatrix4(camera.matrixWorldInverse);
+    const angle = Math.atan2(local.x, -local.z);
+    const nextSide = Math.abs(angle) < IN_VIEW_ANGLE ? null : angle < 0 ? 'left' : 'right';
+    if (nextSide !== side) setSide(nextSide);
+
+    const guide = guideRef.current;
+    if (!guide || !nextSide) return;
+    guide.visible = true;
+    camera.getWorldPosition(guide.position);
+    camera.getWorldDirection(forward);
+    guide.position.addScaledVector(forward, GUIDE_DISTANCE);
+    guide.quaternion.copy(camera.quaternion);
+    guide.translateX(nextSide === 'left' ? -GUIDE_SIDE_OFFSET : GUIDE_SIDE_OFFSET);
+  });
+
+  if (!target || !isPresenting || !side) return null;
+
+  return (
+    // Hidden until the first frame has put it at the edge of view
+    <group ref={guideRef} visible={false}>
+      <Text fontSize={0.09} color="#d4af37" anchorX="center" anchorY="middle" outlineWidth={0.006} outlineColor="#000">
+        {side === 'left' ? '◀' : '▶'}
+      </Text>
+      {label && (
+        <Text
+          position={[0, -0.08, 0]}
+          fontSize={0.035}
+          color="#ffffff"
+          anchorX="center"
+          anchorY="top"
+          maxWidth={0.4}
+          outlineWidth={0.004}
+          outlineColor="#000"
+        >
+          {label}
+        </Text>
+      )}
+    </group>
+  );
+}
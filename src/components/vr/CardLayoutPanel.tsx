@@ -0,0 +1,146 @@
+'use client';
+
+import { RoundedBox, Text } from '@react-three/drei';
+import { PanelButton } from './PanelButton';
+import type { CardLayoutMode } from '../../lib/vr/card-layout-engine';
+
+interface CardLayoutPanelProps {
+  position: [number, number, number];
+  rotation?: [number, number, number];
+  scale?: number;
+  activeLayoutName: string;
+  layoutCount: number;
+  onPrevious: () => void;
+  onNext: () => void;
+  onSaveNew: () => void;
+  onReset: () => void;
+  /** Current arrangement mode, or null when cards are placed by hand */
+  layoutMode: CardLayoutMode | null;
+  onCycleMode: () => void;
+  carouselPage: number;
+  carouselPageCount: number;
+  onCarouselPage: (direction: 1 | -1) => void;
+}
+
+const MODE_LABELS: Record<CardLayoutMode, string> = {
+  ring: 'Ring',
+  arc: 'Arc',
+  wall: 'Wall',
+  carousel: 'Carousel',
+  focus: 'Focus',
+};
+
+// Floating layout switcher - lets wrestlers save, cycle and reset card arrangements without leaving VR
+export function CardLayoutPanel({
+  position,
+  rotation = [0, 0, 0],
+  scale = 0.5,
+  activeLayoutName,
+  layoutCount,
+  onPrevious,
+  onNext,
+  onSaveNew,
+  onReset,
+  layoutMode,
+  onCycleMode,
+  carouselPage,
+  carouselPageCount,
+  onCarouselPage,
+}: CardLayoutPanelProps) {
+  const modeLabel = layoutMode ? MODE_LABELS[layoutMode] : 'Custom';
+  const showPaging = layoutMode === 'carousel' && carouselPageCount > 1;
+
+  return (
+    <group position={position} rotation={rotation} scale={scale}>
+      <RoundedBox args={[1.6, 1.25, 0.03]} radius={0.05} smoothness={6}>
+        <meshStandardMaterial
+          color="#08090f"
+          metalness={0.45}
+          roughness={0.42}
+          emissive="#101320"
+          emissiveIntensity={0.3}
+        />
+      </RoundedBox>
+
+      <Text
+        position={[0, 0.45, 0.03]}
+        fontSize={0.1}
+        color="#d4af37"
+        anchorX="center"
+        anchorY="middle"
+      >
+        CARD LAYOUT
+      </Text>
+      <Text
+        position={[0, 0.28, 0.03]}
+        fontSize={0.12}
+        color="#ffffff"
+        anchorX="center"
+        anchorY="middle"
+        maxWidth={1.4}
+        outlineWidth={0.005}
+        outlineColor="#000000"
+      >
+        {activeLayoutName}
+      </Text>
+      <Text
+        position={[0, 0.14, 0.03]}
+        fontSize={0.06}
+        color="#888888"
+        anchorX="center"
+        anchorY="middle"
+      >
+        {layoutCount === 1 ? '1 saved layout' : `${layoutCount} saved layouts`}
+      </Text>
+
+      <PanelButton position={[-0.36, -0.1, 0.04]} label="◀ PREV" color="#d4af37" onActivate={onPrevious} />
+      <PanelButton position={[0.36, -0.1, 0.04]} label="NEXT ▶" color="#d4af37" onActivate={onNext} />
+      <PanelButton position={[-0.36, -0.42, 0.04]} label="SAVE NEW" color="#44cc66" onActivate={onSaveNew} />
+      <PanelButton position={[0.36, -0.42, 0.04]} label="RESET" color="#ff6b6b" onActivate={onReset} />
+
+      {/* Arrangement mode - sits under the main panel */}
+      <group position={[0, -0.95, 0]}>
+        <RoundedBox
+          args={[1.6, showPaging ? 0.7 : 0.42, 0.03]}
+          position={[0, showPaging ? -0.14 : 0, 0]}
+          radius={0.05}
+          smoothness={6}
+        >
+          <meshStandardMaterial
+            color="#08090f"
+            metalness={0.45}
+            roughness={0.42}
+            emissive="#101320"
+            emissiveIntensity={0.3}
+          />
+        </RoundedBox>
+        <Text
+          position={[-0.36, 0, 0.03]}
+          fontSize={0.09}
+          color="#ffffff"
+          anchorX="center"
+          anchorY="middle"
+        >
+          {`MODE: ${modeLabel.toUpperCase()}`}
+        </Text>
+        <PanelButton position={[0.36, 0, 0.04]} label="NEXT MODE" color="#5aa9ff" onActivate={onCycleMode} />
+
+        {showPaging && (
+          <>
+            <PanelButton position={[-0.5, -0.3, 0.04]} label="◀" color="#5aa9ff" onActivate={() => onCarouselPage(-1)} />
+            <Text
+              position={[0, -0.3, 0.03]}
+              fontSize={0.08}
+              color="#888888"
+              anchorX="center"
+              anchorY="middle"
+            >
+              {`${carouselPage + 1} / ${carouselPageCount}`}
+            </Text>
+            <PanelButton position={[0.5, -0.3, 0.04]} label="▶" color="#5aa9ff" onActivate={() => onCarouselPage(1)} />
+          </>
+        )}
+      </group>
+    </group>
+  );
+}
@@ -0,0 +1,153 @@
+'use client';
+
+import React from 'react';
+import { Text } from '@react-three/drei';
+import type { ThreeEvent } from '@react-three/fiber';
+import { PanelButton } from './PanelButton';
+import type { CoachChatTurn } from '../../lib/coach/coach-chat';
+
+interface CoachTranscriptProps {
+  position: [number, number, number];
+  width: number;
+  height: number;
+  turns: CoachChatTurn[];
+  /** Shown under the last turn, e.g. "Listening... Speak now!" */
+  status?: string | null;
+  fontSize?: number;
+}
+
+// What onSync hands back - the troika mesh, laid out
+interface TroikaText {
+  textRenderInfo?: { blockBounds?: [number, number, number, number] } | null;
+}
+
+const TURN_GAP = 0.06;
+const USER_COLOR = '#f8d970';
+const COACH_COLOR = '#ffffff';
+const STATUS_COLOR = '#888888';
+const SCROLL_COLOR = '#d4af37';
+
+// Scrollable chat transcript - each turn is measured once troika lays it out,
+// then everything outside the window is clipped. Sticks to the newest turn
+// unless the wrestler has scrolled back.
+export function CoachTranscript({ position, width, height, turns, status, fontSize = 0.1 }: CoachTranscriptProps) {
+  const items = React.useMemo(
+    () => [
+      ...turns.map((turn) => ({
+        text: turn.role === 'user' ? `You: ${turn.content}` : turn.content,
+        color: turn.role === 'user' ? USER_COLOR : COACH_COLOR,
+      })),
+      ...(status ? [{ text: status, color: STATUS_COLOR }] : []),
+    ],
+    [status, turns]
+  );
+  const [heights, setHeights] = React.useState<number[]>([]);
+  const [scroll, setScroll] = React.useState(0);
+  const followRef = React.useRef(true);
+
+  const measure = React.useCallback((index: number, troika: TroikaText) => {
+    const bounds = troika?.textRenderInfo?.blockBounds;
+    if (!bounds) return;
+    const measured = bounds[3] - bounds[1];
+    setHeights((previous) => {
+      if (previous[index] === measured) return previous;
+      const next = [...previous];
+      next[index] = measured;
+      return next;
+    });
+  }, []);
+
+  const tops: number[] = [];
+  let contentHeight = 0;
+  items.forEach((_, index) => {
+    tops.push(contentHeight);
+    contentHeight += (heights[index] ?? fontSize * 1.2) + TURN_GAP;
+  });
+  const maxScroll = Math.max(0, contentHeight - TURN_GAP - height);
+
+  React.useEffect(() => {
+    if (followRef.current) {
+      setScroll(maxScroll);
+    } else {
+      setScroll((current) => Math.min(current, maxScroll));
+    }
+  }, [maxScroll]);
+
+  const scrollBy = React.useCallback(
+    (delta: number) => {
+      setScroll((current) => {
+        const next = Math.max(0, Math.min(maxScroll, current + delta));
+        followRef.current = next >= maxScroll - 1e-3;
+        return next;
+      });
+    },
+    [maxScroll]
+  );
+
+  const handleWheel = React.useCallback(
+    (event: ThreeEvent<WheelEvent>) => {
+      event.stopPropagation();
+      scrollBy(Math.sign(event.nativeEvent.deltaY) * fontSize * 2);
+    },
+    [fontSize, scrollBy]
+  );
+
+  const windowTop = height / 2;
+
+  return (
+    <group position={position}>
+      {/* Wheel target for desktop - controllers use the arrows */}
+      <mesh onWheel={handleWheel}>
+        <planeGeometry args={[width, height]} />
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+      </mesh>
+
+      {items.map((item, index) => {
+        const y = windowTop - tops[index] + scroll;
+        return (
+          <Text
+            key={index}
+            position={[-width / 2, y, 0.01]}
+            fontSize={fontSize}
+            color={item.color}
+            anchorX="left"
+            anchorY="top"
+            maxWidth={width}
+            lineHeight={1.2}
+            outlineWidth={0.008}
+            outlineColor="#000000"
+            // Clip rect is in the text's own space: the window, shifted by where this turn sits
+            clipRect={[0, -height / 2 - y, width, windowTop - y]}
+            onSync={(troika) => measure(index, troika)}
+            raycast={() => null}
+          >
+            {item.text}
+          </Text>
+        );
+      })}
+
+      {maxScroll > 0 && (
+        <>
+          <PanelButton
+            position={[width / 2 + 0.14, height / 2 - 0.1, 0.02]}
+            label="▲"
+            color={SCROLL_COLOR}
+            width={0.16}
+            height={0.16}
+            fontSize={0.07}
+            onActivate={() => scrollBy(-height * 0.6)}
+          />
+          <PanelButton
+            position={[width / 2 + 0.14, -height / 2 + 0.1, 0.02]}
+            label="▼"
+            color={SCROLL_COLOR}
+            width={0.16}
+            height={0.16}
+            fontSize={0.07}
+            onActivate={() => scrollBy(height * 0.6)}
+          />
+        </>
+      )}
+    </group>
+  );
+}
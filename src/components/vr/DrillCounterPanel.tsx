@@ -0,0 +1,287 @@
+'use client';
+
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { RoundedBox, Text } from '@react-three/drei';
+import { PanelButton } from './PanelButton';
+import { DRILL_IDS, DRILLS } from '../../lib/drills/rep-counter';
+import type { DrillSession, DrillSessionState } from '../../lib/drills/drill-session';
+import { acquireWebcamPoseSource } from '../../lib/pose/webcam-pose-source';
+
+interface DrillCounterPanelProps {
+  /** Owned by the scene so Coach Andy can start drills too */
+  session: DrillSession;
+  position: [number, number, number];
+  rotation?: [number, number, number];
+  scale?: number;
+}
+
+const DRILL_COLOR = '#d4af37';
+const REST_COLOR = '#5aa9ff';
+const MAX_SETS = 10;
+const MAX_TARGET_REPS = 50;
+const REST_STEP_SECONDS = 15;
+const SUMMARY_COLUMN_ROWS = 5;
+
+function formatClock(seconds: number) {
+  const safe = Math.max(0, Math.round(seconds));
+  return `${Math.floor(safe / 60)}:${String(safe % 60).padStart(2, '0')}`;
+}
+
+function StepperRow({
+  y,
+  label,
+  value,
+  onPrevious,
+  onNext,
+}: {
+  y: number;
+  label: string;
+  value: string;
+  onPrevious: () => void;
+  onNext: () => void;
+}) {
+  return (
+    <group position={[0, y, 0]}>
+      <Text position={[-0.72, 0, 0.03]} fontSize={0.07} color="#888888" anchorX="left" anchorY="middle">
+        {label}
+      </Text>
+      <Text position={[0.28, 0, 0.03]} fontSize={0.085} color="#ffffff" anchorX="center" anchorY="middle">
+        {value}
+      </Text>
+      <PanelButton
+        position={[-0.12, 0, 0.04]}
+        label="◀"
+        color={DRILL_COLOR}
+        width={0.16}
+        height={0.16}
+        onActivate={onPrevious}
+      />
+      <PanelButton
+        position={[0.68, 0, 0.04]}
+        label="▶"
+        color={DRILL_COLOR}
+        width={0.16}
+        height={0.16}
+        onActivate={onNext}
+      />
+    </group>
+  );
+}
+
+// Floating rep counter - pick a drill, run timed sets with rests, get a summary at the end
+export function DrillCounterPanel({ session, position, rotation = [0, 0, 0], scale = 0.5 }: DrillCounterPanelProps) {
+  const [state, setState] = React.useState<DrillSessionState>(() => session.getState());
+
+  React.useEffect(() => session.subscribe(setState), [session]);
+
+  // Someone has to be watching - run the webcam detector while a set is live
+  const isCounting = state.phase === 'set';
+  React.useEffect(() => (isCounting ? acquireWebcamPoseSource() : undefined), [isCounting]);
+
+  useFrame(() => session.tick());
+
+  const { config } = state;
+  const drill = DRILLS[config.drillId];
+  const cycleDrill = (direction: 1 | -1) => {
+    const index = DRILL_IDS.indexOf(config.drillId);
+    session.configure({ drillId: DRILL_IDS[(index + direction + DRILL_IDS.length) % DRILL_IDS.length] });
+  };
+  const summary = state.phase === 'complete' ? session.getSummary() : null;
+
+  return (
+    <group position={position} rotation={rotation} scale={scale}>
+      <RoundedBox args={[1.6, 2.1, 0.03]} radius={0.05} smoothness={6}>
+        <meshStandardMaterial
+          color="#08090f"
+          metalness={0.45}
+          roughness={0.42}
+          emissive="#101320"
+          emissiveIntensity={0.3}
+        />
+      </RoundedBox>
+
+      <Text position={[0, 0.92, 0.03]} fontSize={0.1} color={DRILL_COLOR} anchorX="center" anchorY="middle">
+        DRILLS
+      </Text>
+
+      {state.phase === 'idle' && (
+        <>
+          <StepperRow
+            y={0.62}
+            label="DRILL"
+            value={drill.label.toUpperCase()}
+            onPrevious={() => cycleDrill(-1)}
+            onNext={() => cycleDrill(1)}
+          />
+          <StepperRow
+            y={0.4}
+            label="SETS"
+            value={String(config.sets)}
+            onPrevious={() => session.configure({ sets: Math.max(1, config.sets - 1) })}
+            onNext={() => session.configure({ sets: Math.min(MAX_SETS, config.sets + 1) })}
+          />
+          <StepperRow
+            y={0.18}
+            label="REPS"
+            value={config.targetReps === null ? 'OPEN' : String(config.targetReps)}
+            // Below 1 = open-ended sets, ended with END SET
+            onPrevious={() =>
+              session.configure({
+                targetReps: config.targetReps === null || config.targetReps <= 1 ? null : config.targetReps - 1,
+              })
+            }
+            onNext={() =>
+              session.configure({ targetReps: Math.min(MAX_TARGET_REPS, (config.targetReps ?? 0) + 1) })
+            }
+          />
+          <StepperRow
+            y={-0.04}
+            label="REST"
+            value={`${config.restSeconds}s`}
+            onPrevious={() => session.configure({ restSeconds: Math.max(0, config.restSeconds - REST_STEP_SECONDS) })}
+            onNext={() => session.configure({ restSeconds: config.restSeconds + REST_STEP_SECONDS })}
+          />
+          <Text
+            position={[0, -0.34, 0.03]}
+            fontSize={0.065}
+            color="#888888"
+            anchorX="center"
+            anchorY="middle"
+            maxWidth={1.4}
+            textAlign="center"
+          >
+            {drill.cue}
+          </Text>
+          <PanelButton position={[0, -0.72, 0.03]} label="START" color={DRILL_COLOR} onActivate={() => session.start()} />
+        </>
+      )}
+
+      {state.phase === 'set' && (
+        <>
+          <Text position={[0, 0.7, 0.03]} fontSize={0.08} color="#ffffff" anchorX="center" anchorY="middle">
+            {`${drill.label.toUpperCase()} · SET ${state.setNumber}/${config.sets}`}
+          </Text>
+          <Text
+            position={[0, 0.3, 0.03]}
+            fontSize={0.48}
+            color={state.counterPhase === 'in-rep' ? '#f8d970' : DRILL_COLOR}
+            anchorX="center"
+            anchorY="middle"
+          >
+            {String(state.reps)}
+          </Text>
+          <Text position={[0, -0.02, 0.03]} fontSize={0.07} color="#888888" anchorX="center" anchorY="middle">
+            {config.targetReps === null ? 'reps' : `of ${config.targetReps} reps`}
+          </Text>
+          <Text
+            position={[0, -0.2, 0.03]}
+            fontSize={0.065}
+            color={state.counterPhase === 'calibrating' ? '#f8d970' : '#888888'}
+            anchorX="center"
+            anchorY="middle"
+            maxWidth={1.4}
+            textAlign="center"
+          >
+            {state.counterPhase === 'calibrating' ? 'Stand tall in view of the camera…' : drill.cue}
+          </Text>
+          <Text position={[0, -0.42, 0.03]} fontSize={0.09} color="#ffffff" anchorX="center" anchorY="middle">
+            {formatClock(state.setElapsedSeconds)}
+          </Text>
+          <PanelButton
+            position={[-0.38, -0.72, 0.03]}
+            label="END SET"
+            color={DRILL_COLOR}
+            fontSize={0.08}
+            onActivate={() => session.endSet()}
+          />
+          <PanelButton
+            position={[0.38, -0.72, 0.03]}
+            label="FINISH"
+            color="#ff6b6b"
+            fontSize={0.08}
+            onActivate={() => session.finish()}
+          />
+        </>
+      )}
+
+      {state.phase === 'rest' && (
+        <>
+          <Text position={[0, 0.62, 0.03]} fontSize={0.1} color={REST_COLOR} anchorX="center" anchorY="middle">
+            REST
+          </Text>
+          <Text position={[0, 0.28, 0.03]} fontSize={0.36} color={REST_COLOR} anchorX="center" anchorY="middle">
+            {formatClock(state.restRemainingSeconds)}
+          </Text>
+          <Text position={[0, -0.04, 0.03]} fontSize={0.07} color="#888888" anchorX="center" anchorY="middle">
+            {`Last set: ${state.completedSets[state.completedSets.length - 1]?.reps ?? 0} reps`}
+          </Text>
+          <Text position={[0, -0.2, 0.03]} fontSize={0.07} color="#ffffff" anchorX="center" anchorY="middle">
+            {`Next: set ${state.setNumber}/${config.sets}`}
+          </Text>
+          <PanelButton
+            position={[-0.38, -0.72, 0.03]}
+            label="SKIP REST"
+            color={REST_COLOR}
+            fontSize={0.08}
+            onActivate={() => session.skipRest()}
+          />
+          <PanelButton
+            position={[0.38, -0.72, 0.03]}
+            label="FINISH"
+            color="#ff6b6b"
+            fontSize={0.08}
+            onActivate={() => session.finish()}
+          />
+        </>
+      )}
+
+      {summary && (
+        <>
+          <Text position={[0, 0.74, 0.03]} fontSize={0.08} color="#ffffff" anchorX="center" anchorY="middle">
+            {`${summary.drillLabel.toUpperCase()} SUMMARY`}
+          </Text>
+          <Text position={[0, 0.5, 0.03]} fontSize={0.2} color={DRILL_COLOR} anchorX="center" anchorY="middle">
+            {`${summary.totalReps} reps`}
+          </Text>
+          {summary.sets.map((set, index) => (
+            <Text
+              key={index}
+              // Second column past five sets
+              position={[
+                summary.sets.length > SUMMARY_COLUMN_ROWS ? (index < SUMMARY_COLUMN_ROWS ? -0.38 : 0.38) : 0,
+                0.28 - (index % SUMMARY_COLUMN_ROWS) * 0.09,
+                0.03,
+              ]}
+              fontSize={summary.sets.length > SUMMARY_COLUMN_ROWS ? 0.05 : 0.06}
+              color="#cccccc"
+              anchorX="center"
+              anchorY="middle"
+            >
+              {`Set ${index + 1}: ${set.reps} reps · ${formatClock(set.durationSeconds)}`}
+            </Text>
+          ))}
+          <Text
+            position={[0, -0.34, 0.03]}
+            fontSize={0.06}
+            color="#888888"
+            anchorX="center"
+            anchorY="middle"
+            maxWidth={1.45}
+            textAlign="center"
+          >
+            {`Active ${formatClock(summary.activeSeconds)} · rest ${formatClock(summary.restSeconds)}` +
+              (summary.secondsPerRep === null ? '' : ` · ${summary.secondsPerRep.toFixed(1)}s per rep`)}
+          </Text>
+          <PanelButton
+            position={[0, -0.72, 0.03]}
+            label="NEW SESSION"
+            color={DRILL_COLOR}
+            fontSize={0.08}
+            onActivate={() => session.reset()}
+          />
+        </>
+      )}
+    </group>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import React from 'react';
+import { useFrame } from '@react-three/fiber';
+import { RoundedBox, Text } from '@react-three/drei';
+import * as THREE from 'three';
+import type { PlaybackController } from '../../lib/video/playback-controller';
+import {
+  BLAZEPOSE_CONNECTIONS,
+  sampleReferenceTrack,
+  type PoseKeypoint,
+  type ReferenceTrack,
+} from '../../lib/pose/reference-track';
+import { alignPoseForOverlay, comparePoses, type PoseComparison } from '../../lib/pose/pose-comparison';
+import { getLatestLivePose } from '../../lib/pose/live-pose';
+import { acquireWebcamPoseSource } from '../../lib/pose/webcam-pose-source';
+import { mirrorKeypoints } from '../../lib/pose/keypoint-mirror';
+
+export type ReferenceTrackStatus = 'loading' | 'ready' | 'missing' | 'error';
+
+interface GhostComparisonPanelProps {
+  position: [number, number, number];
+  controller: PlaybackController | null;
+  track: ReferenceTrack | null;
+  trackStatus: ReferenceTrackStatus;
+  /** Compare against the mirrored technique (left/right swapped) */
+  mirrored: boolean;
+}
+
+// One torso (shoulders to hips) in panel units
+const SKELETON_SCALE = 0.28;
+const SKELETON_ORIGIN: [number, number, number] = [0, 0.3, 0.03];
+const MIN_SCORE = 0.3;
+// The readout is text - refreshing it every frame would thrash troika
+const READOUT_INTERVAL = 0.2;
+
+function deviationColor(deviation: number) {
+  if (deviation < 10) return '#44cc66';
+  if (deviation < 25) return '#f8d970';
+  return '#ff6b6b';
+}
+
+// Line-segment skeleton whose vertices are rewritten every frame
+function useSkeletonGeometry() {
+  return React.useMemo(() => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      'position',
+      new THREE.BufferAttribute(new Float32Array(BLAZEPOSE_CONNECTIONS.length * 2 * 3), 3)
+    );
+    return geometry;
+  }, []);
+}
+
+function writeSkeleton(geometry: THREE.BufferGeometry, keypoints: PoseKeypoint[] | null) {
+  const attribute = geometry.getAttribute('position') as THREE.BufferAttribute;
+  const positions = attribute.array as Float32Array;
+
+  BLAZEPOSE_CONNECTIONS.forEach(([a, b], index) => {
+    const from = keypoints?.[a];
+    const to = keypoints?.[b];
+    const offset = index * 6;
+    // Collapse bones we can't see to a point instead of drawing them wrong
+    if (!from || !to || from.score < MIN_SCORE || to.score < MIN_SCORE) {
+      positions.fill(0, offset, offset + 6);
+      return;
+    }
+    positions[offset] = from.x * SKELETON_SCALE;
+    positions[offset + 1] = from.y * SKELETON_SCALE;
+    positions[offset + 2] = 0;
+    positions[offset + 3] = to.x * SKELETON_SCALE;
+    positions[offset + 4] = to.y * SKELETON_SCALE;
+    positions[offset + 5] = 0;
+  });
+
+  attribute.needsUpdate = true;
+  geometry.computeBoundingSphere();
+}
+
+// Wrestler's live skeleton with the reference technique as a translucent ghost on top,
+// plus per-joint angle deviations and an overall similarity score
+export function GhostComparisonPanel({
+  position,
+  controller,
+  track,
+  trackStatus,
+  mirrored,
+}: GhostComparisonPanelProps) {
+  const liveGeometry = useSkeletonGeometry();
+  const ghostGeometry = useSkeletonGeometry();
+  const elapsedRef = React.useRef(READOUT_INTERVAL);
+  const latestComparisonRef = React.useRef<PoseComparison | null>(null);
+  const [comparison, setComparison] = React.useState<PoseComparison | null>(null);
+  const [hasLivePose, setHasLivePose] = React.useState(false);
+
+  // The comparison needs someone to compare - start the webcam while the panel is open
+  React.useEffect(() => acquireWebcamPoseSource(), []);
+
+  React.useEffect(
+    () => () => {
+      liveGeometry.dispose();
+      ghostGeometry.dispose();
+    },
+    [ghostGeometry, liveGeometry]
+  );
+
+  useFrame((_, delta) => {
+    const live = getLatestLivePose();
+    const time = controller?.video?.currentTime ?? null;
+    let reference = track && time !== null ? sampleReferenceTrack(track, time) : null;
+    if (reference && mirrored) {
+      reference = mirrorKeypoints(reference);
+    }
+
+    const referenceAspect = track ? track.width / track.height : 1;
+    writeSkeleton(liveGeometry, live ? alignPoseForOverlay(live.keypoints, live.aspect) : null);
+    writeSkeleton(ghostGeometry, reference ? alignPoseForOverlay(reference, referenceAspect) : null);
+
+    latestComparisonRef.current =
+      live && reference ? comparePoses(live.keypoints, reference, live.aspect, referenceAspect) : null;
+
+    elapsedRef.current += delta;
+    if (elapsedRef.current >= READOUT_INTERVAL) {
+      elapsedRef.current = 0;
+      setComparison(latestComparisonRef.current);
+      setHasLivePose(Boolean(live));
+    }
+  });
+
+  const status =
+    trackStatus === 'loading'
+      ? 'Loading reference…'
+      : trackStatus === 'missing'
+        ? 'No reference track for this clip yet'
+        : trackStatus === 'error'
+          ? 'Reference track failed to load'
+          : !hasLivePose
+            ? 'Step in front of the camera'
+            : !comparison
+              ? 'Play the clip to compare'
+              : null;
+
+  return (
+    <group position={position}>
+      <RoundedBox args={[1.6, 2.1, 0.03]} radius={0.05} smoothness={6}>
+        <meshStandardMaterial
+          color="#08090f"
+          metalness={0.45}
+          roughness={0.42}
+          emissive="#101320"
+          emissiveIntensity={0.3}
+          transparent
+          opacity={0.85}
+        />
+      </RoundedBox>
+
+      <Text position={[0, 0.92, 0.03]} fontSize={0.09} color="#d4af37" anchorX="center" anchorY="middle">
+        GHOST COMPARE
+      </Text>
+
+      <group position={SKELETON_ORIGIN}>
+        <lineSegments geometry={liveGeometry} raycast={() => null}>
+          <lineBasicMaterial color="#44cc66" />
+        </lineSegments>
+        {/* Reference ghost drawn on top of the live skeleton */}
+        <lineSegments geometry={ghostGeometry} position={[0, 0, 0.01]} raycast={() => null}>
+          <lineBasicMaterial color="#ffffff" transparent opacity={0.45} depthWrite={false} />
+        </lineSegments>
+      </group>
+
+      <Text
+        position={[0, -0.42, 0.03]}
+        fontSize={status ? 0.065 : 0.13}
+        color={status ? '#888888' : deviationColor(100 - (comparison?.similarity ?? 0))}
+        anchorX="center"
+        anchorY="middle"
+        maxWidth={1.4}
+        textAlign="center"
+      >
+        {status ?? `${comparison?.similarity ?? 0}% match`}
+      </Text>
+
+      {!status &&
+        comparison?.joints.map((joint, index) => (
+          <Text
+            key={joint.id}
+            position={[index % 2 === 0 ? -0.38 : 0.38, -0.6 - Math.floor(index / 2) * 0.11, 0.03]}
+            fontSize={0.06}
+            color={deviationColor(joint.deviation)}
+            anchorX="center"
+            anchorY="middle"
+          >
+            {`${joint.label} ${Math.round(joint.deviation)}°`}
+          </Text>
+        ))}
+    </group>
+  );
+}
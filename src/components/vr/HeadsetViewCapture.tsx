@@ -0,0 +1,201 @@
+'use client';
+
+import React from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import type { HeadsetViewPublisher } from '../../lib/room/headset-view-publisher';
+
+interface HeadsetViewCaptureProps {
+  publisher: HeadsetViewPublisher;
+}
+
+// Wider than a desktop view, closer to what a headset shows
+const CAPTURE_FOV = 80;
+
+// Render targets hold linear colour and read back bottom-up; this pass hands
+// the publisher top-down sRGB rows it can put on its canvas as they are
+const OUTPUT_VERTEX_SHADER = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+const OUTPUT_FRAGMENT_SHADER = `
+  uniform sampler2D frame;
+  varying vec2 vUv;
+  void main() {
+    vec3 linear = texture2D(frame, vec2(vUv.x, 1.0 - vUv.y)).rgb;
+    vec3 srgb = mix(linear * 12.92, 1.055 * pow(linear, vec3(1.0 / 2.4)) - 0.055, step(0.0031308, linear));
+    gl_FragColor = vec4(srgb, 1.0);
+  }
+`;
+
+interface PendingReadback {
+  sync: WebGLSync;
+  width: number;
+  height: number;
+}
+
+/**
+ * Reads the output target into a pixel buffer without waiting for the GPU:
+ * the copy is queued behind the render and picked up on a later frame once
+ * its fence has passed. WebGL1 falls back to a plain read.
+ */
+class PixelReadback {
+  private readonly context: WebGL2RenderingContext | null;
+  private buffer: WebGLBuffer | null = null;
+  private pending: PendingReadback | null = null;
+  pixels = new Uint8Array(0);
+
+  constructor(renderer: THREE.WebGLRenderer) {
+    const context = renderer.getContext();
+    const isWebGL2 = typeof WebGL2RenderingContext !== 'undefined' && context instanceof WebGL2RenderingContext;
+    this.context = isWebGL2 ? context : null;
+  }
+
+  get busy() {
+    return this.pending !== null;
+  }
+
+  /**
+   * Queues a read of `target`, which has to be the bound render target.
+   * True when `pixels` already holds it - the WebGL1 fallback - otherwise
+   * poll() hands it over later.
+   */
+  start(renderer: THREE.WebGLRenderer, target: THREE.WebGLRenderTarget, width: number, height: number) {
+    if (this.pixels.length !== width * height * 4) this.pixels = new Uint8Array(width * height * 4);
+    const gl = this.context;
+    if (!gl) {
+      renderer.readRenderTargetPixels(target, 0, 0, width, height, this.pixels);
+      return true;
+    }
+
+    this.buffer ??= gl.createBuffer();
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.buffer);
+    gl.bufferData(gl.PIXEL_PACK_BUFFER, this.pixels.byteLength, gl.STREAM_READ);
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, 0);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+    const sync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0);
+    gl.flush();
+    if (!sync) return false;
+    this.pending = { sync, width, height };
+    return false;
+  }
+
+  /** The frame queued by start(), once the GPU has written it */
+  poll(): PendingReadback | null {
+    const gl = this.context;
+    const pending = this.pending;
+    if (!gl || !pending) return null;
+    const status = gl.clientWaitSync(pending.sync, 0, 0);
+    if (status === gl.TIMEOUT_EXPIRED) return null;
+
+    gl.deleteSync(pending.sync);
+    this.pending = null;
+    if (status === gl.WAIT_FAILED) return null;
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.buffer);
+    gl.getBufferSubData(gl.PIXEL_PACK_BUFFER, 0, this.pixels);
+    gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+    return pending;
+  }
+
+  dispose() {
+    if (this.pending) this.context?.deleteSync(this.pending.sync);
+    this.pending = null;
+    if (this.buffer) this.context?.deleteBuffer(this.buffer);
+    this.buffer = null;
+  }
+}
+
+// While the headset view is shared, renders the scene from the wrestler's head
+// into a small render target at the preset's rate and hands the pixels to the
+// publisher. A new frame is only rendered once the last one has been read
+// back, so a slow GPU lowers the rate instead of stalling the headset. XR
+// composition layers (passthrough, layer videos) are composited by the
+// headset and don't show up here
+export function HeadsetViewCapture({ publisher }: HeadsetViewCaptureProps) {
+  const { gl, scene, camera } = useThree();
+  const [live, setLive] = React.useState(false);
+  const lastFrameRef = React.useRef(0);
+  const capture = React.useMemo(() => {
+    const output = new THREE.ShaderMaterial({
+      uniforms: { frame: { value: null } },
+      vertexShader: OUTPUT_VERTEX_SHADER,
+      fragmentShader: OUTPUT_FRAGMENT_SHADER,
+      depthTest: false,
+      depthWrite: false,
+    });
+    // A full-screen quad - the shader ignores the camera, so culling against it must not either
+    const quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), output);
+    quad.frustumCulled = false;
+    const outputScene = new THREE.Scene();
+    outputScene.add(quad);
+    return {
+      camera: new THREE.PerspectiveCamera(CAPTURE_FOV, 16 / 9, 0.05, 200),
+      sceneTarget: null as THREE.WebGLRenderTarget | null,
+      outputTarget: null as THREE.WebGLRenderTarget | null,
+      output,
+      outputScene,
+      outputCamera: new THREE.OrthographicCamera(),
+      readback: new PixelReadback(gl),
+    };
+  }, [gl]);
+
+  React.useEffect(() => publisher.subscribe((state) => setLive(state.status === 'live')), [publisher]);
+
+  React.useEffect(
+    () => () => {
+      capture.sceneTarget?.dispose();
+      capture.outputTarget?.dispose();
+      capture.sceneTarget = capture.outputTarget = null;
+      capture.output.dispose();
+      capture.outputScene.traverse((object) => (object as THREE.Mesh).geometry?.dispose());
+      capture.readback.dispose();
+    },
+    [capture]
+  );
+
+  useFrame(() => {
+    const ready = capture.readback.poll();
+    if (ready && live) publisher.drawFrame(capture.readback.pixels, ready.width, ready.height);
+
+    if (!live || capture.readback.busy) return;
+    const { width, height, fps } = publisher.getPreset();
+    const now = performance.now();
+    if (now - lastFrameRef.current < 1000 / fps) return;
+    lastFrameRef.current = now;
+
+    let { sceneTarget, outputTarget } = capture;
+    if (!sceneTarget || !outputTarget || sceneTarget.width !== width || sceneTarget.height !== height) {
+      sceneTarget?.dispose();
+      outputTarget?.dispose();
+      sceneTarget = capture.sceneTarget = new THREE.WebGLRenderTarget(width, height);
+      outputTarget = capture.outputTarget = new THREE.WebGLRenderTarget(width, height, { depthBuffer: false });
+      capture.output.uniforms.frame.value = sceneTarget.texture;
+      capture.camera.aspect = width / height;
+      capture.camera.updateProjectionMatrix();
+    }
+
+    // Head pose: the XR camera while presenting (last frame's), the orbit camera on desktop
+    const head = gl.xr.isPresenting ? gl.xr.getCamera() : camera;
+    head.matrixWorld.decompose(capture.camera.position, capture.camera.quaternion, capture.camera.scale);
+    capture.camera.updateMatrixWorld();
+
+    // With XR enabled three.js would swap in the eye cameras and draw to the headset
+    const previousTarget = gl.getRenderTarget();
+    const xrEnabled = gl.xr.enabled;
+    gl.xr.enabled = false;
+    gl.setRenderTarget(sceneTarget);
+    gl.render(scene, capture.camera);
+    gl.setRenderTarget(outputTarget);
+    gl.render(capture.outputScene, capture.outputCamera);
+    const readNow = capture.readback.start(gl, outputTarget, width, height);
+    gl.setRenderTarget(previousTarget);
+    gl.xr.enabled = xrEnabled;
+
+    if (readNow) publisher.drawFrame(capture.readback.pixels, width, height);
+  });
+
+  return null;
+}
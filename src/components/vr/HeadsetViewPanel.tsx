@@ -0,0 +1,91 @@
+'use client';
+
+import React from 'react';
+import { RoundedBox, Text } from '@react-three/drei';
+import { PanelButton } from './PanelButton';
+import {
+  HEADSET_VIEW_PRESETS,
+  HEADSET_VIEW_QUALITIES,
+  type HeadsetViewPublisher,
+  type HeadsetViewState,
+} from '../../lib/room/headset-view-publisher';
+
+interface HeadsetViewPanelProps {
+  publisher: HeadsetViewPublisher;
+  position: [number, number, number];
+  rotation?: [number, number, number];
+  scale?: number;
+}
+
+const SHARE_COLOR = '#d4af37';
+const LIVE_COLOR = '#44ff44';
+
+const STATUS_LINES: Record<HeadsetViewState['status'], string> = {
+  off: "Coach can't see your view",
+  connecting: 'Connecting…',
+  live: 'Coach sees your view',
+  reconnecting: 'Connection lost - reconnecting…',
+  error: 'Sharing failed',
+};
+
+// Start/stop sharing the headset view with the coach, and how much upload it may use
+export function HeadsetViewPanel({ publisher, position, rotation = [0, 0, 0], scale = 0.5 }: HeadsetViewPanelProps) {
+  const [state, setState] = React.useState<HeadsetViewState>(() => publisher.getState());
+
+  React.useEffect(() => publisher.subscribe(setState), [publisher]);
+
+  const sharing = state.status !== 'off' && state.status !== 'error';
+  const { width, height, fps, maxKbps } = HEADSET_VIEW_PRESETS[state.quality];
+  const cycleQuality = () => {
+    const index = HEADSET_VIEW_QUALITIES.indexOf(state.quality);
+    publisher.setQuality(HEADSET_VIEW_QUALITIES[(index + 1) % HEADSET_VIEW_QUALITIES.length]);
+  };
+
+  return (
+    <group position={position} rotation={rotation} scale={scale}>
+      <RoundedBox args={[1.6, 0.8, 0.03]} radius={0.05} smoothness={6}>
+        <meshStandardMaterial
+          color="#08090f"
+          metalness={0.45}
+          roughness={0.42}
+          emissive="#101320"
+          emissiveIntensity={0.3}
+        />
+      </RoundedBox>
+
+      <Text position={[0, 0.3, 0.03]} fontSize={0.08} color={SHARE_COLOR} anchorX="center" anchorY="middle">
+        HEADSET VIEW
+      </Text>
+      <Text
+        position={[0, 0.16, 0.03]}
+        fontSize={0.06}
+        color={state.status === 'live' ? LIVE_COLOR : state.status === 'error' ? '#ff8844' : '#888888'}
+        anchorX="center"
+        anchorY="middle"
+        maxWidth={1.4}
+        textAlign="center"
+      >
+        {state.status === 'error' && state.error ? `${STATUS_LINES.error}: ${state.error}` : STATUS_LINES[state.status]}
+      </Text>
+      <Text position={[0, 0.04, 0.03]} fontSize={0.05} color="#888888" anchorX="center" anchorY="middle">
+        {`${width}×${height} · ${fps} fps · max ${maxKbps} kbps`}
+      </Text>
+
+      <PanelButton
+        position={[-0.38, -0.2, 0.03]}
+        label={sharing ? 'STOP' : 'SHARE'}
+        color={sharing ? LIVE_COLOR : SHARE_COLOR}
+        active={state.status === 'live'}
+        fontSize={0.08}
+        onActivate={() => (sharing ? publisher.stop() : void publisher.start())}
+      />
+      <PanelButton
+        position={[0.38, -0.2, 0.03]}
+        label={state.quality.toUpperCase()}
+        color={SHARE_COLOR}
+        fontSize={0.08}
+        onActivate={cycleQuality}
+      />
+    </group>
+  );
+}
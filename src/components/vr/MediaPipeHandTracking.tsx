@@ -2,9 +2,11 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Sphere, Line, Text } from '@react-three/drei';
+import { Sphere, Line } from '@react-three/drei';
 import { useXR } from '@react-three/xr';
 import * as THREE from 'three';
+import { useStanceAnalysis } from '../../lib/pose/use-stance-analysis';
+import { StanceAnalysisHUD } from './StanceAnalysisHUD';
 
 interface HandLandmark {
   x: number;
@@ -12,18 +14,12 @@ interface HandLandmark {
   z: number;
 }
 
-interface HandAnalysis {
-  stanceScore: number;
-  handPosition: 'high' | 'low' | 'optimal';
-  elbowAngle: number;
-  feedback: string[];
-}
-
 export function MediaPipeHandTracking() {
   const { isPresenting } = useXR();
   const [leftHand, setLeftHand] = useState<HandLandmark[]>([]);
   const [rightHand, setRightHand] = useState<HandLandmark[]>([]);
-  const [analysis, setAnalysis] = useState<HandAnalysis | null>(null);
+  // Stance is judged from the full body (BlazePose) - hand landmarks have no knees, hips or shoulders
+  const analysis = useStanceAnalysis(isPresenting);
   const handsRef = useRef<any>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
 
@@ -86,12 +82,6 @@ export function MediaPipeHandTracking() {
 
           setLeftHand(leftLandmarks);
           setRightHand(rightLandmarks);
-
-          // Analyze wrestling stance
-          if (leftLandmarks.length > 0 && rightLandmarks.length > 0) {
-            const analysisResult = analyzeWrestlingStance(leftLandmarks, rightLandmarks);
-            setAnalysis(analysisResult);
-          }
         });
 
         handsRef.current = hands;
@@ -129,76 +119,6 @@ export function MediaPipeHandTracking() {
     };
   }, [isPresenting]);
 
-  // Analyze wrestling stance from hand positions
-  const analyzeWrestlingStance = (left: HandLandmark[], right: HandLandmark[]): HandAnalysis => {
-    const feedback: string[] = [];
-    let stanceScore = 100;
-
-    // Get wrist positions (landmark 0)
-    const leftWrist = left[0];
-    const rightWrist = right[0];
-
-    // Check hand height (should be around chest level for wrestling stance)
-    const avgHandHeight = (leftWrist.y + rightWrist.y) / 2;
-    let handPosition: 'high' | 'low' | 'optimal' = 'optimal';
-
-    if (avgHandHeight > 0.3) {
-      handPosition = 'high';
-      feedback.push('Lower your hands to chest level');
-      stanceScore -= 15;
-    } else if (avgHandHeight < -0.2) {
-      handPosition = 'low';
-      feedback.push('Raise your hands higher');
-      stanceScore -= 15;
-    } else {
-      feedback.push('✓ Hand height is optimal');
-    }
-
-    // Check hand spacing
-    const handDistance = Math.abs(leftWrist.x - rightWrist.x);
-    if (handDistance < 0.3) {
-      feedback.push('Widen your stance - hands too close');
-      stanceScore -= 10;
-    } else if (handDistance > 0.8) {
-      feedback.push('Narrow your stance - hands too wide');
-      stanceScore -= 10;
-    } else {
-      feedback.push('✓ Hand spacing is good');
-    }
-
-    // Estimate elbow angle (simplified)
-    const leftElbow = left[7]; // Elbow landmark
-    const leftShoulder = left[11]; // Approximate shoulder
-
-    const elbowVector = new THREE.Vector3(
-      leftElbow.x - leftWrist.x,
-      leftElbow.y - leftWrist.y,
-      leftElbow.z - leftWrist.z
-    );
-
-    const shoulderVector = new THREE.Vector3(
-      leftShoulder.x - leftElbow.x,
-      leftShoulder.y - leftElbow.y,
-      leftShoulder.z - leftElbow.z
-    );
-
-    const elbowAngle = elbowVector.angleTo(shoulderVector) * (180 / Math.PI);
-
-    if (elbowAngle < 70 || elbowAngle > 120) {
-      feedback.push('Adjust elbow bend - aim for 90 degrees');
-      stanceScore -= 10;
-    } else {
-      feedback.push('✓ Elbow position looks good');
-    }
-
-    return {
-      stanceScore: Math.max(0, stanceScore),
-      handPosition,
-      elbowAngle,
-      feedback
-    };
-  };
-
   // Render hand landmarks in 3D
   const renderHand = (landmarks: HandLandmark[], color: string) => {
     if (landmarks.length === 0) return null;
@@ -257,37 +177,7 @@ export function MediaPipeHandTracking() {
       {renderHand(rightHand, '#0099ff')}
 
       {/* Display analysis */}
-      {analysis && isPresenting && (
-        <group position={[0, 2, -1]}>
-          {/* Score display */}
-          <Text
-            position={[0, 0.5, 0]}
-            fontSize={0.2}
-            color={analysis.stanceScore > 80 ? '#00ff00' : analysis.stanceScore > 60 ? '#ffaa00' : '#ff0000'}
-            anchorX="center"
-            outlineWidth={0.02}
-            outlineColor="#000"
-          >
-            Stance Score: {Math.round(analysis.stanceScore)}%
-          </Text>
-
-          {/* Feedback */}
-          {analysis.feedback.map((text, i) => (
-            <Text
-              key={i}
-              position={[0, 0.2 - i * 0.15, 0]}
-              fontSize={0.1}
-              color={text.startsWith('✓') ? '#00ff00' : '#ffaa00'}
-              anchorX="center"
-              outlineWidth={0.01}
-              outlineColor="#000"
-              maxWidth={2}
-            >
-              {text}
-            </Text>
-          ))}
-        </group>
-      )}
+      {analysis && isPresenting && <StanceAnalysisHUD position={[0, 2, -1]} analysis={analysis} />}
     </group>
   );
 }
@@ -0,0 +1,81 @@
+'use client';
+
+import React from 'react';
+import { Text } from '@react-three/drei';
+import { Interactive } from '@react-three/xr';
+import type { ThreeEvent } from '@react-three/fiber';
+
+interface PanelButtonProps {
+  position: [number, number, number];
+  label: string;
+  color: string;
+  onActivate: () => void;
+  width?: number;
+  height?: number;
+  fontSize?: number;
+  /** Highlighted state for toggles and selected options */
+  active?: boolean;
+}
+
+// Flat labelled button for the floating VR panels - works with controller rays and the mouse
+export function PanelButton({
+  position,
+  label,
+  color,
+  onActivate,
+  width = 0.62,
+  height = 0.26,
+  fontSize = 0.09,
+  active = false,
+}: PanelButtonProps) {
+  const [hovered, setHovered] = React.useState(false);
+
+  const handlePointerDown = React.useCallback(
+    (event: ThreeEvent<PointerEvent>) => {
+      event.stopPropagation();
+      onActivate();
+    },
+    [onActivate]
+  );
+
+  return (
+    <group position={position}>
+      <Interactive
+        onSelect={onActivate}
+        onHover={() => setHovered(true)}
+        onBlur={() => setHovered(false)}
+      >
+        <mesh
+          onPointerDown={handlePointerDown}
+          onPointerOver={(event) => {
+            event.stopPropagation();
+            setHovered(true);
+          }}
+          onPointerOut={(event) => {
+            event.stopPropagation();
+            setHovered(false);
+          }}
+        >
+          <boxGeometry args={[width, height, 0.05]} />
+          <meshStandardMaterial
+            color={hovered || active ? '#f8d970' : color}
+            emissive={color}
+            emissiveIntensity={hovered || active ? 0.7 : 0.35}
+            metalness={0.6}
+            roughness={0.35}
+          />
+        </mesh>
+        <Text
+          position={[0, 0, 0.03]}
+          fontSize={fontSize}
+          color="#08090f"
+          anchorX="center"
+          anchorY="middle"
+          raycast={() => null}
+        >
+          {label}
+        </Text>
+      </Interactive>
+    </group>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import React from 'react';
+import { useFrame, type ThreeEvent } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { PanelButton } from './PanelButton';
+import {
+  formatTimestamp,
+  type PlaybackController,
+  type PlaybackState,
+} from '../../lib/video/playback-controller';
+
+interface PlaybackTransportProps {
+  position: [number, number, number];
+  width: number;
+  controller: PlaybackController;
+  playback: PlaybackState;
+}
+
+const TRACK_HEIGHT = 0.07;
+const BUTTON_HEIGHT = 0.2;
+const TRANSPORT_COLOR = '#d4af37';
+const LOOP_COLOR = '#5aa9ff';
+
+// Scrub timeline + slow motion, frame step and A-B loop buttons under a technique card
+export function PlaybackTransport({ position, width, controller, playback }: PlaybackTransportProps) {
+  const trackRef = React.useRef<THREE.Mesh>(null);
+  const fillRef = React.useRef<THREE.Mesh>(null);
+  const playheadRef = React.useRef<THREE.Mesh>(null);
+  const scrubbingRef = React.useRef(false);
+  const localPoint = React.useMemo(() => new THREE.Vector3(), []);
+
+  const { duration, rate, loopStart, loopEnd } = playback;
+  const timeToX = (seconds: number) =>
+    duration > 0 ? (Math.min(seconds, duration) / duration - 0.5) * width : -width / 2;
+
+  // Playhead follows the video every frame - React state only updates on timeupdate (~4Hz)
+  useFrame(() => {
+    const video = controller.video;
+    const progress = video && duration > 0 ? Math.min(video.currentTime / duration, 1) : 0;
+    if (fillRef.current) {
+      fillRef.current.scale.x = Math.max(progress, 0.0001);
+      fillRef.current.position.x = (-width / 2) * (1 - progress);
+    }
+    if (playheadRef.current) {
+      playheadRef.current.position.x = (progress - 0.5) * width;
+    }
+  });
+
+  const seekToPointer = React.useCallback(
+    (event: ThreeEvent<PointerEvent>) => {
+      const track = trackRef.current;
+      if (!track || duration <= 0) {
+        return;
+      }
+      track.worldToLocal(localPoint.copy(event.point));
+      const fraction = THREE.MathUtils.clamp(localPoint.x / width + 0.5, 0, 1);
+      controller.seek(fraction * duration);
+    },
+    [controller, duration, localPoint, width]
+  );
+
+  const buttonWidth = Math.min(0.42, (width - 0.12) / 6);
+  const buttonSpacing = width / 6;
+  const buttonX = (index: number) => (index - 2.5) * buttonSpacing;
+  const buttonY = -(TRACK_HEIGHT / 2 + 0.1 + BUTTON_HEIGHT / 2);
+
+  return (
+    <group position={position}>
+      {/* Track - point and drag to scrub */}
+      <mesh
+        ref={trackRef}
+        onPointerDown={(event) => {
+          event.stopPropagation();
+          scrubbingRef.current = true;
+          seekToPointer(event);
+        }}
+        onPointerMove={(event) => {
+          if (scrubbingRef.current) {
+            event.stopPropagation();
+            seekToPointer(event);
+          }
+        }}
+        onPointerUp={(event) => {
+          event.stopPropagation();
+          scrubbingRef.current = false;
+        }}
+        onPointerLeave={() => {
+          scrubbingRef.current = false;
+        }}
+      >
+        {/* Taller hit area than the visible bar so controller rays can grab it */}
+        <planeGeometry args={[width, TRACK_HEIGHT * 3]} />
+        <meshBasicMaterial transparent opacity={0} />
+      </mesh>
+      <mesh position={[0, 0, 0.005]} raycast={() => null}>
+        <planeGeometry args={[width, TRACK_HEIGHT]} />
+        <meshBasicMaterial color="#1a1d2b" />
+      </mesh>
+      <mesh ref={fillRef} position={[-width / 2, 0, 0.01]} raycast={() => null}>
+        <planeGeometry args={[width, TRACK_HEIGHT]} />
+        <meshBasicMaterial color={TRANSPORT_COLOR} />
+      </mesh>
+
+      {loopStart !== null && loopEnd !== null && (
+        <mesh
+          position={[(timeToX(loopStart) + timeToX(loopEnd)) / 2, 0, 0.015]}
+          raycast={() => null}
+        >
+          <planeGeometry args={[Math.max(timeToX(loopEnd) - timeToX(loopStart), 0.01), TRACK_HEIGHT * 1.6]} />
+          <meshBasicMaterial color={LOOP_COLOR} transparent opacity={0.45} />
+        </mesh>
+      )}
+      {[loopStart, loopEnd].map((marker, index) =>
+        marker === null ? null : (
+          <mesh key={index} position={[timeToX(marker), 0, 0.02]} raycast={() => null}>
+            <planeGeometry args={[0.02, TRACK_HEIGHT * 2.2]} />
+            <meshBasicMaterial color={LOOP_COLOR} />
+          </mesh>
+        )
+      )}
+
+      <mesh ref={playheadRef} position={[-width / 2, 0, 0.025]} raycast={() => null}>
+        <circleGeometry args={[TRACK_HEIGHT * 0.9, 24]} />
+        <meshBasicMaterial color="#ffffff" />
+      </mesh>
+
+      <Text
+        position={[-width / 2, TRACK_HEIGHT + 0.06, 0.02]}
+        fontSize={0.08}
+        color="#ffffff"
+        anchorX="left"
+        anchorY="middle"
+        outlineWidth={0.005}
+        outlineColor="#000000"
+      >
+        {`${formatTimestamp(playback.currentTime)} / ${formatTimestamp(duration)}`}
+      </Text>
+      {loopStart !== null && (
+        <Text
+          position={[width / 2, TRACK_HEIGHT + 0.06, 0.02]}
+          fontSize={0.07}
+          color={LOOP_COLOR}
+          anchorX="right"
+          anchorY="middle"
+          outlineWidth={0.005}
+          outlineColor="#000000"
+        >
+          {`A ${formatTimestamp(loopStart)}${loopEnd !== null ? `  B ${formatTimestamp(loopEnd)}` : ''}`}
+        </Text>
+      )}
+
+      <group position={[0, buttonY, 0.03]}>
+        <PanelButton
+          position={[buttonX(0), 0, 0]}
+          label="◀|"
+          color={TRANSPORT_COLOR}
+          width={buttonWidth}
+          height={BUTTON_HEIGHT}
+          onActivate={() => controller.stepFrame(-1)}
+        />
+        <PanelButton
+          position={[buttonX(1), 0, 0]}
+          label={`${rate}x`}
+          color={TRANSPORT_COLOR}
+          width={buttonWidth}
+          height={BUTTON_HEIGHT}
+          active={rate !== 1}
+          onActivate={() => controller.cycleRate()}
+        />
+        <PanelButton
+          position={[buttonX(2), 0, 0]}
+          label="|▶"
+          color={TRANSPORT_COLOR}
+          width={buttonWidth}
+          height={BUTTON_HEIGHT}
+          onActivate={() => controller.stepFrame(1)}
+        />
+        <PanelButton
+          position={[buttonX(3), 0, 0]}
+          label="A"
+          color={LOOP_COLOR}
+          width={buttonWidth}
+          height={BUTTON_HEIGHT}
+          active={loopStart !== null}
+          onActivate={() => controller.setLoopStart()}
+        />
+        <PanelButton
+          position={[buttonX(4), 0, 0]}
+          label="B"
+          color={LOOP_COLOR}
+          width={buttonWidth}
+          height={BUTTON_HEIGHT}
+          active={loopEnd !== null}
+          onActivate={() => controller.setLoopEnd()}
+        />
+        <PanelButton
+          position={[buttonX(5), 0, 0]}
+          label="A-B ✕"
+          color="#ff6b6b"
+          width={buttonWidth}
+          height={BUTTON_HEIGHT}
+          fontSize={0.07}
+          onActivate={() => controller.clearLoop()}
+        />
+      </group>
+    </group>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import { Text } from '@react-three/drei';
+import type { StanceAnalysis, StanceSeverity } from '../../lib/pose/stance-analysis';
+
+interface StanceAnalysisHUDProps {
+  position: [number, number, number];
+  analysis: StanceAnalysis;
+}
+
+const SEVERITY_COLORS: Record<StanceSeverity, string> = {
+  info: '#00ff00',
+  warning: '#ffaa00',
+  critical: '#ff0000',
+};
+
+function scoreColor(score: number) {
+  return score > 80 ? '#00ff00' : score > 60 ? '#ffaa00' : '#ff0000';
+}
+
+function formatValue(value: number, unit: '°' | 'ratio') {
+  return unit === '°' ? `${Math.round(value)}°` : value.toFixed(2);
+}
+
+// Stance score plus one line per body metric - green when good, amber/red with a cue when not
+export function StanceAnalysisHUD({ position, analysis }: StanceAnalysisHUDProps) {
+  const measured = analysis.metrics.filter((metric) => metric.value !== null);
+
+  return (
+    <group position={position}>
+      <Text
+        position={[0, 0.5, 0]}
+        fontSize={0.2}
+        color={scoreColor(analysis.score)}
+        anchorX="center"
+        outlineWidth={0.02}
+        outlineColor="#000"
+      >
+        {`Stance Score: ${analysis.score}%`}
+      </Text>
+
+      {measured.map((metric, i) => (
+        <Text
+          key={metric.id}
+          position={[0, 0.2 - i * 0.15, 0]}
+          fontSize={0.09}
+          color={metric.status === 'good' ? SEVERITY_COLORS.info : SEVERITY_COLORS[metric.severity]}
+          anchorX="center"
+          outlineWidth={0.01}
+          outlineColor="#000"
+          maxWidth={2.4}
+        >
+          {`${metric.status === 'good' ? '✓ ' : ''}${metric.label} ${formatValue(metric.value ?? 0, metric.unit)} - ${metric.message}`}
+        </Text>
+      ))}
+    </group>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { RoundedBox, Text } from '@react-three/drei';
+import { PanelButton } from './PanelButton';
+import {
+  EMPTY_TECHNIQUE_FILTER,
+  type TechniqueFilter,
+  type TechniqueFilterDisplay,
+} from '../../lib/techniques/technique-filter';
+import type {
+  TechniqueCategory,
+  TechniqueDifficulty,
+  TechniquePosition,
+} from '../../lib/techniques/technique-manifest';
+
+interface TechniqueBrowserPanelProps {
+  position: [number, number, number];
+  rotation?: [number, number, number];
+  scale?: number;
+  filter: TechniqueFilter;
+  /** Facet values that narrow the library - an empty facet isn't shown */
+  categories: readonly TechniqueCategory[];
+  positions: readonly TechniquePosition[];
+  difficulties: readonly TechniqueDifficulty[];
+  matchCount: number;
+  totalCount: number;
+  display: TechniqueFilterDisplay;
+  onFilterChange: (filter: TechniqueFilter) => void;
+  onDisplayChange: (display: TechniqueFilterDisplay) => void;
+  /** Flip every technique video left-right (for opposite-leg shooters) */
+  globalMirror: boolean;
+  onGlobalMirrorToggle: () => void;
+}
+
+// No physical keyboard in the headset - search is typed on this on-panel keyboard
+const KEYBOARD_ROWS = ['ABCDEFGHI', 'JKLMNOPQR', 'STUVWXYZ#'];
+const KEY_SIZE = 0.15;
+const KEY_SPACING = 0.165;
+
+const FACET_COLOR = '#d4af37';
+const KEY_COLOR = '#5aa9ff';
+
+// Step through [any, ...values] - null means the facet isn't filtered
+function cycleFacet<T extends string>(values: readonly T[], current: T | null, direction: 1 | -1): T | null {
+  const options: (T | null)[] = [null, ...values];
+  const index = options.indexOf(current);
+  return options[(index + direction + options.length) % options.length];
+}
+
+function FacetRow<T extends string>({
+  y,
+  label,
+  values,
+  value,
+  onChange,
+}: {
+  y: number;
+  label: string;
+  values: readonly T[];
+  value: T | null;
+  onChange: (value: T | null) => void;
+}) {
+  return (
+    <group position={[0, y, 0]}>
+      <Text
+        position={[-0.72, 0, 0.03]}
+        fontSize={0.07}
+        color="#888888"
+        anchorX="left"
+        anchorY="middle"
+      >
+        {label}
+      </Text>
+      <Text
+        position={[0.28, 0, 0.03]}
+        fontSize={0.085}
+        color="#ffffff"
+        anchorX="center"
+        anchorY="middle"
+      >
+        {(value ?? 'any').toUpperCase()}
+      </Text>
+      <PanelButton
+        position={[-0.12, 0, 0.04]}
+        label="◀"
+        color={FACET_COLOR}
+        width={0.16}
+        height={0.16}
+        onActivate={() => onChange(cycleFacet(values, value, -1))}
+      />
+      <PanelButton
+        position={[0.68, 0, 0.04]}
+        label="▶"
+        color={FACET_COLOR}
+        width={0.16}
+        height={0.16}
+        onActivate={() => onChange(cycleFacet(values, value, 1))}
+      />
+    </group>
+  );
+}
+
+// Floating technique browser - narrows the card ring by category, position, difficulty and search
+export function TechniqueBrowserPanel({
+  position,
+  rotation = [0, 0, 0],
+  scale = 0.5,
+  filter,
+  categories,
+  positions,
+  difficulties,
+  matchCount,
+  totalCount,
+  display,
+  onFilterChange,
+  onDisplayChange,
+  globalMirror,
+  onGlobalMirrorToggle,
+}: TechniqueBrowserPanelProps) {
+  const update = (patch: Partial<TechniqueFilter>) => onFilterChange({ ...filter, ...patch });
+  // Facets that can narrow the library, stacked from the top of the panel
+  const facets: readonly (readonly string[])[] = [categories, positions, difficulties].filter(
+    (values) => values.length > 0
+  );
+  const facetY = (values: readonly string[]) => 0.68 - facets.indexOf(values) * 0.2;
+
+  const typeKey = (key: string) => {
+    // '#' stands in for the space bar to keep the keyboard a tidy 9x3 grid
+    update({ query: `${filter.query}${key === '#' ? ' ' : key.toLowerCase()}` });
+  };
+
+  return (
+    <group position={position} rotation={rotation} scale={scale}>
+      <RoundedBox args={[1.6, 2.26, 0.03]} position={[0, 0.02, 0]} radius={0.05} smoothness={6}>
+        <meshStandardMaterial
+          color="#08090f"
+          metalness={0.45}
+          roughness={0.42}
+          emissive="#101320"
+          emissiveIntensity={0.3}
+        />
+      </RoundedBox>
+
+      <Text
+        position={[0, 1.0, 0.03]}
+        fontSize={0.1}
+        color="#d4af37"
+        anchorX="center"
+        anchorY="middle"
+      >
+        TECHNIQUES
+      </Text>
+      <Text
+        position={[0, 0.87, 0.03]}
+        fontSize={0.06}
+        color="#888888"
+        anchorX="center"
+        anchorY="middle"
+      >
+        {`${matchCount} of ${totalCount} shown`}
+      </Text>
+
+      {categories.length > 0 && (
+        <FacetRow
+          y={facetY(categories)}
+          label="CATEGORY"
+          values={categories}
+          value={filter.category}
+          onChange={(category) => update({ category })}
+        />
+      )}
+      {positions.length > 0 && (
+        <FacetRow
+          y={facetY(positions)}
+          label="POSITION"
+          values={positions}
+          value={filter.position}
+          onChange={(next) => update({ position: next })}
+        />
+      )}
+      {difficulties.length > 0 && (
+        <FacetRow
+          y={facetY(difficulties)}
+          label="LEVEL"
+          values={difficulties}
+          value={filter.difficulty}
+          onChange={(difficulty) => update({ difficulty })}
+        />
+      )}
+      {facets.length === 0 && (
+        <Text position={[0, 0.48, 0.03]} fontSize={0.065} color="#555555" anchorX="center" anchorY="middle">
+          CLIPS NOT TAGGED YET - SEARCH BELOW
+        </Text>
+      )}
+
+      {/* Search box */}
+      <mesh position={[0, 0.06, 0.02]}>
+        <planeGeometry args={[1.4, 0.18]} />
+        <meshBasicMaterial color="#1a1d2b" />
+      </mesh>
+      <Text
+        position={[-0.66, 0.06, 0.03]}
+        fontSize={0.08}
+        color={filter.query ? '#ffffff' : '#555555'}
+        anchorX="left"
+        anchorY="middle"
+        maxWidth={1.32}
+      >
+        {filter.query ? `${filter.query}_` : 'search…'}
+      </Text>
+
+      {KEYBOARD_ROWS.map((row, rowIndex) => (
+        <group key={row} position={[0, -0.16 - rowIndex * KEY_SPACING, 0.04]}>
+          {row.split('').map((key, keyIndex) => (
+            <PanelButton
+              key={key}
+              position={[(keyIndex - (row.length - 1) / 2) * KEY_SPACING, 0, 0]}
+              label={key === '#' ? '␣' : key}
+              color={KEY_COLOR}
+              width={KEY_SIZE}
+              height={KEY_SIZE}
+              fontSize={0.075}
+              onActivate={() => typeKey(key)}
+            />
+          ))}
+        </group>
+      ))}
+
+      <PanelButton
+        position={[-0.5, -0.72, 0.04]}
+        label="DEL"
+        color={KEY_COLOR}
+        width={0.44}
+        height={0.18}
+        fontSize={0.075}
+        onActivate={() => update({ query: filter.query.slice(0, -1) })}
+      />
+      <PanelButton
+        position={[0, -0.72, 0.04]}
+        label={display === 'dim' ? 'DIM' : 'HIDE'}
+        color="#44cc66"
+        width={0.44}
+        height={0.18}
+        fontSize={0.075}
+        onActivate={() => onDisplayChange(display === 'dim' ? 'hide' : 'dim')}
+      />
+      <PanelButton
+        position={[0.5, -0.72, 0.04]}
+        label="CLEAR"
+        color="#ff6b6b"
+        width={0.44}
+        height={0.18}
+        fontSize={0.075}
+        onActivate={() => onFilterChange(EMPTY_TECHNIQUE_FILTER)}
+      />
+      <PanelButton
+        position={[0, -0.96, 0.04]}
+        label={globalMirror ? 'MIRROR ALL: ON' : 'MIRROR ALL: OFF'}
+        color="#d4af37"
+        width={1.4}
+        height={0.18}
+        fontSize={0.075}
+        active={globalMirror}
+        onActivate={onGlobalMirrorToggle}
+      />
+    </group>
+  );
+}
@@ -4,6 +4,7 @@ import { useEffect, useRef, useState } from 'react';
 import { useXR, useXREvent } from '@react-three/xr';
 import { Text } from '@react-three/drei';
 import * as THREE from 'three';
+import { useCoachFeed } from '../../lib/room/use-coach-feed';
 
 interface TwilioVideoLayerProps {
   position: [number, number, number];
@@ -12,12 +13,12 @@ interface TwilioVideoLayerProps {
   onConnected?: () => void;
 }
 
+// The coach's broadcast on a movable screen; in VR the video goes to a
+// WebXR media layer, composited by the headset at full quality
 export function TwilioVideoLayer({ position: initialPosition, roomName, userName, onConnected }: TwilioVideoLayerProps) {
-  const videoRef = useRef<HTMLVideoElement | null>(null);
-  const roomRef = useRef<any>(null);
+  const { status, coachName, video } = useCoachFeed(roomName, userName);
+  const isConnected = status === 'connected';
   const layerRef = useRef<any>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [participantName, setParticipantName] = useState('Coach');
   const [position, setPosition] = useState<[number, number, number]>(initialPosition);
   const [rotation3D, setRotation3D] = useState<[number, number, number]>([0, 0, 0]);
   const [scale, setScale] = useState(1);
@@ -33,160 +34,17 @@ export function TwilioVideoLayer({ position: initialPosition, roomName, userName
     console.log('🥽 VR Active:', isPresenting);
   }, [isPresenting]);
 
-  // Connect to Twilio and create video element
+  const onConnectedRef = useRef(onConnected);
   useEffect(() => {
-    let mounted = true;
-    let video: HTMLVideoElement | null = null;
-
-    const connectToTwilio = async () => {
-      try {
-        console.log('🔄 Connecting to Twilio room:', roomName, 'as:', userName);
-
-        // Dynamic import of Twilio Video
-        const Video = await import('twilio-video');
-
-        // Get token from API
-        const response = await fetch('/api/twilio/video-token', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            room: roomName,
-            identity: `${userName}-vr-${Date.now()}`
-          })
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.error('❌ Token API error:', response.status, errorData);
-          throw new Error(`Failed to get token: ${response.status}`);
-        }
-
-        const { token } = await response.json();
-        console.log('✅ Got token, connecting to room...');
-
-        // Create video element
-        video = document.createElement('video');
-        video.autoplay = true;
-        video.muted = true; // Mute for autoplay in VR headsets
-        video.playsInline = true;
-        video.setAttribute('playsinline', 'true');
-        video.setAttribute('webkit-playsinline', 'true');
-
-        // Position off-screen for traditional rendering
-        video.style.position = 'absolute';
-        video.style.left = '-9999px';
-        video.style.opacity = '0';
-        video.style.pointerEvents = 'none';
-
-        document.body.appendChild(video);
-        videoRef.current = video;
-        console.log('📺 Video element created (muted, off-screen for VR)');
-
-        // Connect to room
-        const room = await Video.connect(token, {
-          name: roomName,
-          audio: true,
-          video: { width: 640, height: 480 }
-        });
-
-        roomRef.current = room;
-
-        if (!mounted) {
-          room.disconnect();
-          return;
-        }
-
-        console.log('🎥 Connected to Twilio room:', room.name);
-        console.log('👥 Participants already in room:', room.participants.size);
-        setIsConnected(true);
-        onConnected?.();
-
-        // Handle remote participants
-        room.participants.forEach((participant) => {
-          console.log('👤 Participant already in room:', participant.identity);
-          attachParticipant(participant, video!);
-        });
-
-        room.on('participantConnected', (participant) => {
-          console.log('✅ Participant connected:', participant.identity);
-          attachParticipant(participant, video!);
-        });
-
-        room.on('participantDisconnected', (participant) => {
-          console.log('👋 Participant disconnected:', participant.identity);
-        });
-
-      } catch (error) {
-        console.error('❌ Twilio connection error:', error);
-      }
-    };
-
-    const attachParticipant = (participant: any, videoElement: HTMLVideoElement) => {
-      setParticipantName(participant.identity.split('-')[0] || 'Coach');
-
-      console.log('🔗 Attaching participant:', participant.identity);
-      participant.tracks.forEach((publication: any) => {
-        if (publication.isSubscribed && publication.track) {
-          console.log('✅ Attaching already-subscribed track:', publication.kind);
-          attachTrack(publication.track, videoElement);
-        }
-      });
-
-      participant.on('trackSubscribed', (track: any) => {
-        console.log('🎬 Track subscribed event:', track.kind);
-        attachTrack(track, videoElement);
-      });
-    };
-
-    const attachTrack = (track: any, videoElement: HTMLVideoElement) => {
-      console.log('🎯 attachTrack called:', track.kind);
-      if (track.kind === 'video') {
-        const element = track.attach();
-        if (element instanceof HTMLVideoElement && videoElement) {
-          console.log('✅ Setting srcObject for WebXR Layer');
-          videoElement.srcObject = element.srcObject;
-
-          const tryPlay = () => {
-            console.log('🎬 Attempting to play video...');
-            const playPromise = videoElement.play();
-
-            if (playPromise !== undefined) {
-              playPromise
-                .then(() => {
-                  console.log('🎥 Video playback started successfully');
-                })
-                .catch((err) => {
-                  console.error('❌ Video play error:', err.name, err.message);
-                  if (err.name === 'AbortError' || err.name === 'NotAllowedError') {
-                    console.log('🔄 Retrying play in 500ms...');
-                    setTimeout(tryPlay, 500);
-                  }
-                });
-            }
-          };
-
-          videoElement.oncanplay = () => {
-            console.log('✅ Video can play - attempting playback');
-            tryPlay();
-          };
-
-          if (videoElement.readyState >= 3) {
-            tryPlay();
-          }
-        }
-      }
-    };
-
-    connectToTwilio();
+    onConnectedRef.current = onConnected;
+  });
+  useEffect(() => {
+    if (isConnected) onConnectedRef.current?.();
+  }, [isConnected]);
 
-    return () => {
-      mounted = false;
-      if (roomRef.current) {
-        roomRef.current.disconnect();
-      }
-      if (video && video.parentNode) {
-        video.parentNode.removeChild(video);
-      }
+  // Drop the layer when the session outlives this screen
+  useEffect(
+    () => () => {
       if (layerRef.current && session) {
         try {
           session.updateRenderState({ layers: [] });
@@ -194,14 +52,15 @@ export function TwilioVideoLayer({ position: initialPosition, roomName, userName
           console.warn('Could not clear XR layers:', e);
         }
       }
-    };
-  }, [roomName, userName, session]);
+    },
+    [session]
+  );
 
   // Create WebXR video layer when in VR mode
   useXREvent('sessionstart', () => {
     console.log('🥽 XR Session started - creating video layer');
 
-    if (!videoRef.current || !session) {
+    if (!session) {
       console.warn('⚠️ Video element or session not ready');
       return;
     }
@@ -218,7 +77,7 @@ export function TwilioVideoLayer({ position: initialPosition, roomName, userName
 
       // Create quad layer for video
       // @ts-ignore
-      const layer = mediaBinding.createQuadLayer(videoRef.current, {
+      const layer = mediaBinding.createQuadLayer(video, {
         space: session.requestReferenceSpace('local'),
         layout: 'mono',
       });
@@ -372,7 +231,13 @@ export function TwilioVideoLayer({ position: initialPosition, roomName, userName
         outlineWidth={0.01}
         outlineColor="#000"
       >
-        {isVRActive ? '🥽 VR Layer Active' : isConnected ? `🎯 ${participantName} LIVE` : '⏳ Connecting...'}
+        {isVRActive
+          ? '🥽 VR Layer Active'
+          : status === 'reconnecting'
+            ? '🔁 Reconnecting...'
+            : isConnected
+              ? `🎯 ${coachName ?? 'Coach'} LIVE`
+              : '⏳ Connecting...'}
       </Text>
 
       {/* Instructions */}
@@ -4,18 +4,23 @@ import React, { useState, useRef, useEffect } from 'react';
 import { Html } from '@react-three/drei';
 import { Button } from '../ui/button';
 import { Mic, MicOff, Send, X, Trash2 } from 'lucide-react';
-
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-}
+import {
+  fetchCoachConversation,
+  hasCoachMemory,
+  resetCoachConversation,
+  sendCoachMessage,
+  type CoachChatTurn,
+} from '../../lib/coach/coach-chat';
 
 interface VRCoachChatbotProps {
   position?: [number, number, number];
+  /** Coach Andy remembers the conversation per user per room, and nothing outside a room */
+  userId?: string;
+  room?: string;
 }
 
-export function VRCoachChatbot({ position = [0, 2.5, -2] }: VRCoachChatbotProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+export function VRCoachChatbot({ position = [0, 2.5, -2], userId, room }: VRCoachChatbotProps) {
+  const [messages, setMessages] = useState<CoachChatTurn[]>([]);
   const [input, setInput] = useState('');
   const [isListening, setIsListening] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -24,6 +29,15 @@ export function VRCoachChatbot({ position = [0, 2.5, -2] }: VRCoachChatbotProps)
   const recognitionRef = useRef<any>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  // Restore the remembered conversation - there is only one inside a room
+  const remembered = hasCoachMemory({ userId, room });
+  useEffect(() => {
+    if (!remembered) return;
+    fetchCoachConversation({ userId, room })
+      .then((conversation) => setMessages(conversation.messages))
+      .catch((error) => console.warn('Chat history error:', error));
+  }, [remembered, userId, room]);
+
   // Initialize speech recognition
   useEffect(() => {
     if (typeof window !== 'undefined' && ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window)) {
@@ -67,22 +81,16 @@ export function VRCoachChatbot({ position = [0, 2.5, -2] }: VRCoachChatbotProps)
   const sendMessage = async () => {
     if (!input.trim() || isLoading) return;
 
-    const userMessage: Message = { role: 'user', content: input };
+    const userMessage: CoachChatTurn = { role: 'user', content: input };
     setMessages(prev => [...prev, userMessage]);
     setInput('');
     setIsLoading(true);
 
     try {
-      const response = await fetch('/api/vr-coach-chat', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ message: input }),
-      });
-
-      const data = await response.json();
+      const data = await sendCoachMessage(input, { userId, room });
 
       if (data.response) {
-        const assistantMessage: Message = { role: 'assistant', content: data.response };
+        const assistantMessage: CoachChatTurn = { role: 'assistant', content: data.response };
         setMessages(prev => [...prev, assistantMessage]);
 
         // Text-to-speech
@@ -100,8 +108,13 @@ export function VRCoachChatbot({ position = [0, 2.5, -2] }: VRCoachChatbotProps)
     }
   };
 
-  const clearChat = () => {
-    setMessages([]);
+  const clearChat = async () => {
+    try {
+      await resetCoachConversation({ userId, room });
+      setMessages([]);
+    } catch (error) {
+      console.error('Chat reset error:', error);
+    }
   };
 
   useEffect(() => {
@@ -139,7 +152,7 @@ export function VRCoachChatbot({ position = [0, 2.5, -2] }: VRCoachChatbotProps)
                 <span className="text-[#D4AF38] font-bold text-lg">Coach Andy</span>
               </div>
               <div className="flex gap-2">
-                {messages.length > 0 && (
+                {remembered && messages.length > 0 && (
                   <button
                     onClick={clearChat}
                     className="text-gray-400 hover:text-red-400 transition-colors"
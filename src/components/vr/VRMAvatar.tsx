@@ -9,6 +9,7 @@ import * as poseDetection from '@tensorflow-models/pose-detection';
 import * as tf from '@tensorflow/tfjs-core';
 import '@tensorflow/tfjs-backend-webgl';
 import '@tensorflow/tfjs-backend-webgpu';
+import { publishLivePose } from '../../lib/pose/live-pose';
 
 interface VRMAvatarProps {
   position?: [number, number, number];
@@ -218,6 +219,7 @@ export function VRMAvatar({
         const pose = poses[0];
         if (pose.keypoints && pose.keypoints.length > 0) {
           lastPoseRef.current = pose.keypoints;
+          publishLivePose('vrm-avatar', pose.keypoints, videoRef.current.videoWidth, videoRef.current.videoHeight);
         }
       }
     } catch (error) {
@@ -10,6 +10,7 @@ interface VRSceneProps {
   backgroundImageUrl?: string;
   roomName?: string;
   userName?: string;
+  coachPersona?: string;
   onScreenshot?: () => void;
   onBackgroundReady?: (ready: boolean) => void;
 }
@@ -3,10 +3,89 @@
 import React from 'react';
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
 import { OrbitControls, RoundedBox, Text, useTexture } from '@react-three/drei';
-import { XR, createXRStore, useXR, Interactive } from '@react-three/xr';
+import { XR, createXRStore, useXR, Interactive, useXRControllerButtonEvent, useXRInputSourceState } from '@react-three/xr';
 import type { XRStore } from '@react-three/xr';
 import * as THREE from 'three';
 import { VRControllerScreenshot } from './VRControllerScreenshot';
+import { CardLayoutPanel } from './CardLayoutPanel';
+import { TechniqueBrowserPanel } from './TechniqueBrowserPanel';
+import { DrillCounterPanel } from './DrillCounterPanel';
+import { PlaybackTransport } from './PlaybackTransport';
+import { GhostComparisonPanel, type ReferenceTrackStatus } from './GhostComparisonPanel';
+import { CoachTranscript } from './CoachTranscript';
+import { PanelButton } from './PanelButton';
+import { VoiceCommandToast, type VoiceCommandConfirmation } from './VoiceCommandToast';
+import { CardHighlightGuide } from './CardHighlightGuide';
+import { HeadsetViewCapture } from './HeadsetViewCapture';
+import { HeadsetViewPanel } from './HeadsetViewPanel';
+import { loadReferenceTrack, type ReferenceTrack } from '../../lib/pose/reference-track';
+import {
+  loadTechniqueManifest,
+  TECHNIQUE_CATEGORIES,
+  TECHNIQUE_DIFFICULTIES,
+  TECHNIQUE_POSITIONS,
+  type TechniqueEntry,
+} from '../../lib/techniques/technique-manifest';
+import {
+  availableFacetValues,
+  EMPTY_TECHNIQUE_FILTER,
+  filterTechniqueIds,
+  isTechniqueFilterActive,
+  type TechniqueFilter,
+  type TechniqueFilterDisplay,
+} from '../../lib/techniques/technique-filter';
+import type { CardTransform } from '../../lib/layouts/card-layouts';
+import { useCardLayouts } from '../../lib/layouts/use-card-layouts';
+import {
+  getVideoResourceManager,
+  type LiveVideo,
+  type VideoResourceStats,
+} from '../../lib/video/video-resource-manager';
+import {
+  PlaybackController,
+  registerPlaybackController,
+  unregisterPlaybackController,
+  type PlaybackState,
+} from '../../lib/video/playback-controller';
+import {
+  applyTextureMirror,
+  getGlobalMirror,
+  isCardMirrored,
+  setGlobalMirror,
+} from '../../lib/video/mirror-preference';
+import {
+  CARD_LAYOUT_MODES,
+  computeCardLayout,
+  yawFromDirection,
+  type CardLayoutMode,
+} from '../../lib/vr/card-layout-engine';
+import {
+  fetchCoachConversation,
+  hasCoachMemory,
+  resetCoachConversation,
+  resolveCoachPersona,
+  streamCoachVoice,
+  type CoachChatTurn,
+  type CoachSession,
+} from '../../lib/coach/coach-chat';
+import { CoachSpeechQueue } from '../../lib/coach/coach-speech-queue';
+import {
+  runCoachAction,
+  runSceneCommand,
+  type CoachAction,
+  type CoachActionTarget,
+  type SceneCommand,
+  type SceneCommandResult,
+} from '../../lib/coach/scene-commands';
+import { DrillSession } from '../../lib/drills/drill-session';
+import { HeadsetRoom } from '../../lib/room/headset-room';
+import { HeadsetViewPublisher } from '../../lib/room/headset-view-publisher';
+import { CoachChannel, type CoachCommand, type CoachTip } from '../../lib/room/coach-channel';
+import {
+  COACH_LISTEN_MODES,
+  useCoachVoiceInput,
+  type CoachListenMode,
+} from '../../lib/coach/use-coach-voice-input';
 
 const CARD_HEIGHT = 1.85;
 const CARD_DEPTH = 0.03;
@@ -25,6 +104,8 @@ interface VRSceneProps {
   backgroundImageUrl?: string;
   roomName?: string;
   userName?: string;
+  /** Coach persona id from the page URL; otherwise the room's coach */
+  coachPersona?: string;
   onScreenshot?: () => void;
   onBackgroundReady?: (ready: boolean) => void;
 }
@@ -213,6 +294,9 @@ type TechniqueCardState = {
   rotation: [number, number, number];
   scale: number;
   videoUrl: string;
+  /** Thumbnail shown while no live stream is attached */
+  posterUrl: string | null;
+  poseTrackUrl: string | null;
   label: string;
 };
 
@@ -221,9 +305,66 @@ function clamp(value: number, min: number, max: number) {
 }
 
 interface TechniqueCardProps extends TechniqueCardState {
+  visible?: boolean;
+  focused?: boolean;
+  /** Coach Andy is talking about it - the frame pulses */
+  highlighted?: boolean;
+  /** Faded out because it doesn't match the technique browser filter */
+  dimmed?: boolean;
+  /** Show the clip flipped left-right (global + per-card toggle already combined) */
+  mirrored?: boolean;
+  onMirrorToggle?: () => void;
+  /**
+   * Annotations drawn over the video, in video-plane units (origin at the centre,
+   * +X right). They are flipped together with the video when mirrored, so meshes
+   * should use a double-sided material.
+   */
+  renderOverlay?: (video: { width: number; height: number; controller: PlaybackController | null }) => React.ReactNode;
   onPositionChange: (position: [number, number, number]) => void;
   onScaleChange: (scale: number) => void;
   onRotationChange: (rotation: [number, number, number]) => void;
+  onFocusToggle?: () => void;
+}
+
+// How quickly cards glide to a new layout slot (higher = snappier)
+const LAYOUT_DAMPING = 6;
+
+// Eases a card group toward its target transform so layout mode changes animate.
+// While dragging we snap so the card stays under the pointer.
+function useAnimatedCardTransform(
+  groupRef: React.RefObject<THREE.Group | null>,
+  position: [number, number, number],
+  rotation: [number, number, number],
+  scale: number,
+  snap: boolean
+) {
+  const initializedRef = React.useRef(false);
+  const targetPosition = React.useMemo(() => new THREE.Vector3(), []);
+  const targetQuaternion = React.useMemo(() => new THREE.Quaternion(), []);
+  const targetEuler = React.useMemo(() => new THREE.Euler(), []);
+
+  useFrame((_, delta) => {
+    const group = groupRef.current;
+    if (!group) {
+      return;
+    }
+
+    targetPosition.set(position[0], position[1], position[2]);
+    targetQuaternion.setFromEuler(targetEuler.set(rotation[0], rotation[1], rotation[2]));
+
+    if (snap || !initializedRef.current) {
+      group.position.copy(targetPosition);
+      group.quaternion.copy(targetQuaternion);
+      group.scale.setScalar(scale);
+      initializedRef.current = true;
+      return;
+    }
+
+    const t = 1 - Math.exp(-LAYOUT_DAMPING * delta);
+    group.position.lerp(targetPosition, t);
+    group.quaternion.slerp(targetQuaternion, t);
+    group.scale.setScalar(THREE.MathUtils.lerp(group.scale.x, scale, t));
+  });
 }
 
 type ControlButtonType =
@@ -232,7 +373,10 @@ type ControlButtonType =
   | 'rotate-left'
   | 'rotate-right'
   | 'play'
-  | 'pause';
+  | 'pause'
+  | 'focus'
+  | 'mirror'
+  | 'ghost';
 
 function ControlIcon({ type }: { type: ControlButtonType }) {
   const iconColor = "#00ff00"; // Bright green for visibility
@@ -307,6 +451,53 @@ function ControlIcon({ type }: { type: ControlButtonType }) {
           </mesh>
         </group>
       );
+    case 'focus':
+      return (
+        <group position={[0, 0.11, 0]}>
+          <mesh raycast={() => null} rotation={[Math.PI / 2, 0, 0]}>
+            <torusGeometry args={[0.07, 0.014, 18, 46]} />
+            <meshStandardMaterial color={iconColor} metalness={0.25} roughness={0.4} />
+          </mesh>
+          <mesh raycast={() => null}>
+            <sphereGeometry args={[0.03, 16, 16]} />
+            <meshStandardMaterial color={iconColor} metalness={0.25} roughness={0.4} />
+          </mesh>
+        </group>
+      );
+    case 'mirror':
+      return (
+        <group position={[0, 0.11, 0]}>
+          <mesh raycast={() => null}>
+            <boxGeometry args={[0.015, 0.16, 0.02]} />
+            <meshStandardMaterial color={iconColor} metalness={0.25} roughness={0.4} />
+          </mesh>
+          <mesh raycast={() => null} position={[-0.06, 0, 0]} rotation={[0, 0, Math.PI / 2]}>
+            <coneGeometry args={[0.045, 0.08, 3]} />
+            <meshStandardMaterial color={iconColor} metalness={0.25} roughness={0.4} />
+          </mesh>
+          <mesh raycast={() => null} position={[0.06, 0, 0]} rotation={[0, 0, -Math.PI / 2]}>
+            <coneGeometry args={[0.045, 0.08, 3]} />
+            <meshStandardMaterial color={iconColor} metalness={0.25} roughness={0.4} />
+          </mesh>
+        </group>
+      );
+    case 'ghost':
+      return (
+        <group position={[0, 0.11, 0]}>
+          <mesh raycast={() => null} position={[0, 0.05, 0]}>
+            <sphereGeometry args={[0.03, 16, 16]} />
+            <meshStandardMaterial color={iconColor} metalness={0.25} roughness={0.4} transparent opacity={0.7} />
+          </mesh>
+          <mesh raycast={() => null} position={[0, -0.02, 0]}>
+            <boxGeometry args={[0.018, 0.09, 0.02]} />
+            <meshStandardMaterial color={iconColor} metalness={0.25} roughness={0.4} transparent opacity={0.7} />
+          </mesh>
+          <mesh raycast={() => null} position={[0, 0.005, 0]}>
+            <boxGeometry args={[0.1, 0.016, 0.02]} />
+            <meshStandardMaterial color={iconColor} metalness={0.25} roughness={0.4} transparent opacity={0.7} />
+          </mesh>
+        </group>
+      );
     default:
       return null;
   }
@@ -383,112 +574,125 @@ function ControlButton({
   );
 }
 
-function useTechniqueVideoTexture(videoUrl: string) {
-  const videoRef = React.useRef<HTMLVideoElement | null>(null);
-  const textureRef = React.useRef<THREE.VideoTexture | null>(null);
-  const lastPlayAttemptRef = React.useRef(0);
-  const [texture, setTexture] = React.useState<THREE.VideoTexture | null>(null);
-  const [isReady, setIsReady] = React.useState(false);
-  const [isPlaying, setIsPlaying] = React.useState(false);
-  const [dimensions, setDimensions] = React.useState<{ width: number; height: number }>({
-    width: 16,
-    height: 9,
-  });
+// Poster thumbnail shown until (and whenever) the card has no live stream
+function usePosterTexture(posterUrl: string | null) {
+  const [texture, setTexture] = React.useState<THREE.Texture | null>(null);
 
-  const resolvedUrl = React.useMemo(() => {
-    if (typeof window === 'undefined') {
-      return videoUrl;
+  React.useEffect(() => {
+    if (!posterUrl) {
+      setTexture(null);
+      return;
     }
 
-    try {
-      return new URL(videoUrl, window.location.origin).toString();
-    } catch (error) {
-      console.warn('[TechniqueCard] Failed to resolve video URL, falling back to raw value', {
-        videoUrl,
-        error,
-      });
-      return videoUrl;
-    }
-  }, [videoUrl]);
+    let disposed = false;
+    let loaded: THREE.Texture | null = null;
+    const loader = new THREE.TextureLoader();
+    loader.setCrossOrigin('anonymous');
+    loader.load(
+      posterUrl,
+      (next) => {
+        if (disposed) {
+          next.dispose();
+          return;
+        }
+        next.colorSpace = THREE.SRGBColorSpace;
+        loaded = next;
+        setTexture(next);
+      },
+      undefined,
+      () => {
+        // Missing thumbnails just leave the dark frame
+      }
+    );
 
-  const markTextureDirty = React.useCallback(() => {
-    if (textureRef.current) {
-      textureRef.current.needsUpdate = true;
-    }
-  }, []);
+    return () => {
+      disposed = true;
+      loaded?.dispose();
+      setTexture(null);
+    };
+  }, [posterUrl]);
 
-  const requestPlay = React.useCallback(() => {
-    const video = videoRef.current;
-    if (!video || (!video.paused && !video.ended)) {
-      return;
-    }
+  return texture;
+}
+
+// Reference keypoints for the ghost comparison - only fetched once the panel is opened
+function useReferenceTrack(techniqueId: string | null, poseTrackUrl: string | null) {
+  const [track, setTrack] = React.useState<ReferenceTrack | null>(null);
+  const [status, setStatus] = React.useState<ReferenceTrackStatus>('loading');
 
-    const attemptTime = Date.now();
-    if (attemptTime - lastPlayAttemptRef.current < 250) {
+  React.useEffect(() => {
+    if (!techniqueId) {
       return;
     }
 
-    lastPlayAttemptRef.current = attemptTime;
-    video.play()?.catch(() => {});
-  }, [videoUrl]);
+    let cancelled = false;
+    setStatus('loading');
+    loadReferenceTrack(techniqueId, poseTrackUrl)
+      .then((loaded) => {
+        if (cancelled) return;
+        setTrack(loaded);
+        setStatus(loaded ? 'ready' : 'missing');
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error(`[POSE] ❌ Failed to load reference track for ${techniqueId}`, error);
+        setStatus('error');
+      });
 
-  const requestPause = React.useCallback(() => {
-    const video = videoRef.current;
-    if (!video || video.paused || video.ended) {
-      return;
-    }
-    video.pause();
-  }, [videoUrl]);
+    return () => {
+      cancelled = true;
+    };
+  }, [poseTrackUrl, techniqueId]);
 
-  const togglePlayback = React.useCallback(() => {
-    const video = videoRef.current;
-    if (!video) {
-      return;
-    }
+  return { track, status };
+}
 
-    if (video.paused || video.ended) {
-      requestPlay();
-    } else {
-      requestPause();
-    }
-  }, [requestPause, requestPlay]);
+// Live stream for a card, borrowed from the shared video resource manager.
+// The stream may be attached (gaze/playback) or released (LRU eviction) at any time.
+// Playback goes through the card's PlaybackController so other components can drive it too.
+function useTechniqueVideoTexture(
+  id: string,
+  videoUrl: string,
+  anchorRef: React.RefObject<THREE.Group | null>
+) {
+  const manager = React.useMemo(() => getVideoResourceManager(), []);
+  const [controller, setController] = React.useState<PlaybackController | null>(null);
+  const [live, setLive] = React.useState<LiveVideo | null>(null);
+  const [isReady, setIsReady] = React.useState(false);
+  const [playback, setPlayback] = React.useState<PlaybackState | null>(null);
+  const [dimensions, setDimensions] = React.useState<{ width: number; height: number }>({
+    width: 16,
+    height: 9,
+  });
+
+  React.useEffect(() => {
+    manager.register(id, videoUrl);
+    manager.setAnchor(id, anchorRef.current);
+    setLive(manager.getLiveVideo(id));
+    const unsubscribe = manager.subscribe(id, () => setLive(manager.getLiveVideo(id)));
+
+    const nextController = new PlaybackController(id, manager);
+    registerPlaybackController(nextController);
+    const unsubscribePlayback = nextController.subscribe(setPlayback);
+    setController(nextController);
+
+    return () => {
+      unsubscribePlayback();
+      unregisterPlaybackController(nextController);
+      unsubscribe();
+      manager.unregister(id);
+      setController(null);
+    };
+  }, [anchorRef, id, manager, videoUrl]);
 
   React.useEffect(() => {
     setIsReady(false);
-    setTexture(null);
-    setIsPlaying(false);
-
-    const video = document.createElement('video');
-    video.crossOrigin = 'anonymous';
-    video.setAttribute('crossorigin', 'anonymous');
-    video.loop = true;
-    video.muted = false; // Enable audio
-    video.defaultMuted = false;
-    video.autoplay = false;
-    video.playsInline = true;
-    video.setAttribute('playsinline', 'true');
-    video.setAttribute('webkit-playsinline', 'true');
-    video.setAttribute('loop', 'true');
-    video.preload = 'auto';
-    video.src = resolvedUrl;
-    video.style.position = 'absolute';
-    video.style.width = '1px';
-    video.style.height = '1px';
-    video.style.opacity = '0';
-    video.style.pointerEvents = 'none';
-    video.dataset.techniqueVideo = resolvedUrl;
-    document.body.appendChild(video);
-
-    const texture = new THREE.VideoTexture(video);
-    texture.colorSpace = THREE.SRGBColorSpace;
-    texture.minFilter = THREE.LinearFilter;
-    texture.magFilter = THREE.LinearFilter;
-    texture.generateMipmaps = false;
-
-    videoRef.current = video;
-    textureRef.current = texture;
-    setTexture(texture);
-    lastPlayAttemptRef.current = 0;
+
+    if (!live || !controller) {
+      return;
+    }
+
+    const { video, texture } = live;
 
     const updateDimensions = () => {
       if (video.videoWidth && video.videoHeight) {
@@ -497,21 +701,22 @@ function useTechniqueVideoTexture(videoUrl: string) {
     };
 
     const markTextureDirty = () => {
-      if (textureRef.current) {
-        textureRef.current.needsUpdate = true;
-      }
+      texture.needsUpdate = true;
     };
 
     const handleLoadedData = () => {
       updateDimensions();
-      if (video.readyState >= 2) {
+      if (video.readyState >= 2 && !controller.isPlaybackRequested) {
         // iOS/WebKit warmup: force GPU texture update
         const warmup = async () => {
           try {
             await video.play();
             setTimeout(() => {
-              video.pause();
-              video.currentTime = 0;
+              // Don't undo a play the user requested while warming up
+              if (!controller.isPlaybackRequested) {
+                video.pause();
+                video.currentTime = 0;
+              }
               setIsReady(true);
               markTextureDirty();
             }, 50);
@@ -529,17 +734,6 @@ function useTechniqueVideoTexture(videoUrl: string) {
       markTextureDirty();
     };
 
-    const handlePlay = () => {
-      setIsReady(true);
-      setIsPlaying(true);
-      markTextureDirty();
-    };
-
-    const handlePause = () => {
-      setIsPlaying(false);
-      markTextureDirty();
-    };
-
     const handleError = () => {
       // Silently handle errors
     };
@@ -547,70 +741,72 @@ function useTechniqueVideoTexture(videoUrl: string) {
     video.addEventListener('loadedmetadata', updateDimensions);
     video.addEventListener('loadeddata', handleLoadedData);
     video.addEventListener('canplay', handleCanPlay);
-    video.addEventListener('playing', handlePlay);
-    video.addEventListener('pause', handlePause);
+    video.addEventListener('playing', handleCanPlay);
+    video.addEventListener('seeked', markTextureDirty);
     video.addEventListener('error', handleError);
 
-    video.load();
+    updateDimensions();
+    if (video.readyState >= 2) {
+      setIsReady(true);
+    }
 
     return () => {
-      video.pause();
       video.removeEventListener('loadedmetadata', updateDimensions);
       video.removeEventListener('loadeddata', handleLoadedData);
       video.removeEventListener('canplay', handleCanPlay);
-      video.removeEventListener('playing', handlePlay);
-      video.removeEventListener('pause', handlePause);
+      video.removeEventListener('playing', handleCanPlay);
+      video.removeEventListener('seeked', markTextureDirty);
       video.removeEventListener('error', handleError);
-
-      if (video.parentNode) {
-        video.parentNode.removeChild(video);
-      }
-
-      texture.dispose();
-      videoRef.current = null;
-      textureRef.current = null;
-      lastPlayAttemptRef.current = 0;
-      setIsPlaying(false);
     };
-  }, [markTextureDirty, resolvedUrl]);
+  }, [controller, live]);
 
   useFrame(() => {
-    const video = videoRef.current;
-    const texture = textureRef.current;
-
-    if (!video || !texture) {
+    if (!live) {
       return;
     }
 
+    controller?.tick();
+
     // Always mark texture as needing update when video has data
-    if (video.readyState >= 2) {
-      texture.needsUpdate = true;
+    if (live.video.readyState >= 2) {
+      live.texture.needsUpdate = true;
     }
   });
 
   return {
-    texture,
+    texture: live?.texture ?? null,
     isReady,
-    isPlaying,
+    isPlaying: playback?.isPlaying ?? false,
+    playback,
+    controller,
     dimensions,
-    play: requestPlay,
-    pause: requestPause,
-    toggle: togglePlayback,
   };
 }
 
 function TechniqueCard({
+  id,
   position,
   rotation,
   scale,
   videoUrl,
+  posterUrl,
+  poseTrackUrl,
   label,
+  visible = true,
+  focused = false,
+  highlighted = false,
+  dimmed = false,
+  mirrored = false,
+  onMirrorToggle,
+  renderOverlay,
   onPositionChange,
   onScaleChange,
   onRotationChange,
+  onFocusToggle,
 }: TechniqueCardProps) {
   const cardRef = React.useRef<THREE.Group>(null);
   const materialRef = React.useRef<THREE.MeshBasicMaterial>(null);
+  const frameMaterialRef = React.useRef<THREE.MeshStandardMaterial>(null);
   // Drag plane perpendicular to Z axis to allow full 3D movement (up/down/left/right)
   const dragPlaneRef = React.useRef(new THREE.Plane(new THREE.Vector3(0, 0, 1), -position[2]));
   const intersectionPoint = React.useMemo(() => new THREE.Vector3(), []);
@@ -623,8 +819,14 @@ function TechniqueCard({
     dragPlaneRef.current.constant = -position[2];
   }, [position[2]]);
 
-  const { texture, isReady, isPlaying, dimensions, play, pause, toggle } =
-    useTechniqueVideoTexture(videoUrl);
+  const { texture, isReady, isPlaying, playback, controller, dimensions } =
+    useTechniqueVideoTexture(id, videoUrl, cardRef);
+  const posterTexture = usePosterTexture(posterUrl);
+  const [showGhost, setShowGhost] = React.useState(false);
+  const { track: referenceTrack, status: referenceStatus } = useReferenceTrack(
+    showGhost ? id : null,
+    poseTrackUrl
+  );
 
   const videoAspect = React.useMemo(() => {
     if (!dimensions.width || !dimensions.height) {
@@ -638,7 +840,22 @@ function TechniqueCard({
   const videoWidth = videoHeight * safeAspect;
   const frameWidth = videoWidth + CARD_BORDER * 2;
   const frameHeight = videoHeight + CARD_BORDER * 2;
-  const glowLevel = isDragging ? 0.5 : isHovered ? 0.28 : 0.14;
+  const glowLevel = dimmed ? 0 : isDragging ? 0.5 : isHovered || focused ? 0.28 : 0.14;
+
+  useAnimatedCardTransform(cardRef, position, rotation, scale, isDragging);
+
+  const frameGlow = dimmed ? 0.05 : 0.25 + glowLevel;
+  useFrame(({ clock }) => {
+    if (highlighted && frameMaterialRef.current) {
+      frameMaterialRef.current.emissiveIntensity = frameGlow + 0.5 + 0.5 * Math.sin(clock.elapsedTime * 6);
+    }
+  });
+  // The prop doesn't change when the highlight ends, so put it back by hand
+  React.useEffect(() => {
+    if (!highlighted && frameMaterialRef.current) {
+      frameMaterialRef.current.emissiveIntensity = frameGlow;
+    }
+  }, [frameGlow, highlighted]);
 
   const releasePointerCapture = React.useCallback((event: any) => {
     if (pointerIdRef.current !== null && event?.target?.releasePointerCapture) {
@@ -816,22 +1033,36 @@ function TechniqueCard({
     ]
   );
 
+  const showTransport = Boolean(
+    playback?.isLive &&
+      (playback.isPlaying || playback.currentTime > 0 || playback.loopStart !== null || focused)
+  );
+
   const controlOffsetX = frameWidth / 2 + 0.32;
   const controlOffsetY = frameHeight / 2 + 0.32;
   const controlZ = CARD_DEPTH / 2 + 0.12;
   const playbackOffsetY = controlOffsetY; // Align with rotate buttons
 
-  // Force material to update when texture changes
+  // Flip whichever texture is showing - the live stream can be swapped in at any time
+  React.useEffect(() => {
+    [texture, posterTexture].forEach((current) => {
+      if (current) {
+        applyTextureMirror(current, mirrored);
+      }
+    });
+  }, [texture, posterTexture, mirrored]);
+
+  // Force material to update when the stream is attached/released or the poster loads
   React.useEffect(() => {
     const material = materialRef.current;
-    if (material && texture && isReady) {
-      material.map = texture;
+    if (material) {
+      material.map = texture && isReady ? texture : posterTexture;
       material.needsUpdate = true;
     }
-  }, [texture, isReady, videoUrl]);
+  }, [texture, isReady, posterTexture, videoUrl]);
 
   return (
-    <group ref={cardRef} position={position} rotation={rotation} scale={scale}>
+    <group ref={cardRef} visible={visible}>
       <group>
         <RoundedBox
           args={[frameWidth + CARD_BORDER * 4, frameHeight + CARD_BORDER * 4, CARD_DEPTH * 0.45]}
@@ -839,11 +1070,12 @@ function TechniqueCard({
           smoothness={8}
         >
           <meshStandardMaterial
-            color="#d4af37"
+            ref={frameMaterialRef}
+            color={dimmed ? '#4a4332' : '#d4af37'}
             metalness={0.85}
             roughness={0.28}
             emissive="#c28e0e"
-            emissiveIntensity={0.25 + glowLevel}
+            emissiveIntensity={frameGlow}
           />
         </RoundedBox>
         {/* Dark inner frame - positioned BEHIND video */}
@@ -868,7 +1100,8 @@ function TechniqueCard({
           <planeGeometry args={[videoWidth, videoHeight]} />
           <meshBasicMaterial
             ref={materialRef}
-            map={texture && isReady ? texture : undefined}
+            map={texture && isReady ? texture : posterTexture ?? undefined}
+            color={dimmed ? '#2a2a2a' : '#ffffff'}
             toneMapped={false}
             side={THREE.FrontSide}
             needsUpdate={true}
@@ -878,13 +1111,7 @@ function TechniqueCard({
         <ControlButton
           position={[0, playbackOffsetY, controlZ]}
           type={isPlaying ? 'pause' : 'play'}
-          onActivate={() => {
-            if (isPlaying) {
-              pause();
-            } else {
-              play();
-            }
-          }}
+          onActivate={() => controller?.toggle()}
         />
         <ControlButton
           position={[-controlOffsetX, controlOffsetY, controlZ]}
@@ -906,12 +1133,46 @@ function TechniqueCard({
           type="minus"
           onActivate={() => adjustScale(-0.18)}
         />
+        {onFocusToggle && (
+          <ControlButton
+            position={[-controlOffsetX, 0, controlZ]}
+            type="focus"
+            onActivate={onFocusToggle}
+          />
+        )}
+        {onMirrorToggle && (
+          <ControlButton
+            position={[controlOffsetX, 0, controlZ]}
+            type="mirror"
+            onActivate={onMirrorToggle}
+          />
+        )}
+        <ControlButton
+          position={[0.45, playbackOffsetY, controlZ]}
+          type="ghost"
+          onActivate={() => setShowGhost((prev) => !prev)}
+        />
+
+        {showGhost && (
+          <GhostComparisonPanel
+            position={[controlOffsetX + 0.3 + 0.8, 0, CARD_DEPTH / 2]}
+            controller={controller}
+            track={referenceTrack}
+            trackStatus={referenceStatus}
+            mirrored={mirrored}
+          />
+        )}
+
+        {/* Overlays in video space - mirrored with the clip */}
+        <group position={[0, 0, CARD_DEPTH / 2 + 0.11]} scale={[mirrored ? -1 : 1, 1, 1]}>
+          {renderOverlay?.({ width: videoWidth, height: videoHeight, controller })}
+        </group>
 
         {/* Label below card */}
         <Text
           position={[0, -(frameHeight / 2 + 0.4), CARD_DEPTH / 2 + 0.1]}
           fontSize={0.15}
-          color="#d4af37"
+          color={dimmed ? '#555555' : '#d4af37'}
           anchorX="center"
           anchorY="middle"
           maxWidth={frameWidth}
@@ -921,18 +1182,77 @@ function TechniqueCard({
         >
           {label}
         </Text>
+
+        {/* Slow motion, scrub, frame step and A-B loop - once the clip has been started */}
+        {controller && playback && showTransport && (
+          <PlaybackTransport
+            position={[0, -(frameHeight / 2 + 0.72), CARD_DEPTH / 2 + 0.1]}
+            width={frameWidth}
+            controller={controller}
+            playback={playback}
+          />
+        )}
       </group>
     </group>
   );
 }
 
+// How often the gaze check runs - cheap, but no need to do it every frame
+const GAZE_UPDATE_INTERVAL = 0.25;
+
+// Feeds the headset (or desktop camera) gaze to the video manager so streams
+// are attached for cards the wrestler is looking at
+function VideoGazeTracker() {
+  const { camera } = useThree();
+  const manager = React.useMemo(() => getVideoResourceManager(), []);
+  const elapsedRef = React.useRef(GAZE_UPDATE_INTERVAL);
+  const viewerPosition = React.useMemo(() => new THREE.Vector3(), []);
+  const viewDirection = React.useMemo(() => new THREE.Vector3(), []);
+
+  useFrame((_, delta) => {
+    elapsedRef.current += delta;
+    if (elapsedRef.current < GAZE_UPDATE_INTERVAL) {
+      return;
+    }
+    elapsedRef.current = 0;
+
+    camera.getWorldPosition(viewerPosition);
+    camera.getWorldDirection(viewDirection);
+    manager.updateGaze(viewerPosition, viewDirection);
+  });
+
+  return null;
+}
+
+function useVideoResourceStats() {
+  const [stats, setStats] = React.useState<VideoResourceStats | null>(null);
+
+  React.useEffect(() => {
+    const manager = getVideoResourceManager();
+    const unsubscribe = manager.onStats(setStats);
+    if (!import.meta.env.DEV) {
+      return unsubscribe;
+    }
+
+    // Dev builds only: quick checks from the browser console / remote devtools
+    const debugWindow = window as Window & { __videoStats?: () => VideoResourceStats };
+    debugWindow.__videoStats = () => manager.getStats();
+    return () => {
+      unsubscribe();
+      delete debugWindow.__videoStats;
+    };
+  }, []);
+
+  return stats;
+}
+
 // Coach Image Component
-function CoachImage() {
-  const texture = useTexture('/latora.jpg');
+function CoachImage({ url }: { url: string }) {
+  const texture = useTexture(url);
 
   return (
-    <mesh position={[0, 0.2, CARD_DEPTH / 2 + 0.11]}>
-      <planeGeometry args={[2.5, 1.0]} />
+    <mesh position={[0, 0.32, CARD_DEPTH / 2 + 0.11]}>
+      <planeGeometry args={[1.75, 0.7]} />
       <meshBasicMaterial map={texture} transparent={true} side={THREE.DoubleSide} />
     </mesh>
   );
@@ -946,8 +1266,35 @@ interface CoachChatCardProps {
   onPositionChange: (position: [number, number, number]) => void;
   onScaleChange: (scale: number) => void;
   onRotationChange: (rotation: [number, number, number]) => void;
+  /** Coach Andy remembers the conversation per user per room */
+  userId: string;
+  roomName?: string;
+  /** Persona id - who answers, in which voice, with which portrait */
+  coachPersona?: string;
+  /** "Next video", "slow it down"... - said to Coach Andy, carried out by the scene */
+  onSceneCommand?: (command: SceneCommand) => void;
+  /** Coach Andy pointing at, playing or starting something while he answers */
+  onCoachAction?: (action: CoachAction) => void;
+  /** Pushed by the human coach from the dashboard - shown until the next exchange */
+  coachTip?: CoachTip | null;
 }
 
+const COACH_WAKE_PHRASE = 'hey coach';
+// After Coach Andy answers, a follow-up doesn't need the wake phrase for this long
+const COACH_FOLLOW_UP_MS = 8000;
+// How long a card Coach Andy points at keeps glowing
+const COACH_HIGHLIGHT_MS = 12000;
+const LISTEN_MODE_LABELS: Record<CoachListenMode, string> = {
+  tap: 'TAP MIC',
+  'hands-free': 'HANDS-FREE',
+  'wake-phrase': 'HEY COACH',
+};
+const LISTEN_MODE_HINTS: Record<CoachListenMode, string> = {
+  tap: 'Tap the mic or hold B to talk.',
+  'hands-free': "Hands-free - just talk, I'm listening.",
+  'wake-phrase': 'Say "Hey Coach" and your question.',
+};
+
 function CoachChatCard({
   position,
   scale,
@@ -955,14 +1302,73 @@ function CoachChatCard({
   onPositionChange,
   onScaleChange,
   onRotationChange,
+  userId,
+  roomName,
+  coachPersona,
+  onSceneCommand,
+  onCoachAction,
+  coachTip,
 }: CoachChatCardProps) {
-  const [coachResponse, setCoachResponse] = React.useState("Hey wrestler! Ask me anything about technique.");
-  const [isListening, setIsListening] = React.useState(false);
+  const persona = React.useMemo(
+    () => resolveCoachPersona({ persona: coachPersona, room: roomName }),
+    [coachPersona, roomName]
+  );
+  const greeting = persona.greeting;
+  const [turns, setTurns] = React.useState<CoachChatTurn[]>([]);
+  // The exchange still streaming in - what was heard so far and the reply so far
+  const [liveTurns, setLiveTurns] = React.useState<CoachChatTurn[]>([]);
+  const shownTurns = React.useMemo(() => [...turns, ...liveTurns], [turns, liveTurns]);
+  // Listening / processing / error line under the transcript
+  const [coachStatus, setCoachStatus] = React.useState<string | null>(greeting);
   const [isProcessing, setIsProcessing] = React.useState(false);
-  const mediaRecorderRef = React.useRef<MediaRecorder | null>(null);
-  const audioChunksRef = React.useRef<Blob[]>([]);
-  const listeningTimeoutRef = React.useRef<NodeJS.Timeout | null>(null);
-  const audioStreamRef = React.useRef<MediaStream | null>(null);
+  const [listenMode, setListenMode] = React.useState<CoachListenMode>('tap');
+  const followUpUntilRef = React.useRef(0);
+  const speech = React.useMemo(
+    () =>
+      new CoachSpeechQueue(() => {
+        followUpUntilRef.current = Date.now() + COACH_FOLLOW_UP_MS;
+      }),
+    []
+  );
+  // Bumped on barge-in so audio still arriving for the old reply is dropped
+  const replyIdRef = React.useRef(0);
+  const session = React.useMemo<CoachSession>(
+    () => ({ userId, room: roomName, persona: persona.id }),
+    [userId, roomName, persona.id]
+  );
+
+  // Pick up where the conversation left off (the server remembers it inside a room)
+  const remembered = hasCoachMemory(session);
+  React.useEffect(() => {
+    if (!remembered) return;
+    let cancelled = false;
+    fetchCoachConversation(session)
+      .then(({ messages }) => {
+        if (cancelled) return;
+        setTurns(messages);
+        setCoachStatus(messages.length > 0 ? null : greeting);
+      })
+      .catch((error) => console.warn(`⚠️ Could not load ${persona.name} conversation:`, error));
+    return () => {
+      cancelled = true;
+    };
+  }, [greeting, persona.name, remembered, session]);
+
+  React.useEffect(() => {
+    if (coachTip) setCoachStatus(`📣 ${coachTip.from}: ${coachTip.text}`);
+  }, [coachTip]);
+
+  const handleReset = React.useCallback(async () => {
+    if (isProcessing) return;
+    try {
+      await resetCoachConversation(session);
+      setTurns([]);
+      setCoachStatus(greeting);
+    } catch (error) {
+      console.error('❌ Conversation reset error:', error);
+      setCoachStatus("Couldn't reset the conversation. Is the server running?");
+    }
+  }, [greeting, isProcessing, session]);
 
   // Drag handling
   const cardRef = React.useRef<THREE.Group>(null);
@@ -977,35 +1383,129 @@ function CoachChatCard({
     dragPlaneRef.current.constant = -position[2];
   }, [position[2]]);
 
-  // Cleanup MediaRecorder on unmount
-  React.useEffect(() => {
-    return () => {
-      if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-        mediaRecorderRef.current.stop();
-      }
-      if (audioStreamRef.current) {
-        audioStreamRef.current.getTracks().forEach(track => track.stop());
+  React.useEffect(() => () => speech.stop(), [speech]);
+
+  // Barge-in: the wrestler talking cuts Coach Andy off
+  const interruptCoach = React.useCallback(() => {
+    if (!speech.isSpeaking) return;
+    console.log('✋ Barge-in - stopping Coach Andy');
+    replyIdRef.current++;
+    speech.stop();
+  }, [speech]);
+
+  const sendUtterance = React.useCallback(
+    async (audioBlob: Blob) => {
+      // Outside a follow-up, wake-phrase mode only answers "Hey Coach ..."
+      const wakePhrase =
+        listenMode === 'wake-phrase' && Date.now() > followUpUntilRef.current ? COACH_WAKE_PHRASE : undefined;
+      const replyId = ++replyIdRef.current;
+      setIsProcessing(true);
+      if (!wakePhrase) setCoachStatus('Processing...');
+
+      try {
+        console.log('📡 Streaming audio to Coach Andy...');
+        let heard = '';
+        let reply = '';
+        let actionsSeen = 0;
+        const data = await streamCoachVoice(
+          audioBlob,
+          session,
+          (event) => {
+            if (event.type === 'transcript') {
+              heard = event.text;
+              setCoachStatus(null);
+              setLiveTurns([{ role: 'user', content: heard }]);
+            } else if (event.type === 'token') {
+              reply += event.text;
+              setLiveTurns([
+                { role: 'user', content: heard },
+                { role: 'assistant', content: reply.trimStart() },
+              ]);
+            } else if (event.type === 'audio' && replyIdRef.current === replyId) {
+              // First sentence starts playing while the rest is generating
+              speech.enqueue(event.audioUrl);
+            } else if (event.type === 'action') {
+              actionsSeen++;
+              onCoachAction?.(event.action);
+            }
+          },
+          wakePhrase
+        );
+        console.log('✅ Server response:', data);
+
+        setLiveTurns([]);
+        if (data.ignored) {
+          setCoachStatus(LISTEN_MODE_HINTS[listenMode]);
+          return;
+        }
+        followUpUntilRef.current = Date.now() + COACH_FOLLOW_UP_MS;
+        // Commands aren't part of the conversation - the scene confirms them
+        if (data.command) {
+          onSceneCommand?.(data.command);
+          setCoachStatus(data.response);
+          return;
+        }
+        // Servers without streaming only list the actions at the end
+        data.actions?.slice(actionsSeen).forEach((action) => onCoachAction?.(action));
+        if (data.transcript) {
+          setTurns((previous) => [
+            ...previous,
+            { role: 'user', content: data.transcript },
+            { role: 'assistant', content: data.response },
+          ]);
+          setCoachStatus(null);
+        } else {
+          setCoachStatus(data.response || "Keep working hard!");
+        }
+
+        // Servers without streaming send the whole reply as one clip
+        if (data.audioUrl && replyIdRef.current === replyId) {
+          console.log('🔊 Playing Coach Andy audio...');
+          speech.enqueue(data.audioUrl);
+        }
+      } catch (error) {
+        console.error('❌ Server error:', error);
+        setLiveTurns([]);
+        setCoachStatus("Connection error. Is the server running?");
+      } finally {
+        setIsProcessing(false);
       }
-      if (listeningTimeoutRef.current) {
-        clearTimeout(listeningTimeoutRef.current);
+    },
+    [listenMode, onCoachAction, onSceneCommand, session, speech]
+  );
+
+  const voice = useCoachVoiceInput({
+    mode: listenMode,
+    busy: isProcessing,
+    isCoachSpeaking: () => speech.isSpeaking,
+    onSpeech: interruptCoach,
+    onUtterance: sendUtterance,
+    onSilence: () => setCoachStatus(listenMode === 'tap' ? "Didn't hear anything. Try again!" : LISTEN_MODE_HINTS[listenMode]),
+    onError: (error) => {
+      console.error('❌ Microphone error:', error);
+      if (error.name === 'NotAllowedError') {
+        setCoachStatus("Mic blocked! Grant permission in browser settings.");
+      } else {
+        setCoachStatus(`Mic error: ${error.message}`);
       }
-    };
-  }, []);
+      setListenMode('tap');
+    },
+  });
+  const isListening = voice.recording;
+
+  React.useEffect(() => {
+    if (isListening) setCoachStatus('Listening... Speak now!');
+  }, [isListening]);
 
-  const handleMicClick = React.useCallback(async (e?: any) => {
+  const handleMicClick = React.useCallback((e?: any) => {
     if (e) {
       e.stopPropagation();
     }
 
     // If currently recording, stop and send
-    if (isListening && mediaRecorderRef.current) {
+    if (voice.recording) {
       console.log('🛑 Stopping recording...');
-      if (listeningTimeoutRef.current) {
-        clearTimeout(listeningTimeoutRef.current);
-        listeningTimeoutRef.current = null;
-      }
-      mediaRecorderRef.current.stop();
-      setIsListening(false);
+      voice.stopRecording();
       return;
     }
 
@@ -1015,108 +1515,29 @@ function CoachChatCard({
       return;
     }
 
-    // Start new recording
-    try {
-      console.log('🎤 Requesting microphone access...');
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      audioStreamRef.current = stream;
-
-      console.log('✅ Microphone access granted, starting recording...');
-
-      audioChunksRef.current = [];
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: 'audio/webm;codecs=opus'
-      });
-
-      mediaRecorder.ondataavailable = (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-          console.log('📦 Audio chunk received:', event.data.size, 'bytes');
-        }
-      };
-
-      mediaRecorder.onstop = async () => {
-        console.log('🎬 Recording stopped, processing audio...');
-        setIsListening(false);
-        setIsProcessing(true);
-        setCoachResponse("Processing...");
-
-        // Stop all tracks
-        if (audioStreamRef.current) {
-          audioStreamRef.current.getTracks().forEach(track => track.stop());
-          audioStreamRef.current = null;
-        }
-
-        if (audioChunksRef.current.length === 0) {
-          console.error('❌ No audio data recorded');
-          setCoachResponse("No audio captured. Try again!");
-          setIsProcessing(false);
-          return;
-        }
-
-        // Combine all audio chunks into single blob
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        console.log('🎵 Audio blob created:', audioBlob.size, 'bytes');
-
-        try {
-          console.log('📡 Sending audio to Whisper API...');
-          // Use environment variable or fall back to current origin
-          const apiUrl = import.meta.env.VITE_API_URL || window.location.origin;
-          const response = await fetch(`${apiUrl}/api/vr-voice-chat`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'audio/webm' },
-            body: audioBlob,
-          });
-
-          const data = await response.json();
-          console.log('✅ Server response:', data);
-
-          if (data.transcript) {
-            setCoachResponse(`You: "${data.transcript}"\n\n${data.response}`);
-          } else {
-            setCoachResponse(data.response || "Keep working hard!");
-          }
-
-          // Play audio if available
-          if (data.audioUrl) {
-            console.log('🔊 Playing Coach Andy audio...');
-            const audio = new Audio(data.audioUrl);
-            audio.play().catch((err) => {
-              console.error('❌ Audio playback error:', err);
-            });
-          }
-        } catch (error) {
-          console.error('❌ Server error:', error);
-          setCoachResponse("Connection error. Is the server running?");
-        } finally {
-          setIsProcessing(false);
-          audioChunksRef.current = [];
-        }
-      };
-
-      mediaRecorderRef.current = mediaRecorder;
-      mediaRecorder.start();
-      setIsListening(true);
-      setCoachResponse("Listening... Speak now!");
-
-      // Auto-stop after 5 seconds
-      listeningTimeoutRef.current = setTimeout(() => {
-        console.log('⏱️ Auto-stop timeout (5 seconds)');
-        if (mediaRecorderRef.current && mediaRecorderRef.current.state === 'recording') {
-          mediaRecorderRef.current.stop();
-        }
-      }, 5000);
-
-    } catch (error: any) {
-      console.error('❌ Microphone error:', error);
-      if (error.name === 'NotAllowedError') {
-        setCoachResponse("Mic blocked! Grant permission in browser settings.");
-      } else {
-        setCoachResponse(`Mic error: ${error.message}`);
-      }
-      setIsListening(false);
+    interruptCoach();
+    voice.startRecording();
+  }, [interruptCoach, isProcessing, voice]);
+
+  const cycleListenMode = React.useCallback(() => {
+    const next = COACH_LISTEN_MODES[(COACH_LISTEN_MODES.indexOf(listenMode) + 1) % COACH_LISTEN_MODES.length];
+    setListenMode(next);
+    setCoachStatus(LISTEN_MODE_HINTS[next]);
+  }, [listenMode]);
+
+  // Push-to-talk: hold B on the right controller, in any mode
+  const rightController = useXRInputSourceState('controller', 'right');
+  const pushToTalkRef = React.useRef(false);
+  useXRControllerButtonEvent(rightController, 'b-button', (state) => {
+    if (state === 'pressed' && !pushToTalkRef.current && !isProcessing) {
+      pushToTalkRef.current = true;
+      interruptCoach();
+      voice.startRecording(true);
+    } else if (state !== 'pressed' && pushToTalkRef.current) {
+      pushToTalkRef.current = false;
+      voice.stopRecording();
     }
-  }, [isListening, isProcessing]);
+  });
 
   const cardWidth = 3.5;
   const cardHeight = 2.0;
@@ -1320,27 +1741,44 @@ function CoachChatCard({
         anchorY="middle"
         maxWidth={cardWidth - 0.4}
       >
-        LATORA LEG CAMP
+        {persona.title}
       </Text>
 
-      {/* Coach Andy Image */}
-      <CoachImage />
+      {/* Coach portrait */}
+      <CoachImage url={persona.avatarUrl} />
 
-      {/* Coach response text - below image */}
-      <Text
-        position={[0, -0.5, CARD_DEPTH / 2 + 0.12]}
-        fontSize={0.11}
-        color="#ffffff"
-        anchorX="center"
-        anchorY="middle"
-        maxWidth={cardWidth - 0.4}
-        textAlign="center"
-        lineHeight={1.2}
-        outlineWidth={0.01}
-        outlineColor="#000000"
-      >
-        {coachResponse}
-      </Text>
+      {/* Conversation transcript - below image */}
+      <CoachTranscript
+        position={[-0.1, -0.5, CARD_DEPTH / 2 + 0.12]}
+        width={cardWidth - 0.6}
+        height={0.86}
+        turns={shownTurns}
+        status={coachStatus}
+      />
+
+      {/* Tap / hands-free / wake phrase */}
+      <PanelButton
+        position={[-1.1, -cardHeight / 2 - 0.45, CARD_DEPTH / 2 + 0.12]}
+        label={LISTEN_MODE_LABELS[listenMode]}
+        color={listenMode === 'tap' ? '#d4af37' : '#44ff44'}
+        width={0.62}
+        height={0.2}
+        fontSize={0.07}
+        onActivate={cycleListenMode}
+      />
+
+      {/* Start the conversation over - Coach Andy forgets it too. Outside a room he remembers nothing */}
+      {remembered && (
+        <PanelButton
+          position={[1.1, -cardHeight / 2 - 0.45, CARD_DEPTH / 2 + 0.12]}
+          label="RESET"
+          color="#d4af37"
+          width={0.5}
+          height={0.2}
+          fontSize={0.08}
+          onActivate={handleReset}
+        />
+      )}
 
       {/* Microphone button */}
       <Interactive
@@ -1407,93 +1845,142 @@ function CoachChatCard({
   );
 }
 
-// Draggable 3D Video Panel for VR - ALL Cloudflare Stream videos (26 videos in numerical order)
-const TECHNIQUE_CARDS_DATA = [
-  { id: 'latora-1', label: '1', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/d73bbb83d1be4f88fd829a2d5f49b37f/manifest/video.m3u8' },
-  { id: 'latora-3', label: '3', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/ca43a60a724a3d682490bfee8e0bb965/manifest/video.m3u8' },
-  { id: 'latora-4', label: '4', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/29fb5fadfb051b4db93725f893db934a/manifest/video.m3u8' },
-  { id: 'latora-5', label: '5', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/5cdbae66f8ee0443d77fcae0bceef3c3/manifest/video.m3u8' },
-  { id: 'latora-7', label: '7', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/2873ac9fa68aebe40b468ac8fed3a464/manifest/video.m3u8' },
-  { id: 'latora-8', label: '8', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/c0dcd8134f3bfb758ad714b5ec23e45d/manifest/video.m3u8' },
-  { id: 'latora-9', label: '9', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/631286cc03ab2740a61bd91e5c32c367/manifest/video.m3u8' },
-  { id: 'latora-10', label: '10', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/c82782d6c1e7510af33f6a4ad4316da2/manifest/video.m3u8' },
-  { id: 'latora-11', label: '11', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/ca81241e5191d111efa9b61a071fd6f6/manifest/video.m3u8' },
-  { id: 'latora-12', label: '12', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/f15aa06d795b0bfb8b5f5ed58c83a05b/manifest/video.m3u8' },
-  { id: 'latora-13', label: '13', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/575a880bd5aa1f5d3ca6d6b70b863912/manifest/video.m3u8' },
-  { id: 'latora-14', label: '14', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/37478d9b5def9d87b54089f3ed25abe8/manifest/video.m3u8' },
-  { id: 'latora-16', label: '16', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/3b38446f416732b63a88da593cf924d4/manifest/video.m3u8' },
-  { id: 'latora-17', label: '17', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/adb7f414e7fa2cd2f732487fc02c9cc6/manifest/video.m3u8' },
-  { id: 'latora-18', label: '18', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/608b4a61372622c7cb80e596c85121a6/manifest/video.m3u8' },
-  { id: 'latora-19', label: '19', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/f7a669ca97fc4016c2058e0b7e0f20f3/manifest/video.m3u8' },
-  { id: 'latora-20', label: '20', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/0b1cd41fcb5bcbbaf21ce5b4a5fd90f7/manifest/video.m3u8' },
-  { id: 'latora-21', label: '21', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/ca7f17ed70094a93542b4ed81b3dfa92/manifest/video.m3u8' },
-  { id: 'latora-22', label: '22', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/d9900e316d59f37a7277f732e1056b50/manifest/video.m3u8' },
-  { id: 'latora-23', label: '23', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/2312097c1d89808166bf2f3abf17cb1f/manifest/video.m3u8' },
-  { id: 'latora-25', label: '25', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/65a5beada7fe08cde3eafafcb3437dc5/manifest/video.m3u8' },
-  { id: 'latora-26', label: '26', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/a33ed8a91bdbcd5b5fa02a9f063af7e4/manifest/video.m3u8' },
-  { id: 'latora-27', label: '27', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/aca2f7cd37a92a8584cc5557885e5464/manifest/video.m3u8' },
-  { id: 'latora-28', label: '28', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/10f96e361fb7bc9fba72e03cab627bf2/manifest/video.m3u8' },
-  { id: 'latora-29', label: '29', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/92f373dcd7f6ef1ffd56f82cade76d2b/manifest/video.m3u8' },
-  { id: 'latora-30', label: '30', videoUrl: 'https://customer-gozi8qaaq1gycqie.cloudflarestream.com/62021d0ebac3c0d19e2e82ab015a823b/manifest/video.m3u8' },
-] as const;
-
-const TECHNIQUE_CARD_PRESETS: TechniqueCardState[] = TECHNIQUE_CARDS_DATA.map((card, index) => {
-  // Circular layout: 27 total positions in 2 rows (26 videos + 1 coach position at index 0)
-  // Top row: 14 cards (indices 0-13)
-  // Bottom row: 13 cards (indices 14-25, plus coach makes 14)
-  const totalPositions = 27;
-  const cardsPerRow = Math.ceil(totalPositions / 2); // 14 cards in top row
-  const radius = 6; // 6 meters from center - balanced between spacing and proximity
-
-  // Video cards start at position 1 (position 0 reserved for coach)
-  const cardPosition = index + 1;
-
-  // Determine which row (0 = top, 1 = bottom)
-  const row = cardPosition < cardsPerRow ? 0 : 1;
-  // Both rows have 13 cards (positions 1-13 and 14-26)
-  const actualCardsInRow = 13;
-  const positionInRow = row === 0 ? (cardPosition - 1) : (cardPosition - cardsPerRow);
-  const cardsInThisRow = actualCardsInRow;
-
-  // Height for each row
-  const topRowHeight = CARD_BASE_HEIGHT + 2.0; // Higher
-  const bottomRowHeight = CARD_BASE_HEIGHT + 1.0; // Lower
-  const y = row === 0 ? topRowHeight : bottomRowHeight;
-
-  // Calculate angle for this card in its row (in radians)
-  // Both rows have 13 cards, offset top row by half spacing to interleave perfectly
-  const bottomRowSpacing = (Math.PI * 2) / actualCardsInRow; // 2π / 13
-  const angleOffset = row === 0 ? bottomRowSpacing / 2 : 0; // Offset top row by π/13
-  const angle = (positionInRow / cardsInThisRow) * Math.PI * 2 + angleOffset;
-
-  // Calculate position on circle
-  // In Three.js: -Z is forward, +X is right, +Y is up
-  const x = radius * Math.sin(angle);
-  const z = -radius * Math.cos(angle);
-
-  // Calculate rotation to face inward toward center
-  // atan2 gives us the angle from center to the card, add PI to flip 180° inward
-  const rotationY = Math.atan2(x, z) + Math.PI;
+// Ring layout for the technique library - generated from however many entries the manifest holds.
+// Slot 0 of the ring is reserved for the coach card (straight ahead).
+function buildTechniqueCardPresets(techniques: TechniqueEntry[]): TechniqueCardState[] {
+  const { slots } = computeCardLayout({
+    mode: 'ring',
+    count: techniques.length,
+    eyeHeight: CARD_BASE_HEIGHT,
+    radius: CARD_RING_RADIUS,
+    reserveFront: true,
+  });
 
-  return {
-    id: card.id,
-    label: card.label,
-    position: [x, y, z],
-    rotation: [0, rotationY, 0], // Properly face inward toward center
-    scale: 0.5,
-    videoUrl: card.videoUrl,
-  };
-});
+  return techniques.map((technique, index) => ({
+    id: technique.id,
+    label: technique.title,
+    position: slots[index].position,
+    rotation: slots[index].rotation, // Properly face inward toward center
+    scale: slots[index].scale,
+    videoUrl: technique.streamUrl,
+    posterUrl: technique.thumbnailUrl,
+    poseTrackUrl: technique.poseTrackUrl,
+  }));
+}
+
+const COACH_CARD_PRESET: CardTransform = {
+  position: [0, CARD_BASE_HEIGHT + 1.5, -3], // Inside the circle (straight ahead, 3m away)
+  scale: 0.5,
+  rotation: [0, 0, 0],
+};
 
 // Main VR Scene Content
-function VRSceneContent({ backgroundImageUrl, onScreenshot, onBackgroundReady }: VRSceneProps) {
-  const [cards, setCards] = React.useState<TechniqueCardState[]>(() => TECHNIQUE_CARD_PRESETS);
-  const [coachCardState, setCoachCardState] = React.useState({
-    position: [0, CARD_BASE_HEIGHT + 1.5, -3] as [number, number, number], // Inside the circle (straight ahead, 3m away)
-    scale: 0.5,
-    rotation: [0, 0, 0] as [number, number, number],
-  });
+function VRSceneContent({
+  backgroundImageUrl,
+  onScreenshot,
+  onBackgroundReady,
+  userName,
+  roomName,
+  coachPersona,
+}: VRSceneProps) {
+  const [techniques, setTechniques] = React.useState<TechniqueEntry[]>([]);
+  const [presetCards, setPresetCards] = React.useState<TechniqueCardState[]>([]);
+  const [cards, setCards] = React.useState<TechniqueCardState[]>([]);
+  const [coachCardState, setCoachCardState] = React.useState<CardTransform>(COACH_CARD_PRESET);
   const { isPresenting } = useXR();
+  const { camera } = useThree();
+  // null = free-form (hand-placed or restored from a saved layout)
+  const [layoutMode, setLayoutMode] = React.useState<CardLayoutMode | null>(null);
+  const [carouselPage, setCarouselPage] = React.useState(0);
+  const [carouselPageCount, setCarouselPageCount] = React.useState(1);
+  const [focusedCardId, setFocusedCardId] = React.useState<string | null>(null);
+  const [hiddenCardIds, setHiddenCardIds] = React.useState<Set<string>>(() => new Set());
+  const modeBeforeFocusRef = React.useRef<CardLayoutMode | null>(null);
+  const [techniqueFilter, setTechniqueFilter] = React.useState<TechniqueFilter>(EMPTY_TECHNIQUE_FILTER);
+  const [filterDisplay, setFilterDisplay] = React.useState<TechniqueFilterDisplay>('dim');
+
+  const matchingTechniqueIds = React.useMemo(
+    () => filterTechniqueIds(techniques, techniqueFilter),
+    [techniqueFilter, techniques]
+  );
+  const isFiltering = isTechniqueFilterActive(techniqueFilter);
+  const videoStats = useVideoResourceStats();
+  const userId = userName || 'Wrestler';
+  const [globalMirror, setGlobalMirrorState] = React.useState(() => getGlobalMirror(userId));
+  const [flippedCardIds, setFlippedCardIds] = React.useState<Set<string>>(() => new Set());
+
+  React.useEffect(() => {
+    setGlobalMirrorState(getGlobalMirror(userId));
+  }, [userId]);
+
+  const toggleGlobalMirror = React.useCallback(() => {
+    setGlobalMirror(userId, !globalMirror);
+    setGlobalMirrorState(!globalMirror);
+    // A global flip resets individual overrides so every card ends up the same way
+    setFlippedCardIds(new Set());
+  }, [globalMirror, userId]);
+
+  const toggleCardMirror = React.useCallback((id: string) => {
+    setFlippedCardIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  }, []);
+
+  const facetValues = React.useMemo(
+    () => ({
+      categories: availableFacetValues(techniques, TECHNIQUE_CATEGORIES, (technique) => technique.category),
+      positions: availableFacetValues(techniques, TECHNIQUE_POSITIONS, (technique) => technique.position),
+      difficulties: availableFacetValues(
+        techniques,
+        TECHNIQUE_DIFFICULTIES,
+        (technique) => technique.difficulty
+      ),
+    }),
+    [techniques]
+  );
+
+  const {
+    layouts,
+    activeLayoutName,
+    cycleLayout,
+    saveAsNewLayout,
+    resetLayout,
+  } = useCardLayouts({
+    userId,
+    roomName,
+    cards,
+    coach: coachCardState,
+    presets: presetCards,
+    coachPreset: COACH_CARD_PRESET,
+    setCards,
+    setCoach: setCoachCardState,
+  });
+
+  // Load the technique library at runtime so new clips don't need a redeploy
+  React.useEffect(() => {
+    const controller = new AbortController();
+
+    loadTechniqueManifest(controller.signal)
+      .then((manifest) => {
+        const presets = buildTechniqueCardPresets(manifest.techniques);
+        setTechniques(manifest.techniques);
+        setPresetCards(presets);
+        setCards(presets);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          console.error('[TECHNIQUES] ❌ Failed to load technique manifest', error);
+        }
+      });
+
+    return () => controller.abort();
+  }, []);
 
   const updateCardPosition = React.useCallback((id: string, position: [number, number, number]) => {
     setCards((prev) =>
@@ -1516,6 +2003,231 @@ function VRSceneContent({ backgroundImageUrl, onScreenshot, onBackgroundReady }:
     []
   );
 
+  // Re-flow every card into one of the engine's modes, adapting to the card count and
+  // the wrestler's current height/heading (headset pose in VR, orbit target on desktop)
+  const arrangeCards = React.useCallback(
+    (mode: CardLayoutMode, { page = 0, focusId = null }: { page?: number; focusId?: string | null } = {}) => {
+      const eye = new THREE.Vector3();
+      const forward = new THREE.Vector3();
+      camera.getWorldPosition(eye);
+      camera.getWorldDirection(forward);
+
+      // Ring and focus stay centred on the play space so the coach card keeps its slot
+      const followsUser = mode === 'arc' || mode === 'wall' || mode === 'carousel';
+
+      const { slots, pageCount } = computeCardLayout({
+        mode,
+        count: cards.length,
+        eyeHeight: isPresenting ? eye.y : CARD_BASE_HEIGHT,
+        origin: followsUser && isPresenting ? [eye.x, 0, eye.z] : [0, 0, 0],
+        yaw: followsUser && isPresenting ? yawFromDirection(forward) : 0,
+        radius: CARD_RING_RADIUS,
+        reserveFront: mode === 'ring' || mode === 'focus',
+        page,
+        focusIndex: focusId ? cards.findIndex((card) => card.id === focusId) : undefined,
+      });
+
+      setCards(
+        cards.map((card, index) => ({
+          ...card,
+          position: slots[index].position,
+          rotation: slots[index].rotation,
+          scale: slots[index].scale,
+        }))
+      );
+      setHiddenCardIds(new Set(cards.filter((_, index) => !slots[index].visible).map((card) => card.id)));
+      setCarouselPageCount(pageCount);
+      setLayoutMode(mode);
+      setCarouselPage(page);
+      setFocusedCardId(mode === 'focus' ? focusId : null);
+    },
+    [camera, cards, isPresenting]
+  );
+
+  const cycleLayoutMode = React.useCallback(() => {
+    const currentIndex = layoutMode ? CARD_LAYOUT_MODES.indexOf(layoutMode) : -1;
+    let next = CARD_LAYOUT_MODES[(currentIndex + 1) % CARD_LAYOUT_MODES.length];
+    // Focus needs a card to focus on - it's entered from the card's own button
+    if (next === 'focus') {
+      next = CARD_LAYOUT_MODES[(currentIndex + 2) % CARD_LAYOUT_MODES.length];
+    }
+    arrangeCards(next);
+  }, [arrangeCards, layoutMode]);
+
+  const changeCarouselPage = React.useCallback(
+    (direction: 1 | -1) => {
+      const page = (carouselPage + direction + carouselPageCount) % carouselPageCount;
+      arrangeCards('carousel', { page });
+    },
+    [arrangeCards, carouselPage, carouselPageCount]
+  );
+
+  const toggleCardFocus = React.useCallback(
+    (id: string) => {
+      if (focusedCardId === id) {
+        const previousMode = modeBeforeFocusRef.current;
+        modeBeforeFocusRef.current = null;
+        arrangeCards(previousMode ?? 'ring', { page: carouselPage });
+        return;
+      }
+      if (layoutMode !== 'focus') {
+        modeBeforeFocusRef.current = layoutMode;
+      }
+      arrangeCards('focus', { focusId: id });
+    },
+    [arrangeCards, carouselPage, focusedCardId, layoutMode]
+  );
+
+  // Saved layouts are free-form - drop any mode-specific state when switching to one
+  const clearLayoutMode = React.useCallback(() => {
+    setLayoutMode(null);
+    setFocusedCardId(null);
+    setHiddenCardIds(new Set());
+  }, []);
+
+  // Voice commands - the card they act on carries over ("play leg camp five" ... "slower")
+  const voiceCardIdRef = React.useRef<string | null>(null);
+  const [commandConfirmation, setCommandConfirmation] = React.useState<VoiceCommandConfirmation | null>(null);
+
+  const handleSceneCommand = React.useCallback(
+    (command: SceneCommand): SceneCommandResult => {
+      const result = runSceneCommand(
+        command,
+        {
+          cards: cards.map((card) => ({ id: card.id, label: card.label })),
+          arrange: (mode) => arrangeCards(mode, { page: mode === 'carousel' ? carouselPage : 0 }),
+          toggleMirror: toggleGlobalMirror,
+          screenshot: onScreenshot,
+        },
+        voiceCardIdRef.current
+      );
+      console.log(`🎬 Voice command ${command.type}: ${result.message}`);
+      voiceCardIdRef.current = result.cardId;
+      setCommandConfirmation((previous) => ({ id: (previous?.id ?? 0) + 1, message: result.message, ok: result.ok }));
+      return result;
+    },
+    [arrangeCards, carouselPage, cards, onScreenshot, toggleGlobalMirror]
+  );
+
+  const clearCommandConfirmation = React.useCallback(() => setCommandConfirmation(null), []);
+
+  // In the training room whenever there is one - the coach's dashboard shows the wrestler's webcam and pose
+  const headsetRoom = React.useMemo(
+    () => (roomName ? new HeadsetRoom(roomName, userId) : null),
+    [roomName, userId]
+  );
+  React.useEffect(() => {
+    if (!headsetRoom) return;
+    void headsetRoom.start();
+    return () => headsetRoom.dispose();
+  }, [headsetRoom]);
+
+  // Sharing what the wrestler sees with the coach's dashboard - on top of the webcam and pose
+  const headsetView = React.useMemo(
+    () => (headsetRoom ? new HeadsetViewPublisher(headsetRoom.connection) : null),
+    [headsetRoom]
+  );
+  React.useEffect(() => () => headsetView?.dispose(), [headsetView]);
+
+  // Coach Andy's actions - highlighted cards glow for a while, drills run on the scene's counter
+  const drillSession = React.useMemo(() => new DrillSession(), []);
+  React.useEffect(() => () => drillSession.dispose(), [drillSession]);
+  const [highlightedCardId, setHighlightedCardId] = React.useState<string | null>(null);
+  React.useEffect(() => {
+    if (!highlightedCardId) return;
+    const timer = setTimeout(() => setHighlightedCardId(null), COACH_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [highlightedCardId]);
+  const highlightedCard = cards.find((card) => card.id === highlightedCardId) ?? null;
+
+  const handleCoachAction = React.useCallback(
+    (action: CoachAction): SceneCommandResult => {
+      const target: CoachActionTarget = {
+        cards: cards.map((card) => ({ id: card.id, label: card.label })),
+        arrange: (mode) => arrangeCards(mode),
+        toggleMirror: toggleGlobalMirror,
+        screenshot: onScreenshot,
+        highlight: (id) => {
+          // A card hidden by the layout or the filter can't be looked at
+          setHiddenCardIds((previous) => {
+            if (!previous.has(id)) return previous;
+            const next = new Set(previous);
+            next.delete(id);
+            return next;
+          });
+          setHighlightedCardId(id);
+        },
+        startDrill: ({ drillId, sets, targetReps }) => {
+          const { phase, config } = drillSession.getState();
+          if (phase === 'set' || phase === 'rest') return false;
+          drillSession.configure({ drillId, sets: sets ?? config.sets, targetReps: targetReps ?? config.targetReps });
+          drillSession.start();
+          return true;
+        },
+      };
+      const result = runCoachAction(action, target, voiceCardIdRef.current);
+      console.log(`🛠️ Coach action ${action.type}: ${result.message}`);
+      voiceCardIdRef.current = result.cardId;
+      setCommandConfirmation((previous) => ({ id: (previous?.id ?? 0) + 1, message: result.message, ok: result.ok }));
+      return result;
+    },
+    [arrangeCards, cards, drillSession, onScreenshot, toggleGlobalMirror]
+  );
+
+  // The human coach directing the session from the dashboard - over the data track
+  // of the headset's room connection, and the local relay when the server has one
+  const coachChannel = React.useMemo(
+    () => (roomName ? new CoachChannel(roomName, userId) : null),
+    [roomName, userId]
+  );
+  const [coachTip, setCoachTip] = React.useState<CoachTip | null>(null);
+
+  React.useEffect(() => {
+    if (!coachChannel) return;
+    coachChannel.connectRelay();
+    return () => coachChannel.dispose();
+  }, [coachChannel]);
+
+  React.useEffect(() => {
+    if (!coachChannel || !headsetRoom) return;
+    coachChannel.attachRoom(headsetRoom.connection);
+    return () => coachChannel.detachRoom();
+  }, [coachChannel, headsetRoom]);
+
+  const handleCoachCommand = React.useCallback(
+    (command: CoachCommand, { id, from }: { id: string; from: string }): { ok: boolean; message: string } => {
+      switch (command.type) {
+        case 'play-technique':
+          return handleCoachAction({
+            type: 'play-card',
+            techniqueId: command.techniqueId,
+            startSeconds: command.startSeconds,
+          });
+        case 'pause':
+          return handleSceneCommand({ type: 'pause' });
+        case 'spotlight-card':
+          return handleCoachAction({ type: 'highlight-card', techniqueId: command.techniqueId });
+        case 'start-drill':
+          return handleCoachAction({
+            type: 'start-drill',
+            drillId: command.drillId,
+            sets: command.sets,
+            targetReps: command.targetReps,
+          });
+        case 'coaching-tip':
+          setCoachTip({ id, from, text: command.text });
+          return { ok: true, message: 'Tip shown' };
+      }
+    },
+    [handleCoachAction, handleSceneCommand]
+  );
+
+  React.useEffect(() => {
+    if (!coachChannel) return;
+    coachChannel.setCommandHandler(handleCoachCommand);
+    return () => coachChannel.setCommandHandler(null);
+  }, [coachChannel, handleCoachCommand]);
+
   const updateCoachPosition = React.useCallback((position: [number, number, number]) => {
     setCoachCardState((prev) => ({ ...prev, position }));
   }, []);
@@ -1582,6 +2294,12 @@ function VRSceneContent({ backgroundImageUrl, onScreenshot, onBackgroundReady }:
         />
       )}
 
+      <VideoGazeTracker />
+
+      <VoiceCommandToast confirmation={commandConfirmation} onDone={clearCommandConfirmation} />
+      <CardHighlightGuide target={highlightedCard?.position ?? null} label={highlightedCard?.label ?? null} />
+      {headsetView && <HeadsetViewCapture publisher={headsetView} />}
+
       <group>
         {cards.map((card) => (
           <TechniqueCard
@@ -1590,18 +2308,93 @@ function VRSceneContent({ backgroundImageUrl, onScreenshot, onBackgroundReady }:
             onPositionChange={(next) => updateCardPosition(card.id, next)}
             onScaleChange={(next) => updateCardScale(card.id, next)}
             onRotationChange={(next) => updateCardRotation(card.id, next)}
+            visible={
+              !hiddenCardIds.has(card.id) &&
+              !(isFiltering && filterDisplay === 'hide' && !matchingTechniqueIds.has(card.id))
+            }
+            dimmed={isFiltering && filterDisplay === 'dim' && !matchingTechniqueIds.has(card.id)}
+            focused={focusedCardId === card.id}
+            highlighted={highlightedCardId === card.id}
+            mirrored={isCardMirrored(globalMirror, flippedCardIds.has(card.id))}
+            onMirrorToggle={() => toggleCardMirror(card.id)}
+            onFocusToggle={() => toggleCardFocus(card.id)}
           />
         ))}
 
         {/* Coach Andy chatbot card */}
         <CoachChatCard
+          userId={userId}
+          roomName={roomName}
+          coachPersona={coachPersona}
           position={coachCardState.position}
           scale={coachCardState.scale}
           rotation={coachCardState.rotation}
           onPositionChange={updateCoachPosition}
           onScaleChange={updateCoachScale}
           onRotationChange={updateCoachRotation}
+          onSceneCommand={handleSceneCommand}
+          onCoachAction={handleCoachAction}
+          coachTip={coachTip}
         />
+
+        {/* Layout switcher - follows the coach card and sits just left of it */}
+        <group position={coachCardState.position} rotation={coachCardState.rotation}>
+          <CardLayoutPanel
+            position={[-(1.85 * coachCardState.scale + 0.45), 0, 0]}
+            activeLayoutName={activeLayoutName}
+            layoutCount={layouts.length}
+            onPrevious={() => {
+              clearLayoutMode();
+              cycleLayout(-1);
+            }}
+            onNext={() => {
+              clearLayoutMode();
+              cycleLayout(1);
+            }}
+            onSaveNew={saveAsNewLayout}
+            onReset={() => {
+              clearLayoutMode();
+              resetLayout();
+              setLayoutMode('ring');
+            }}
+            layoutMode={layoutMode}
+            onCycleMode={cycleLayoutMode}
+            carouselPage={carouselPage}
+            carouselPageCount={carouselPageCount}
+            onCarouselPage={changeCarouselPage}
+          />
+          {videoStats && (
+            <Text
+              position={[-(1.85 * coachCardState.scale + 0.45), -0.95, 0.02]}
+              fontSize={0.045}
+              color="#888888"
+              anchorX="center"
+              anchorY="middle"
+            >
+              {`Streams live ${videoStats.live}/${videoStats.maxLiveStreams} · playing ${videoStats.playing} · ${videoStats.registered} cards`}
+            </Text>
+          )}
+          <TechniqueBrowserPanel
+            position={[1.85 * coachCardState.scale + 0.45, 0.12, 0]}
+            filter={techniqueFilter}
+            categories={facetValues.categories}
+            positions={facetValues.positions}
+            difficulties={facetValues.difficulties}
+            matchCount={matchingTechniqueIds.size}
+            totalCount={techniques.length}
+            display={filterDisplay}
+            onFilterChange={setTechniqueFilter}
+            onDisplayChange={setFilterDisplay}
+            globalMirror={globalMirror}
+            onGlobalMirrorToggle={toggleGlobalMirror}
+          />
+          {/* Headset view sharing - under the layout switcher */}
+          {headsetView && (
+            <HeadsetViewPanel publisher={headsetView} position={[-(1.85 * coachCardState.scale + 0.45), -0.62, 0]} />
+          )}
+          {/* Rep counter - right of the technique browser */}
+          <DrillCounterPanel session={drillSession} position={[1.85 * coachCardState.scale + 1.3, 0.12, 0]} />
+        </group>
       </group>
     </>
   );
@@ -0,0 +1,79 @@
+'use client';
+
+import React from 'react';
+import * as THREE from 'three';
+import { useFrame, useThree } from '@react-three/fiber';
+import { RoundedBox, Text } from '@react-three/drei';
+
+export interface VoiceCommandConfirmation {
+  /** Bumped for every command so the same line shown twice restarts the toast */
+  id: number;
+  message: string;
+  ok: boolean;
+}
+
+interface VoiceCommandToastProps {
+  confirmation: VoiceCommandConfirmation | null;
+  onDone: () => void;
+}
+
+const SHOW_MS = 2000;
+const FADE_MS = 500;
+// Just below the line of sight and well in front of the cards (3m out)
+const DISTANCE = 1.4;
+const DROP = 0.32;
+
+// Confirms a voice command where the wrestler is looking - the cards it
+// changed may be behind them
+export function VoiceCommandToast({ confirmation, onDone }: VoiceCommandToastProps) {
+  const { camera } = useThree();
+  const groupRef = React.useRef<THREE.Group>(null);
+  const panelRef = React.useRef<THREE.MeshBasicMaterial>(null);
+  const textRef = React.useRef<THREE.Mesh & { fillOpacity: number }>(null);
+  const shownAtRef = React.useRef(0);
+  const forward = React.useMemo(() => new THREE.Vector3(), []);
+
+  React.useEffect(() => {
+    shownAtRef.current = performance.now();
+  }, [confirmation?.id]);
+
+  useFrame(() => {
+    const group = groupRef.current;
+    if (!group || !confirmation) return;
+    group.visible = true;
+
+    camera.getWorldPosition(group.position);
+    camera.getWorldDirection(forward);
+    group.position.addScaledVector(forward, DISTANCE);
+    group.position.y -= DROP;
+    group.quaternion.copy(camera.quaternion);
+
+    const elapsed = performance.now() - shownAtRef.current;
+    const opacity = elapsed < SHOW_MS ? 1 : Math.max(0, 1 - (elapsed - SHOW_MS) / FADE_MS);
+    if (panelRef.current) panelRef.current.opacity = opacity * 0.85;
+    if (textRef.current) textRef.current.fillOpacity = opacity;
+    if (opacity === 0) onDone();
+  });
+
+  if (!confirmation) return null;
+
+  return (
+    // Hidden until the first frame has put it in front of the camera
+    <group ref={groupRef} visible={false}>
+      <RoundedBox args={[0.9, 0.16, 0.01]} radius={0.03} smoothness={4}>
+        <meshBasicMaterial ref={panelRef} color="#111111" transparent opacity={0.85} />
+      </RoundedBox>
+      <Text
+        ref={textRef}
+        position={[0, 0, 0.01]}
+        fontSize={0.06}
+        color={confirmation.ok ? '#d4af37' : '#ff8844'}
+        anchorX="center"
+        anchorY="middle"
+        maxWidth={0.84}
+      >
+        {confirmation.message}
+      </Text>
+    </group>
+  );
+}
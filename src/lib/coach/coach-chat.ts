@@ -0,0 +1,161 @@
+/**
+ * Coach Chat Client
+ *
+ * Text and voice chat with Coach Andy. The backend remembers the
+ * conversation per user per room (server/coach/coach-service.ts), so the
+ * cards only send the new message and can restore or reset the transcript.
+ * Voice can also stream back as server-sent events (`streamCoachVoice`).
+ * Voice replies may carry a scene command instead of an answer, and answers
+ * may come with Coach Andy's actions (scene-commands.ts carries both out).
+ * Request and response types are shared with the backend, and so is the
+ * persona registry: the card shows the coach the backend answers as.
+ * Inside a room every request signs in with the wrestler's room session;
+ * outside one Coach Andy remembers nothing, so there is no transcript to
+ * restore or reset (`hasCoachMemory`).
+ */
+
+import type {
+  CoachAction,
+  CoachChatRequest,
+  CoachChatResponse,
+  CoachChatTurn,
+  CoachConversation,
+  CoachResetResponse,
+  CoachSession,
+  CoachVoiceResponse,
+  CoachVoiceStreamEvent,
+} from '../../../server/coach/coach-types';
+import { roomAuthorization } from '../room/room-access';
+import { roomIdentity } from '../room/room-tracks';
+
+export { resolveCoachPersona, type CoachPersona } from '../../../server/coach/coach-personas';
+
+export type {
+  CoachAction,
+  CoachChatRequest,
+  CoachChatResponse,
+  CoachChatTurn,
+  CoachConversation,
+  CoachResetResponse,
+  CoachSession,
+  CoachVoiceResponse,
+  CoachVoiceStreamEvent,
+};
+
+function coachChatUrl(path: string, { userId, room, persona }: CoachSession, wakePhrase?: string) {
+  const apiUrl = import.meta.env.VITE_API_URL || window.location.origin;
+  const url = new URL(path, apiUrl);
+  if (userId) url.searchParams.set('userId', userId);
+  if (room) url.searchParams.set('room', room);
+  if (persona) url.searchParams.set('persona', persona);
+  if (wakePhrase) url.searchParams.set('wake', wakePhrase);
+  return url.toString();
+}
+
+async function readJson<T>(response: Response, action: string): Promise<T> {
+  if (!response.ok) {
+    throw new Error(`Coach chat ${action} failed (${response.status})`);
+  }
+  return response.json();
+}
+
+/** Whether the backend keeps this session's conversation - only for a wrestler in a room */
+export function hasCoachMemory({ userId, room }: CoachSession) {
+  return Boolean(userId && room);
+}
+
+/** The backend only uses a conversation for the room session of the wrestler it belongs to */
+async function conversationHeaders(session: CoachSession): Promise<Record<string, string>> {
+  return hasCoachMemory(session)
+    ? { Authorization: await roomAuthorization(session.room!, roomIdentity(session.userId!, 'vr')) }
+    : {};
+}
+
+export async function fetchCoachConversation(session: CoachSession): Promise<CoachConversation> {
+  const headers = await conversationHeaders(session);
+  return readJson(await fetch(coachChatUrl('/api/vr-coach-chat', session), { headers }), 'history');
+}
+
+export async function sendCoachMessage(message: string, session: CoachSession): Promise<CoachChatResponse> {
+  const body: CoachChatRequest = { message, ...session };
+  const response = await fetch(coachChatUrl('/api/vr-coach-chat', {}), {
+    method: 'POST',
+    headers: { ...(await conversationHeaders(session)), 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  return readJson(response, 'message');
+}
+
+export async function sendCoachVoice(audio: Blob, session: CoachSession): Promise<CoachVoiceResponse> {
+  const response = await fetch(coachChatUrl('/api/vr-voice-chat', session), {
+    method: 'POST',
+    headers: { ...(await conversationHeaders(session)), 'Content-Type': 'audio/webm' },
+    body: audio,
+  });
+  return readJson(response, 'voice');
+}
+
+/**
+ * Voice chat as a stream: `onEvent` sees the partial transcript, the reply
+ * token by token, its audio a sentence at a time and any actions as Coach
+ * Andy decides on them. Resolves with the `done` event. Servers without
+ * streaming answer with plain JSON, which is reported as a single `done`.
+ * With a `wakePhrase` Coach Andy only answers when the recording starts
+ * with it (`ignored` otherwise).
+ */
+export async function streamCoachVoice(
+  audio: Blob,
+  session: CoachSession,
+  onEvent: (event: CoachVoiceStreamEvent) => void,
+  wakePhrase?: string
+): Promise<CoachVoiceResponse> {
+  const response = await fetch(coachChatUrl('/api/vr-voice-chat', session, wakePhrase), {
+    method: 'POST',
+    headers: { ...(await conversationHeaders(session)), 'Content-Type': 'audio/webm', Accept: 'text/event-stream' },
+    body: audio,
+  });
+
+  if (!response.ok || !response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+    const result = await readJson<CoachVoiceResponse>(response, 'voice');
+    onEvent({ type: 'done', ...result });
+    return result;
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = '';
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffered += value;
+
+    // Events are separated by a blank line; only the data lines matter
+    const blocks = buffered.split('\n\n');
+    buffered = blocks.pop() ?? '';
+    for (const block of blocks) {
+      const data = block
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trimStart())
+        .join('\n');
+      if (!data) continue;
+
+      const event = JSON.parse(data) as CoachVoiceStreamEvent;
+      onEvent(event);
+      if (event.type === 'done') {
+        await reader.cancel();
+        const { transcript, response: reply, audioUrl, ignored, command, actions } = event;
+        return { transcript, response: reply, audioUrl, ignored, command, actions };
+      }
+      if (event.type === 'error') {
+        await reader.cancel();
+        throw new Error(`Coach chat voice stream failed: ${event.error}`);
+      }
+    }
+  }
+  throw new Error('Coach chat voice stream ended early');
+}
+
+export async function resetCoachConversation(session: CoachSession): Promise<CoachResetResponse> {
+  const headers = await conversationHeaders(session);
+  return readJson(await fetch(coachChatUrl('/api/vr-coach-chat', session), { method: 'DELETE', headers }), 'reset');
+}
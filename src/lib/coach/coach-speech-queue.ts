@@ -0,0 +1,66 @@
+/**
+ * Coach Speech Queue
+ *
+ * Plays Coach Andy's streamed reply a sentence at a time: clips are queued as
+ * they arrive and played back to back, so the first sentence starts while the
+ * rest is still being generated.
+ */
+
+export class CoachSpeechQueue {
+  private readonly clips: string[] = [];
+  private current: HTMLAudioElement | null = null;
+  private readonly onIdle: () => void;
+
+  /** `onIdle` runs whenever the last queued clip has finished */
+  constructor(onIdle: () => void = () => {}) {
+    this.onIdle = onIdle;
+  }
+
+  /** Queue a clip (data or object URL); starts playing if nothing is */
+  enqueue(audioUrl: string) {
+    this.clips.push(audioUrl);
+    if (!this.current) {
+      this.playNext();
+    }
+  }
+
+  get isSpeaking() {
+    return this.current !== null;
+  }
+
+  /** Cut Coach Andy off and drop whatever was still queued */
+  stop() {
+    this.clips.length = 0;
+    if (this.current) {
+      this.current.onended = null;
+      this.current.onerror = null;
+      this.current.pause();
+      this.current = null;
+    }
+  }
+
+  private playNext() {
+    const next = this.clips.shift();
+    if (!next) {
+      this.current = null;
+      this.onIdle();
+      return;
+    }
+
+    const audio = new Audio(next);
+    this.current = audio;
+    // A failed clip can report through both onerror and play(); move on once
+    const advance = () => {
+      if (this.current === audio) this.playNext();
+    };
+    audio.onended = advance;
+    audio.onerror = () => {
+      console.error('❌ Coach Andy audio clip failed to play');
+      advance();
+    };
+    audio.play().catch((error) => {
+      console.error('❌ Audio playback error:', error);
+      advance();
+    });
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Scene Commands
+ *
+ * Carries out the scene commands Coach Andy recognises in the wrestler's
+ * voice ("next video", "slow it down", "arrange as wall" - see
+ * server/coach/voice-commands.ts) and the actions he takes himself through
+ * his tools (highlight a card, play one, start a drill - see
+ * server/coach/coach-tools.ts). Playback goes through the technique cards'
+ * PlaybackControllers; layout, mirroring, highlights, drills and screenshots
+ * through the scene. Everything comes back with a short line for the headset
+ * to show.
+ */
+
+import type { CoachAction, SceneCommand, SceneLayoutMode } from '../../../server/coach/coach-types';
+import { DRILL_IDS, DRILLS, type DrillId } from '../drills/rep-counter';
+import { getPlaybackController, PLAYBACK_RATES, type PlaybackController } from '../video/playback-controller';
+
+export type { CoachAction, SceneCommand, SceneLayoutMode };
+
+export interface SceneCommandTarget {
+  /** Technique cards in scene order - "next video" walks this list */
+  cards: { id: string; label: string }[];
+  arrange(mode: SceneLayoutMode): void;
+  toggleMirror(): void;
+  /** Missing when the page can't take screenshots */
+  screenshot?: () => void;
+}
+
+export interface CoachActionTarget extends SceneCommandTarget {
+  /** Make a card glow and turn the wrestler towards it */
+  highlight(id: string): void;
+  /** False when a drill is already running */
+  startDrill(drill: { drillId: DrillId; sets?: number; targetReps?: number }): boolean;
+}
+
+export interface SceneCommandResult {
+  /** What happened, for the confirmation in VR */
+  message: string;
+  /** False when the command couldn't be carried out */
+  ok: boolean;
+  /** The card commands like "pause" act on from now on */
+  cardId: string | null;
+}
+
+const LAYOUT_NAMES: Record<SceneLayoutMode, string> = {
+  ring: 'Ring',
+  arc: 'Arc',
+  wall: 'Wall',
+  carousel: 'Carousel',
+};
+
+function formatRate(rate: number) {
+  return rate === 1 ? 'Normal speed' : `${rate}x speed`;
+}
+
+/**
+ * The video "it" refers to: the card last picked by voice while it is still
+ * playing, else any playing card, else the card last picked.
+ */
+function currentController(target: SceneCommandTarget, lastCardId: string | null): PlaybackController | null {
+  const last = lastCardId ? getPlaybackController(lastCardId) : null;
+  if (last?.isPlaybackRequested) return last;
+  for (const card of target.cards) {
+    const controller = getPlaybackController(card.id);
+    if (controller?.isPlaybackRequested) return controller;
+  }
+  return last;
+}
+
+// One video at a time - starting another stops the one "it" referred to
+function playCard(
+  id: string,
+  target: SceneCommandTarget,
+  current: PlaybackController | null,
+  { startSeconds, rate }: { startSeconds?: number; rate?: (typeof PLAYBACK_RATES)[number] } = {}
+): SceneCommandResult {
+  const label = target.cards.find((card) => card.id === id)?.label ?? id;
+  const next = getPlaybackController(id);
+  if (!next) return { message: `${label} isn't in the room`, ok: false, cardId: current?.id ?? null };
+
+  if (current && current !== next) current.pause();
+  if (rate !== undefined) next.setRate(rate);
+  if (startSeconds !== undefined) {
+    next.playFrom(startSeconds);
+  } else {
+    next.play();
+  }
+  return { message: `Playing ${label}${rate && rate !== 1 ? ` at ${rate}x` : ''}`, ok: true, cardId: id };
+}
+
+/** Runs `command`; `lastCardId` is the `cardId` of the previous result */
+export function runSceneCommand(
+  command: SceneCommand,
+  target: SceneCommandTarget,
+  lastCardId: string | null
+): SceneCommandResult {
+  const current = currentController(target, lastCardId);
+  const currentId = current?.id ?? lastCardId;
+  const done = (message: string, cardId = currentId) => ({ message, ok: true, cardId });
+  const failed = (message: string) => ({ message, ok: false, cardId: currentId });
+  const labelOf = (id: string) => target.cards.find((card) => card.id === id)?.label ?? id;
+
+  const switchTo = (id: string) => {
+    const result = playCard(id, target, current);
+    return result.ok ? result : failed(result.message);
+  };
+
+  switch (command.type) {
+    case 'play-technique':
+      return switchTo(command.techniqueId);
+
+    case 'next-video':
+    case 'previous-video': {
+      if (target.cards.length === 0) return failed('No videos loaded');
+      const step = command.type === 'next-video' ? 1 : -1;
+      const index = target.cards.findIndex((card) => card.id === currentId);
+      const from = index === -1 ? (step === 1 ? -1 : 0) : index;
+      return switchTo(target.cards[(from + step + target.cards.length) % target.cards.length].id);
+    }
+
+    case 'pause':
+      if (!current?.isPlaybackRequested) return failed('Nothing is playing');
+      current.pause();
+      return done(`Paused ${labelOf(current.id)}`);
+
+    case 'resume':
+      if (!current) return failed('Pick a video first');
+      current.play();
+      return done(`Playing ${labelOf(current.id)}`);
+
+    case 'restart':
+      if (!current) return failed('Pick a video first');
+      current.playFrom(0);
+      return done(`Restarted ${labelOf(current.id)}`);
+
+    case 'speed': {
+      if (!current) return failed('Pick a video first');
+      const { rate } = current.getState();
+      let next = rate;
+      if ('rate' in command) {
+        next = command.rate;
+      } else {
+        const index = PLAYBACK_RATES.indexOf(rate) + (command.change === 'slower' ? -1 : 1);
+        if (index < 0) return failed(`Already at ${rate}x`);
+        if (index >= PLAYBACK_RATES.length) return failed('Already at normal speed');
+        next = PLAYBACK_RATES[index];
+      }
+      current.setRate(next);
+      return done(formatRate(next));
+    }
+
+    case 'arrange':
+      target.arrange(command.mode);
+      return done(`${LAYOUT_NAMES[command.mode]} layout`);
+
+    case 'screenshot':
+      if (!target.screenshot) return failed("Screenshots aren't available here");
+      target.screenshot();
+      return done('Screenshot saved');
+
+    case 'mirror':
+      target.toggleMirror();
+      return done('Videos flipped');
+  }
+}
+
+/** Runs one of Coach Andy's actions; `lastCardId` as for `runSceneCommand` */
+export function runCoachAction(
+  action: CoachAction,
+  target: CoachActionTarget,
+  lastCardId: string | null
+): SceneCommandResult {
+  const label = target.cards.find((card) => card.id === ('techniqueId' in action ? action.techniqueId : null))?.label;
+
+  switch (action.type) {
+    case 'highlight-card':
+      if (!label) return { message: `${action.techniqueId} isn't in the room`, ok: false, cardId: lastCardId };
+      target.highlight(action.techniqueId);
+      return { message: `Coach: look at ${label}`, ok: true, cardId: lastCardId };
+
+    case 'play-card': {
+      const result = playCard(action.techniqueId, target, currentController(target, lastCardId), action);
+      if (!result.ok) return { ...result, cardId: lastCardId };
+      target.highlight(action.techniqueId);
+      return result;
+    }
+
+    case 'start-drill': {
+      const drillId = DRILL_IDS.find((id) => id === action.drillId);
+      if (!drillId) return { message: `Unknown drill ${action.drillId}`, ok: false, cardId: lastCardId };
+      const started = target.startDrill({ drillId, sets: action.sets, targetReps: action.targetReps });
+      return started
+        ? { message: `Drill: ${DRILLS[drillId].label}`, ok: true, cardId: lastCardId }
+        : { message: 'A drill is already running', ok: false, cardId: lastCardId };
+    }
+  }
+}
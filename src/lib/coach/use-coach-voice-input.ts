@@ -0,0 +1,207 @@
+import React from 'react';
+import { VoiceActivityDetector, type VoiceActivityEvent } from './voice-activity';
+
+/**
+ * tap         - press the mic (or hold push-to-talk); silence ends the recording
+ * hands-free  - the mic stays open and every utterance goes to Coach Andy
+ * wake-phrase - hands-free, but Coach Andy only answers "Hey Coach ..."
+ */
+export type CoachListenMode = 'tap' | 'hands-free' | 'wake-phrase';
+
+export const COACH_LISTEN_MODES: CoachListenMode[] = ['tap', 'hands-free', 'wake-phrase'];
+
+// A tap gives the wrestler this long to start talking
+const TAP_GRACE_MS = 4000;
+// Coach Andy through the speakers shouldn't count as the wrestler barging in
+const COACH_SPEAKING_MARGIN_DB = 10;
+
+interface CoachVoiceInputOptions {
+  mode: CoachListenMode;
+  /** Hands-free utterances are not recorded while the last one is being answered */
+  busy: boolean;
+  /** Whether Coach Andy is talking right now */
+  isCoachSpeaking: () => boolean;
+  /** The wrestler started talking - time to stop Coach Andy */
+  onSpeech: () => void;
+  onUtterance: (audio: Blob) => void;
+  /** A recording was dropped - nothing, or nothing long enough to be speech */
+  onSilence: () => void;
+  onError: (error: Error) => void;
+}
+
+export interface CoachVoiceInput {
+  /** Recording an utterance right now */
+  recording: boolean;
+  /** Mic open and waiting for speech (hands-free modes) */
+  armed: boolean;
+  /** Start recording now; `holdToTalk` keeps recording until `stopRecording` */
+  startRecording(holdToTalk?: boolean): Promise<void>;
+  /** Stop and send what was recorded */
+  stopRecording(): void;
+}
+
+/**
+ * Mic, voice activity detection and recording for the coach card. Utterances
+ * come out as webm blobs through `onUtterance`.
+ */
+export function useCoachVoiceInput(options: CoachVoiceInputOptions): CoachVoiceInput {
+  const { mode } = options;
+  const [recording, setRecording] = React.useState(false);
+  const [armed, setArmed] = React.useState(false);
+
+  // Read when events fire so the mic isn't reopened on every render
+  const optionsRef = React.useRef(options);
+  React.useEffect(() => {
+    optionsRef.current = options;
+  });
+
+  const streamRef = React.useRef<MediaStream | null>(null);
+  const detectorRef = React.useRef<VoiceActivityDetector | null>(null);
+  const recorderRef = React.useRef<MediaRecorder | null>(null);
+  const chunksRef = React.useRef<Blob[]>([]);
+  const sendRef = React.useRef(true);
+  const holdRef = React.useRef(false);
+  const handleEventRef = React.useRef<(event: VoiceActivityEvent) => void>(() => {});
+
+  const closeMic = React.useCallback(() => {
+    detectorRef.current?.stop();
+    detectorRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    setArmed(false);
+  }, []);
+
+  // Shared while the permission prompt is up, so two callers get one mic
+  const openingRef = React.useRef<Promise<void> | null>(null);
+  const openMic = React.useCallback(() => {
+    if (streamRef.current) return Promise.resolve();
+    openingRef.current ??= (async () => {
+      try {
+        console.log('🎤 Requesting microphone access...');
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+        });
+        streamRef.current = stream;
+        const detector = new VoiceActivityDetector(
+          stream,
+          (event) => handleEventRef.current(event),
+          {},
+          () => (optionsRef.current.isCoachSpeaking() ? COACH_SPEAKING_MARGIN_DB : 0)
+        );
+        detector.start();
+        detectorRef.current = detector;
+        console.log('✅ Microphone open');
+      } finally {
+        openingRef.current = null;
+      }
+    })();
+    return openingRef.current;
+  }, []);
+
+  const beginRecorder = React.useCallback(() => {
+    const stream = streamRef.current;
+    if (!stream || recorderRef.current) return;
+
+    chunksRef.current = [];
+    sendRef.current = true;
+    const recorder = new MediaRecorder(stream, { mimeType: 'audio/webm;codecs=opus' });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data);
+    };
+    recorder.onstop = () => {
+      recorderRef.current = null;
+      holdRef.current = false;
+      setRecording(false);
+      const audio = new Blob(chunksRef.current, { type: 'audio/webm' });
+      chunksRef.current = [];
+      if (optionsRef.current.mode === 'tap') closeMic();
+      if (sendRef.current && audio.size > 0) {
+        console.log('🎵 Utterance recorded:', audio.size, 'bytes');
+        optionsRef.current.onUtterance(audio);
+      }
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setRecording(true);
+  }, [closeMic]);
+
+  const finishRecorder = React.useCallback((send: boolean) => {
+    const recorder = recorderRef.current;
+    if (!recorder || recorder.state !== 'recording') return;
+    sendRef.current = send;
+    recorder.stop();
+  }, []);
+
+  React.useEffect(() => {
+    handleEventRef.current = (event) => {
+      const current = optionsRef.current;
+      switch (event) {
+        case 'start':
+          if (current.mode !== 'tap' && !current.busy) beginRecorder();
+          break;
+        case 'speech':
+          current.onSpeech();
+          break;
+        case 'end':
+          if (!holdRef.current) finishRecorder(true);
+          break;
+        case 'discard':
+          if (!holdRef.current && recorderRef.current) {
+            finishRecorder(false);
+            current.onSilence();
+          }
+          break;
+      }
+    };
+  }, [beginRecorder, finishRecorder]);
+
+  React.useEffect(() => {
+    return () => {
+      finishRecorder(false);
+      closeMic();
+    };
+  }, [closeMic, finishRecorder]);
+
+  // Hands-free modes keep the mic open for as long as they're selected
+  React.useEffect(() => {
+    if (mode === 'tap') return;
+    let cancelled = false;
+    openMic()
+      .then(() => {
+        if (cancelled) closeMic();
+        else setArmed(true);
+      })
+      .catch((error) => {
+        if (!cancelled) optionsRef.current.onError(error);
+      });
+    return () => {
+      cancelled = true;
+      finishRecorder(false);
+      closeMic();
+    };
+  }, [closeMic, finishRecorder, mode, openMic]);
+
+  const startRecording = React.useCallback(
+    async (holdToTalk = false) => {
+      if (recorderRef.current) return;
+      try {
+        await openMic();
+      } catch (error) {
+        optionsRef.current.onError(error as Error);
+        return;
+      }
+      holdRef.current = holdToTalk;
+      beginRecorder();
+      // Same rules as a detected utterance, but waits a moment for the first word
+      detectorRef.current?.tracker.begin(performance.now(), holdToTalk ? Infinity : TAP_GRACE_MS);
+    },
+    [beginRecorder, openMic]
+  );
+
+  const stopRecording = React.useCallback(() => {
+    detectorRef.current?.tracker.reset();
+    finishRecorder(true);
+  }, [finishRecorder]);
+
+  return { recording, armed, startRecording, stopRecording };
+}
@@ -0,0 +1,203 @@
+/**
+ * Voice Activity Detection
+ *
+ * Energy-based detector for the coach card's hands-free mode. The level of
+ * the mic is compared against a noise floor that follows the room while
+ * nobody is talking, so a loud gym raises the bar instead of keeping the mic
+ * open. Short bursts (a cough, a mat slap) start a recording but are
+ * discarded unless they last long enough to be speech.
+ *
+ * `createVoiceActivityTracker` is the pure state machine, fed one level
+ * reading at a time; `VoiceActivityDetector` runs it on a live MediaStream.
+ */
+
+export interface VoiceActivityOptions {
+  /** How far above the noise floor counts as voice, in dB */
+  startMarginDb: number;
+  /** Voice never starts below this level, in dBFS - a silent room isn't an invitation */
+  minStartDb: number;
+  /** Still talking while above floor + this, in dB */
+  stopMarginDb: number;
+  /** Voiced time before an utterance counts as speech */
+  minSpeechMs: number;
+  /** Quiet time that ends an utterance */
+  silenceMs: number;
+  /** Utterances are cut off after this long */
+  maxUtteranceMs: number;
+  /** Share of the distance to the current level the floor moves per reading while quiet */
+  floorAdaptRate: number;
+  /** Listen this long after the first reading to learn the room before anything can start */
+  calibrationMs: number;
+}
+
+export const DEFAULT_VOICE_ACTIVITY_OPTIONS: VoiceActivityOptions = {
+  startMarginDb: 14,
+  minStartDb: -50,
+  stopMarginDb: 8,
+  minSpeechMs: 250,
+  silenceMs: 900,
+  maxUtteranceMs: 15000,
+  floorAdaptRate: 0.05,
+  calibrationMs: 500,
+};
+
+/**
+ * start   - level crossed the threshold, begin recording
+ * speech  - it has lasted long enough to be someone talking
+ * end     - they stopped; keep the recording
+ * discard - it was too short to be speech; drop the recording
+ */
+export type VoiceActivityEvent = 'start' | 'speech' | 'end' | 'discard';
+
+export interface VoiceActivityTracker {
+  /** Feed one level reading (dBFS); `extraMarginDb` raises the start threshold, e.g. while the coach talks */
+  update(levelDb: number, now: number, extraMarginDb?: number): VoiceActivityEvent | null;
+  /** Start an utterance without waiting for the threshold; silence won't end it during `graceMs` */
+  begin(now: number, graceMs?: number): void;
+  reset(): void;
+  readonly floorDb: number;
+  readonly active: boolean;
+}
+
+const INITIAL_FLOOR_DB = -60;
+const MIN_FLOOR_DB = -90;
+// Floor follows the room quickly while calibrating, barely at all mid-utterance -
+// enough that a machine switching on mid-sentence doesn't hold the mic open forever
+const CALIBRATION_ADAPT_RATE = 0.3;
+const UTTERANCE_ADAPT_SHARE = 0.05;
+
+export function createVoiceActivityTracker(options: Partial<VoiceActivityOptions> = {}): VoiceActivityTracker {
+  const { startMarginDb, minStartDb, stopMarginDb, minSpeechMs, silenceMs, maxUtteranceMs, floorAdaptRate, calibrationMs } = {
+    ...DEFAULT_VOICE_ACTIVITY_OPTIONS,
+    ...options,
+  };
+
+  let floorDb = INITIAL_FLOOR_DB;
+  let firstReadingAt: number | null = null;
+  let state: 'quiet' | 'onset' | 'speaking' = 'quiet';
+  let startedAt = 0;
+  let lastUpdateAt = 0;
+  let lastVoiceAt = 0;
+  let voicedMs = 0;
+  let graceUntil = 0;
+
+  function begin(now: number, graceMs = 0) {
+    state = 'onset';
+    startedAt = now;
+    lastUpdateAt = now;
+    lastVoiceAt = now;
+    voicedMs = 0;
+    graceUntil = now + graceMs;
+  }
+
+  return {
+    update(levelDb, now, extraMarginDb = 0) {
+      firstReadingAt ??= now;
+      const adapt = (rate: number) => {
+        floorDb = Math.max(MIN_FLOOR_DB, floorDb + (levelDb - floorDb) * rate);
+      };
+
+      if (state === 'quiet' && now - firstReadingAt < calibrationMs) {
+        adapt(CALIBRATION_ADAPT_RATE);
+        return null;
+      }
+
+      if (state === 'quiet') {
+        if (levelDb > Math.max(minStartDb, floorDb + startMarginDb + extraMarginDb)) {
+          begin(now);
+          return 'start';
+        }
+        adapt(floorAdaptRate);
+        return null;
+      }
+
+      adapt(floorAdaptRate * UTTERANCE_ADAPT_SHARE);
+      const elapsed = now - lastUpdateAt;
+      lastUpdateAt = now;
+      if (levelDb > floorDb + stopMarginDb) {
+        voicedMs += elapsed;
+        lastVoiceAt = now;
+        if (state === 'onset' && voicedMs >= minSpeechMs) {
+          state = 'speaking';
+          return 'speech';
+        }
+      }
+
+      const silent = now - lastVoiceAt >= silenceMs && now >= graceUntil;
+      if (silent || now - startedAt >= maxUtteranceMs) {
+        const event = state === 'speaking' ? 'end' : 'discard';
+        state = 'quiet';
+        return event;
+      }
+      return null;
+    },
+
+    begin,
+
+    reset() {
+      state = 'quiet';
+    },
+
+    get floorDb() {
+      return floorDb;
+    },
+
+    get active() {
+      return state !== 'quiet';
+    },
+  };
+}
+
+// ~30 readings a second; window timers keep running during an XR session
+const SAMPLE_INTERVAL_MS = 33;
+
+/** Runs a tracker on a live mic stream and reports its events */
+export class VoiceActivityDetector {
+  readonly tracker: VoiceActivityTracker;
+  private readonly stream: MediaStream;
+  private readonly onEvent: (event: VoiceActivityEvent) => void;
+  private readonly extraMarginDb: () => number;
+  private context: AudioContext | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  /** `extraMarginDb` is read on every reading and raises the start threshold */
+  constructor(
+    stream: MediaStream,
+    onEvent: (event: VoiceActivityEvent) => void,
+    options: Partial<VoiceActivityOptions> = {},
+    extraMarginDb: () => number = () => 0
+  ) {
+    this.stream = stream;
+    this.onEvent = onEvent;
+    this.extraMarginDb = extraMarginDb;
+    this.tracker = createVoiceActivityTracker(options);
+  }
+
+  start() {
+    if (this.context) return;
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(this.stream).connect(analyser);
+    this.context = context;
+
+    const samples = new Float32Array(analyser.fftSize);
+    this.timer = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) sum += sample * sample;
+      const levelDb = 10 * Math.log10(sum / samples.length + 1e-12);
+
+      const event = this.tracker.update(levelDb, performance.now(), this.extraMarginDb());
+      if (event) this.onEvent(event);
+    }, SAMPLE_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+    this.context?.close().catch(() => {});
+    this.context = null;
+    this.tracker.reset();
+  }
+}
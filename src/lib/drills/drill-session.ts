@@ -0,0 +1,242 @@
+/**
+ * Drill Session
+ *
+ * Sets, rest periods and a summary around the rep counter. While a set is
+ * running the session counts reps from the live pose store; a set ends on
+ * the target rep count or when the wrestler ends it, then the rest timer runs
+ * and the next set starts (and recalibrates) on its own.
+ *
+ * Time only advances through `tick()` - the counter panel calls it every frame.
+ */
+
+import { subscribeLivePose, type LivePose } from '../pose/live-pose';
+import { DRILLS, RepCounter, type DrillId, type RepCounterPhase } from './rep-counter';
+
+export interface DrillSessionConfig {
+  drillId: DrillId;
+  sets: number;
+  /** null = open-ended sets, ended by hand */
+  targetReps: number | null;
+  restSeconds: number;
+}
+
+export const DEFAULT_DRILL_SESSION_CONFIG: DrillSessionConfig = {
+  drillId: 'sprawl',
+  sets: 3,
+  targetReps: 10,
+  restSeconds: 45,
+};
+
+export type DrillSessionPhase = 'idle' | 'set' | 'rest' | 'complete';
+
+export interface DrillSetRecord {
+  reps: number;
+  durationSeconds: number;
+}
+
+export interface DrillSessionState {
+  phase: DrillSessionPhase;
+  config: DrillSessionConfig;
+  /** 1-based; the set that is running, or the next one while resting */
+  setNumber: number;
+  reps: number;
+  counterPhase: RepCounterPhase;
+  /** Whole seconds - the panel only needs to redraw once a second */
+  setElapsedSeconds: number;
+  restRemainingSeconds: number;
+  completedSets: DrillSetRecord[];
+}
+
+export interface DrillSessionSummary {
+  drillLabel: string;
+  sets: DrillSetRecord[];
+  totalReps: number;
+  activeSeconds: number;
+  restSeconds: number;
+  /** Average time per rep across all sets, null with no reps */
+  secondsPerRep: number | null;
+}
+
+type Listener = (state: DrillSessionState) => void;
+
+export class DrillSession {
+  private config: DrillSessionConfig = DEFAULT_DRILL_SESSION_CONFIG;
+  private phase: DrillSessionPhase = 'idle';
+  private counter = new RepCounter(DEFAULT_DRILL_SESSION_CONFIG.drillId);
+  private completedSets: DrillSetRecord[] = [];
+  private setStartedAt = 0;
+  private restEndsAt = 0;
+  private restTaken = 0;
+  private now = 0;
+  private unsubscribePose: (() => void) | null = null;
+  private lastEmitted: DrillSessionState | null = null;
+  private readonly listeners = new Set<Listener>();
+
+  getState(): DrillSessionState {
+    const setEnd = this.phase === 'set' ? this.now : this.setStartedAt;
+    return {
+      phase: this.phase,
+      config: this.config,
+      setNumber: Math.min(this.completedSets.length + 1, this.config.sets),
+      reps: this.counter.reps,
+      counterPhase: this.counter.phase,
+      setElapsedSeconds: Math.max(0, Math.floor((setEnd - this.setStartedAt) / 1000)),
+      restRemainingSeconds: this.phase === 'rest' ? Math.max(0, Math.ceil((this.restEndsAt - this.now) / 1000)) : 0,
+      completedSets: this.completedSets,
+    };
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Only while idle or after a finished session */
+  configure(config: Partial<DrillSessionConfig>) {
+    if (this.phase === 'set' || this.phase === 'rest') {
+      return;
+    }
+    this.config = { ...this.config, ...config };
+    this.phase = 'idle';
+    this.completedSets = [];
+    this.restTaken = 0;
+    this.counter = new RepCounter(this.config.drillId);
+    this.emit();
+  }
+
+  start(now = performance.now()) {
+    if (this.phase === 'set') return;
+    if (this.phase === 'rest') {
+      this.skipRest(now);
+      return;
+    }
+    if (this.phase === 'complete') {
+      this.completedSets = [];
+      this.restTaken = 0;
+    }
+    this.startSet(now);
+  }
+
+  /** Stop the current set early; rests (or completes) like reaching the target */
+  endSet(now = performance.now()) {
+    if (this.phase !== 'set') return;
+    this.now = now;
+    this.stopCounting();
+    this.completedSets = [
+      ...this.completedSets,
+      { reps: this.counter.reps, durationSeconds: (now - this.setStartedAt) / 1000 },
+    ];
+
+    if (this.completedSets.length >= this.config.sets) {
+      this.phase = 'complete';
+      console.log(`[DRILLS] ✅ ${DRILLS[this.config.drillId].label} session complete`);
+    } else {
+      this.phase = 'rest';
+      this.restEndsAt = now + this.config.restSeconds * 1000;
+    }
+    this.emit();
+  }
+
+  skipRest(now = performance.now()) {
+    if (this.phase !== 'rest') return;
+    this.restTaken += Math.max(0, this.config.restSeconds * 1000 - (this.restEndsAt - now));
+    this.startSet(now);
+  }
+
+  /** End the session now - a running set still counts toward the summary */
+  finish(now = performance.now()) {
+    if (this.phase === 'set') {
+      this.endSet(now);
+    }
+    if (this.phase === 'rest') {
+      this.restTaken += Math.max(0, this.config.restSeconds * 1000 - (this.restEndsAt - now));
+    }
+    this.phase = 'complete';
+    this.emit();
+  }
+
+  reset() {
+    this.stopCounting();
+    this.phase = 'idle';
+    this.completedSets = [];
+    this.restTaken = 0;
+    this.counter = new RepCounter(this.config.drillId);
+    this.emit();
+  }
+
+  tick(now = performance.now()) {
+    this.now = now;
+    if (this.phase === 'rest' && now >= this.restEndsAt) {
+      this.restTaken += this.config.restSeconds * 1000;
+      this.startSet(now);
+      return;
+    }
+    this.emit();
+  }
+
+  /** Feed a pose by hand - the session subscribes to the live pose store itself during sets */
+  handlePose(pose: Pick<LivePose, 'keypoints' | 'aspect' | 'timestamp'>) {
+    if (this.phase !== 'set') return;
+    if (this.counter.update(pose)) {
+      if (this.config.targetReps !== null && this.counter.reps >= this.config.targetReps) {
+        this.endSet(pose.timestamp);
+        return;
+      }
+    }
+    this.emit();
+  }
+
+  getSummary(): DrillSessionSummary {
+    const totalReps = this.completedSets.reduce((sum, set) => sum + set.reps, 0);
+    const activeSeconds = this.completedSets.reduce((sum, set) => sum + set.durationSeconds, 0);
+    return {
+      drillLabel: DRILLS[this.config.drillId].label,
+      sets: this.completedSets,
+      totalReps,
+      activeSeconds,
+      restSeconds: this.restTaken / 1000,
+      secondsPerRep: totalReps > 0 ? activeSeconds / totalReps : null,
+    };
+  }
+
+  dispose() {
+    this.stopCounting();
+    this.listeners.clear();
+  }
+
+  private startSet(now: number) {
+    this.now = now;
+    this.setStartedAt = now;
+    this.phase = 'set';
+    // Every set recalibrates - the wrestler may have moved during the rest
+    this.counter.reset();
+    this.unsubscribePose ??= subscribeLivePose((pose) => this.handlePose(pose));
+    this.emit();
+  }
+
+  private stopCounting() {
+    this.unsubscribePose?.();
+    this.unsubscribePose = null;
+  }
+
+  // Skip identical snapshots so per-frame ticks don't re-render the panel
+  private emit() {
+    const state = this.getState();
+    const last = this.lastEmitted;
+    if (
+      last &&
+      last.phase === state.phase &&
+      last.config === state.config &&
+      last.reps === state.reps &&
+      last.counterPhase === state.counterPhase &&
+      last.setElapsedSeconds === state.setElapsedSeconds &&
+      last.restRemainingSeconds === state.restRemainingSeconds &&
+      last.completedSets === state.completedSets
+    ) {
+      return;
+    }
+    this.lastEmitted = state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
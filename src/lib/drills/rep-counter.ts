@@ -0,0 +1,331 @@
+/**
+ * Rep Counter
+ *
+ * Counts drill reps from BlazePose keypoints. Each drill is a small state
+ * machine over a few body measurements (hip drop, knee height, lateral hip
+ * travel) taken relative to the wrestler's own standing stance, which is
+ * captured at the start of every set. Measurements are scaled by torso length
+ * so distance from the camera doesn't matter.
+ */
+
+import type { PoseKeypoint } from '../pose/reference-track';
+
+export const DRILL_IDS = ['stance-motion', 'sprawl', 'level-change', 'penetration-step'] as const;
+
+export type DrillId = (typeof DRILL_IDS)[number];
+
+export interface PoseSample {
+  /** Normalized 0-1, origin top-left (see reference-track) */
+  keypoints: PoseKeypoint[];
+  /** Camera frame width / height */
+  aspect: number;
+  /** Milliseconds, any monotonic clock */
+  timestamp: number;
+}
+
+export interface PoseFeatures {
+  /** Hip midpoint, in torso lengths (y points down like the image) */
+  hipX: number;
+  hipY: number;
+  /** Knee-to-ankle height of the lower knee, in torso lengths - ~0 when a knee is on the mat */
+  kneeHeight: number | null;
+}
+
+export interface StanceBaseline {
+  hipX: number;
+  hipY: number;
+  /** Standing torso length in normalized image units */
+  torso: number;
+}
+
+export interface RepDetector {
+  /** True while the wrestler is partway through a rep */
+  readonly inRep: boolean;
+  /** Returns true when a rep was just completed */
+  update(features: PoseFeatures, baseline: StanceBaseline, timestamp: number): boolean;
+}
+
+export interface DrillDefinition {
+  id: DrillId;
+  label: string;
+  /** Short instruction shown on the counter panel */
+  cue: string;
+  createDetector(): RepDetector;
+}
+
+export type RepCounterPhase = 'calibrating' | 'ready' | 'in-rep';
+
+const MIN_SCORE = 0.5;
+const LEFT_SHOULDER = 11;
+const RIGHT_SHOULDER = 12;
+const LEFT_HIP = 23;
+const RIGHT_HIP = 24;
+const LEFT_KNEE = 25;
+const RIGHT_KNEE = 26;
+const LEFT_ANKLE = 27;
+const RIGHT_ANKLE = 28;
+
+// Standing still this long (visible frames) sets the stance baseline
+const CALIBRATION_MS = 800;
+// Hips wandering further than this (torso lengths) from where calibration started isn't standing still
+const CALIBRATION_TOLERANCE = 0.15;
+// Faster than this is detector noise, not a rep
+const MIN_REP_MS = 300;
+
+function visible(keypoints: PoseKeypoint[], indices: number[]) {
+  return indices.every((index) => (keypoints[index]?.score ?? 0) >= MIN_SCORE);
+}
+
+function midpoint(a: PoseKeypoint, b: PoseKeypoint, aspect: number) {
+  return { x: ((a.x + b.x) / 2) * aspect, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Torso length (shoulder midpoint to hip midpoint) in aspect-corrected
+ * normalized units, or null when shoulders or hips aren't visible.
+ */
+export function measureTorso({ keypoints, aspect }: PoseSample): number | null {
+  if (!visible(keypoints, [LEFT_SHOULDER, RIGHT_SHOULDER, LEFT_HIP, RIGHT_HIP])) {
+    return null;
+  }
+  const shoulders = midpoint(keypoints[LEFT_SHOULDER], keypoints[RIGHT_SHOULDER], aspect);
+  const hips = midpoint(keypoints[LEFT_HIP], keypoints[RIGHT_HIP], aspect);
+  const torso = Math.hypot(shoulders.x - hips.x, shoulders.y - hips.y);
+  return torso > 1e-3 ? torso : null;
+}
+
+/**
+ * Measurements in units of `torso` (the baseline's, so bending over doesn't
+ * rescale them). Null when the hips aren't visible.
+ */
+export function measurePose({ keypoints, aspect }: PoseSample, torso: number): PoseFeatures | null {
+  if (!visible(keypoints, [LEFT_HIP, RIGHT_HIP])) {
+    return null;
+  }
+  const hips = midpoint(keypoints[LEFT_HIP], keypoints[RIGHT_HIP], aspect);
+
+  const kneeHeights = [
+    [LEFT_KNEE, LEFT_ANKLE],
+    [RIGHT_KNEE, RIGHT_ANKLE],
+  ]
+    .filter((indices) => visible(keypoints, indices))
+    .map(([knee, ankle]) => (keypoints[ankle].y - keypoints[knee].y) / torso);
+
+  return {
+    hipX: hips.x / torso,
+    hipY: hips.y / torso,
+    kneeHeight: kneeHeights.length > 0 ? Math.min(...kneeHeights) : null,
+  };
+}
+
+/** How far the hips have dropped below standing, in torso lengths */
+function hipDrop(features: PoseFeatures, baseline: StanceBaseline) {
+  return features.hipY - baseline.hipY;
+}
+
+/**
+ * Go down past `isDown`, come back past `isUp` = one rep. Most drills are a
+ * level drop and recovery with different depths and extra conditions.
+ */
+function createDropAndRecoverDetector(
+  isDown: (features: PoseFeatures, baseline: StanceBaseline) => boolean,
+  isUp: (features: PoseFeatures, baseline: StanceBaseline) => boolean
+): RepDetector {
+  let inRep = false;
+  let downAt = 0;
+
+  return {
+    get inRep() {
+      return inRep;
+    },
+    update(features, baseline, timestamp) {
+      if (!inRep && isDown(features, baseline)) {
+        inRep = true;
+        downAt = timestamp;
+        return false;
+      }
+      if (inRep && isUp(features, baseline)) {
+        inRep = false;
+        return timestamp - downAt >= MIN_REP_MS;
+      }
+      return false;
+    },
+  };
+}
+
+/**
+ * Stance and motion: every shuffle of at least `travel` torso lengths while
+ * staying level in stance counts, in either direction.
+ */
+function createShuffleDetector(travel: number, minDrop: number): RepDetector {
+  let anchorX: number | null = null;
+  let anchorAt = 0;
+  let inRep = false;
+
+  return {
+    get inRep() {
+      return inRep;
+    },
+    update(features, baseline, timestamp) {
+      // Standing up tall isn't stance - start over from wherever they settle
+      if (hipDrop(features, baseline) < minDrop) {
+        anchorX = null;
+        inRep = false;
+        return false;
+      }
+      if (anchorX === null) {
+        anchorX = features.hipX;
+        anchorAt = timestamp;
+        return false;
+      }
+
+      const moved = Math.abs(features.hipX - anchorX);
+      inRep = moved > travel / 3;
+      if (moved < travel) {
+        return false;
+      }
+      const isRep = timestamp - anchorAt >= MIN_REP_MS;
+      anchorX = features.hipX;
+      anchorAt = timestamp;
+      inRep = false;
+      return isRep;
+    },
+  };
+}
+
+export const DRILLS: Record<DrillId, DrillDefinition> = {
+  'stance-motion': {
+    id: 'stance-motion',
+    label: 'Stance & Motion',
+    cue: 'Stay low and shuffle side to side',
+    createDetector: () => createShuffleDetector(0.6, 0.12),
+  },
+  sprawl: {
+    id: 'sprawl',
+    label: 'Sprawl',
+    cue: 'Hips to the mat, then back to stance',
+    createDetector: () =>
+      createDropAndRecoverDetector(
+        (features, baseline) => hipDrop(features, baseline) >= 0.9,
+        (features, baseline) => hipDrop(features, baseline) <= 0.3
+      ),
+  },
+  'level-change': {
+    id: 'level-change',
+    label: 'Level Change',
+    cue: 'Drop your hips, chest up, and come back',
+    createDetector: () =>
+      createDropAndRecoverDetector(
+        (features, baseline) => hipDrop(features, baseline) >= 0.35,
+        (features, baseline) => hipDrop(features, baseline) <= 0.15
+      ),
+  },
+  'penetration-step': {
+    id: 'penetration-step',
+    label: 'Penetration Step',
+    cue: 'Level change and drive your knee to the mat',
+    createDetector: () =>
+      createDropAndRecoverDetector(
+        (features, baseline) =>
+          hipDrop(features, baseline) >= 0.5 && features.kneeHeight !== null && features.kneeHeight <= 0.35,
+        (features, baseline) => hipDrop(features, baseline) <= 0.2
+      ),
+  },
+};
+
+/**
+ * Calibrates on the wrestler's stance, then feeds every pose through the
+ * drill's detector.
+ */
+export class RepCounter {
+  readonly drill: DrillDefinition;
+  private detector: RepDetector;
+  private baseline: StanceBaseline | null = null;
+  // Image-space stance measurements - the final torso length isn't known yet
+  private calibrationSamples: StanceBaseline[] = [];
+  private calibrationStart: number | null = null;
+  private repCount = 0;
+  private repTimestamps: number[] = [];
+
+  constructor(drillId: DrillId) {
+    this.drill = DRILLS[drillId];
+    this.detector = this.drill.createDetector();
+  }
+
+  get reps() {
+    return this.repCount;
+  }
+
+  /** When each rep was completed (same clock as the samples) */
+  get completedAt(): readonly number[] {
+    return this.repTimestamps;
+  }
+
+  get phase(): RepCounterPhase {
+    if (!this.baseline) return 'calibrating';
+    return this.detector.inRep ? 'in-rep' : 'ready';
+  }
+
+  /** Returns true when this sample completed a rep */
+  update(sample: PoseSample): boolean {
+    if (!this.baseline) {
+      this.calibrate(sample);
+      return false;
+    }
+
+    const features = measurePose(sample, this.baseline.torso);
+    if (!features || !this.detector.update(features, this.baseline, sample.timestamp)) {
+      return false;
+    }
+    this.repCount++;
+    this.repTimestamps.push(sample.timestamp);
+    return true;
+  }
+
+  /** Forget the stance and count from zero (e.g. a new set) */
+  reset() {
+    this.detector = this.drill.createDetector();
+    this.baseline = null;
+    this.calibrationSamples = [];
+    this.calibrationStart = null;
+    this.repCount = 0;
+    this.repTimestamps = [];
+  }
+
+  private calibrate(sample: PoseSample) {
+    const torso = measureTorso(sample);
+    const features = torso ? measurePose(sample, torso) : null;
+    if (!torso || !features) {
+      // Lost sight of them - the stance has to be held in view
+      this.calibrationSamples = [];
+      this.calibrationStart = null;
+      return;
+    }
+
+    const hipX = features.hipX * torso;
+    const hipY = features.hipY * torso;
+    const first = this.calibrationSamples[0];
+    if (first && Math.hypot(hipX - first.hipX, hipY - first.hipY) > CALIBRATION_TOLERANCE * torso) {
+      // Still moving - the stance is taken from wherever they settle
+      this.calibrationSamples = [];
+      this.calibrationStart = null;
+    }
+
+    this.calibrationStart ??= sample.timestamp;
+    this.calibrationSamples.push({ torso, hipX, hipY });
+    if (sample.timestamp - this.calibrationStart < CALIBRATION_MS) {
+      return;
+    }
+
+    const count = this.calibrationSamples.length;
+    const mean = (read: (value: StanceBaseline) => number) =>
+      this.calibrationSamples.reduce((sum, value) => sum + read(value), 0) / count;
+    const baselineTorso = mean((value) => value.torso);
+    this.baseline = {
+      torso: baselineTorso,
+      hipX: mean((value) => value.hipX) / baselineTorso,
+      hipY: mean((value) => value.hipY) / baselineTorso,
+    };
+    this.calibrationSamples = [];
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * Card Layout Persistence
+ *
+ * Named, per-user arrangements of the technique cards and the coach card.
+ * Layouts are always written to localStorage; when `VITE_LAYOUT_SYNC=true`
+ * and the page is in a room they are also mirrored to the backend
+ * (`/api/layouts/:userId`) so they follow the wrestler between headsets. The
+ * backend only hands a wrestler's layouts to their own room session.
+ */
+
+import { roomAuthorization } from '../room/room-access';
+import { roomIdentity } from '../room/room-tracks';
+
+export type Vec3 = [number, number, number];
+
+export interface CardTransform {
+  position: Vec3;
+  rotation: Vec3;
+  scale: number;
+}
+
+export interface CardLayout {
+  name: string;
+  updatedAt: number;
+  coach: CardTransform | null;
+  cards: Record<string, CardTransform>;
+}
+
+export interface CardLayoutStorage {
+  listLayouts(userId: string): Promise<CardLayout[]>;
+  saveLayout(userId: string, layout: CardLayout): Promise<void>;
+  deleteLayout(userId: string, name: string): Promise<void>;
+}
+
+export const DEFAULT_LAYOUT_NAME = 'Default';
+
+const STORAGE_PREFIX = 'aether-vr:layouts';
+
+function layoutsKey(userId: string) {
+  return `${STORAGE_PREFIX}:${userId}`;
+}
+
+function activeLayoutKey(userId: string) {
+  return `${STORAGE_PREFIX}:${userId}:active`;
+}
+
+function isVec3(value: unknown): value is Vec3 {
+  return (
+    Array.isArray(value) &&
+    value.length === 3 &&
+    value.every((component) => typeof component === 'number' && Number.isFinite(component))
+  );
+}
+
+function isCardTransform(value: unknown): value is CardTransform {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const transform = value as Record<string, unknown>;
+  return (
+    isVec3(transform.position) &&
+    isVec3(transform.rotation) &&
+    typeof transform.scale === 'number' &&
+    Number.isFinite(transform.scale)
+  );
+}
+
+/**
+ * Drop anything that doesn't look like a layout - storage may hold data from older builds.
+ */
+export function sanitizeCardLayout(value: unknown): CardLayout | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const layout = value as Record<string, unknown>;
+  if (typeof layout.name !== 'string' || !layout.cards || typeof layout.cards !== 'object') {
+    return null;
+  }
+
+  // fromEntries defines own keys, so a card id like `__proto__` can't reach the prototype
+  const cards = Object.fromEntries(
+    Object.entries(layout.cards as Record<string, unknown>).filter(
+      (entry): entry is [string, CardTransform] => isCardTransform(entry[1])
+    )
+  );
+
+  return {
+    name: layout.name,
+    updatedAt: typeof layout.updatedAt === 'number' ? layout.updatedAt : 0,
+    coach: isCardTransform(layout.coach) ? layout.coach : null,
+    cards,
+  };
+}
+
+function sanitizeLayoutList(value: unknown): CardLayout[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value
+    .map(sanitizeCardLayout)
+    .filter((layout): layout is CardLayout => layout !== null);
+}
+
+export class LocalCardLayoutStorage implements CardLayoutStorage {
+  async listLayouts(userId: string): Promise<CardLayout[]> {
+    try {
+      const raw = window.localStorage.getItem(layoutsKey(userId));
+      return raw ? sanitizeLayoutList(JSON.parse(raw)) : [];
+    } catch (error) {
+      console.warn('[LAYOUTS] Failed to read layouts from localStorage', error);
+      return [];
+    }
+  }
+
+  async saveLayout(userId: string, layout: CardLayout): Promise<void> {
+    const layouts = await this.listLayouts(userId);
+    const next = [...layouts.filter((existing) => existing.name !== layout.name), layout];
+    window.localStorage.setItem(layoutsKey(userId), JSON.stringify(next));
+  }
+
+  async deleteLayout(userId: string, name: string): Promise<void> {
+    const layouts = await this.listLayouts(userId);
+    window.localStorage.setItem(
+      layoutsKey(userId),
+      JSON.stringify(layouts.filter((layout) => layout.name !== name))
+    );
+  }
+}
+
+export class RemoteCardLayoutStorage implements CardLayoutStorage {
+  private readonly baseUrl: string;
+  /** The room whose invite signs the wrestler in, when the tab has no session yet */
+  private readonly roomName: string;
+
+  constructor(baseUrl: string, roomName: string) {
+    this.baseUrl = baseUrl;
+    this.roomName = roomName;
+  }
+
+  private layoutsUrl(userId: string, name?: string) {
+    const userPath = `${this.baseUrl}/api/layouts/${encodeURIComponent(userId)}`;
+    return name ? `${userPath}/${encodeURIComponent(name)}` : userPath;
+  }
+
+  private async headers(userId: string): Promise<Record<string, string>> {
+    return { Authorization: await roomAuthorization(this.roomName, roomIdentity(userId, 'vr')) };
+  }
+
+  async listLayouts(userId: string): Promise<CardLayout[]> {
+    const response = await fetch(this.layoutsUrl(userId), { headers: await this.headers(userId) });
+    if (!response.ok) {
+      throw new Error(`Failed to list layouts: ${response.status}`);
+    }
+    const { layouts } = await response.json();
+    return sanitizeLayoutList(layouts);
+  }
+
+  async saveLayout(userId: string, layout: CardLayout): Promise<void> {
+    const response = await fetch(this.layoutsUrl(userId, layout.name), {
+      method: 'PUT',
+      headers: { ...(await this.headers(userId)), 'Content-Type': 'application/json' },
+      body: JSON.stringify(layout),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to save layout: ${response.status}`);
+    }
+  }
+
+  async deleteLayout(userId: string, name: string): Promise<void> {
+    const response = await fetch(this.layoutsUrl(userId, name), {
+      method: 'DELETE',
+      headers: await this.headers(userId),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to delete layout: ${response.status}`);
+    }
+  }
+}
+
+/**
+ * localStorage is the source of truth for the headset; the server copy is best-effort.
+ * When listing, the newest copy of each layout wins.
+ */
+export class SyncedCardLayoutStorage implements CardLayoutStorage {
+  private readonly local: CardLayoutStorage;
+  private readonly remote: CardLayoutStorage;
+
+  constructor(local: CardLayoutStorage, remote: CardLayoutStorage) {
+    this.local = local;
+    this.remote = remote;
+  }
+
+  async listLayouts(userId: string): Promise<CardLayout[]> {
+    const localLayouts = await this.local.listLayouts(userId);
+
+    let remoteLayouts: CardLayout[] = [];
+    try {
+      remoteLayouts = await this.remote.listLayouts(userId);
+    } catch (error) {
+      console.warn('[LAYOUTS] ⚠️ Layout server unavailable, using local layouts only', error);
+      return localLayouts;
+    }
+
+    const merged = new Map<string, CardLayout>();
+    [...localLayouts, ...remoteLayouts].forEach((layout) => {
+      const existing = merged.get(layout.name);
+      if (!existing || layout.updatedAt > existing.updatedAt) {
+        merged.set(layout.name, layout);
+      }
+    });
+
+    return Array.from(merged.values());
+  }
+
+  async saveLayout(userId: string, layout: CardLayout): Promise<void> {
+    await this.local.saveLayout(userId, layout);
+    this.remote.saveLayout(userId, layout).catch((error) => {
+      console.warn('[LAYOUTS] ⚠️ Failed to sync layout to server', error);
+    });
+  }
+
+  async deleteLayout(userId: string, name: string): Promise<void> {
+    await this.local.deleteLayout(userId, name);
+    this.remote.deleteLayout(userId, name).catch((error) => {
+      console.warn('[LAYOUTS] ⚠️ Failed to delete layout on server', error);
+    });
+  }
+}
+
+/**
+ * Layouts only sync inside a room - outside one there's no invite to sign
+ * the wrestler in with, so they stay on this headset.
+ */
+export function createCardLayoutStorage(roomName?: string): CardLayoutStorage {
+  const local = new LocalCardLayoutStorage();
+
+  if (import.meta.env.VITE_LAYOUT_SYNC !== 'true' || !roomName) {
+    return local;
+  }
+
+  const apiUrl = import.meta.env.VITE_API_URL || window.location.origin;
+  return new SyncedCardLayoutStorage(local, new RemoteCardLayoutStorage(apiUrl, roomName));
+}
+
+export function getActiveLayoutName(userId: string): string {
+  try {
+    return window.localStorage.getItem(activeLayoutKey(userId)) || DEFAULT_LAYOUT_NAME;
+  } catch {
+    return DEFAULT_LAYOUT_NAME;
+  }
+}
+
+export function setActiveLayoutName(userId: string, name: string) {
+  try {
+    window.localStorage.setItem(activeLayoutKey(userId), name);
+  } catch (error) {
+    console.warn('[LAYOUTS] Failed to persist active layout name', error);
+  }
+}
+
+/**
+ * Snapshot the current arrangement under a name.
+ */
+export function captureCardLayout<T extends CardTransform & { id: string }>(
+  name: string,
+  cards: T[],
+  coach: CardTransform | null
+): CardLayout {
+  const transforms: Record<string, CardTransform> = {};
+  cards.forEach(({ id, position, rotation, scale }) => {
+    transforms[id] = { position, rotation, scale };
+  });
+
+  return {
+    name,
+    updatedAt: Date.now(),
+    coach: coach ? { position: coach.position, rotation: coach.rotation, scale: coach.scale } : null,
+    cards: transforms,
+  };
+}
+
+/**
+ * Apply a saved layout on top of the current cards. Cards the layout doesn't know
+ * about (e.g. clips added to the manifest since it was saved) keep their position.
+ */
+export function applyCardLayout<T extends CardTransform & { id: string }>(
+  cards: T[],
+  layout: CardLayout
+): T[] {
+  return cards.map((card) => {
+    const saved = layout.cards[card.id];
+    return saved ? { ...card, ...saved } : card;
+  });
+}
+
+/**
+ * Next free "Layout N" name for layouts saved from inside the headset (no keyboard in VR).
+ */
+export function nextLayoutName(layouts: CardLayout[]): string {
+  const taken = new Set(layouts.map((layout) => layout.name));
+  let index = layouts.length + 1;
+  while (taken.has(`Layout ${index}`)) {
+    index += 1;
+  }
+  return `Layout ${index}`;
+}
@@ -0,0 +1,183 @@
+import React from 'react';
+import {
+  applyCardLayout,
+  captureCardLayout,
+  createCardLayoutStorage,
+  DEFAULT_LAYOUT_NAME,
+  getActiveLayoutName,
+  nextLayoutName,
+  setActiveLayoutName,
+  type CardLayout,
+  type CardTransform,
+} from './card-layouts';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+interface UseCardLayoutsOptions<T extends CardTransform & { id: string }> {
+  userId: string;
+  /** Layouts sync to the backend only inside a room (see createCardLayoutStorage) */
+  roomName?: string;
+  cards: T[];
+  coach: CardTransform;
+  /** Manifest-generated ring - the target for "reset" and the base every layout is applied to */
+  presets: T[];
+  coachPreset: CardTransform;
+  setCards: (cards: T[]) => void;
+  setCoach: (coach: CardTransform) => void;
+}
+
+/**
+ * Restore the wrestler's active layout on mount and keep it saved as cards move.
+ */
+export function useCardLayouts<T extends CardTransform & { id: string }>({
+  userId,
+  roomName,
+  cards,
+  coach,
+  presets,
+  coachPreset,
+  setCards,
+  setCoach,
+}: UseCardLayoutsOptions<T>) {
+  const storage = React.useMemo(() => createCardLayoutStorage(roomName), [roomName]);
+  const [layouts, setLayouts] = React.useState<CardLayout[]>([]);
+  const [activeLayoutName, setActiveName] = React.useState(() => getActiveLayoutName(userId));
+  const [isRestored, setIsRestored] = React.useState(false);
+
+  const applyLayout = React.useCallback(
+    (layout: CardLayout) => {
+      setCards(applyCardLayout(presets, layout));
+      setCoach(layout.coach ?? coachPreset);
+    },
+    [coachPreset, presets, setCards, setCoach]
+  );
+
+  // Restore once the manifest has produced the preset ring
+  React.useEffect(() => {
+    if (presets.length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsRestored(false);
+
+    storage
+      .listLayouts(userId)
+      .then((stored) => {
+        if (cancelled) return;
+
+        const activeName = getActiveLayoutName(userId);
+        const active = stored.find((layout) => layout.name === activeName);
+
+        setLayouts(stored);
+        setActiveName(active ? activeName : DEFAULT_LAYOUT_NAME);
+
+        if (active) {
+          applyLayout(active);
+          console.log(`[LAYOUTS] ✅ Restored layout "${activeName}" for ${userId}`);
+        }
+      })
+      .catch((error) => {
+        console.error('[LAYOUTS] ❌ Failed to restore layouts', error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsRestored(true);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applyLayout, presets.length, storage, userId]);
+
+  // Autosave the active layout whenever the arrangement changes
+  React.useEffect(() => {
+    if (!isRestored || cards.length === 0) {
+      return;
+    }
+
+    const timeout = setTimeout(() => {
+      const layout = captureCardLayout(activeLayoutName, cards, coach);
+      storage
+        .saveLayout(userId, layout)
+        .then(() => {
+          setActiveLayoutName(userId, activeLayoutName);
+          setLayouts((prev) => [...prev.filter((existing) => existing.name !== layout.name), layout]);
+        })
+        .catch((error) => {
+          console.error('[LAYOUTS] ❌ Failed to save layout', error);
+        });
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [activeLayoutName, cards, coach, isRestored, storage, userId]);
+
+  const selectLayout = React.useCallback(
+    (name: string) => {
+      const layout = layouts.find((existing) => existing.name === name);
+      if (!layout) {
+        console.warn(`[LAYOUTS] Unknown layout "${name}"`);
+        return;
+      }
+      setActiveName(name);
+      setActiveLayoutName(userId, name);
+      applyLayout(layout);
+    },
+    [applyLayout, layouts, userId]
+  );
+
+  const cycleLayout = React.useCallback(
+    (direction: 1 | -1) => {
+      if (layouts.length === 0) {
+        return;
+      }
+      const names = layouts.map((layout) => layout.name).sort();
+      const currentIndex = names.indexOf(activeLayoutName);
+      const nextIndex = (currentIndex + direction + names.length) % names.length;
+      selectLayout(names[nextIndex]);
+    },
+    [activeLayoutName, layouts, selectLayout]
+  );
+
+  const saveAsNewLayout = React.useCallback(() => {
+    const name = nextLayoutName(layouts);
+    const layout = captureCardLayout(name, cards, coach);
+    setLayouts((prev) => [...prev, layout]);
+    setActiveName(name);
+    setActiveLayoutName(userId, name);
+    storage.saveLayout(userId, layout).catch((error) => {
+      console.error('[LAYOUTS] ❌ Failed to save layout', error);
+    });
+  }, [cards, coach, layouts, storage, userId]);
+
+  const resetLayout = React.useCallback(() => {
+    setCards(presets);
+    setCoach(coachPreset);
+  }, [coachPreset, presets, setCards, setCoach]);
+
+  const deleteLayout = React.useCallback(
+    (name: string) => {
+      setLayouts((prev) => prev.filter((layout) => layout.name !== name));
+      storage.deleteLayout(userId, name).catch((error) => {
+        console.error('[LAYOUTS] ❌ Failed to delete layout', error);
+      });
+      if (name === activeLayoutName) {
+        setActiveName(DEFAULT_LAYOUT_NAME);
+        setActiveLayoutName(userId, DEFAULT_LAYOUT_NAME);
+      }
+    },
+    [activeLayoutName, storage, userId]
+  );
+
+  return {
+    layouts,
+    activeLayoutName,
+    isRestored,
+    selectLayout,
+    cycleLayout,
+    saveAsNewLayout,
+    resetLayout,
+    deleteLayout,
+  };
+}
@@ -0,0 +1,110 @@
+/**
+ * Form Analysis Client
+ *
+ * Records the last couple of seconds of live pose and sends them to the
+ * backend's form analysis endpoint (server/lib/form-analysis.js), which runs
+ * rule-based checks per exercise and optionally has an LLM reword the tips.
+ */
+
+import { subscribeLivePose, type LivePose } from './live-pose';
+
+export type FormTipType = 'stance' | 'movement' | 'technique' | 'positioning';
+export type FormTipSeverity = 'info' | 'warning' | 'critical';
+
+export interface FormCoachingTip {
+  type: FormTipType;
+  severity: FormTipSeverity;
+  message: string;
+  /** Which server check produced the tip, e.g. 'knee-bend' or 'sprawl-depth' */
+  check?: string;
+}
+
+/** One frame in the compact reference-track layout: seconds + [x, y, z, score] per keypoint */
+export interface FormAnalysisFrame {
+  t: number;
+  k: [number, number, number, number][];
+}
+
+export interface FormAnalysisRequest {
+  exercise: string;
+  /** Camera frame width / height */
+  aspect: number;
+  frames: FormAnalysisFrame[];
+  /** Optional JPEG data URL for LLM providers that can look at it */
+  image?: string;
+}
+
+export interface FormAnalysisResponse {
+  tips: FormCoachingTip[];
+  metrics: Record<string, number | null>;
+  framesAnalyzed: number;
+  /** 'rules' when no LLM was used (or it failed) */
+  provider: string;
+}
+
+// The server rejects more than this per request
+const MAX_FRAMES = 300;
+
+function round(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Rolling window of live poses. Started and stopped by whoever needs clips,
+ * so nothing is buffered while the coach is off.
+ */
+export class PoseClipBuffer {
+  private poses: LivePose[] = [];
+  private unsubscribe: (() => void) | null = null;
+  private readonly windowMs: number;
+
+  constructor(windowMs = 2000) {
+    this.windowMs = windowMs;
+  }
+
+  start() {
+    this.unsubscribe ??= subscribeLivePose((pose) => {
+      this.poses.push(pose);
+      const cutoff = pose.timestamp - this.windowMs;
+      while (this.poses.length > 0 && (this.poses[0].timestamp < cutoff || this.poses.length > MAX_FRAMES)) {
+        this.poses.shift();
+      }
+    });
+  }
+
+  stop() {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    this.poses = [];
+  }
+
+  /** The buffered window as a request clip, or null before any pose arrived */
+  toClip(): Pick<FormAnalysisRequest, 'aspect' | 'frames'> | null {
+    if (this.poses.length === 0) {
+      return null;
+    }
+    const start = this.poses[0].timestamp;
+    return {
+      aspect: this.poses[this.poses.length - 1].aspect,
+      frames: this.poses.map(({ timestamp, keypoints }) => ({
+        t: round((timestamp - start) / 1000),
+        k: keypoints.map(({ x, y, z, score }) => [round(x), round(y), round(z ?? 0), round(score)]),
+      })),
+    };
+  }
+}
+
+export async function requestFormAnalysis(request: FormAnalysisRequest): Promise<FormAnalysisResponse> {
+  const apiUrl = import.meta.env.VITE_API_URL || window.location.origin;
+  const response = await fetch(`${apiUrl}/api/ai/analyze-wrestling-form`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+  });
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `Form analysis failed (${response.status})`);
+  }
+  return response.json();
+}
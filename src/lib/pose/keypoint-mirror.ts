@@ -0,0 +1,51 @@
+/**
+ * Keypoint Mirroring
+ *
+ * Helpers for showing a technique "off the other leg". Flipping a pose
+ * horizontally isn't enough on its own: after the flip the athlete's right
+ * knee sits where a left knee would, so left/right keypoints are swapped too.
+ * That way a mirrored reference still lines up joint-for-joint with a
+ * wrestler who shoots from the opposite side.
+ */
+
+// BlazePose 33-keypoint topology: index -> index of the same joint on the other side
+export const BLAZEPOSE_MIRROR_INDEX: readonly number[] = [
+  0, // nose
+  4, 5, 6, // left eye inner/eye/outer -> right
+  1, 2, 3, // right eye inner/eye/outer -> left
+  8, 7, // ears
+  10, 9, // mouth
+  12, 11, // shoulders
+  14, 13, // elbows
+  16, 15, // wrists
+  18, 17, // pinkies
+  20, 19, // index fingers
+  22, 21, // thumbs
+  24, 23, // hips
+  26, 25, // knees
+  28, 27, // ankles
+  30, 29, // heels
+  32, 31, // foot index
+];
+
+/** Flip a normalized (0-1) horizontal coordinate */
+export function mirrorNormalizedX(x: number): number {
+  return 1 - x;
+}
+
+/**
+ * Mirror a BlazePose keypoint list around the vertical centre line of a frame
+ * `width` wide (use 1 for normalized keypoints) and swap left/right joints.
+ * Keypoints with a `name` keep names that match their new index.
+ */
+export function mirrorKeypoints<T extends { x: number; name?: string }>(keypoints: T[], width = 1): T[] {
+  if (keypoints.length !== BLAZEPOSE_MIRROR_INDEX.length) {
+    // Unknown topology - flip positions only
+    return keypoints.map((keypoint) => ({ ...keypoint, x: width - keypoint.x }));
+  }
+
+  return keypoints.map((keypoint, index) => {
+    const source = keypoints[BLAZEPOSE_MIRROR_INDEX[index]];
+    return { ...source, name: keypoint.name ?? source.name, x: width - source.x };
+  });
+}
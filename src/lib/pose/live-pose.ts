@@ -0,0 +1,68 @@
+/**
+ * Live Pose Store
+ *
+ * Latest BlazePose detection of the wrestler, shared by whatever is running a
+ * detector (AvatarMirror, VRMAvatar or the on-demand webcam source) and read
+ * by anything that compares or analyzes the pose.
+ */
+
+import type { PoseKeypoint } from './reference-track';
+
+export interface LivePose {
+  /** Normalized to the camera frame, same convention as reference tracks */
+  keypoints: PoseKeypoint[];
+  /** Camera frame aspect ratio (width / height) */
+  aspect: number;
+  /** performance.now() when detected */
+  timestamp: number;
+  source: string;
+}
+
+// Poses older than this are treated as "no one in front of the camera"
+const STALE_AFTER_MS = 1000;
+
+type Listener = (pose: LivePose) => void;
+
+let latestPose: LivePose | null = null;
+const listeners = new Set<Listener>();
+
+/**
+ * Publish a detection. Keypoints are in pixels of a `width` x `height` frame,
+ * as returned by `poseDetection.PoseDetector.estimatePoses`.
+ */
+export function publishLivePose(
+  source: string,
+  keypoints: { x: number; y: number; z?: number; score?: number }[],
+  width: number,
+  height: number
+) {
+  if (width <= 0 || height <= 0 || keypoints.length === 0) {
+    return;
+  }
+
+  latestPose = {
+    keypoints: keypoints.map(({ x, y, z, score }) => ({
+      x: x / width,
+      y: y / height,
+      z: z === undefined ? undefined : z / width,
+      score: score ?? 0,
+    })),
+    aspect: width / height,
+    timestamp: performance.now(),
+    source,
+  };
+  const pose = latestPose;
+  listeners.forEach((listener) => listener(pose));
+}
+
+export function getLatestLivePose(): LivePose | null {
+  if (!latestPose || performance.now() - latestPose.timestamp > STALE_AFTER_MS) {
+    return null;
+  }
+  return latestPose;
+}
+
+export function subscribeLivePose(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
@@ -0,0 +1,127 @@
+/**
+ * Pose Comparison
+ *
+ * Scores a live pose against a reference pose by comparing joint angles, which
+ * don't depend on where the wrestler stands, how far they are from the camera
+ * or how the reference clip was framed.
+ */
+
+import type { PoseKeypoint } from './reference-track';
+
+export interface ComparedJoint {
+  id: string;
+  label: string;
+  /** BlazePose indices [a, vertex, b] - the angle is measured at the vertex */
+  indices: [number, number, number];
+}
+
+export const COMPARED_JOINTS: readonly ComparedJoint[] = [
+  { id: 'left_elbow', label: 'L Elbow', indices: [11, 13, 15] },
+  { id: 'right_elbow', label: 'R Elbow', indices: [12, 14, 16] },
+  { id: 'left_shoulder', label: 'L Shoulder', indices: [13, 11, 23] },
+  { id: 'right_shoulder', label: 'R Shoulder', indices: [14, 12, 24] },
+  { id: 'left_hip', label: 'L Hip', indices: [11, 23, 25] },
+  { id: 'right_hip', label: 'R Hip', indices: [12, 24, 26] },
+  { id: 'left_knee', label: 'L Knee', indices: [23, 25, 27] },
+  { id: 'right_knee', label: 'R Knee', indices: [24, 26, 28] },
+];
+
+export interface JointDeviation {
+  id: string;
+  label: string;
+  liveAngle: number;
+  referenceAngle: number;
+  /** Absolute angle difference in degrees */
+  deviation: number;
+}
+
+export interface PoseComparison {
+  joints: JointDeviation[];
+  /** 0-100, 100 = every compared joint matches */
+  similarity: number;
+}
+
+const MIN_SCORE = 0.3;
+// A joint this far off (or worse) contributes nothing to the similarity score
+const MAX_DEVIATION_DEGREES = 60;
+
+/**
+ * Angle at `vertex` in degrees. `aspect` (width / height) undoes the
+ * normalization so angles are measured in real image proportions.
+ */
+export function jointAngle(a: PoseKeypoint, vertex: PoseKeypoint, b: PoseKeypoint, aspect = 1): number {
+  const ax = (a.x - vertex.x) * aspect;
+  const ay = a.y - vertex.y;
+  const bx = (b.x - vertex.x) * aspect;
+  const by = b.y - vertex.y;
+  const lengths = Math.hypot(ax, ay) * Math.hypot(bx, by);
+  if (lengths === 0) {
+    return 0;
+  }
+  const cos = Math.max(-1, Math.min(1, (ax * bx + ay * by) / lengths));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+function isVisible(keypoints: PoseKeypoint[], indices: number[]) {
+  return indices.every((index) => (keypoints[index]?.score ?? 0) >= MIN_SCORE);
+}
+
+/**
+ * Compare joint angles. Joints that either detector couldn't see are skipped;
+ * similarity is null when nothing could be compared.
+ */
+export function comparePoses(
+  live: PoseKeypoint[],
+  reference: PoseKeypoint[],
+  liveAspect = 1,
+  referenceAspect = 1
+): PoseComparison | null {
+  const joints: JointDeviation[] = [];
+
+  COMPARED_JOINTS.forEach(({ id, label, indices }) => {
+    if (!isVisible(live, indices) || !isVisible(reference, indices)) {
+      return;
+    }
+    const [a, vertex, b] = indices;
+    const liveAngle = jointAngle(live[a], live[vertex], live[b], liveAspect);
+    const referenceAngle = jointAngle(reference[a], reference[vertex], reference[b], referenceAspect);
+    joints.push({ id, label, liveAngle, referenceAngle, deviation: Math.abs(liveAngle - referenceAngle) });
+  });
+
+  if (joints.length === 0) {
+    return null;
+  }
+
+  const total = joints.reduce(
+    (sum, joint) => sum + Math.max(0, 1 - joint.deviation / MAX_DEVIATION_DEGREES),
+    0
+  );
+
+  return { joints, similarity: Math.round((total / joints.length) * 100) };
+}
+
+/**
+ * Re-center a pose on its hip midpoint and scale it to a unit torso so two
+ * skeletons can be drawn on top of each other. Output y points up.
+ */
+export function alignPoseForOverlay(keypoints: PoseKeypoint[], aspect = 1): PoseKeypoint[] | null {
+  const [leftShoulder, rightShoulder, leftHip, rightHip] = [11, 12, 23, 24].map((index) => keypoints[index]);
+  if (!leftShoulder || !rightShoulder || !leftHip || !rightHip) {
+    return null;
+  }
+
+  const hipX = ((leftHip.x + rightHip.x) / 2) * aspect;
+  const hipY = (leftHip.y + rightHip.y) / 2;
+  const shoulderX = ((leftShoulder.x + rightShoulder.x) / 2) * aspect;
+  const shoulderY = (leftShoulder.y + rightShoulder.y) / 2;
+  const torso = Math.hypot(shoulderX - hipX, shoulderY - hipY);
+  if (torso < 1e-4) {
+    return null;
+  }
+
+  return keypoints.map((keypoint) => ({
+    ...keypoint,
+    x: (keypoint.x * aspect - hipX) / torso,
+    y: -(keypoint.y - hipY) / torso,
+  }));
+}
@@ -0,0 +1,99 @@
+/**
+ * Pose Smoothing
+ *
+ * One Euro filter (Casiez et al. 2012) - the same filter MediaPipe uses for
+ * BlazePose landmarks. Strong smoothing while a joint is still, little lag
+ * when it moves fast, which keeps a quick shot from being smeared out.
+ */
+
+import type { PoseFrame, PoseKeypoint } from './reference-track';
+
+export interface OneEuroOptions {
+  /** Cutoff at zero speed (Hz) - lower = smoother when still */
+  minCutoff: number;
+  /** How fast the cutoff grows with speed - higher = less lag on fast motion */
+  beta: number;
+  /** Cutoff for the derivative estimate (Hz) */
+  derivativeCutoff: number;
+}
+
+export const DEFAULT_ONE_EURO_OPTIONS: OneEuroOptions = {
+  minCutoff: 1.0,
+  beta: 0.8,
+  derivativeCutoff: 1.0,
+};
+
+function smoothingFactor(cutoff: number, dt: number) {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+}
+
+export class OneEuroFilter {
+  private readonly options: OneEuroOptions;
+  private previousValue: number | null = null;
+  private previousDerivative = 0;
+  private previousTime = 0;
+
+  constructor(options: Partial<OneEuroOptions> = {}) {
+    this.options = { ...DEFAULT_ONE_EURO_OPTIONS, ...options };
+  }
+
+  filter(value: number, time: number): number {
+    if (this.previousValue === null || time <= this.previousTime) {
+      this.previousValue = value;
+      this.previousTime = time;
+      return value;
+    }
+
+    const dt = time - this.previousTime;
+    const derivative = (value - this.previousValue) / dt;
+    const alphaDerivative = smoothingFactor(this.options.derivativeCutoff, dt);
+    const smoothedDerivative = alphaDerivative * derivative + (1 - alphaDerivative) * this.previousDerivative;
+
+    const cutoff = this.options.minCutoff + this.options.beta * Math.abs(smoothedDerivative);
+    const alpha = smoothingFactor(cutoff, dt);
+    const smoothed = alpha * value + (1 - alpha) * this.previousValue;
+
+    this.previousValue = smoothed;
+    this.previousDerivative = smoothedDerivative;
+    this.previousTime = time;
+    return smoothed;
+  }
+
+  reset() {
+    this.previousValue = null;
+    this.previousDerivative = 0;
+  }
+}
+
+/**
+ * Smooth every keypoint coordinate of a frame sequence. Filters restart after
+ * gaps longer than `maxGap` seconds so a re-entering athlete doesn't glide in
+ * from where they left. Scores are left untouched.
+ */
+export function smoothPoseFrames(
+  frames: PoseFrame[],
+  options: Partial<OneEuroOptions> = {},
+  maxGap = 0.5
+): PoseFrame[] {
+  const keypointCount = frames[0]?.keypoints.length ?? 0;
+  const filters = Array.from({ length: keypointCount * 3 }, () => new OneEuroFilter(options));
+  let previousTime: number | null = null;
+
+  return frames.map(({ t, keypoints }) => {
+    if (previousTime !== null && t - previousTime > maxGap) {
+      filters.forEach((filter) => filter.reset());
+    }
+    previousTime = t;
+
+    return {
+      t,
+      keypoints: keypoints.map((keypoint, index): PoseKeypoint => ({
+        x: filters[index * 3].filter(keypoint.x, t),
+        y: filters[index * 3 + 1].filter(keypoint.y, t),
+        z: filters[index * 3 + 2].filter(keypoint.z ?? 0, t),
+        score: keypoint.score,
+      })),
+    };
+  });
+}
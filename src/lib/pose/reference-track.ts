@@ -0,0 +1,356 @@
+/**
+ * Reference Pose Tracks
+ *
+ * Keypoints pre-extracted from each technique clip (BlazePose, 33 joints) so
+ * a wrestler's live pose can be compared against the technique while it plays.
+ * Tracks live next to the manifest as `/pose-tracks/<techniqueId>.json` unless
+ * the manifest entry names a `poseTrackUrl` (which may point at a binary
+ * `.ptrk` track instead).
+ *
+ * Coordinates are normalized to the video frame: x and y in 0-1 with the
+ * origin top-left, z relative to the hips in the same units as x.
+ */
+
+export const REFERENCE_TRACK_VERSION = 1;
+
+export const BLAZEPOSE_KEYPOINT_COUNT = 33;
+
+// Bones of the BlazePose skeleton (body only - face points are left out of overlays)
+export const BLAZEPOSE_CONNECTIONS: readonly [number, number][] = [
+  [11, 12], [11, 13], [13, 15], [12, 14], [14, 16],
+  [11, 23], [12, 24], [23, 24],
+  [23, 25], [25, 27], [27, 29], [29, 31], [27, 31],
+  [24, 26], [26, 28], [28, 30], [30, 32], [28, 32],
+  [0, 11], [0, 12],
+];
+
+export interface PoseKeypoint {
+  x: number;
+  y: number;
+  z?: number;
+  /** Detector confidence 0-1 */
+  score: number;
+}
+
+export interface PoseFrame {
+  /** Seconds from the start of the clip */
+  t: number;
+  keypoints: PoseKeypoint[];
+}
+
+export interface ReferenceTrack {
+  version: number;
+  techniqueId: string;
+  /** Sampling rate of `frames` (frames may still skip times with no detection) */
+  fps: number;
+  /** Source video size - needed to undo the normalization aspect ratio */
+  width: number;
+  height: number;
+  frames: PoseFrame[];
+}
+
+export class ReferenceTrackError extends Error {
+  readonly path: string;
+
+  constructor(path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'ReferenceTrackError';
+    this.path = path;
+  }
+}
+
+function readPositiveNumber(value: unknown, path: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new ReferenceTrackError(path, 'expected a positive number');
+  }
+  return value;
+}
+
+// Keypoints are stored compactly as [x, y, z, score] tuples
+function readKeypoint(value: unknown, path: string): PoseKeypoint {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every((n) => typeof n === 'number' && Number.isFinite(n))) {
+    throw new ReferenceTrackError(path, 'expected [x, y, z, score]');
+  }
+  const [x, y, z, score] = value as number[];
+  return { x, y, z, score };
+}
+
+function readFrame(value: unknown, path: string): PoseFrame {
+  if (!value || typeof value !== 'object') {
+    throw new ReferenceTrackError(path, 'expected an object');
+  }
+  const frame = value as Record<string, unknown>;
+  if (typeof frame.t !== 'number' || !Number.isFinite(frame.t) || frame.t < 0) {
+    throw new ReferenceTrackError(`${path}.t`, 'expected a time in seconds');
+  }
+  if (!Array.isArray(frame.k) || frame.k.length !== BLAZEPOSE_KEYPOINT_COUNT) {
+    throw new ReferenceTrackError(`${path}.k`, `expected ${BLAZEPOSE_KEYPOINT_COUNT} keypoints`);
+  }
+  return {
+    t: frame.t,
+    keypoints: frame.k.map((keypoint, index) => readKeypoint(keypoint, `${path}.k[${index}]`)),
+  };
+}
+
+/**
+ * Validate a track as stored on disk (`{ version, techniqueId, fps, width, height, frames: [{ t, k }] }`).
+ */
+export function parseReferenceTrack(raw: unknown): ReferenceTrack {
+  if (!raw || typeof raw !== 'object') {
+    throw new ReferenceTrackError('track', 'expected an object');
+  }
+
+  const track = raw as Record<string, unknown>;
+  if (track.version !== REFERENCE_TRACK_VERSION) {
+    throw new ReferenceTrackError(
+      'track.version',
+      `unsupported version ${String(track.version)} (expected ${REFERENCE_TRACK_VERSION})`
+    );
+  }
+  if (typeof track.techniqueId !== 'string' || track.techniqueId.length === 0) {
+    throw new ReferenceTrackError('track.techniqueId', 'expected a non-empty string');
+  }
+  if (!Array.isArray(track.frames)) {
+    throw new ReferenceTrackError('track.frames', 'expected an array');
+  }
+
+  const frames = track.frames.map((frame, index) => readFrame(frame, `track.frames[${index}]`));
+  frames.sort((a, b) => a.t - b.t);
+
+  return {
+    version: REFERENCE_TRACK_VERSION,
+    techniqueId: track.techniqueId,
+    fps: readPositiveNumber(track.fps, 'track.fps'),
+    width: readPositiveNumber(track.width, 'track.width'),
+    height: readPositiveNumber(track.height, 'track.height'),
+    frames,
+  };
+}
+
+// 4 decimals is sub-pixel even for 4K clips and keeps the JSON small
+function roundCoordinate(value: number) {
+  return Math.round(value * 10000) / 10000;
+}
+
+/**
+ * Inverse of `parseReferenceTrack` - the JSON written by the extraction pipeline.
+ */
+export function serializeReferenceTrack(track: ReferenceTrack): unknown {
+  return {
+    version: track.version,
+    techniqueId: track.techniqueId,
+    fps: track.fps,
+    width: track.width,
+    height: track.height,
+    frames: track.frames.map(({ t, keypoints }) => ({
+      t: roundCoordinate(t),
+      k: keypoints.map(({ x, y, z, score }) => [x, y, z ?? 0, score].map(roundCoordinate)),
+    })),
+  };
+}
+
+/**
+ * Reference pose at `time`, linearly interpolated between the surrounding frames.
+ * Returns null before the first / after the last detection or across gaps
+ * longer than `maxGap` seconds (the athlete left the frame).
+ */
+export function sampleReferenceTrack(track: ReferenceTrack, time: number, maxGap = 0.5): PoseKeypoint[] | null {
+  const { frames } = track;
+  if (frames.length === 0 || time < frames[0].t || time > frames[frames.length - 1].t) {
+    return null;
+  }
+
+  // Binary search for the last frame at or before `time`
+  let low = 0;
+  let high = frames.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (frames[mid].t <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const before = frames[low];
+  const after = frames[Math.min(low + 1, frames.length - 1)];
+  if (after === before || after.t - before.t < 1e-6) {
+    return before.keypoints;
+  }
+  if (after.t - before.t > maxGap) {
+    return time - before.t <= maxGap / 2 ? before.keypoints : null;
+  }
+
+  const alpha = (time - before.t) / (after.t - before.t);
+  return before.keypoints.map((keypoint, index) => {
+    const next = after.keypoints[index];
+    return {
+      x: keypoint.x + (next.x - keypoint.x) * alpha,
+      y: keypoint.y + (next.y - keypoint.y) * alpha,
+      z: (keypoint.z ?? 0) + ((next.z ?? 0) - (keypoint.z ?? 0)) * alpha,
+      score: Math.min(keypoint.score, next.score),
+    };
+  });
+}
+
+/**
+ * Binary tracks (`.ptrk`) are a compact little-endian encoding of the same
+ * data - about half the size of the JSON and nothing to parse on the headset:
+ *
+ *   "PTRK"  magic
+ *   u16     version
+ *   u16     keypoints per frame
+ *   f32     fps
+ *   u32     width, u32 height
+ *   u32     frame count
+ *   u16     technique id byte length, then the UTF-8 id, padded to 4 bytes
+ *   frames  f32 t, then [x, y, z, score] f32 per keypoint
+ */
+export const BINARY_TRACK_EXTENSION = '.ptrk';
+
+const BINARY_MAGIC = 'PTRK';
+const BINARY_HEADER_BYTES = 4 + 2 + 2 + 4 + 4 + 4 + 4 + 2;
+
+function padTo4(length: number) {
+  return (length + 3) & ~3;
+}
+
+export function encodeReferenceTrack(track: ReferenceTrack): Uint8Array {
+  const idBytes = new TextEncoder().encode(track.techniqueId);
+  const keypointCount = BLAZEPOSE_KEYPOINT_COUNT;
+  const frameBytes = 4 + keypointCount * 16;
+  const framesOffset = padTo4(BINARY_HEADER_BYTES + idBytes.length);
+  const buffer = new ArrayBuffer(framesOffset + track.frames.length * frameBytes);
+  const view = new DataView(buffer);
+
+  for (let i = 0; i < BINARY_MAGIC.length; i++) {
+    view.setUint8(i, BINARY_MAGIC.charCodeAt(i));
+  }
+  view.setUint16(4, track.version, true);
+  view.setUint16(6, keypointCount, true);
+  view.setFloat32(8, track.fps, true);
+  view.setUint32(12, track.width, true);
+  view.setUint32(16, track.height, true);
+  view.setUint32(20, track.frames.length, true);
+  view.setUint16(24, idBytes.length, true);
+  new Uint8Array(buffer, BINARY_HEADER_BYTES, idBytes.length).set(idBytes);
+
+  let offset = framesOffset;
+  track.frames.forEach(({ t, keypoints }) => {
+    view.setFloat32(offset, t, true);
+    offset += 4;
+    keypoints.forEach(({ x, y, z, score }) => {
+      view.setFloat32(offset, x, true);
+      view.setFloat32(offset + 4, y, true);
+      view.setFloat32(offset + 8, z ?? 0, true);
+      view.setFloat32(offset + 12, score, true);
+      offset += 16;
+    });
+  });
+
+  return new Uint8Array(buffer);
+}
+
+export function decodeReferenceTrack(data: ArrayBuffer | Uint8Array): ReferenceTrack {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (bytes.byteLength < BINARY_HEADER_BYTES) {
+    throw new ReferenceTrackError('track', 'binary track is truncated');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const magic = String.fromCharCode(...bytes.subarray(0, 4));
+  if (magic !== BINARY_MAGIC) {
+    throw new ReferenceTrackError('track', `not a binary pose track (magic "${magic}")`);
+  }
+
+  const version = view.getUint16(4, true);
+  if (version !== REFERENCE_TRACK_VERSION) {
+    throw new ReferenceTrackError(
+      'track.version',
+      `unsupported version ${version} (expected ${REFERENCE_TRACK_VERSION})`
+    );
+  }
+
+  const keypointCount = view.getUint16(6, true);
+  if (keypointCount !== BLAZEPOSE_KEYPOINT_COUNT) {
+    throw new ReferenceTrackError('track.frames', `expected ${BLAZEPOSE_KEYPOINT_COUNT} keypoints per frame`);
+  }
+  const frameCount = view.getUint32(20, true);
+  const idLength = view.getUint16(24, true);
+  const framesOffset = padTo4(BINARY_HEADER_BYTES + idLength);
+  const frameBytes = 4 + keypointCount * 16;
+  if (bytes.byteLength < framesOffset + frameCount * frameBytes) {
+    throw new ReferenceTrackError('track.frames', 'binary track is truncated');
+  }
+
+  const frames = Array.from({ length: frameCount }, (_, frameIndex) => {
+    const start = framesOffset + frameIndex * frameBytes;
+    return {
+      t: view.getFloat32(start, true),
+      keypoints: Array.from({ length: keypointCount }, (_, keypointIndex) => {
+        const offset = start + 4 + keypointIndex * 16;
+        return {
+          x: view.getFloat32(offset, true),
+          y: view.getFloat32(offset + 4, true),
+          z: view.getFloat32(offset + 8, true),
+          score: view.getFloat32(offset + 12, true),
+        };
+      }),
+    };
+  });
+
+  return {
+    version,
+    techniqueId: new TextDecoder().decode(bytes.subarray(BINARY_HEADER_BYTES, BINARY_HEADER_BYTES + idLength)),
+    fps: view.getFloat32(8, true),
+    width: view.getUint32(12, true),
+    height: view.getUint32(16, true),
+    frames,
+  };
+}
+
+function referenceTrackUrl(techniqueId: string, poseTrackUrl: string | null): string {
+  return poseTrackUrl ?? `/pose-tracks/${encodeURIComponent(techniqueId)}.json`;
+}
+
+const trackCache = new Map<string, Promise<ReferenceTrack | null>>();
+
+/**
+ * Fetch (once) the reference track for a technique. Resolves to null when the
+ * clip hasn't been processed yet.
+ */
+export function loadReferenceTrack(techniqueId: string, poseTrackUrl: string | null = null): Promise<ReferenceTrack | null> {
+  const url = referenceTrackUrl(techniqueId, poseTrackUrl);
+  const cached = trackCache.get(url);
+  if (cached) {
+    return cached;
+  }
+
+  const isBinary = new URL(url, 'http://localhost').pathname.endsWith(BINARY_TRACK_EXTENSION);
+  const request = fetch(url, { headers: { Accept: isBinary ? 'application/octet-stream' : 'application/json' } })
+    .then(async (response) => {
+      // The dev server answers unknown paths with index.html rather than a 404
+      const contentType = response.headers.get('content-type') ?? '';
+      const isFallbackPage = isBinary ? contentType.includes('html') : !contentType.includes('json');
+      if (response.status === 404 || (response.ok && isFallbackPage)) {
+        console.log(`[POSE] No reference track for ${techniqueId} yet`);
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Failed to load reference track from ${url}: ${response.status}`);
+      }
+      const track = isBinary
+        ? decodeReferenceTrack(await response.arrayBuffer())
+        : parseReferenceTrack(await response.json());
+      console.log(`[POSE] ✅ Loaded reference track for ${techniqueId} (${track.frames.length} frames)`);
+      return track;
+    })
+    .catch((error) => {
+      // Let a later attempt retry
+      trackCache.delete(url);
+      throw error;
+    });
+
+  trackCache.set(url, request);
+  return request;
+}
@@ -0,0 +1,328 @@
+/**
+ * Stance Analysis
+ *
+ * Scores a wrestling stance from BlazePose body keypoints: knee bend, hip
+ * height, back angle, head position, foot width and stagger, and where the
+ * hands sit relative to the knees. Every metric is checked against a
+ * configurable ideal range and reported on its own so the coach, the HUD and
+ * the AI assistant can each show as much or as little as they need.
+ *
+ * Lengths are measured in body units (torso, leg or shoulder width) so the
+ * wrestler's distance from the camera doesn't matter. Angles use BlazePose's
+ * relative depth (z) when present, so forward lean still shows up on a
+ * front-facing camera.
+ */
+
+import type { PoseKeypoint } from './reference-track';
+
+export const STANCE_METRIC_IDS = [
+  'knee-bend',
+  'hip-height',
+  'back-angle',
+  'head-position',
+  'foot-width',
+  'foot-stagger',
+  'hand-position',
+] as const;
+
+export type StanceMetricId = (typeof STANCE_METRIC_IDS)[number];
+
+export interface StanceMetricThreshold {
+  /** Ideal range, inclusive */
+  min: number;
+  max: number;
+  /** How far outside the range still counts as a warning rather than critical */
+  tolerance: number;
+}
+
+export type StanceThresholds = Record<StanceMetricId, StanceMetricThreshold>;
+
+export const DEFAULT_STANCE_THRESHOLDS: StanceThresholds = {
+  // Degrees of knee flexion (0 = straight leg)
+  'knee-bend': { min: 45, max: 100, tolerance: 20 },
+  // Hip height above the ankles as a fraction of leg length (1 = standing tall)
+  'hip-height': { min: 0.55, max: 0.8, tolerance: 0.1 },
+  // Torso lean forward from vertical, degrees
+  'back-angle': { min: 20, max: 55, tolerance: 15 },
+  // Nose height above the shoulder line, in torso lengths
+  'head-position': { min: 0.1, max: 0.7, tolerance: 0.1 },
+  // Ankle spread in shoulder widths
+  'foot-width': { min: 1.0, max: 1.8, tolerance: 0.3 },
+  // Front-to-back foot offset in shoulder widths (0 = square stance)
+  'foot-stagger': { min: 0.15, max: 1.2, tolerance: 0.15 },
+  // Wrist height above the knees, in torso lengths
+  'hand-position': { min: 0.1, max: 0.9, tolerance: 0.2 },
+};
+
+export type StanceMetricStatus = 'good' | 'low' | 'high' | 'unmeasured';
+
+export type StanceSeverity = 'info' | 'warning' | 'critical';
+
+export interface StanceMetricResult {
+  id: StanceMetricId;
+  label: string;
+  /** null when the joints it needs weren't visible */
+  value: number | null;
+  unit: '°' | 'ratio';
+  status: StanceMetricStatus;
+  /** 'info' when good or unmeasured */
+  severity: StanceSeverity;
+  /** Coaching cue for the current status */
+  message: string;
+}
+
+export interface StanceAnalysis {
+  /** 0-100 over the metrics that could be measured */
+  score: number;
+  metrics: StanceMetricResult[];
+}
+
+interface MetricDefinition {
+  label: string;
+  unit: StanceMetricResult['unit'];
+  messages: Record<Exclude<StanceMetricStatus, 'unmeasured'>, string>;
+}
+
+const METRICS: Record<StanceMetricId, MetricDefinition> = {
+  'knee-bend': {
+    label: 'Knee bend',
+    unit: '°',
+    messages: {
+      good: 'Knees bent and loaded',
+      low: 'Bend your knees more - get into your legs',
+      high: 'Too deep - come up so you can still move',
+    },
+  },
+  'hip-height': {
+    label: 'Hip height',
+    unit: 'ratio',
+    messages: {
+      good: 'Good level - hips are low',
+      low: 'Hips too low - you can\'t move from there',
+      high: 'Lower your level - drop your hips',
+    },
+  },
+  'back-angle': {
+    label: 'Back angle',
+    unit: '°',
+    messages: {
+      good: 'Back angle looks strong',
+      low: 'Lean forward a little - chest over your knees',
+      high: 'Too bent over - chest up, back straight',
+    },
+  },
+  'head-position': {
+    label: 'Head position',
+    unit: 'ratio',
+    messages: {
+      good: 'Head up, eyes forward',
+      low: 'Head up - eyes on your opponent',
+      high: 'Don\'t stand up tall - keep your head in front of your hips',
+    },
+  },
+  'foot-width': {
+    label: 'Foot width',
+    unit: 'ratio',
+    messages: {
+      good: 'Feet about shoulder width or a bit wider',
+      low: 'Widen your base',
+      high: 'Feet too wide - bring them in under your shoulders',
+    },
+  },
+  'foot-stagger': {
+    label: 'Foot stagger',
+    unit: 'ratio',
+    messages: {
+      good: 'Good staggered stance',
+      low: 'Stagger your feet - lead foot forward',
+      high: 'Feet too far apart front to back',
+    },
+  },
+  'hand-position': {
+    label: 'Hands',
+    unit: 'ratio',
+    messages: {
+      good: 'Hands up in front of your knees',
+      low: 'Hands up - keep them in front of your knees',
+      high: 'Hands lower - elbows in, hands at knee to chest height',
+    },
+  },
+};
+
+const MIN_SCORE = 0.5;
+const NOSE = 0;
+const LEFT_SHOULDER = 11;
+const RIGHT_SHOULDER = 12;
+const LEFT_WRIST = 15;
+const RIGHT_WRIST = 16;
+const LEFT_HIP = 23;
+const RIGHT_HIP = 24;
+const LEFT_KNEE = 25;
+const RIGHT_KNEE = 26;
+const LEFT_ANKLE = 27;
+const RIGHT_ANKLE = 28;
+
+interface Point {
+  x: number;
+  y: number;
+  z: number;
+}
+
+type Body = (index: number) => Point | null;
+
+// Aspect-corrected points so distances and angles are true to the image
+function createBody(keypoints: PoseKeypoint[], aspect: number): Body {
+  return (index) => {
+    const keypoint = keypoints[index];
+    if (!keypoint || keypoint.score < MIN_SCORE) {
+      return null;
+    }
+    return { x: keypoint.x * aspect, y: keypoint.y, z: (keypoint.z ?? 0) * aspect };
+  };
+}
+
+function distance(a: Point, b: Point) {
+  return Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z);
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2, z: (a.z + b.z) / 2 };
+}
+
+function angleBetween(u: Point, v: Point) {
+  const lengths = Math.hypot(u.x, u.y, u.z) * Math.hypot(v.x, v.y, v.z);
+  if (lengths === 0) return 0;
+  const cos = Math.max(-1, Math.min(1, (u.x * v.x + u.y * v.y + u.z * v.z) / lengths));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+function average(values: (number | null)[]): number | null {
+  const measured = values.filter((value): value is number => value !== null);
+  return measured.length > 0 ? measured.reduce((sum, value) => sum + value, 0) / measured.length : null;
+}
+
+function pair(body: Body, left: number, right: number): [Point, Point] | null {
+  const a = body(left);
+  const b = body(right);
+  return a && b ? [a, b] : null;
+}
+
+function kneeFlexion(body: Body, hip: number, knee: number, ankle: number): number | null {
+  const [h, k, a] = [body(hip), body(knee), body(ankle)];
+  if (!h || !k || !a) return null;
+  // Straight leg = 180° at the knee = 0° of flexion
+  return 180 - angleBetween({ x: h.x - k.x, y: h.y - k.y, z: h.z - k.z }, { x: a.x - k.x, y: a.y - k.y, z: a.z - k.z });
+}
+
+function hipHeight(body: Body, hip: number, knee: number, ankle: number): number | null {
+  const [h, k, a] = [body(hip), body(knee), body(ankle)];
+  if (!h || !k || !a) return null;
+  const legLength = distance(h, k) + distance(k, a);
+  return legLength > 0 ? (a.y - h.y) / legLength : null;
+}
+
+const MEASUREMENTS: Record<StanceMetricId, (body: Body) => number | null> = {
+  'knee-bend': (body) =>
+    average([kneeFlexion(body, LEFT_HIP, LEFT_KNEE, LEFT_ANKLE), kneeFlexion(body, RIGHT_HIP, RIGHT_KNEE, RIGHT_ANKLE)]),
+
+  'hip-height': (body) =>
+    average([hipHeight(body, LEFT_HIP, LEFT_KNEE, LEFT_ANKLE), hipHeight(body, RIGHT_HIP, RIGHT_KNEE, RIGHT_ANKLE)]),
+
+  'back-angle': (body) => {
+    const shoulders = pair(body, LEFT_SHOULDER, RIGHT_SHOULDER);
+    const hips = pair(body, LEFT_HIP, RIGHT_HIP);
+    if (!shoulders || !hips) return null;
+    const top = midpoint(...shoulders);
+    const bottom = midpoint(...hips);
+    // Image y points down, so "up" is -y
+    return angleBetween({ x: top.x - bottom.x, y: top.y - bottom.y, z: top.z - bottom.z }, { x: 0, y: -1, z: 0 });
+  },
+
+  'head-position': (body) => {
+    const nose = body(NOSE);
+    const shoulders = pair(body, LEFT_SHOULDER, RIGHT_SHOULDER);
+    const hips = pair(body, LEFT_HIP, RIGHT_HIP);
+    if (!nose || !shoulders || !hips) return null;
+    const shoulderLine = midpoint(...shoulders);
+    const torso = distance(shoulderLine, midpoint(...hips));
+    return torso > 0 ? (shoulderLine.y - nose.y) / torso : null;
+  },
+
+  'foot-width': (body) => {
+    const ankles = pair(body, LEFT_ANKLE, RIGHT_ANKLE);
+    const shoulders = pair(body, LEFT_SHOULDER, RIGHT_SHOULDER);
+    if (!ankles || !shoulders) return null;
+    const shoulderWidth = Math.abs(shoulders[0].x - shoulders[1].x);
+    return shoulderWidth > 0 ? Math.abs(ankles[0].x - ankles[1].x) / shoulderWidth : null;
+  },
+
+  'foot-stagger': (body) => {
+    const ankles = pair(body, LEFT_ANKLE, RIGHT_ANKLE);
+    const shoulders = pair(body, LEFT_SHOULDER, RIGHT_SHOULDER);
+    if (!ankles || !shoulders) return null;
+    const shoulderWidth = Math.abs(shoulders[0].x - shoulders[1].x);
+    // Seen from the front the back foot sits higher in the image and further in depth
+    const offset = Math.hypot(ankles[0].y - ankles[1].y, ankles[0].z - ankles[1].z);
+    return shoulderWidth > 0 ? offset / shoulderWidth : null;
+  },
+
+  'hand-position': (body) => {
+    const shoulders = pair(body, LEFT_SHOULDER, RIGHT_SHOULDER);
+    const hips = pair(body, LEFT_HIP, RIGHT_HIP);
+    const knees = pair(body, LEFT_KNEE, RIGHT_KNEE);
+    const wrists = [body(LEFT_WRIST), body(RIGHT_WRIST)].filter((wrist): wrist is Point => wrist !== null);
+    if (!shoulders || !hips || !knees || wrists.length === 0) return null;
+    const torso = distance(midpoint(...shoulders), midpoint(...hips));
+    const kneeLine = (knees[0].y + knees[1].y) / 2;
+    // The lower hand is the one that gets caught
+    const lowestWrist = Math.max(...wrists.map((wrist) => wrist.y));
+    return torso > 0 ? (kneeLine - lowestWrist) / torso : null;
+  },
+};
+
+function rateMetric(id: StanceMetricId, value: number | null, threshold: StanceMetricThreshold): StanceMetricResult {
+  const { label, unit, messages } = METRICS[id];
+  if (value === null) {
+    return { id, label, value, unit, status: 'unmeasured', severity: 'info', message: `${label}: not visible` };
+  }
+
+  const status: StanceMetricStatus = value < threshold.min ? 'low' : value > threshold.max ? 'high' : 'good';
+  const miss = status === 'low' ? threshold.min - value : status === 'high' ? value - threshold.max : 0;
+  const severity: StanceSeverity = status === 'good' ? 'info' : miss <= threshold.tolerance ? 'warning' : 'critical';
+  return { id, label, value, unit, status, severity, message: messages[status === 'good' ? 'good' : status] };
+}
+
+/**
+ * Analyze one pose (normalized keypoints, see reference-track). `thresholds`
+ * can override any subset of the defaults. Returns null when too little of
+ * the body is visible to say anything.
+ */
+export function analyzeStance(
+  keypoints: PoseKeypoint[],
+  aspect = 1,
+  thresholds: Partial<StanceThresholds> = {}
+): StanceAnalysis | null {
+  const body = createBody(keypoints, aspect);
+  const limits = { ...DEFAULT_STANCE_THRESHOLDS, ...thresholds };
+  const metrics = STANCE_METRIC_IDS.map((id) => rateMetric(id, MEASUREMENTS[id](body), limits[id]));
+
+  const measured = metrics.filter((metric) => metric.status !== 'unmeasured');
+  if (measured.length < 3) {
+    return null;
+  }
+
+  const points = measured.reduce(
+    (sum, metric) => sum + (metric.status === 'good' ? 1 : metric.severity === 'warning' ? 0.5 : 0),
+    0
+  );
+  return { score: Math.round((points / measured.length) * 100), metrics };
+}
+
+/**
+ * Metrics that need fixing, worst first.
+ */
+export function stanceCorrections(analysis: StanceAnalysis): StanceMetricResult[] {
+  return analysis.metrics
+    .filter((metric) => metric.status === 'low' || metric.status === 'high')
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'critical' ? -1 : 1));
+}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { subscribeLivePose } from './live-pose';
+import { acquireWebcamPoseSource } from './webcam-pose-source';
+import { analyzeStance, type StanceAnalysis, type StanceThresholds } from './stance-analysis';
+
+// Text panels can't usefully refresh faster than this
+const ANALYSIS_INTERVAL_MS = 250;
+
+/**
+ * Live stance analysis of the wrestler, refreshed a few times a second while
+ * `enabled`. Starts the webcam detector if nothing else is tracking them.
+ */
+export function useStanceAnalysis(enabled: boolean, thresholds?: Partial<StanceThresholds>): StanceAnalysis | null {
+  const [analysis, setAnalysis] = React.useState<StanceAnalysis | null>(null);
+  // Read at analysis time so inline threshold objects don't restart the subscription
+  const thresholdsRef = React.useRef(thresholds);
+  React.useEffect(() => {
+    thresholdsRef.current = thresholds;
+  });
+
+  React.useEffect(() => {
+    if (!enabled) {
+      setAnalysis(null);
+      return;
+    }
+
+    const release = acquireWebcamPoseSource();
+    let lastAnalyzedAt = 0;
+    const unsubscribe = subscribeLivePose((pose) => {
+      if (pose.timestamp - lastAnalyzedAt < ANALYSIS_INTERVAL_MS) {
+        return;
+      }
+      lastAnalyzedAt = pose.timestamp;
+      setAnalysis(analyzeStance(pose.keypoints, pose.aspect, thresholdsRef.current));
+    });
+
+    return () => {
+      unsubscribe();
+      release();
+    };
+  }, [enabled]);
+
+  return analysis;
+}
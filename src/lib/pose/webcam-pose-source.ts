@@ -0,0 +1,114 @@
+/**
+ * Webcam Pose Source
+ *
+ * Headless webcam + BlazePose detector that feeds the live pose store when no
+ * visible component (AvatarMirror, VRMAvatar) is already tracking the wrestler.
+ * Reference-counted: started by the first consumer, stopped with the last.
+ */
+
+import * as poseDetection from '@tensorflow-models/pose-detection';
+import * as tf from '@tensorflow/tfjs-core';
+import '@tensorflow/tfjs-backend-webgl';
+import { getLatestLivePose, publishLivePose } from './live-pose';
+
+const SOURCE_NAME = 'webcam';
+// ~15 detections/sec is plenty for comparison and keeps the headset frame rate up
+const DETECTION_INTERVAL_MS = 66;
+
+let consumers = 0;
+let stopSource: (() => void) | null = null;
+
+async function startSource(): Promise<() => void> {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const stream = await navigator.mediaDevices.getUserMedia({
+    video: { width: 640, height: 480, facingMode: 'user' },
+    audio: false,
+  });
+
+  const video = document.createElement('video');
+  video.srcObject = stream;
+  video.muted = true;
+  video.playsInline = true;
+  await video.play();
+
+  await tf.ready();
+  if (tf.getBackend() !== 'webgl' && tf.getBackend() !== 'webgpu') {
+    await tf.setBackend('webgl');
+  }
+
+  const detector = await poseDetection.createDetector(poseDetection.SupportedModels.BlazePose, {
+    runtime: 'tfjs',
+    modelType: 'lite',
+    enableSmoothing: true,
+  });
+  console.log('[POSE] ✅ Webcam pose source started');
+
+  const detect = async () => {
+    if (stopped) return;
+
+    // Another component is already publishing - don't run a second detector
+    const latest = getLatestLivePose();
+    if (!latest || latest.source === SOURCE_NAME) {
+      try {
+        const [pose] = await detector.estimatePoses(video);
+        if (pose?.keypoints && !stopped) {
+          publishLivePose(SOURCE_NAME, pose.keypoints, video.videoWidth, video.videoHeight);
+        }
+      } catch (error) {
+        console.warn('[POSE] Webcam pose detection failed:', error);
+      }
+    }
+
+    if (!stopped) {
+      timer = setTimeout(detect, DETECTION_INTERVAL_MS);
+    }
+  };
+  detect();
+
+  return () => {
+    stopped = true;
+    if (timer) clearTimeout(timer);
+    detector.dispose();
+    stream.getTracks().forEach((track) => track.stop());
+    video.srcObject = null;
+    console.log('[POSE] Webcam pose source stopped');
+  };
+}
+
+/**
+ * Start tracking the wrestler through the webcam. Call the returned function to release.
+ */
+export function acquireWebcamPoseSource(): () => void {
+  consumers += 1;
+
+  if (consumers === 1) {
+    let cancelled = false;
+    stopSource = () => {
+      cancelled = true;
+    };
+    startSource()
+      .then((stop) => {
+        if (cancelled) {
+          stop();
+        } else {
+          stopSource = stop;
+        }
+      })
+      .catch((error) => {
+        console.error('[POSE] ❌ Failed to start webcam pose source:', error);
+      });
+  }
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    consumers -= 1;
+    if (consumers === 0) {
+      stopSource?.();
+      stopSource = null;
+    }
+  };
+}
@@ -0,0 +1,124 @@
+/**
+ * Athlete Roster
+ *
+ * The coach dashboard's view of a training room: one entry per connected
+ * athlete (every participant that isn't a coach or an observer) with
+ * whichever of their named tracks are subscribed - headset view, webcam mirror, microphone and
+ * pose data. A video track without one of our names is taken as the webcam,
+ * which is what headsets published before the tracks were named. Poses are
+ * kept apart from the roster so 15 updates a second don't re-render the
+ * whole grid. Built on the room connection, so it carries on across
+ * reconnects.
+ */
+
+import type { RemoteAudioTrack, RemoteVideoTrack } from 'twilio-video';
+import type { RoomConnection, RoomParticipant } from './room-connection';
+import { ROOM_TRACK_NAMES, decodePoseData, type RemotePose } from './room-tracks';
+
+export interface AthleteFeed {
+  /** Participant SID - stable while they stay connected */
+  sid: string;
+  identity: string;
+  name: string;
+  headsetView: RemoteVideoTrack | null;
+  webcam: RemoteVideoTrack | null;
+  audio: RemoteAudioTrack | null;
+  /** A pose-data track is subscribed */
+  hasPose: boolean;
+}
+
+type RosterListener = (athletes: AthleteFeed[]) => void;
+type PoseListener = (pose: RemotePose) => void;
+
+function toAthlete({ sid, identity, name, tracks }: RoomParticipant): AthleteFeed {
+  const videos = tracks.filter((track): track is RemoteVideoTrack => track.kind === 'video');
+  const named = (trackName: string) => videos.find((track) => track.name === trackName) ?? null;
+  const unnamed = videos.find(
+    (track) => track.name !== ROOM_TRACK_NAMES.headsetView && track.name !== ROOM_TRACK_NAMES.webcam
+  );
+
+  return {
+    sid,
+    identity,
+    name,
+    headsetView: named(ROOM_TRACK_NAMES.headsetView),
+    // Named webcam, or an unnamed camera from an older headset - a named one wins
+    webcam: named(ROOM_TRACK_NAMES.webcam) ?? unnamed ?? null,
+    audio: tracks.find((track): track is RemoteAudioTrack => track.kind === 'audio') ?? null,
+    hasPose: tracks.some((track) => track.kind === 'data' && track.name === ROOM_TRACK_NAMES.pose),
+  };
+}
+
+export class AthleteRoster {
+  private athletes: AthleteFeed[] = [];
+  private readonly poses = new Map<string, RemotePose>();
+  private readonly listeners = new Set<RosterListener>();
+  private readonly poseListeners = new Map<string, Set<PoseListener>>();
+  private readonly unsubscribe: () => void;
+
+  constructor(connection: RoomConnection) {
+    const unsubscribeRoom = connection.subscribe(({ participants }) => this.update(participants));
+    const unsubscribeMessages = connection.subscribeMessages((data, track, participant) => {
+      if (track.name === ROOM_TRACK_NAMES.pose) this.receivePose(participant.sid, data);
+    });
+    this.unsubscribe = () => {
+      unsubscribeRoom();
+      unsubscribeMessages();
+    };
+  }
+
+  /** In the order they joined */
+  getAthletes(): AthleteFeed[] {
+    return this.athletes;
+  }
+
+  /** Called right away with the current roster, then on every join, leave and track change */
+  subscribe(listener: RosterListener): () => void {
+    this.listeners.add(listener);
+    listener(this.athletes);
+    return () => this.listeners.delete(listener);
+  }
+
+  getPose(sid: string): RemotePose | null {
+    return this.poses.get(sid) ?? null;
+  }
+
+  /** Every pose one athlete sends */
+  subscribePose(sid: string, listener: PoseListener): () => void {
+    let listeners = this.poseListeners.get(sid);
+    if (!listeners) {
+      listeners = new Set();
+      this.poseListeners.set(sid, listeners);
+    }
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  }
+
+  dispose() {
+    this.unsubscribe();
+    this.athletes = [];
+    this.poses.clear();
+    this.listeners.clear();
+    this.poseListeners.clear();
+  }
+
+  private update(participants: RoomParticipant[]) {
+    const athletes = participants
+      .filter((participant) => participant.role !== 'coach' && participant.role !== 'observer')
+      .map(toAthlete);
+    const gone = this.athletes.filter((athlete) => !athletes.some((next) => next.sid === athlete.sid));
+    gone.forEach(({ sid }) => {
+      this.poses.delete(sid);
+      this.poseListeners.delete(sid);
+    });
+    this.athletes = athletes;
+    this.listeners.forEach((listener) => listener(athletes));
+  }
+
+  private receivePose(sid: string, data: string | ArrayBuffer) {
+    const pose = decodePoseData(data);
+    if (!pose || !this.athletes.some((athlete) => athlete.sid === sid)) return;
+    this.poses.set(sid, pose);
+    this.poseListeners.get(sid)?.forEach((listener) => listener(pose));
+  }
+}
@@ -0,0 +1,421 @@
+/**
+ * Coach Channel
+ *
+ * Lets the coach direct a training session from the dashboard: commands
+ * (play a technique from a given time, pause, spotlight a card, push a tip,
+ * start a drill) go to one athlete or to everyone, and each headset answers
+ * with an acknowledgement saying whether it could carry the command out.
+ * Messages are JSON on the room's `coach-control` data track, or over the
+ * local server's WebSocket relay when there is no Twilio room to share.
+ * Every message goes out on each open transport and receivers drop the
+ * duplicates by id, so the two can be open side by side. Commands are
+ * only taken from coaches: on the room track that is the sender's identity,
+ * which the token server only signs with a coach invite; the relay admits
+ * clients with a room session and wraps what they send with their verified
+ * role. A relay message without one is refused.
+ */
+
+import type { Room } from 'twilio-video';
+import type { RoomConnection } from './room-connection';
+import { getRoomSession } from './room-access';
+import { ROOM_TRACK_NAMES, parseRoomIdentity, roomIdentity, type RoomParticipantRole } from './room-tracks';
+
+export type CoachCommand =
+  | { type: 'play-technique'; techniqueId: string; startSeconds: number }
+  | { type: 'pause' }
+  | { type: 'spotlight-card'; techniqueId: string }
+  | { type: 'coaching-tip'; text: string }
+  | { type: 'start-drill'; drillId: string; sets?: number; targetReps?: number };
+
+export interface CoachCommandMessage {
+  type: 'command';
+  id: string;
+  /** Display name of the coach who sent it */
+  from: string;
+  /** Athlete name, or null for everyone in the room */
+  to: string | null;
+  command: CoachCommand;
+}
+
+export interface CoachAckMessage {
+  type: 'ack';
+  /** The command being acknowledged */
+  id: string;
+  /** Athlete name */
+  from: string;
+  ok: boolean;
+  /** What happened, as shown in the headset */
+  message: string;
+}
+
+export type CoachChannelMessage = CoachCommandMessage | CoachAckMessage;
+
+/** A message as the relay forwards it */
+export interface CoachRelayEnvelope {
+  /** The sender's role, from their room session */
+  role: string;
+  /** What they sent - a coach channel message, still to be decoded */
+  data: string;
+}
+
+/** A tip pushed from the dashboard, as the headset shows it */
+export interface CoachTip {
+  id: string;
+  from: string;
+  text: string;
+}
+
+export type CoachTransportKind = 'twilio' | 'websocket';
+
+export interface CoachCommandAck {
+  from: string;
+  ok: boolean;
+  message: string;
+}
+
+export interface SentCoachCommand {
+  id: string;
+  to: string | null;
+  command: CoachCommand;
+  sentAt: number;
+  acks: CoachCommandAck[];
+}
+
+export interface CoachChannelState {
+  /** Transports that are open right now */
+  transports: CoachTransportKind[];
+  /** Commands sent from this side, newest first */
+  sent: SentCoachCommand[];
+}
+
+/** Runs a command in the headset; the result goes back to the coach as the ack */
+export type CoachCommandHandler = (command: CoachCommand, message: CoachCommandMessage) => { ok: boolean; message: string };
+
+type Listener = (state: CoachChannelState) => void;
+
+interface CoachTransport {
+  send(data: string): void;
+  close(): void;
+}
+
+export const COACH_CHANNEL_RELAY_PATH = '/api/coach-channel';
+
+// Twilio data track messages are capped at 16 KiB - tips are cut well short of that
+const MAX_TIP_LENGTH = 500;
+const MAX_SENT_COMMANDS = 20;
+// Ids remembered for dropping the copy that arrives on the second transport
+const MAX_SEEN_IDS = 200;
+const RELAY_RETRY_MS = 5000;
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+function isOptionalCount(value: unknown) {
+  return value === undefined || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+}
+
+function isCoachCommand(value: unknown): value is CoachCommand {
+  if (!value || typeof value !== 'object') return false;
+  const command = value as Record<string, unknown>;
+  switch (command.type) {
+    case 'play-technique':
+      return isString(command.techniqueId) && typeof command.startSeconds === 'number' && command.startSeconds >= 0;
+    case 'pause':
+      return true;
+    case 'spotlight-card':
+      return isString(command.techniqueId);
+    case 'coaching-tip':
+      return isString(command.text) && command.text.length <= MAX_TIP_LENGTH;
+    case 'start-drill':
+      return isString(command.drillId) && isOptionalCount(command.sets) && isOptionalCount(command.targetReps);
+    default:
+      return false;
+  }
+}
+
+export function encodeCoachMessage(message: CoachChannelMessage): string {
+  return JSON.stringify(message);
+}
+
+/** Null for anything that isn't a well-formed command or ack */
+export function decodeCoachMessage(data: string | ArrayBuffer): CoachChannelMessage | null {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data) as Record<string, unknown>;
+    if (!isString(message.id) || !isString(message.from)) return null;
+    if (message.type === 'command') {
+      if (message.to !== null && !isString(message.to)) return null;
+      return isCoachCommand(message.command) ? (message as unknown as CoachCommandMessage) : null;
+    }
+    if (message.type === 'ack') {
+      return typeof message.ok === 'boolean' && typeof message.message === 'string'
+        ? (message as unknown as CoachAckMessage)
+        : null;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** Text for a command in the dashboard's log; `titleOf` names techniques by id */
+export function describeCoachCommand(command: CoachCommand, titleOf: (id: string) => string = (id) => id): string {
+  switch (command.type) {
+    case 'play-technique':
+      return `Play ${titleOf(command.techniqueId)} from ${command.startSeconds}s`;
+    case 'pause':
+      return 'Pause';
+    case 'spotlight-card':
+      return `Spotlight ${titleOf(command.techniqueId)}`;
+    case 'coaching-tip':
+      return `Tip: ${command.text}`;
+    case 'start-drill':
+      return `Start drill ${command.drillId}`;
+  }
+}
+
+/** Null for anything the relay didn't wrap - it carries no verified sender */
+export function decodeCoachRelayEnvelope(data: string): CoachRelayEnvelope | null {
+  try {
+    const envelope = JSON.parse(data) as Record<string, unknown> | null;
+    return envelope && isString(envelope.role) && isString(envelope.data)
+      ? { role: envelope.role, data: envelope.data }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+function relayUrl(roomName: string, session: string) {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const query = `room=${encodeURIComponent(roomName)}&session=${encodeURIComponent(session)}`;
+  return `${protocol}//${window.location.host}${COACH_CHANNEL_RELAY_PATH}?${query}`;
+}
+
+export class CoachChannel {
+  private readonly roomName: string;
+  private readonly name: string;
+  private readonly role: RoomParticipantRole;
+  private state: CoachChannelState = { transports: [], sent: [] };
+  private readonly transports = new Map<CoachTransportKind, CoachTransport>();
+  private readonly seenIds = new Set<string>();
+  private handler: CoachCommandHandler | null = null;
+  private socket: WebSocket | null = null;
+  private relayPending = false;
+  private relayRetry: ReturnType<typeof setTimeout> | undefined;
+  // Bumped whenever the room changes so a data track still being published is dropped when it lands
+  private roomAttempt = 0;
+  private detachConnection: (() => void) | null = null;
+  private disposed = false;
+  private readonly listeners = new Set<Listener>();
+
+  /**
+   * `name` is who this side is to the others - the athlete name commands are
+   * addressed to; `role` picks the room session the relay is opened with
+   */
+  constructor(roomName: string, name: string, role: RoomParticipantRole = 'vr') {
+    this.roomName = roomName;
+    this.name = name;
+    this.role = role;
+  }
+
+  getState(): CoachChannelState {
+    return this.state;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Headsets set one; commands for this athlete (or everyone) run through it and are acknowledged */
+  setCommandHandler(handler: CoachCommandHandler | null) {
+    this.handler = handler;
+  }
+
+  /**
+   * Opens the local server's WebSocket relay with the tab's room session. A
+   * relay that was up is retried when it drops; one that never answered (a
+   * serverless deployment, or no invite to sign in with) is left alone.
+   */
+  connectRelay() {
+    if (this.disposed || this.socket || this.relayPending) return;
+    this.relayPending = true;
+    getRoomSession(this.roomName, roomIdentity(this.name, this.role))
+      .then((session) => {
+        this.relayPending = false;
+        if (!this.disposed && !this.socket) this.openRelay(session);
+      })
+      .catch((error: Error) => {
+        this.relayPending = false;
+        console.log('ℹ️ Coach channel relay needs a room session - using the room data track only:', error.message);
+      });
+  }
+
+  /**
+   * Rides along on a room connection: publishes a `coach-control` data
+   * track into every room it joins - again after each reconnect - and
+   * listens for everyone else's
+   */
+  attachRoom(connection: RoomConnection) {
+    this.detachRoom();
+    let room: Room | null = null;
+    const unsubscribeRoom = connection.subscribe((state) => {
+      if (state.room === room) return;
+      room = state.room;
+      this.roomAttempt++;
+      this.removeTransport('twilio');
+      if (room) void this.publishTo(room, this.roomAttempt);
+    });
+    const unsubscribeMessages = connection.subscribeMessages((data, track, participant) => {
+      if (track.name === ROOM_TRACK_NAMES.coachControl) this.receive(data, parseRoomIdentity(participant.identity).role);
+    });
+    this.detachConnection = () => {
+      unsubscribeRoom();
+      unsubscribeMessages();
+    };
+  }
+
+  /** The room is going away - fall back to the relay alone */
+  detachRoom() {
+    this.roomAttempt++;
+    this.detachConnection?.();
+    this.detachConnection = null;
+    this.removeTransport('twilio');
+  }
+
+  /** Sends `command` to one athlete by name, or to everyone with null; returns the message id */
+  send(command: CoachCommand, to: string | null): string {
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+    this.broadcast({ type: 'command', id, from: this.name, to, command });
+    const sent: SentCoachCommand = { id, to, command, sentAt: Date.now(), acks: [] };
+    this.setState({ sent: [sent, ...this.state.sent].slice(0, MAX_SENT_COMMANDS) });
+    if (this.state.transports.length === 0) {
+      console.warn('⚠️ Coach channel has no open transport - command not delivered');
+    }
+    return id;
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.detachRoom();
+    clearTimeout(this.relayRetry);
+    const socket = this.socket;
+    this.socket = null;
+    this.transports.forEach((transport) => transport.close());
+    this.transports.clear();
+    socket?.close();
+    this.handler = null;
+    this.listeners.clear();
+  }
+
+  private openRelay(session: string) {
+    const socket = new WebSocket(relayUrl(this.roomName, session));
+    this.socket = socket;
+    let opened = false;
+
+    socket.onopen = () => {
+      opened = true;
+      console.log(`🔌 Coach channel relay open for ${this.roomName}`);
+      this.addTransport('websocket', { send: (data) => socket.send(data), close: () => socket.close() });
+    };
+    socket.onmessage = (event) => {
+      const envelope = typeof event.data === 'string' ? decodeCoachRelayEnvelope(event.data) : null;
+      if (envelope) this.receive(envelope.data, envelope.role);
+    };
+    socket.onclose = () => {
+      if (this.socket !== socket) return;
+      this.socket = null;
+      this.removeTransport('websocket');
+      if (!opened) {
+        console.log('ℹ️ Coach channel relay not available - using the room data track only');
+        return;
+      }
+      if (!this.disposed) this.relayRetry = setTimeout(() => this.connectRelay(), RELAY_RETRY_MS);
+    };
+  }
+
+  private async publishTo(room: Room, attempt: number) {
+    try {
+      const Video = await import('twilio-video');
+      const track = new Video.LocalDataTrack({ name: ROOM_TRACK_NAMES.coachControl });
+      await room.localParticipant.publishTrack(track);
+      if (attempt !== this.roomAttempt) {
+        room.localParticipant.unpublishTrack(track);
+        return;
+      }
+      this.addTransport('twilio', {
+        send: (data) => track.send(data),
+        close: () => room.localParticipant.unpublishTrack(track),
+      });
+      console.log(`📨 Coach channel on the data track in ${room.name}`);
+    } catch (error) {
+      if (attempt !== this.roomAttempt) return;
+      console.error('❌ Coach channel data track error:', error);
+    }
+  }
+
+  private broadcast(message: CoachChannelMessage) {
+    const data = encodeCoachMessage(message);
+    this.transports.forEach((transport) => transport.send(data));
+  }
+
+  // `senderRole` is the room participant's role, or the role the relay verified
+  private receive(data: string | ArrayBuffer, senderRole: string | null) {
+    const message = decodeCoachMessage(data);
+    if (!message) return;
+
+    if (message.type === 'ack') {
+      this.receiveAck(message);
+      return;
+    }
+
+    if (!this.handler || (message.to !== null && message.to !== this.name)) return;
+    if (senderRole !== 'coach') {
+      console.warn(`⚠️ Ignoring coach command from ${message.from} - not in the room as a coach`);
+      return;
+    }
+    if (this.seenIds.has(message.id)) return;
+    this.seenIds.add(message.id);
+    if (this.seenIds.size > MAX_SEEN_IDS) this.seenIds.delete(this.seenIds.values().next().value as string);
+
+    console.log(`📥 Coach ${message.from}: ${describeCoachCommand(message.command)}`);
+    let result: { ok: boolean; message: string };
+    try {
+      result = this.handler(message.command, message);
+    } catch (error) {
+      console.error('❌ Coach command failed:', error);
+      result = { ok: false, message: 'Command failed in the headset' };
+    }
+    this.broadcast({ type: 'ack', id: message.id, from: this.name, ok: result.ok, message: result.message });
+  }
+
+  private receiveAck(ack: CoachAckMessage) {
+    const command = this.state.sent.find((sent) => sent.id === ack.id);
+    if (!command || command.acks.some((existing) => existing.from === ack.from)) return;
+    const acks = [...command.acks, { from: ack.from, ok: ack.ok, message: ack.message }];
+    this.setState({ sent: this.state.sent.map((sent) => (sent === command ? { ...sent, acks } : sent)) });
+  }
+
+  private addTransport(kind: CoachTransportKind, transport: CoachTransport) {
+    this.transports.get(kind)?.close();
+    this.transports.set(kind, transport);
+    this.setState({ transports: [...this.transports.keys()] });
+  }
+
+  private removeTransport(kind: CoachTransportKind) {
+    const transport = this.transports.get(kind);
+    if (!transport) return;
+    this.transports.delete(kind);
+    transport.close();
+    this.setState({ transports: [...this.transports.keys()] });
+  }
+
+  private setState(update: Partial<CoachChannelState>) {
+    this.state = { ...this.state, ...update };
+    const state = this.state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
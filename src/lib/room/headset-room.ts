@@ -0,0 +1,103 @@
+/**
+ * Headset Room
+ *
+ * The headset's place in the training room, held for as long as the page
+ * has a room so the coach dashboard sees the athlete from the start. It
+ * publishes the camera pointed at the wrestler as `webcam-mirror` when the
+ * device has one, and their live pose on the `pose-data` data track
+ * (room-tracks.ts). With a camera it keeps the webcam pose source running,
+ * so the coach gets the pose even when nothing in the scene tracks the
+ * wrestler. The headset view is published onto the same connection while
+ * it's shared (headset-view-publisher.ts).
+ */
+
+import type { LocalDataTrack, LocalVideoTrack } from 'twilio-video';
+import { subscribeLivePose, type LivePose } from '../pose/live-pose';
+import { acquireWebcamPoseSource } from '../pose/webcam-pose-source';
+import { RoomConnection } from './room-connection';
+import { ROOM_TRACK_NAMES, encodePoseData, roomIdentity } from './room-tracks';
+
+// Same rate the webcam pose source detects at - the dashboard draws every one
+const POSE_INTERVAL_MS = 66;
+
+export class HeadsetRoom {
+  readonly connection: RoomConnection;
+  private poseTrack: LocalDataTrack | null = null;
+  private webcamTrack: LocalVideoTrack | null = null;
+  private releaseTracking: (() => void) | null = null;
+  private lastPoseAt = -Infinity;
+  // Bumped by stop() so tracks still being created are dropped when they land
+  private attempt = 0;
+
+  constructor(roomName: string, userName: string) {
+    this.connection = new RoomConnection({
+      roomName,
+      identity: roomIdentity(userName, 'vr'),
+      // Nothing is captured by default - only the tracks published here
+      connect: { tracks: [] },
+    });
+  }
+
+  /** Joins the room and starts publishing; a device without a camera joins with the pose track alone */
+  async start() {
+    const attempt = ++this.attempt;
+    this.connection.connect();
+
+    // The connection reports it if Twilio can't be loaded
+    const Video = await import('twilio-video').catch(() => null);
+    if (!Video || attempt !== this.attempt) return;
+    const poseTrack = new Video.LocalDataTrack({ name: ROOM_TRACK_NAMES.pose });
+    this.poseTrack = poseTrack;
+    this.connection.publish(poseTrack);
+    const unsubscribe = subscribeLivePose((pose) => this.sendPose(pose));
+    this.releaseTracking = unsubscribe;
+
+    let webcamTrack: LocalVideoTrack;
+    try {
+      webcamTrack = await Video.createLocalVideoTrack({ name: ROOM_TRACK_NAMES.webcam, width: 640, height: 480 });
+    } catch (error) {
+      if (attempt === this.attempt) {
+        console.warn('⚠️ No camera for the webcam mirror, joining without it:', (error as Error).message);
+      }
+      return;
+    }
+    if (attempt !== this.attempt) {
+      webcamTrack.stop();
+      return;
+    }
+    this.webcamTrack = webcamTrack;
+    this.connection.publish(webcamTrack);
+    const release = acquireWebcamPoseSource();
+    this.releaseTracking = () => {
+      unsubscribe();
+      release();
+    };
+  }
+
+  /** Leaves the room; start() joins again */
+  stop() {
+    this.attempt++;
+    this.releaseTracking?.();
+    this.releaseTracking = null;
+    if (this.poseTrack) this.connection.unpublish(this.poseTrack);
+    this.poseTrack = null;
+    if (this.webcamTrack) {
+      this.connection.unpublish(this.webcamTrack);
+      this.webcamTrack.stop();
+    }
+    this.webcamTrack = null;
+    this.connection.disconnect();
+  }
+
+  dispose() {
+    this.stop();
+    this.connection.dispose();
+  }
+
+  private sendPose(pose: LivePose) {
+    if (!this.poseTrack || this.connection.getState().status !== 'connected') return;
+    if (pose.timestamp - this.lastPoseAt < POSE_INTERVAL_MS) return;
+    this.lastPoseAt = pose.timestamp;
+    this.poseTrack.send(encodePoseData(pose));
+  }
+}
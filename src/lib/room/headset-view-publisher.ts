@@ -0,0 +1,212 @@
+/**
+ * Headset View Publisher
+ *
+ * Shares what the wrestler sees with the coach: frames rendered from the
+ * headset camera (HeadsetViewCapture) are put on a 2D canvas whose
+ * captureStream is published into the training room as the `headset-view`
+ * track, which the coach dashboard shows. It goes out on the headset's own
+ * room connection (headset-room.ts), so the coach sees one athlete with the
+ * view added to their tile. Resolution, frame rate and the video bitrate cap
+ * come from a quality preset the wrestler picks; the headset only spends the
+ * extra render and upload while sharing is on.
+ */
+
+import type { LocalVideoTrack } from 'twilio-video';
+import type { RoomConnection, RoomConnectionState } from './room-connection';
+import { ROOM_TRACK_NAMES } from './room-tracks';
+
+export type HeadsetViewQuality = 'low' | 'medium' | 'high';
+
+export interface HeadsetViewPreset {
+  width: number;
+  height: number;
+  fps: number;
+  /** Upload cap for the headset's video, in kbps */
+  maxKbps: number;
+}
+
+export const HEADSET_VIEW_QUALITIES: HeadsetViewQuality[] = ['low', 'medium', 'high'];
+
+export const HEADSET_VIEW_PRESETS: Record<HeadsetViewQuality, HeadsetViewPreset> = {
+  low: { width: 480, height: 270, fps: 10, maxKbps: 300 },
+  medium: { width: 640, height: 360, fps: 15, maxKbps: 600 },
+  high: { width: 960, height: 540, fps: 20, maxKbps: 1200 },
+};
+
+export type HeadsetViewStatus = 'off' | 'connecting' | 'live' | 'reconnecting' | 'error';
+
+export interface HeadsetViewState {
+  status: HeadsetViewStatus;
+  quality: HeadsetViewQuality;
+  error: string | null;
+}
+
+type Listener = (state: HeadsetViewState) => void;
+
+/** Wraps the canvas stream's video for publishing */
+export type HeadsetViewTrackFactory = (mediaStreamTrack: MediaStreamTrack) => Promise<LocalVideoTrack>;
+
+async function createHeadsetViewTrack(mediaStreamTrack: MediaStreamTrack) {
+  const Video = await import('twilio-video');
+  return new Video.LocalVideoTrack(mediaStreamTrack, { name: ROOM_TRACK_NAMES.headsetView });
+}
+
+// captureStream's ceiling - the capture itself renders at the preset's rate
+const MAX_CAPTURE_FPS = Math.max(...HEADSET_VIEW_QUALITIES.map((quality) => HEADSET_VIEW_PRESETS[quality].fps));
+
+export class HeadsetViewPublisher {
+  /** Frames go here; its stream is what the coach sees */
+  readonly canvas: HTMLCanvasElement;
+  private readonly context: CanvasRenderingContext2D | null;
+  private readonly connection: RoomConnection;
+  private readonly createTrack: HeadsetViewTrackFactory;
+  private state: HeadsetViewState = { status: 'off', quality: 'medium', error: null };
+  private track: LocalVideoTrack | null = null;
+  private unfollow: (() => void) | null = null;
+  private image: ImageData | null = null;
+  // Bumped by stop() so a track still being created is dropped when it lands
+  private attempt = 0;
+  private readonly listeners = new Set<Listener>();
+
+  /** `connection` is the headset's room connection - sharing adds a track to it, never joins or leaves */
+  constructor(connection: RoomConnection, createTrack: HeadsetViewTrackFactory = createHeadsetViewTrack) {
+    this.connection = connection;
+    this.createTrack = createTrack;
+    this.canvas = document.createElement('canvas');
+    this.context = this.canvas.getContext('2d');
+    this.resizeCanvas();
+  }
+
+  getState(): HeadsetViewState {
+    return this.state;
+  }
+
+  getPreset(): HeadsetViewPreset {
+    return HEADSET_VIEW_PRESETS[this.state.quality];
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => this.listeners.delete(listener);
+  }
+
+  async start() {
+    if (this.state.status !== 'off' && this.state.status !== 'error') return;
+    const attempt = ++this.attempt;
+    this.setState({ status: 'connecting', error: null });
+
+    try {
+      const [mediaStreamTrack] = this.canvas.captureStream(MAX_CAPTURE_FPS).getVideoTracks();
+      const track = await this.createTrack(mediaStreamTrack);
+      if (attempt !== this.attempt) {
+        track.stop();
+        return;
+      }
+      this.track = track;
+      this.connection.publish(track);
+      // After a room error the headset is out of the room - sharing is a reason to try again
+      this.connection.connect();
+      this.unfollow = this.connection.subscribe((state) => this.follow(state));
+    } catch (error) {
+      if (attempt !== this.attempt) return;
+      console.error('❌ Headset view publish error:', error);
+      this.release();
+      this.setState({ status: 'error', error: error instanceof Error ? error.message : 'Could not share the view' });
+    }
+  }
+
+  stop() {
+    this.attempt++;
+    if (this.state.status === 'off') return;
+    this.release();
+    console.log('⏹️ Headset view stopped');
+    this.setState({ status: 'off', error: null });
+  }
+
+  /** Takes effect right away while live - frame size, rate and the upload cap */
+  setQuality(quality: HeadsetViewQuality) {
+    if (quality === this.state.quality) return;
+    this.setState({ quality });
+    this.resizeCanvas();
+    const room = this.track ? this.connection.getState().room : null;
+    room?.localParticipant.setParameters({ maxVideoBitrate: this.getPreset().maxKbps * 1000 });
+    if (room) console.log(`🎚️ Headset view quality ${quality} (${this.describe()})`);
+  }
+
+  /**
+   * One rendered frame as HeadsetViewCapture reads it back: RGBA, rows
+   * top-down, sRGB - ready for the canvas as it is. Frames of another size
+   * than the current preset (rendered just before a quality change) are
+   * dropped.
+   */
+  drawFrame(pixels: Uint8Array, width: number, height: number) {
+    const image = this.image;
+    if (!this.context || !image || image.width !== width || image.height !== height) return;
+    image.data.set(pixels);
+    this.context.putImageData(image, 0, 0);
+  }
+
+  dispose() {
+    this.stop();
+    this.listeners.clear();
+  }
+
+  private describe() {
+    const { width, height, fps, maxKbps } = this.getPreset();
+    return `${width}x${height} ${fps}fps, max ${maxKbps} kbps`;
+  }
+
+  private resizeCanvas() {
+    const { width, height } = this.getPreset();
+    this.canvas.width = width;
+    this.canvas.height = height;
+    this.image = this.context?.createImageData(width, height) ?? null;
+  }
+
+  // The connection's status is the sharing status; the upload cap is reapplied after a full reconnect
+  private follow({ status, room, error }: RoomConnectionState) {
+    switch (status) {
+      case 'connecting':
+        this.setState({ status: 'connecting' });
+        break;
+      case 'reconnecting':
+        this.setState({ status: 'reconnecting' });
+        break;
+      case 'connected':
+        if (this.state.status === 'live') break;
+        room?.localParticipant.setParameters({ maxVideoBitrate: this.getPreset().maxKbps * 1000 });
+        console.log(`📡 Headset view live in ${room?.name} (${this.describe()})`);
+        this.setState({ status: 'live' });
+        break;
+      case 'error':
+        this.release();
+        this.setState({ status: 'error', error: error ?? 'Could not share the view' });
+        break;
+      case 'idle':
+        // Before the first connect there's nothing to stop; after it, the headset left or the room ended
+        if (this.state.status !== 'live' && this.state.status !== 'reconnecting') break;
+        this.release();
+        this.setState({ status: 'off' });
+        break;
+    }
+  }
+
+  // Unpublishing leaves the headset in the room, so its other video gets the whole upload again
+  private release() {
+    this.unfollow?.();
+    this.unfollow = null;
+    const track = this.track;
+    if (!track) return;
+    this.track = null;
+    this.connection.unpublish(track);
+    track.stop();
+    this.connection.getState().room?.localParticipant.setParameters({ maxVideoBitrate: null });
+  }
+
+  private setState(update: Partial<HeadsetViewState>) {
+    this.state = { ...this.state, ...update };
+    const state = this.state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
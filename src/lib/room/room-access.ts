@@ -0,0 +1,166 @@
+/**
+ * Room Access
+ *
+ * Tokens for the training room. The first one is bought with the invite code
+ * from the page URL (`?invite=`), which also returns a session; every token
+ * after that - reconnects, the headset view, the coach panel - comes from
+ * the refresh endpoint with that session, so the invite isn't sent again
+ * until the session runs out. Tokens are short-lived and fetched per
+ * connect; the server decides the role from the invite and only signs
+ * identities that carry it (server/lib/video-access.js). The same session
+ * signs the wrestler in to the coach channel relay, their synced layouts and
+ * Coach Andy's memory of them.
+ */
+
+import { parseRoomIdentity, type RoomParticipantRole } from './room-tracks';
+
+export type RoomAccessRole = 'coach' | 'athlete' | 'observer';
+
+/** The role each kind of invite joins with - headsets have always been `vr` */
+export const ROOM_ACCESS_IDENTITY_ROLES: Record<RoomAccessRole, RoomParticipantRole> = {
+  coach: 'coach',
+  athlete: 'vr',
+  observer: 'observer',
+};
+
+export interface RoomSession {
+  /** Bearer token for the refresh endpoint */
+  session: string;
+  name: string;
+  role: RoomAccessRole;
+  expiresAt: number;
+}
+
+interface TokenResponse {
+  token: string;
+  role: RoomAccessRole;
+  session?: string;
+  sessionExpiresAt?: string;
+  error?: string;
+}
+
+export class RoomTokenError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'RoomTokenError';
+    this.status = status;
+  }
+}
+
+// Per tab, so a second wrestler on the same browser redeems their own invite
+const SESSION_STORAGE_KEY = 'aether-room-session';
+const INVITE_STORAGE_KEY = 'aether-room-invite';
+// A session this close to running out is redeemed again rather than used
+const SESSION_MARGIN_MS = 60_000;
+
+/** From the page URL; kept for the tab so it survives navigating without it */
+function inviteCode(): string | null {
+  const fromUrl = new URLSearchParams(window.location.search).get('invite');
+  try {
+    if (fromUrl) sessionStorage.setItem(INVITE_STORAGE_KEY, fromUrl);
+    return fromUrl ?? sessionStorage.getItem(INVITE_STORAGE_KEY);
+  } catch {
+    return fromUrl;
+  }
+}
+
+function loadSession(): RoomSession | null {
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as RoomSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(session: RoomSession | null) {
+  try {
+    if (session) sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(session));
+    else sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  } catch {
+    // Private mode - the invite is redeemed on every connect instead
+  }
+}
+
+async function requestToken(path: string, body: object, session?: string): Promise<TokenResponse> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (session) headers.Authorization = `Bearer ${session}`;
+  const response = await fetch(path, { method: 'POST', headers, body: JSON.stringify(body) });
+  const data = (await response.json().catch(() => ({}))) as TokenResponse;
+  if (!response.ok) {
+    throw new RoomTokenError(response.status, data.error ?? `Failed to get token: ${response.status}`);
+  }
+  return data;
+}
+
+function usableSession(identity: string): RoomSession | null {
+  const { name, role } = parseRoomIdentity(identity);
+  const session = loadSession();
+  const usable =
+    session &&
+    session.name === name &&
+    ROOM_ACCESS_IDENTITY_ROLES[session.role] === role &&
+    session.expiresAt - Date.now() > SESSION_MARGIN_MS;
+  return usable ? session : null;
+}
+
+/** Exchanges the tab's invite for a token and keeps the session that comes with it */
+async function redeemInvite(roomName: string, identity: string): Promise<TokenResponse> {
+  const invite = inviteCode();
+  if (!invite) {
+    throw new RoomTokenError(401, 'No invite code - open the link your coach sent (?invite=...)');
+  }
+  const response = await requestToken('/api/twilio/video-token', { room: roomName, identity, invite });
+  if (response.session && response.sessionExpiresAt) {
+    saveSession({
+      session: response.session,
+      name: parseRoomIdentity(identity).name,
+      role: response.role,
+      expiresAt: Date.parse(response.sessionExpiresAt),
+    });
+  }
+  return response;
+}
+
+/**
+ * A Twilio access token for `identity` in `roomName` - refreshed with the
+ * tab's session when it has one for this name and role, otherwise by
+ * redeeming the invite. A session the server no longer accepts is dropped
+ * and the invite tried instead.
+ */
+export async function fetchRoomToken(roomName: string, identity: string): Promise<string> {
+  const session = usableSession(identity);
+  if (session) {
+    try {
+      const { token } = await requestToken('/api/twilio/refresh-token', { room: roomName, identity }, session.session);
+      return token;
+    } catch (error) {
+      if (!(error instanceof RoomTokenError) || error.status !== 401) throw error;
+      console.warn('⚠️ Room session no longer accepted, redeeming the invite again:', error.message);
+      saveSession(null);
+    }
+  }
+
+  const { token } = await redeemInvite(roomName, identity);
+  return token;
+}
+
+/**
+ * The tab's session for `identity`'s name and role, redeeming the invite
+ * for `roomName` when there isn't one yet (the token that comes with it
+ * goes unused)
+ */
+export async function getRoomSession(roomName: string, identity: string): Promise<string> {
+  const stored = usableSession(identity);
+  if (stored) return stored.session;
+  const { session } = await redeemInvite(roomName, identity);
+  if (!session) throw new RoomTokenError(401, 'The invite did not come with a session');
+  return session;
+}
+
+/** `Authorization` header value for requests made on the wrestler's behalf */
+export async function roomAuthorization(roomName: string, identity: string): Promise<string> {
+  return `Bearer ${await getRoomSession(roomName, identity)}`;
+}
@@ -0,0 +1,302 @@
+/**
+ * Room Connection
+ *
+ * One connection to a training room on Twilio Video, used by everything
+ * that joins one: the coach panels in the headset, the headset view
+ * publisher and the coach dashboard. It fetches a token, connects and keeps
+ * the other participants and their subscribed tracks as a store any 3D or
+ * DOM component can subscribe to. Tokens come from room-access.ts, which
+ * holds the tab's invite and session. Twilio's own recovery (`reconnecting` /
+ * `reconnected`) shows up as the `reconnecting` status. When the room drops
+ * for good - signaling lost, media failed, the access token expired - it
+ * reconnects with exponential backoff, fetching a fresh token every time so
+ * an expired one is never reused. Tracks handed to `publish` go into
+ * whichever room is live, so they come back after a reconnect too.
+ */
+
+import type {
+  ConnectOptions,
+  LocalTrack,
+  RemoteDataTrack,
+  RemoteParticipant,
+  RemoteTrack,
+  Room,
+} from 'twilio-video';
+import { fetchRoomToken, RoomTokenError } from './room-access';
+import { parseRoomIdentity } from './room-tracks';
+
+export type RoomConnectionStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+export interface RoomParticipant {
+  /** Participant SID - stable while they stay connected */
+  sid: string;
+  identity: string;
+  name: string;
+  /** `vr`, `coach`, or null for identities that don't follow the convention */
+  role: string | null;
+  /** Subscribed tracks */
+  tracks: RemoteTrack[];
+}
+
+export interface RoomConnectionState {
+  status: RoomConnectionStatus;
+  /** The live room - a new one after every full reconnect */
+  room: Room | null;
+  /** Everyone else in the room, in the order they joined */
+  participants: RoomParticipant[];
+  /** Reconnect attempts since the room was last connected */
+  retries: number;
+  error: string | null;
+}
+
+export interface RoomConnectionOptions {
+  roomName: string;
+  /** Kept across reconnects so the others see the same participant come back */
+  identity: string;
+  /** What to publish and how; the room name is filled in */
+  connect?: Omit<ConnectOptions, 'name'>;
+  /** Join without the camera when it can't be opened, instead of failing */
+  videoOptional?: boolean;
+  /** Stand-ins for Twilio's connect, the token fetch and the backoff timer - for tests */
+  connectRoom?: (token: string, options: ConnectOptions) => Promise<Room>;
+  fetchToken?: (roomName: string, identity: string) => Promise<string>;
+  /** Runs `retry` after `delayMs`; returns a function that cancels it */
+  schedule?: (retry: () => void, delayMs: number) => () => void;
+}
+
+type Listener = (state: RoomConnectionState) => void;
+type MessageListener = (data: string | ArrayBuffer, track: RemoteDataTrack, participant: RemoteParticipant) => void;
+
+// Backoff between full reconnects - 1s, 2s, 4s... up to 30s - then give up
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 30000;
+const MAX_RETRIES = 8;
+
+// Twilio errors worth another go: access token expired (a fresh one is
+// fetched), signaling connection lost or timed out, media connection failed
+const RETRYABLE_TWILIO_CODES = new Set([20104, 53000, 53001, 53002, 53405, 53407]);
+// getUserMedia failures - no camera, or it's busy or refused
+const CAMERA_ERRORS = new Set(['NotFoundError', 'NotAllowedError', 'NotReadableError', 'OverconstrainedError']);
+
+const IDLE_STATE: RoomConnectionState = { status: 'idle', room: null, participants: [], retries: 0, error: null };
+
+/** Whether a failed connect or a dropped room is worth another attempt */
+export function isRetryableRoomError(error: unknown) {
+  // Not invited (401/403) stays failed; throttled or a server hiccup is worth another go
+  if (error instanceof RoomTokenError) return error.status === 429 || error.status >= 500;
+  // fetch() rejects with a TypeError when the network is down
+  if (error instanceof TypeError) return true;
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'number' && RETRYABLE_TWILIO_CODES.has(code);
+}
+
+/** How long to wait before reconnect attempt `retries + 1` */
+export function roomRetryDelay(retries: number) {
+  return Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** retries);
+}
+
+function scheduleRetry(retry: () => void, delayMs: number) {
+  const timer = setTimeout(retry, delayMs);
+  return () => clearTimeout(timer);
+}
+
+function describeParticipant(participant: RemoteParticipant, without: RemoteTrack | null = null): RoomParticipant {
+  const tracks: RemoteTrack[] = [];
+  participant.tracks.forEach((publication) => {
+    if (publication.track && publication.track !== without) tracks.push(publication.track);
+  });
+  return { sid: participant.sid, identity: participant.identity, ...parseRoomIdentity(participant.identity), tracks };
+}
+
+export class RoomConnection {
+  private readonly options: RoomConnectionOptions;
+  private state: RoomConnectionState = IDLE_STATE;
+  // Bumped by every new attempt and by disconnect() so one still in flight is dropped when it lands
+  private attempt = 0;
+  private cancelRetry: (() => void) | null = null;
+  private readonly listeners = new Set<Listener>();
+  private readonly messageListeners = new Set<MessageListener>();
+  private readonly published = new Set<LocalTrack>();
+
+  constructor(options: RoomConnectionOptions) {
+    this.options = options;
+  }
+
+  getState(): RoomConnectionState {
+    return this.state;
+  }
+
+  /** Called right away with the current state, then on every change */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => this.listeners.delete(listener);
+  }
+
+  /** Every message on every subscribed data track, from whichever room is live */
+  subscribeMessages(listener: MessageListener): () => void {
+    this.messageListeners.add(listener);
+    return () => this.messageListeners.delete(listener);
+  }
+
+  /** Publishes `track` into the live room and every room after it, until unpublish() */
+  publish(track: LocalTrack) {
+    if (this.published.has(track)) return;
+    this.published.add(track);
+    const room = this.state.room;
+    if (room) this.publishTo(room, track);
+  }
+
+  unpublish(track: LocalTrack) {
+    if (!this.published.delete(track)) return;
+    this.state.room?.localParticipant.unpublishTrack(track);
+  }
+
+  /** Joins the room - does nothing while already connecting or connected */
+  connect() {
+    if (this.state.status !== 'idle' && this.state.status !== 'error') return;
+    this.setState({ retries: 0, error: null });
+    void this.open(++this.attempt);
+  }
+
+  /** Leaves the room and stops reconnecting */
+  disconnect() {
+    this.attempt++;
+    this.cancelRetry?.();
+    this.cancelRetry = null;
+    const room = this.state.room;
+    this.setState(IDLE_STATE);
+    if (room) {
+      room.disconnect();
+      console.log(`👋 Left room ${room.name}`);
+    }
+  }
+
+  dispose() {
+    this.disconnect();
+    this.listeners.clear();
+    this.messageListeners.clear();
+    this.published.clear();
+  }
+
+  private async open(attempt: number) {
+    const { roomName, identity } = this.options;
+    if (attempt !== this.attempt) return;
+    this.setState({ status: this.state.retries > 0 ? 'reconnecting' : 'connecting' });
+    try {
+      const connect = this.options.connectRoom ?? (await import('twilio-video')).connect;
+      const token = await (this.options.fetchToken ?? fetchRoomToken)(roomName, identity);
+      if (attempt !== this.attempt) return;
+      const room = await this.join(connect, token);
+      if (attempt !== this.attempt) {
+        room.disconnect();
+        return;
+      }
+
+      this.watch(room);
+      console.log(`🎥 Joined room ${room.name} as ${identity} (${room.participants.size} already there)`);
+      const participants: RoomParticipant[] = [];
+      room.participants.forEach((participant) => participants.push(describeParticipant(participant)));
+      this.setState({ status: 'connected', room, participants, retries: 0, error: null });
+      this.published.forEach((track) => this.publishTo(room, track));
+    } catch (error) {
+      if (attempt !== this.attempt) return;
+      this.fail(error);
+    }
+  }
+
+  private async join(connect: (token: string, options: ConnectOptions) => Promise<Room>, token: string) {
+    const options: ConnectOptions = { ...this.options.connect, name: this.options.roomName };
+    try {
+      return await connect(token, options);
+    } catch (error) {
+      const name = error instanceof Error ? error.name : '';
+      if (!this.options.videoOptional || !options.video || !CAMERA_ERRORS.has(name)) throw error;
+      console.warn('⚠️ Camera not available, joining without video:', (error as Error).message);
+      return connect(token, { ...options, video: false });
+    }
+  }
+
+  private publishTo(room: Room, track: LocalTrack) {
+    room.localParticipant.publishTrack(track).catch((error: unknown) => {
+      if (this.state.room === room) console.warn(`⚠️ Could not publish ${track.name} in ${room.name}:`, error);
+    });
+  }
+
+  // Twilio's typings only declare `on`, so handlers stay attached to old rooms and check they're still current
+  private watch(room: Room) {
+    const current = () => this.state.room === room;
+    const update = (participant: RemoteParticipant, without: RemoteTrack | null = null) => {
+      if (!current()) return;
+      const next = describeParticipant(participant, without);
+      const known = this.state.participants.some((existing) => existing.sid === next.sid);
+      this.setState({
+        participants: known
+          ? this.state.participants.map((existing) => (existing.sid === next.sid ? next : existing))
+          : [...this.state.participants, next],
+      });
+    };
+
+    room.on('participantConnected', (participant) => {
+      if (current()) console.log(`👤 ${participant.identity} joined ${room.name}`);
+      update(participant);
+    });
+    room.on('participantDisconnected', (participant) => {
+      if (!current()) return;
+      console.log(`👋 ${participant.identity} left ${room.name}`);
+      this.setState({ participants: this.state.participants.filter((existing) => existing.sid !== participant.sid) });
+    });
+    room.on('trackSubscribed', (_track, _publication, participant) => update(participant));
+    room.on('trackUnsubscribed', (track, _publication, participant) => update(participant, track));
+    room.on('trackMessage', (data, track, participant) => {
+      if (current()) this.messageListeners.forEach((listener) => listener(data, track, participant));
+    });
+
+    room.on('reconnecting', (error) => {
+      if (!current()) return;
+      console.warn(`🔁 Room ${room.name} reconnecting:`, error.message);
+      this.setState({ status: 'reconnecting', error: error.message });
+    });
+    room.on('reconnected', () => {
+      if (!current()) return;
+      console.log(`✅ Room ${room.name} reconnected`);
+      this.setState({ status: 'connected', error: null });
+    });
+    room.on('disconnected', (_room, error) => {
+      if (!current()) return;
+      if (!error) {
+        // Ended from the Twilio side without an error, e.g. the room was completed
+        console.log(`👋 Room ${room.name} ended`);
+        this.setState(IDLE_STATE);
+        return;
+      }
+      this.fail(error);
+    });
+  }
+
+  private fail(error: unknown) {
+    const message = error instanceof Error ? error.message : 'Could not join the room';
+    const { retries } = this.state;
+
+    if (isRetryableRoomError(error) && retries < MAX_RETRIES) {
+      const delay = roomRetryDelay(retries);
+      const attempt = ++this.attempt;
+      console.warn(`🔁 Room ${this.options.roomName}: ${message} - retrying in ${delay / 1000}s`);
+      this.setState({ status: 'reconnecting', room: null, participants: [], retries: retries + 1, error: message });
+      this.cancelRetry = (this.options.schedule ?? scheduleRetry)(() => {
+        this.cancelRetry = null;
+        void this.open(attempt);
+      }, delay);
+      return;
+    }
+
+    console.error(`❌ Room ${this.options.roomName} error:`, error);
+    this.setState({ status: 'error', room: null, participants: [], error: message });
+  }
+
+  private setState(update: Partial<RoomConnectionState>) {
+    this.state = { ...this.state, ...update };
+    const state = this.state;
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Room Tracks
+ *
+ * Naming conventions for a training room on Twilio Video. Participants are
+ * `<name>-<role>-<timestamp>` (`Jake-vr-1718000000000`,
+ * `Coach-coach-1718000000000`) and athletes' tracks are told apart by name:
+ * the headset view, the webcam the avatar mirror runs on and pose data
+ * (BlazePose keypoints as JSON on a data track), plus the coach's control
+ * channel. Publishers and the coach dashboard both go through this file so
+ * the names can't drift apart.
+ */
+
+import type { LivePose } from '../pose/live-pose';
+import type { PoseKeypoint } from '../pose/reference-track';
+
+export const ROOM_TRACK_NAMES = {
+  /** What the wrestler sees in the headset */
+  headsetView: 'headset-view',
+  /** The camera pointed at the wrestler */
+  webcam: 'webcam-mirror',
+  /** Live keypoints, see encodePoseData */
+  pose: 'pose-data',
+  /** Coach commands and the athletes' acknowledgements, see coach-channel.ts */
+  coachControl: 'coach-control',
+} as const;
+
+export type RoomParticipantRole = 'vr' | 'coach' | 'observer';
+
+export interface RoomParticipantIdentity {
+  /** Display name as typed into the URL */
+  name: string;
+  /** `vr` for headsets, `coach` for the broadcast page, `observer` for watch-only invites; null for identities that don't follow the convention */
+  role: string | null;
+}
+
+export function roomIdentity(name: string, role: RoomParticipantRole) {
+  return `${name}-${role}-${Date.now()}`;
+}
+
+/** "Jake-Smith-vr-1718000000000" → Jake-Smith, vr; anything else is all name */
+export function parseRoomIdentity(identity: string): RoomParticipantIdentity {
+  const match = /^(.+)-([a-z]+)-(\d+)$/.exec(identity);
+  return match ? { name: match[1], role: match[2] } : { name: identity, role: null };
+}
+
+/** A pose as received from an athlete - same keypoint convention as the live pose store */
+export interface RemotePose {
+  keypoints: PoseKeypoint[];
+  /** Camera frame aspect ratio (width / height) */
+  aspect: number;
+  /** performance.now() on this side when it arrived */
+  receivedAt: number;
+}
+
+// Data track messages are capped at 16 KiB - three rounded numbers per keypoint keeps a pose well under
+const POSE_PRECISION = 1000;
+
+export function encodePoseData(pose: LivePose): string {
+  const round = (value: number) => Math.round(value * POSE_PRECISION) / POSE_PRECISION;
+  return JSON.stringify({
+    type: 'pose',
+    aspect: round(pose.aspect),
+    keypoints: pose.keypoints.flatMap(({ x, y, score }) => [round(x), round(y), round(score)]),
+  });
+}
+
+/** Null for anything that isn't a pose message - other data on the track is ignored */
+export function decodePoseData(data: string | ArrayBuffer): RemotePose | null {
+  if (typeof data !== 'string') return null;
+  try {
+    const message = JSON.parse(data) as { type?: unknown; aspect?: unknown; keypoints?: unknown };
+    if (message.type !== 'pose' || typeof message.aspect !== 'number' || !Array.isArray(message.keypoints)) {
+      return null;
+    }
+    const flat = message.keypoints.filter((value): value is number => typeof value === 'number');
+    const keypoints: PoseKeypoint[] = [];
+    for (let index = 0; index + 2 < flat.length; index += 3) {
+      keypoints.push({ x: flat[index], y: flat[index + 1], score: flat[index + 2] });
+    }
+    return { keypoints, aspect: message.aspect, receivedAt: performance.now() };
+  } catch {
+    return null;
+  }
+}
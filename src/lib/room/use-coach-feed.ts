@@ -0,0 +1,90 @@
+import React from 'react';
+import type { RemoteAudioTrack, RemoteVideoTrack } from 'twilio-video';
+import { RoomConnection, type RoomConnectionStatus } from './room-connection';
+import { roomIdentity } from './room-tracks';
+
+export interface CoachFeed {
+  status: RoomConnectionStatus;
+  /** Name of the coach on screen, null until one joins */
+  coachName: string | null;
+  /** Plays the coach's video once there is one - the same element throughout, for a texture or an XR layer */
+  video: HTMLVideoElement;
+  hasVideo: boolean;
+}
+
+function createOffscreenVideo() {
+  const video = document.createElement('video');
+  video.autoplay = true;
+  // The coach's voice plays from its own audio element - muted keeps autoplay allowed
+  video.muted = true;
+  video.playsInline = true;
+  video.setAttribute('playsinline', 'true');
+  video.setAttribute('webkit-playsinline', 'true');
+  // Off-screen rather than display:none, which leaves VR textures black
+  video.style.position = 'absolute';
+  video.style.left = '-9999px';
+  video.style.opacity = '0';
+  video.style.pointerEvents = 'none';
+  document.body.appendChild(video);
+  return video;
+}
+
+/**
+ * The headset's side of the coach's broadcast: joins the training room
+ * (publishing the wrestler's mic, and their camera when there is one) and
+ * plays the first coach there - video into an off-screen element, audio
+ * straight out. When that coach leaves the next one takes over; dropped
+ * connections are picked up again by the room connection.
+ */
+export function useCoachFeed(roomName: string, userName: string): CoachFeed {
+  const connection = React.useMemo(
+    () =>
+      new RoomConnection({
+        roomName,
+        identity: roomIdentity(userName, 'vr'),
+        connect: { audio: true, video: { width: 640, height: 480 } },
+        videoOptional: true,
+      }),
+    [roomName, userName]
+  );
+  const [state, setState] = React.useState(() => connection.getState());
+  const video = React.useMemo(createOffscreenVideo, []);
+
+  React.useEffect(() => {
+    const unsubscribe = connection.subscribe(setState);
+    connection.connect();
+    return () => {
+      unsubscribe();
+      connection.dispose();
+    };
+  }, [connection]);
+
+  React.useEffect(() => () => video.remove(), [video]);
+
+  const coach = state.participants.find((participant) => participant.role === 'coach') ?? null;
+  const videoTrack = coach?.tracks.find((track): track is RemoteVideoTrack => track.kind === 'video') ?? null;
+  const audioTrack = coach?.tracks.find((track): track is RemoteAudioTrack => track.kind === 'audio') ?? null;
+
+  React.useEffect(() => {
+    if (!videoTrack) return;
+    videoTrack.attach(video);
+    video.play().catch((error) => console.warn('⚠️ [VR COACH] Video play failed:', error.name, error.message));
+    console.log('📹 [VR COACH] Coach video attached');
+    return () => {
+      videoTrack.detach(video);
+    };
+  }, [video, videoTrack]);
+
+  React.useEffect(() => {
+    if (!audioTrack) return;
+    const audio = audioTrack.attach();
+    document.body.appendChild(audio);
+    console.log('🔊 [VR COACH] Coach audio playing');
+    return () => {
+      audioTrack.detach(audio);
+      audio.remove();
+    };
+  }, [audioTrack]);
+
+  return { status: state.status, coachName: coach?.name ?? null, video, hasVideo: videoTrack !== null };
+}
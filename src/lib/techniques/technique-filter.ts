@@ -0,0 +1,94 @@
+/**
+ * Technique Filter
+ *
+ * Matching rules for the in-VR technique browser. Every facet is optional;
+ * a technique is shown when it matches all facets that are set.
+ */
+
+import type {
+  TechniqueCategory,
+  TechniqueDifficulty,
+  TechniqueEntry,
+  TechniquePosition,
+} from './technique-manifest';
+
+export interface TechniqueFilter {
+  category: TechniqueCategory | null;
+  position: TechniquePosition | null;
+  difficulty: TechniqueDifficulty | null;
+  /** Free text - every word must appear in the title, tags or facets */
+  query: string;
+}
+
+/** What happens to cards that don't match */
+export type TechniqueFilterDisplay = 'dim' | 'hide';
+
+export const EMPTY_TECHNIQUE_FILTER: TechniqueFilter = {
+  category: null,
+  position: null,
+  difficulty: null,
+  query: '',
+};
+
+export function isTechniqueFilterActive(filter: TechniqueFilter): boolean {
+  return (
+    filter.category !== null ||
+    filter.position !== null ||
+    filter.difficulty !== null ||
+    filter.query.trim().length > 0
+  );
+}
+
+function searchableText(technique: TechniqueEntry): string {
+  return [
+    technique.title,
+    technique.category,
+    technique.position ?? '',
+    technique.difficulty ?? '',
+    technique.weightClass,
+    // "single-leg" tags should match a "single leg" search
+    ...technique.tags.map((tag) => tag.replace(/[-_]/g, ' ')),
+  ]
+    .join(' ')
+    .toLowerCase();
+}
+
+export function matchesTechniqueFilter(technique: TechniqueEntry, filter: TechniqueFilter): boolean {
+  if (filter.category && technique.category !== filter.category) return false;
+  if (filter.position && technique.position !== filter.position) return false;
+  if (filter.difficulty && technique.difficulty !== filter.difficulty) return false;
+
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return true;
+  }
+
+  const text = searchableText(technique);
+  return words.every((word) => text.includes(word));
+}
+
+/**
+ * Ids of the techniques that match - cards not in the set get dimmed or hidden.
+ */
+export function filterTechniqueIds(techniques: TechniqueEntry[], filter: TechniqueFilter): Set<string> {
+  return new Set(
+    techniques.filter((technique) => matchesTechniqueFilter(technique, filter)).map(({ id }) => id)
+  );
+}
+
+/**
+ * Facet values that actually occur in the library, in their canonical order,
+ * so the browser never offers a category with zero clips. Empty when the
+ * facet can't narrow anything - every clip has the same value, or none is
+ * tagged - and the browser leaves it out.
+ */
+export function availableFacetValues<T extends string>(
+  techniques: TechniqueEntry[],
+  allValues: readonly T[],
+  read: (technique: TechniqueEntry) => T | null
+): T[] {
+  // Untagged clips count as a value of their own: "top" narrows a library where only some are tagged
+  const present = new Set(techniques.map(read));
+  if (present.size < 2) return [];
+  return allValues.filter((value) => present.has(value));
+}
@@ -0,0 +1,64 @@
+/**
+ * Technique Manifest
+ *
+ * Loads the technique video library. The manifest is served by the backend
+ * (`GET /api/techniques`) so staff can add clips without a code change, and
+ * is validated again here before the VR scene turns it into cards - with the
+ * schema the backend uses (server/coach/technique-manifest.ts).
+ */
+
+import { parseTechniqueManifest, type TechniqueManifest } from '../../../server/coach/technique-manifest';
+
+export {
+  TECHNIQUE_CATEGORIES,
+  TECHNIQUE_DIFFICULTIES,
+  TECHNIQUE_MANIFEST_VERSION,
+  TECHNIQUE_POSITIONS,
+  TechniqueManifestError,
+  parseTechniqueManifest,
+  type TechniqueCategory,
+  type TechniqueDifficulty,
+  type TechniqueEntry,
+  type TechniqueManifest,
+  type TechniquePosition,
+} from '../../../server/coach/technique-manifest';
+
+function resolveManifestUrl(): string {
+  const explicitUrl = import.meta.env.VITE_TECHNIQUE_MANIFEST_URL;
+  if (explicitUrl) {
+    return explicitUrl;
+  }
+  const apiUrl = import.meta.env.VITE_API_URL || window.location.origin;
+  return `${apiUrl}/api/techniques`;
+}
+
+// Static copy shipped with the app - used when the API is unreachable (local dev, offline gyms)
+const BUNDLED_MANIFEST_URL = '/technique-manifest.json';
+
+async function fetchManifest(url: string, signal?: AbortSignal): Promise<TechniqueManifest> {
+  const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Failed to load technique manifest from ${url}: ${response.status}`);
+  }
+  return parseTechniqueManifest(await response.json());
+}
+
+/**
+ * Load the technique manifest from the backend, falling back to the bundled copy.
+ */
+export async function loadTechniqueManifest(signal?: AbortSignal): Promise<TechniqueManifest> {
+  const manifestUrl = resolveManifestUrl();
+
+  try {
+    const manifest = await fetchManifest(manifestUrl, signal);
+    console.log(`[TECHNIQUES] ✅ Loaded ${manifest.techniques.length} techniques from ${manifestUrl}`);
+    return manifest;
+  } catch (error) {
+    if (signal?.aborted) {
+      throw error;
+    }
+    console.warn('[TECHNIQUES] ⚠️ Manifest API unavailable, using bundled manifest', error);
+  }
+
+  return fetchManifest(BUNDLED_MANIFEST_URL, signal);
+}
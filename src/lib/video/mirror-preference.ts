@@ -0,0 +1,44 @@
+/**
+ * Mirror Preference
+ *
+ * Wrestlers who shoot off the opposite leg from the clips can flip every
+ * technique video (and its overlays) horizontally. The global setting is
+ * remembered per user; individual cards can be flipped on top of it.
+ */
+
+import type * as THREE from 'three';
+
+const STORAGE_PREFIX = 'aether-vr:mirror';
+
+export function getGlobalMirror(userId: string): boolean {
+  try {
+    return window.localStorage.getItem(`${STORAGE_PREFIX}:${userId}`) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+export function setGlobalMirror(userId: string, mirrored: boolean) {
+  try {
+    window.localStorage.setItem(`${STORAGE_PREFIX}:${userId}`, String(mirrored));
+  } catch (error) {
+    console.warn('[MIRROR] Failed to persist mirror preference', error);
+  }
+}
+
+/**
+ * A card is mirrored when exactly one of the global and per-card toggles is on,
+ * so flipping one card while everything is mirrored shows it the original way.
+ */
+export function isCardMirrored(globalMirror: boolean, cardFlipped: boolean): boolean {
+  return globalMirror !== cardFlipped;
+}
+
+/**
+ * Flip a texture horizontally through its UV transform - no extra draw calls
+ * and it works for video, canvas and image textures alike.
+ */
+export function applyTextureMirror(texture: THREE.Texture, mirrored: boolean) {
+  texture.repeat.x = mirrored ? -1 : 1;
+  texture.offset.x = mirrored ? 1 : 0;
+}
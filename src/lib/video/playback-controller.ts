@@ -0,0 +1,303 @@
+/**
+ * Playback Controller
+ *
+ * One controller per technique card, registered by card id so anything in the
+ * app (the card's own controls, the AI coach, voice commands) can drive the
+ * same video: seek, slow motion, single-frame steps and A-B loops.
+ *
+ * Streams come and go with the video resource manager's budget; the
+ * controller remembers rate, loop and pending seeks and re-applies them when
+ * a stream is attached again.
+ */
+
+import type { LiveVideo, VideoResourceManager } from './video-resource-manager';
+
+export const PLAYBACK_RATES = [0.25, 0.5, 1] as const;
+
+export type PlaybackRate = (typeof PLAYBACK_RATES)[number];
+
+// HLS doesn't expose the frame rate - technique clips are shot at 30fps
+const DEFAULT_FRAME_RATE = 30;
+
+export interface PlaybackState {
+  /** A live stream is attached (otherwise the card shows its poster) */
+  isLive: boolean;
+  isPlaying: boolean;
+  currentTime: number;
+  /** 0 until metadata has loaded */
+  duration: number;
+  rate: PlaybackRate;
+  loopStart: number | null;
+  loopEnd: number | null;
+}
+
+export class PlaybackController {
+  readonly id: string;
+  private readonly manager: VideoResourceManager;
+  private readonly frameRate: number;
+  private live: LiveVideo | null = null;
+  private wantsPlayback = false;
+  private pendingSeek: number | null = null;
+  private rate: PlaybackRate = 1;
+  private loopStart: number | null = null;
+  private loopEnd: number | null = null;
+  private readonly listeners = new Set<(state: PlaybackState) => void>();
+  private readonly unsubscribeManager: () => void;
+
+  constructor(id: string, manager: VideoResourceManager, frameRate = DEFAULT_FRAME_RATE) {
+    this.id = id;
+    this.manager = manager;
+    this.frameRate = frameRate;
+    this.unsubscribeManager = manager.subscribe(id, () => this.attach(manager.getLiveVideo(id)));
+    this.attach(manager.getLiveVideo(id));
+  }
+
+  /** True while the user (or coach) has asked for playback - gaze warmups must not pause it */
+  get isPlaybackRequested() {
+    return this.wantsPlayback;
+  }
+
+  get video(): HTMLVideoElement | null {
+    return this.live?.video ?? null;
+  }
+
+  getState(): PlaybackState {
+    const video = this.live?.video;
+    return {
+      isLive: Boolean(video),
+      isPlaying: Boolean(video && !video.paused && !video.ended),
+      currentTime: video ? video.currentTime : (this.pendingSeek ?? 0),
+      duration: video && Number.isFinite(video.duration) ? video.duration : 0,
+      rate: this.rate,
+      loopStart: this.loopStart,
+      loopEnd: this.loopEnd,
+    };
+  }
+
+  subscribe(listener: (state: PlaybackState) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.getState());
+    return () => this.listeners.delete(listener);
+  }
+
+  play() {
+    this.wantsPlayback = true;
+    // Pinning attaches a stream straight away if the card doesn't have one yet
+    const live = this.manager.pin(this.id);
+    if (live && live !== this.live) {
+      this.attach(live);
+    }
+    this.live?.video.play()?.catch(() => {});
+    this.emit();
+  }
+
+  pause() {
+    this.wantsPlayback = false;
+    this.manager.unpin(this.id);
+    this.live?.video.pause();
+    this.emit();
+  }
+
+  toggle() {
+    if (this.getState().isPlaying) {
+      this.pause();
+    } else {
+      this.play();
+    }
+  }
+
+  seek(seconds: number) {
+    const video = this.live?.video;
+    const duration = video && Number.isFinite(video.duration) ? video.duration : Infinity;
+    const target = Math.max(0, Math.min(seconds, duration));
+
+    if (video && video.readyState >= 1) {
+      video.currentTime = target;
+      this.pendingSeek = null;
+    } else {
+      // Applied once the stream's metadata arrives
+      this.pendingSeek = target;
+    }
+    this.emit();
+  }
+
+  /** Jump to a time and start playing - e.g. the coach saying "watch from 0:04" */
+  playFrom(seconds: number) {
+    this.seek(seconds);
+    this.play();
+  }
+
+  setRate(rate: PlaybackRate) {
+    this.rate = rate;
+    if (this.live) {
+      this.live.video.playbackRate = rate;
+    }
+    this.emit();
+  }
+
+  /** 1x → 0.5x → 0.25x → 1x */
+  cycleRate() {
+    const index = PLAYBACK_RATES.indexOf(this.rate);
+    this.setRate(PLAYBACK_RATES[(index - 1 + PLAYBACK_RATES.length) % PLAYBACK_RATES.length]);
+  }
+
+  /** Pause and move exactly one frame forward (1) or back (-1) */
+  stepFrame(direction: 1 | -1) {
+    if (this.getState().isPlaying) {
+      this.pause();
+    }
+    this.seek(this.getState().currentTime + direction / this.frameRate);
+  }
+
+  setLoopStart(seconds = this.getState().currentTime) {
+    this.loopStart = seconds;
+    if (this.loopEnd !== null && this.loopEnd <= seconds) {
+      this.loopEnd = null;
+    }
+    this.emit();
+  }
+
+  setLoopEnd(seconds = this.getState().currentTime) {
+    if (this.loopStart !== null && seconds <= this.loopStart) {
+      return;
+    }
+    this.loopEnd = seconds;
+    this.emit();
+  }
+
+  setLoop(start: number, end: number) {
+    if (end <= start) {
+      throw new Error(`Loop end (${end}s) must be after loop start (${start}s)`);
+    }
+    this.loopStart = start;
+    this.loopEnd = end;
+    this.emit();
+  }
+
+  clearLoop() {
+    this.loopStart = null;
+    this.loopEnd = null;
+    this.emit();
+  }
+
+  /**
+   * Enforce the A-B loop. Called every frame by the card - `timeupdate` only
+   * fires ~4 times a second, far too coarse for a half-second shot.
+   */
+  tick() {
+    const video = this.live?.video;
+    if (!video || video.paused || this.loopEnd === null) {
+      return;
+    }
+    if (video.currentTime >= this.loopEnd || video.currentTime < (this.loopStart ?? 0) - 0.25) {
+      video.currentTime = this.loopStart ?? 0;
+    }
+  }
+
+  dispose() {
+    this.unsubscribeManager();
+    this.detach();
+    this.listeners.clear();
+  }
+
+  private readonly handleVideoEvent = () => this.emit();
+
+  private readonly handleMetadata = () => {
+    if (this.pendingSeek !== null && this.live) {
+      this.live.video.currentTime = this.pendingSeek;
+      this.pendingSeek = null;
+    }
+    this.emit();
+  };
+
+  private attach(live: LiveVideo | null) {
+    if (live === this.live) return;
+
+    this.detach();
+    this.live = live;
+
+    if (!live) {
+      // Evicted - a new stream starts paused
+      this.wantsPlayback = false;
+      this.emit();
+      return;
+    }
+
+    const { video } = live;
+    video.playbackRate = this.rate;
+    video.addEventListener('loadedmetadata', this.handleMetadata);
+    ['play', 'pause', 'seeked', 'ratechange', 'durationchange', 'timeupdate'].forEach((type) =>
+      video.addEventListener(type, this.handleVideoEvent)
+    );
+    if (video.readyState >= 1) {
+      this.handleMetadata();
+    }
+    this.emit();
+  }
+
+  private detach() {
+    const video = this.live?.video;
+    if (!video) return;
+
+    video.removeEventListener('loadedmetadata', this.handleMetadata);
+    ['play', 'pause', 'seeked', 'ratechange', 'durationchange', 'timeupdate'].forEach((type) =>
+      video.removeEventListener(type, this.handleVideoEvent)
+    );
+    this.live = null;
+  }
+
+  private emit() {
+    if (this.listeners.size === 0) return;
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+const controllers = new Map<string, PlaybackController>();
+
+export function registerPlaybackController(controller: PlaybackController) {
+  controllers.get(controller.id)?.dispose();
+  controllers.set(controller.id, controller);
+}
+
+export function unregisterPlaybackController(controller: PlaybackController) {
+  if (controllers.get(controller.id) === controller) {
+    controllers.delete(controller.id);
+  }
+  controller.dispose();
+}
+
+/**
+ * Controller for a technique card, if that card is in the scene.
+ */
+export function getPlaybackController(id: string): PlaybackController | null {
+  return controllers.get(id) ?? null;
+}
+
+export function listPlaybackControllers(): PlaybackController[] {
+  return Array.from(controllers.values());
+}
+
+/**
+ * Parse "0:04", "1:02.5", "4" or "4.2s" into seconds. Returns null for anything else.
+ */
+export function parseTimestamp(value: string): number | null {
+  const trimmed = value.trim().replace(/s$/i, '');
+  const match = /^(?:(\d+):)?(\d+(?:\.\d+)?)$/.exec(trimmed);
+  if (!match) {
+    return null;
+  }
+  const minutes = match[1] ? Number(match[1]) : 0;
+  const seconds = Number(match[2]);
+  if (match[1] && seconds >= 60) {
+    return null;
+  }
+  return minutes * 60 + seconds;
+}
+
+export function formatTimestamp(seconds: number): string {
+  const safe = Math.max(0, seconds);
+  const minutes = Math.floor(safe / 60);
+  const remainder = safe - minutes * 60;
+  return `${minutes}:${remainder.toFixed(1).padStart(4, '0')}`;
+}
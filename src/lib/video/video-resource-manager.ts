@@ -0,0 +1,363 @@
+/**
+ * Video Resource Manager
+ *
+ * Owns the HTMLVideoElement + THREE.VideoTexture pairs behind the technique
+ * cards. Cards register with a poster-only footprint; a live stream is only
+ * attached when the card is playing or sits in/near the user's gaze, the
+ * number of live decoders is capped, and the least recently used streams are
+ * released when the budget is exceeded or they have been idle too long.
+ */
+
+import * as THREE from 'three';
+
+export interface VideoResourceManagerOptions {
+  /** Max simultaneous live streams (decoders) */
+  maxLiveStreams: number;
+  /** Half-angle of the gaze cone that preloads streams (radians) */
+  gazeConeAngle: number;
+  /** Streams out of gaze and not playing for this long are released */
+  idleReleaseMs: number;
+  /** Clock behind the LRU order and idle release, in ms */
+  now: () => number;
+}
+
+export interface LiveVideo {
+  video: HTMLVideoElement;
+  texture: THREE.VideoTexture;
+}
+
+export interface VideoResourceStats {
+  registered: number;
+  live: number;
+  playing: number;
+  maxLiveStreams: number;
+  /** Highest number of live streams seen since the page loaded */
+  peakLive: number;
+  evictions: number;
+}
+
+/** Anything with a world position - in practice the card's THREE.Group */
+export interface GazeAnchor {
+  visible: boolean;
+  getWorldPosition(target: THREE.Vector3): THREE.Vector3;
+}
+
+interface VideoResource {
+  id: string;
+  url: string;
+  /** World-space anchor used for gaze checks */
+  anchor: GazeAnchor | null;
+  live: LiveVideo | null;
+  /** Wanted by the user (play pressed) - never preempted by gaze */
+  pinned: boolean;
+  inGaze: boolean;
+  lastUsed: number;
+  listeners: Set<() => void>;
+}
+
+const DEFAULT_OPTIONS: VideoResourceManagerOptions = {
+  maxLiveStreams: 4,
+  gazeConeAngle: THREE.MathUtils.degToRad(35),
+  idleReleaseMs: 15000,
+  now: () => performance.now(),
+};
+
+function resolveVideoUrl(videoUrl: string): string {
+  if (typeof window === 'undefined') {
+    return videoUrl;
+  }
+
+  try {
+    return new URL(videoUrl, window.location.origin).toString();
+  } catch (error) {
+    console.warn('[VIDEO] Failed to resolve video URL, falling back to raw value', { videoUrl, error });
+    return videoUrl;
+  }
+}
+
+function createLiveVideo(url: string): LiveVideo {
+  const video = document.createElement('video');
+  video.crossOrigin = 'anonymous';
+  video.setAttribute('crossorigin', 'anonymous');
+  video.loop = true;
+  video.muted = false; // Enable audio
+  video.defaultMuted = false;
+  video.autoplay = false;
+  video.playsInline = true;
+  video.setAttribute('playsinline', 'true');
+  video.setAttribute('webkit-playsinline', 'true');
+  video.setAttribute('loop', 'true');
+  video.preload = 'auto';
+  video.src = url;
+  video.style.position = 'absolute';
+  video.style.width = '1px';
+  video.style.height = '1px';
+  video.style.opacity = '0';
+  video.style.pointerEvents = 'none';
+  video.dataset.techniqueVideo = url;
+  document.body.appendChild(video);
+
+  const texture = new THREE.VideoTexture(video);
+  texture.colorSpace = THREE.SRGBColorSpace;
+  texture.minFilter = THREE.LinearFilter;
+  texture.magFilter = THREE.LinearFilter;
+  texture.generateMipmaps = false;
+
+  video.load();
+  return { video, texture };
+}
+
+function destroyLiveVideo({ video, texture }: LiveVideo) {
+  video.pause();
+  // Dropping the src is what actually frees the decoder and stops HLS segment downloads
+  video.removeAttribute('src');
+  video.load();
+  if (video.parentNode) {
+    video.parentNode.removeChild(video);
+  }
+  texture.dispose();
+}
+
+export class VideoResourceManager {
+  private readonly options: VideoResourceManagerOptions;
+  private readonly resources = new Map<string, VideoResource>();
+  private peakLive = 0;
+  private evictions = 0;
+  private readonly statsListeners = new Set<(stats: VideoResourceStats) => void>();
+
+  private readonly cardPosition = new THREE.Vector3();
+  private readonly toCard = new THREE.Vector3();
+
+  constructor(options: Partial<VideoResourceManagerOptions> = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  register(id: string, videoUrl: string) {
+    const url = resolveVideoUrl(videoUrl);
+    const existing = this.resources.get(id);
+    if (existing) {
+      if (existing.url !== url) {
+        this.release(existing);
+        existing.url = url;
+      }
+      return;
+    }
+
+    this.resources.set(id, {
+      id,
+      url,
+      anchor: null,
+      live: null,
+      pinned: false,
+      inGaze: false,
+      lastUsed: 0,
+      listeners: new Set(),
+    });
+    this.emitStats();
+  }
+
+  unregister(id: string) {
+    const resource = this.resources.get(id);
+    if (!resource) return;
+
+    this.release(resource);
+    this.resources.delete(id);
+    this.emitStats();
+  }
+
+  setAnchor(id: string, anchor: GazeAnchor | null) {
+    const resource = this.resources.get(id);
+    if (resource) {
+      resource.anchor = anchor;
+    }
+  }
+
+  getLiveVideo(id: string): LiveVideo | null {
+    return this.resources.get(id)?.live ?? null;
+  }
+
+  /** Notified whenever the card's stream is attached or released */
+  subscribe(id: string, listener: () => void): () => void {
+    const resource = this.resources.get(id);
+    if (!resource) {
+      return () => {};
+    }
+    resource.listeners.add(listener);
+    return () => resource.listeners.delete(listener);
+  }
+
+  /**
+   * The user wants this card playing - attach a stream immediately, evicting
+   * the least recently used one if the budget is full.
+   */
+  pin(id: string): LiveVideo | null {
+    const resource = this.resources.get(id);
+    if (!resource) return null;
+
+    resource.pinned = true;
+    resource.lastUsed = this.options.now();
+    this.attach(resource);
+    this.enforceBudget(resource);
+    this.recordPeak();
+    return resource.live;
+  }
+
+  unpin(id: string) {
+    const resource = this.resources.get(id);
+    if (!resource) return;
+
+    resource.pinned = false;
+    resource.lastUsed = this.options.now();
+    this.emitStats();
+  }
+
+  /**
+   * Preload streams for cards in the gaze cone (closest to the centre first)
+   * and release streams that have been idle too long. Call a few times a second.
+   */
+  updateGaze(viewerPosition: THREE.Vector3, viewDirection: THREE.Vector3) {
+    const now = this.options.now();
+    const cosCone = Math.cos(this.options.gazeConeAngle);
+    const candidates: { resource: VideoResource; alignment: number }[] = [];
+
+    this.resources.forEach((resource) => {
+      resource.inGaze = false;
+      if (!resource.anchor || !resource.anchor.visible) return;
+
+      resource.anchor.getWorldPosition(this.cardPosition);
+      this.toCard.subVectors(this.cardPosition, viewerPosition).normalize();
+      const alignment = this.toCard.dot(viewDirection);
+      if (alignment >= cosCone) {
+        candidates.push({ resource, alignment });
+      }
+    });
+
+    // Gaze never takes budget away from cards the user is actually playing
+    const pinnedCount = Array.from(this.resources.values()).filter((resource) => resource.pinned).length;
+    const gazeBudget = Math.max(0, this.options.maxLiveStreams - pinnedCount);
+
+    candidates
+      .sort((a, b) => b.alignment - a.alignment)
+      .slice(0, gazeBudget)
+      .forEach(({ resource }) => {
+        resource.inGaze = true;
+        resource.lastUsed = now;
+        this.attach(resource);
+      });
+
+    this.resources.forEach((resource) => {
+      const idle = !resource.pinned && !resource.inGaze && now - resource.lastUsed > this.options.idleReleaseMs;
+      if (resource.live && idle) {
+        this.release(resource);
+      }
+    });
+
+    this.enforceBudget();
+    this.recordPeak();
+  }
+
+  getStats(): VideoResourceStats {
+    let live = 0;
+    let playing = 0;
+    this.resources.forEach((resource) => {
+      if (!resource.live) return;
+      live += 1;
+      if (!resource.live.video.paused) {
+        playing += 1;
+      }
+    });
+
+    return {
+      registered: this.resources.size,
+      live,
+      playing,
+      maxLiveStreams: this.options.maxLiveStreams,
+      peakLive: this.peakLive,
+      evictions: this.evictions,
+    };
+  }
+
+  onStats(listener: (stats: VideoResourceStats) => void): () => void {
+    this.statsListeners.add(listener);
+    listener(this.getStats());
+    return () => this.statsListeners.delete(listener);
+  }
+
+  dispose() {
+    this.resources.forEach((resource) => this.release(resource));
+    this.resources.clear();
+    this.emitStats();
+  }
+
+  private attach(resource: VideoResource) {
+    if (resource.live) return;
+
+    resource.live = createLiveVideo(resource.url);
+    resource.live.video.addEventListener('playing', this.handlePlaybackChange);
+    resource.live.video.addEventListener('pause', this.handlePlaybackChange);
+    resource.listeners.forEach((listener) => listener());
+    this.emitStats();
+  }
+
+  private release(resource: VideoResource) {
+    if (!resource.live) return;
+
+    resource.live.video.removeEventListener('playing', this.handlePlaybackChange);
+    resource.live.video.removeEventListener('pause', this.handlePlaybackChange);
+    destroyLiveVideo(resource.live);
+    resource.live = null;
+    resource.listeners.forEach((listener) => listener());
+    this.emitStats();
+  }
+
+  // Evict least recently used streams until we're inside the budget.
+  // Gaze-only streams go first; pinned ones only if every live stream is pinned.
+  private enforceBudget(keep?: VideoResource) {
+    const live = Array.from(this.resources.values()).filter((resource) => resource.live && resource !== keep);
+    let excess = live.length + (keep?.live ? 1 : 0) - this.options.maxLiveStreams;
+    if (excess <= 0) return;
+
+    const byPriority = live.sort((a, b) => {
+      if (a.pinned !== b.pinned) return a.pinned ? 1 : -1;
+      return a.lastUsed - b.lastUsed;
+    });
+
+    for (const resource of byPriority) {
+      if (excess <= 0) break;
+      console.log(`[VIDEO] Evicting stream for ${resource.id} (budget ${this.options.maxLiveStreams})`);
+      resource.pinned = false;
+      this.release(resource);
+      this.evictions += 1;
+      excess -= 1;
+    }
+  }
+
+  // After the budget is enforced - a stream attached just before an eviction doesn't count
+  private recordPeak() {
+    this.peakLive = Math.max(this.peakLive, this.getStats().live);
+  }
+
+  private readonly handlePlaybackChange = () => this.emitStats();
+
+  private emitStats() {
+    if (this.statsListeners.size === 0) return;
+    const stats = this.getStats();
+    this.statsListeners.forEach((listener) => listener(stats));
+  }
+}
+
+let sharedManager: VideoResourceManager | null = null;
+
+/**
+ * Scene-wide manager. `VITE_MAX_LIVE_VIDEOS` overrides the decoder cap
+ * (Quest 2 is comfortable with ~4 HLS streams, desktops can take more).
+ */
+export function getVideoResourceManager(): VideoResourceManager {
+  if (!sharedManager) {
+    const configuredMax = Number(import.meta.env.VITE_MAX_LIVE_VIDEOS);
+    sharedManager = new VideoResourceManager(
+      Number.isFinite(configuredMax) && configuredMax > 0 ? { maxLiveStreams: configuredMax } : {}
+    );
+  }
+  return sharedManager;
+}
@@ -0,0 +1,295 @@
+/**
+ * Card Layout Engine
+ *
+ * Computes where cards go for each arrangement mode. Shared by the R3F scene
+ * (technique cards) and `VRSceneManager` (its own `VRCard`s), so both adapt
+ * the same way to the number of cards and the user's eye height.
+ *
+ * Coordinates follow Three.js: -Z is forward, +X is right, +Y is up.
+ * A card with rotation [0, 0, 0] faces +Z (towards a user looking down -Z).
+ */
+
+import type { Vec3 } from '../layouts/card-layouts';
+
+export const CARD_LAYOUT_MODES = ['ring', 'arc', 'wall', 'carousel', 'focus'] as const;
+
+export type CardLayoutMode = (typeof CARD_LAYOUT_MODES)[number];
+
+export interface CardLayoutOptions {
+  mode: CardLayoutMode;
+  count: number;
+  /** Height of the user's eyes above the floor (meters) */
+  eyeHeight?: number;
+  /** User position - only X/Z are used */
+  origin?: Vec3;
+  /** Direction the user faces, in radians around +Y (0 = looking down -Z) */
+  yaw?: number;
+  /** Card size in meters at scale 1 */
+  cardWidth?: number;
+  cardHeight?: number;
+  /** Preferred card scale - dense layouts may shrink it */
+  scale?: number;
+  /** Space between neighbouring cards (meters) */
+  gap?: number;
+  /** Ring radius before it grows to fit more cards */
+  radius?: number;
+  /** Ring only: keep slot 0 free (the coach card stands there) */
+  reserveFront?: boolean;
+  /** Carousel only */
+  page?: number;
+  pageSize?: number;
+  /** Focus only: index of the card pulled in front of the user */
+  focusIndex?: number;
+}
+
+export interface CardSlot {
+  position: Vec3;
+  rotation: Vec3;
+  scale: number;
+  visible: boolean;
+  focused: boolean;
+}
+
+export interface CardLayoutResult {
+  slots: CardSlot[];
+  pageCount: number;
+}
+
+const DEFAULT_EYE_HEIGHT = 1.55;
+const DEFAULT_CARD_WIDTH = 3.4;
+const DEFAULT_CARD_HEIGHT = 1.95;
+const DEFAULT_SCALE = 0.5;
+const DEFAULT_GAP = 0.3;
+const DEFAULT_RING_RADIUS = 6;
+const DEFAULT_PAGE_SIZE = 5;
+
+// Ring rows are centred this far above the eyes - matches the original hand-tuned ring
+const RING_HEIGHT_OFFSET = 1.5;
+const MAX_RING_ROWS = 3;
+const ARC_RADIUS = 4.5;
+const ARC_SPAN = (Math.PI * 5) / 6; // 150° in front of the user
+const MAX_ARC_ROWS = 3;
+const WALL_DISTANCE = 5;
+const WALL_MAX_WIDTH = 9;
+const CAROUSEL_RADIUS = 3.5;
+const FOCUS_DISTANCE = 2.2;
+const FOCUS_SCALE = 0.6;
+
+type ResolvedOptions = Required<Omit<CardLayoutOptions, 'focusIndex'>> & { focusIndex?: number };
+
+function resolveOptions(options: CardLayoutOptions): ResolvedOptions {
+  return {
+    eyeHeight: DEFAULT_EYE_HEIGHT,
+    origin: [0, 0, 0],
+    yaw: 0,
+    cardWidth: DEFAULT_CARD_WIDTH,
+    cardHeight: DEFAULT_CARD_HEIGHT,
+    scale: DEFAULT_SCALE,
+    gap: DEFAULT_GAP,
+    radius: DEFAULT_RING_RADIUS,
+    reserveFront: false,
+    page: 0,
+    pageSize: DEFAULT_PAGE_SIZE,
+    ...options,
+    count: Math.max(0, Math.floor(options.count)),
+  };
+}
+
+function slotOnCircle(radius: number, angle: number, y: number, scale: number): CardSlot {
+  const x = radius * Math.sin(angle);
+  const z = -radius * Math.cos(angle);
+  // atan2 gives the angle from center to the card, add PI to flip it to face inward
+  const rotationY = Math.atan2(x, z) + Math.PI;
+  return { position: [x, y, z], rotation: [0, rotationY, 0], scale, visible: true, focused: false };
+}
+
+function rowHeights(rows: number, centerY: number, rowSpacing: number) {
+  // Row 0 is the top row
+  return Array.from({ length: rows }, (_, row) => centerY + ((rows - 1) / 2 - row) * rowSpacing);
+}
+
+function ringLayout(options: ResolvedOptions): CardSlot[] {
+  const { count, cardWidth, cardHeight, scale, gap, eyeHeight, reserveFront } = options;
+  const totalSlots = count + (reserveFront ? 1 : 0);
+  if (count === 0) return [];
+
+  const footprint = cardWidth * scale + gap;
+  let radius = options.radius;
+  let rows = Math.ceil(totalSlots / Math.max(1, Math.floor((Math.PI * 2 * radius) / footprint)));
+
+  // Past a few rows the ring gets too tall to read - widen it instead
+  if (rows > MAX_RING_ROWS) {
+    rows = MAX_RING_ROWS;
+    radius = Math.max(radius, (Math.ceil(totalSlots / rows) * footprint) / (Math.PI * 2));
+  }
+
+  const perRow = Math.ceil(totalSlots / rows);
+  const heights = rowHeights(rows, eyeHeight + RING_HEIGHT_OFFSET, cardHeight * scale + 0.025);
+
+  const slots: CardSlot[] = [];
+  for (let slot = reserveFront ? 1 : 0; slot < totalSlots; slot++) {
+    const row = Math.floor(slot / perRow);
+    const positionInRow = slot % perRow;
+    const cardsInRow = row === rows - 1 ? totalSlots - perRow * (rows - 1) : perRow;
+    const spacing = (Math.PI * 2) / cardsInRow;
+    // Alternate rows are offset by half a card so they interleave
+    const angleOffset = rows > 1 && row % 2 === 0 ? spacing / 2 : 0;
+    slots.push(slotOnCircle(radius, positionInRow * spacing + angleOffset, heights[row], scale));
+  }
+  return slots;
+}
+
+function arcLayout(options: ResolvedOptions): CardSlot[] {
+  const { count, cardWidth, cardHeight, scale, gap, eyeHeight } = options;
+  if (count === 0) return [];
+
+  const footprint = cardWidth * scale + gap;
+  let radius = ARC_RADIUS;
+  let angleStep = footprint / radius;
+  let rows = Math.ceil(count / (Math.floor(ARC_SPAN / angleStep) + 1));
+
+  while (rows > MAX_ARC_ROWS) {
+    radius += 0.5;
+    angleStep = footprint / radius;
+    rows = Math.ceil(count / (Math.floor(ARC_SPAN / angleStep) + 1));
+  }
+
+  const perRow = Math.ceil(count / rows);
+  const heights = rowHeights(rows, eyeHeight + 0.3, cardHeight * scale + 0.1);
+
+  return Array.from({ length: count }, (_, index) => {
+    const row = Math.floor(index / perRow);
+    const positionInRow = index % perRow;
+    const cardsInRow = row === rows - 1 ? count - perRow * (rows - 1) : perRow;
+    const angle = (positionInRow - (cardsInRow - 1) / 2) * angleStep;
+    return slotOnCircle(radius, angle, heights[row], scale);
+  });
+}
+
+function wallLayout(options: ResolvedOptions): CardSlot[] {
+  const { count, cardWidth, cardHeight, gap, eyeHeight } = options;
+  if (count === 0) return [];
+
+  const columns = Math.max(1, Math.ceil(Math.sqrt(count * 1.6)));
+  const rows = Math.ceil(count / columns);
+  // Shrink cards so the wall stays inside a comfortable field of view
+  const scale = Math.min(options.scale, (WALL_MAX_WIDTH / columns - gap) / cardWidth);
+  const columnSpacing = cardWidth * scale + gap;
+  const rowSpacing = cardHeight * scale + gap;
+  const centerY = Math.max(eyeHeight + 0.3, (rows * rowSpacing) / 2 + 0.3);
+  const heights = rowHeights(rows, centerY, rowSpacing);
+
+  return Array.from({ length: count }, (_, index) => {
+    const row = Math.floor(index / columns);
+    const column = index % columns;
+    const cardsInRow = row === rows - 1 ? count - columns * (rows - 1) : columns;
+    const x = (column - (cardsInRow - 1) / 2) * columnSpacing;
+    return {
+      position: [x, heights[row], -WALL_DISTANCE],
+      rotation: [0, 0, 0],
+      scale,
+      visible: true,
+      focused: false,
+    };
+  });
+}
+
+function carouselLayout(options: ResolvedOptions): { slots: CardSlot[]; pageCount: number } {
+  const { count, cardWidth, scale, gap, eyeHeight, pageSize } = options;
+  const size = Math.max(1, pageSize);
+  const pageCount = Math.max(1, Math.ceil(count / size));
+  const page = ((options.page % pageCount) + pageCount) % pageCount;
+  const angleStep = (cardWidth * scale + gap) / CAROUSEL_RADIUS;
+
+  const slots = Array.from({ length: count }, (_, index) => {
+    const positionInPage = index % size;
+    const cardsOnPage = Math.min(size, count - Math.floor(index / size) * size);
+    const angle = (positionInPage - (cardsOnPage - 1) / 2) * angleStep;
+    const slot = slotOnCircle(CAROUSEL_RADIUS, angle, eyeHeight + 0.2, scale);
+    // Off-page cards share the slot of their on-page counterpart so paging animates in place
+    slot.visible = Math.floor(index / size) === page;
+    return slot;
+  });
+
+  return { slots, pageCount };
+}
+
+function focusLayout(options: ResolvedOptions): CardSlot[] {
+  const { count, focusIndex, eyeHeight } = options;
+  if (focusIndex === undefined || focusIndex < 0 || focusIndex >= count) {
+    return ringLayout(options);
+  }
+
+  // Everything else stays on the ring behind the focused card
+  const others = ringLayout({ ...options, count: count - 1 });
+  const focused: CardSlot = {
+    position: [0, eyeHeight, -FOCUS_DISTANCE],
+    rotation: [0, 0, 0],
+    scale: FOCUS_SCALE,
+    visible: true,
+    focused: true,
+  };
+
+  return [...others.slice(0, focusIndex), focused, ...others.slice(focusIndex)];
+}
+
+// Rotate the local layout to face the user's yaw and move it to their position
+function placeAroundUser(slot: CardSlot, origin: Vec3, yaw: number): CardSlot {
+  if (yaw === 0 && origin[0] === 0 && origin[2] === 0) {
+    return slot;
+  }
+  const [x, y, z] = slot.position;
+  const cos = Math.cos(yaw);
+  const sin = Math.sin(yaw);
+  return {
+    ...slot,
+    position: [x * cos + z * sin + origin[0], y, -x * sin + z * cos + origin[2]],
+    rotation: [slot.rotation[0], slot.rotation[1] + yaw, slot.rotation[2]],
+  };
+}
+
+/**
+ * Compute a slot (position, rotation, scale, visibility) for every card.
+ */
+export function computeCardLayout(options: CardLayoutOptions): CardLayoutResult {
+  const resolved = resolveOptions(options);
+
+  let slots: CardSlot[];
+  let pageCount = 1;
+
+  switch (resolved.mode) {
+    case 'ring':
+      slots = ringLayout(resolved);
+      break;
+    case 'arc':
+      slots = arcLayout(resolved);
+      break;
+    case 'wall':
+      slots = wallLayout(resolved);
+      break;
+    case 'carousel': {
+      const carousel = carouselLayout(resolved);
+      slots = carousel.slots;
+      pageCount = carousel.pageCount;
+      break;
+    }
+    case 'focus':
+      slots = focusLayout(resolved);
+      break;
+    default:
+      slots = ringLayout(resolved);
+  }
+
+  return {
+    slots: slots.map((slot) => placeAroundUser(slot, resolved.origin, resolved.yaw)),
+    pageCount,
+  };
+}
+
+/**
+ * Yaw (radians around +Y) for a world-space view direction, in the convention
+ * `computeCardLayout` expects.
+ */
+export function yawFromDirection(direction: { x: number; z: number }): number {
+  return Math.atan2(-direction.x, -direction.z);
+}
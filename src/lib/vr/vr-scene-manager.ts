@@ -1,4 +1,10 @@
 import * as THREE from 'three'
+import {
+  computeCardLayout,
+  yawFromDirection,
+  type CardLayoutMode,
+  type CardLayoutOptions
+} from './card-layout-engine'
 
 export interface VRCard {
   id: string
@@ -575,88 +581,69 @@ export class VRSceneManager {
     })
   }
   
-  arrangeCards(layout: 'grid' | 'circle' | 'wall' = 'grid') {
+  /**
+   * Arrange cards with the shared layout engine.
+   * 'grid' and 'circle' are kept as aliases for 'wall' and 'ring'.
+   */
+  arrangeCards(
+    layout: CardLayoutMode | 'grid' | 'circle' = 'grid',
+    options: Pick<CardLayoutOptions, 'page' | 'pageSize' | 'focusIndex'> = {}
+  ) {
     const cards = Array.from(this.cards.values())
-    
-    switch (layout) {
-      case 'grid':
-        this.arrangeGrid(cards)
-        break
-      case 'circle':
-        this.arrangeCircle(cards)
-        break
-      case 'wall':
-        this.arrangeWall(cards)
-        break
-    }
-  }
-  
-  private arrangeGrid(cards: VRCard[]) {
-    const cols = Math.ceil(Math.sqrt(cards.length))
-    const spacing = 1.5
-    const startX = -(cols - 1) * spacing / 2
-    const startZ = -2
-    
-    cards.forEach((card, index) => {
-      const col = index % cols
-      const row = Math.floor(index / cols)
-      
-      const targetPos = new THREE.Vector3(
-        startX + col * spacing,
-        1.5,
-        startZ - row * spacing
-      )
-      
-      this.animateCardTo(card, targetPos)
+    if (cards.length === 0) return
+
+    const mode: CardLayoutMode =
+      layout === 'grid' ? 'wall' : layout === 'circle' ? 'ring' : layout
+
+    // Manager cards are all the same default size - use the largest so nothing overlaps
+    const cardWidth = Math.max(...cards.map(card => card.size.width))
+    const cardHeight = Math.max(...cards.map(card => card.size.height))
+
+    const viewDirection = this.camera.getWorldDirection(new THREE.Vector3())
+
+    const { slots } = computeCardLayout({
+      mode,
+      count: cards.length,
+      eyeHeight: this.camera.position.y,
+      origin: [this.camera.position.x, 0, this.camera.position.z],
+      yaw: mode === 'ring' ? 0 : yawFromDirection(viewDirection),
+      cardWidth,
+      cardHeight,
+      scale: 1,
+      gap: 0.5,
+      radius: 3,
+      ...options
     })
-  }
-  
-  private arrangeCircle(cards: VRCard[]) {
-    const radius = 3
-    const centerY = 1.5
-    
+
     cards.forEach((card, index) => {
-      const angle = (index / cards.length) * Math.PI * 2
-      const targetPos = new THREE.Vector3(
-        Math.cos(angle) * radius,
-        centerY,
-        Math.sin(angle) * radius
+      const slot = slots[index]
+      this.animateCardTo(
+        card,
+        new THREE.Vector3(...slot.position),
+        new THREE.Euler(...slot.rotation),
+        slot.scale
       )
-      
-      this.animateCardTo(card, targetPos)
-      
-      // Make cards face the center
       if (card.mesh) {
-        card.mesh.lookAt(0, centerY, 0)
+        card.mesh.visible = slot.visible
       }
     })
   }
   
-  private arrangeWall(cards: VRCard[]) {
-    const cols = Math.ceil(Math.sqrt(cards.length))
-    const rows = Math.ceil(cards.length / cols)
-    const spacing = 1.5
-    const startX = -(cols - 1) * spacing / 2
-    const startY = rows * spacing / 2
-    
-    cards.forEach((card, index) => {
-      const col = index % cols
-      const row = Math.floor(index / cols)
-      
-      const targetPos = new THREE.Vector3(
-        startX + col * spacing,
-        startY - row * spacing,
-        -4
-      )
-      
-      this.animateCardTo(card, targetPos)
-    })
-  }
-  
-  private animateCardTo(card: VRCard, targetPosition: THREE.Vector3) {
+  private animateCardTo(
+    card: VRCard,
+    targetPosition: THREE.Vector3,
+    targetRotation?: THREE.Euler,
+    targetScale?: number
+  ) {
     if (!card.mesh) return
     
     const startPos = card.mesh.position.clone()
+    const startQuaternion = card.mesh.quaternion.clone()
+    const targetQuaternion = targetRotation
+      ? new THREE.Quaternion().setFromEuler(targetRotation)
+      : startQuaternion
+    const startScale = card.mesh.scale.x
+    const endScale = targetScale ?? startScale
     const duration = 1000 // 1 second
     const startTime = Date.now()
     
@@ -668,6 +655,8 @@ export class VRSceneManager {
       const eased = 1 - Math.pow(1 - progress, 3)
       
       card.mesh!.position.lerpVectors(startPos, targetPosition, eased)
+      card.mesh!.quaternion.slerpQuaternions(startQuaternion, targetQuaternion, eased)
+      card.mesh!.scale.setScalar(startScale + (endScale - startScale) * eased)
       
       if (progress < 1) {
         requestAnimationFrame(animate)
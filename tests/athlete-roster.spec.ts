@@ -0,0 +1,186 @@
+import { expect, test } from '@playwright/test';
+import { AthleteRoster, type AthleteFeed } from '../src/lib/room/athlete-roster.ts';
+import type { RoomConnection, RoomConnectionState, RoomParticipant } from '../src/lib/room/room-connection.ts';
+import { encodePoseData, parseRoomIdentity, type RemotePose } from '../src/lib/room/room-tracks.ts';
+
+// Offline athlete roster tests - a scripted room connection, no Twilio involved
+
+type MessageListener = Parameters<RoomConnection['subscribeMessages']>[0];
+
+interface FakeTrack {
+  kind: 'audio' | 'video' | 'data';
+  name: string;
+}
+
+function track(kind: FakeTrack['kind'], name: string): FakeTrack {
+  return { kind, name };
+}
+
+function participant(sid: string, identity: string, tracks: FakeTrack[] = []): RoomParticipant {
+  return { sid, identity, ...parseRoomIdentity(identity), tracks: tracks as never };
+}
+
+/** A connection whose participants and data track messages the test sets */
+function fakeRoom() {
+  let participants: RoomParticipant[] = [];
+  const listeners = new Set<(state: RoomConnectionState) => void>();
+  const messageListeners = new Set<MessageListener>();
+  const state = () => ({ status: 'connected', room: null, participants, retries: 0, error: null }) as RoomConnectionState;
+
+  const connection = {
+    subscribe: (listener: (state: RoomConnectionState) => void) => {
+      listeners.add(listener);
+      listener(state());
+      return () => listeners.delete(listener);
+    },
+    subscribeMessages: (listener: MessageListener) => {
+      messageListeners.add(listener);
+      return () => messageListeners.delete(listener);
+    },
+  } as unknown as RoomConnection;
+
+  return {
+    connection,
+    listeners,
+    messageListeners,
+    set(next: RoomParticipant[]) {
+      participants = next;
+      listeners.forEach((listener) => listener(state()));
+    },
+    send(sid: string, data: string | ArrayBuffer, trackName = 'pose-data') {
+      messageListeners.forEach((listener) => listener(data, { name: trackName } as never, { sid } as never));
+    },
+  };
+}
+
+function pose(x: number) {
+  return encodePoseData({
+    keypoints: [
+      { x, y: 0.25, score: 0.9 },
+      { x: 0.5, y: 0.75, score: 0.8 },
+    ],
+    aspect: 4 / 3,
+    timestamp: 0,
+    source: 'webcam',
+  });
+}
+
+const names = (athletes: AthleteFeed[]) => athletes.map((athlete) => `${athlete.sid}:${athlete.name}`);
+
+test.describe('athlete roster', () => {
+  test('lists athletes in the order they joined and drops them when they leave', () => {
+    const room = fakeRoom();
+    const roster = new AthleteRoster(room.connection);
+    const seen: string[][] = [];
+    roster.subscribe((athletes) => seen.push(names(athletes)));
+
+    const jake = participant('PA1', 'Jake-vr-1');
+    const coach = participant('PA2', 'Coach-coach-1');
+    const mom = participant('PA3', 'Mom-observer-1');
+    const legacy = participant('PA4', 'tablet');
+    room.set([jake, coach]);
+    room.set([jake, coach, mom, legacy]);
+    // Jake rejoins - a new participant, after the headset that was already there
+    room.set([coach, mom, legacy]);
+    room.set([coach, mom, legacy, participant('PA5', 'Jake-vr-2')]);
+
+    expect(seen).toEqual([
+      [],
+      ['PA1:Jake'],
+      ['PA1:Jake', 'PA4:tablet'],
+      ['PA4:tablet'],
+      ['PA4:tablet', 'PA5:Jake'],
+    ]);
+    expect(roster.getAthletes().map((athlete) => athlete.identity)).toEqual(['tablet', 'Jake-vr-2']);
+  });
+
+  test('tracks are matched by name for each participant', () => {
+    const room = fakeRoom();
+    const roster = new AthleteRoster(room.connection);
+
+    const jakeTracks = [
+      track('video', 'headset-view'),
+      track('video', 'webcam-mirror'),
+      track('audio', 'mic'),
+      track('data', 'pose-data'),
+    ];
+    // Same name, different headset - kept apart by sid
+    const olderHeadset = [track('video', 'camera-1234'), track('data', 'coach-control')];
+    room.set([participant('PA1', 'Jake-vr-1', jakeTracks), participant('PA2', 'Jake-vr-2', olderHeadset)]);
+
+    const [jake, older] = roster.getAthletes();
+    expect(jake).toMatchObject({
+      sid: 'PA1',
+      headsetView: jakeTracks[0],
+      webcam: jakeTracks[1],
+      audio: jakeTracks[2],
+      hasPose: true,
+    });
+    // An unnamed camera from before the tracks were named is the webcam
+    expect(older).toMatchObject({ sid: 'PA2', headsetView: null, webcam: olderHeadset[0], audio: null, hasPose: false });
+
+    // A named webcam wins over an unnamed video, whichever was subscribed first
+    const both = [track('video', 'camera-1234'), track('video', 'webcam-mirror')];
+    room.set([participant('PA1', 'Jake-vr-1', both)]);
+    expect(roster.getAthletes()[0].webcam).toBe(both[1]);
+
+    // Sharing stops and the pose track goes away
+    room.set([participant('PA1', 'Jake-vr-1', [jakeTracks[1]])]);
+    expect(roster.getAthletes()[0]).toMatchObject({ headsetView: null, webcam: jakeTracks[1], hasPose: false });
+  });
+
+  test('poses are kept per athlete and forgotten when they leave', () => {
+    const room = fakeRoom();
+    const roster = new AthleteRoster(room.connection);
+    room.set([
+      participant('PA1', 'Jake-vr-1', [track('data', 'pose-data')]),
+      participant('PA2', 'Sam-vr-1', [track('data', 'pose-data')]),
+      participant('PA3', 'Coach-coach-1'),
+    ]);
+
+    const jakePoses: RemotePose[] = [];
+    roster.subscribePose('PA1', (next) => jakePoses.push(next));
+
+    room.send('PA1', pose(0.1));
+    room.send('PA2', pose(0.2));
+    expect(jakePoses.map((next) => next.keypoints[0].x)).toEqual([0.1]);
+    expect(roster.getPose('PA1')).toMatchObject({
+      aspect: 1.333,
+      keypoints: [
+        { x: 0.1, y: 0.25, score: 0.9 },
+        { x: 0.5, y: 0.75, score: 0.8 },
+      ],
+    });
+    expect(roster.getPose('PA2')?.keypoints[0].x).toBe(0.2);
+
+    // Not a pose, not on the pose track, or not from an athlete
+    room.send('PA1', '{"type":"hello"}');
+    room.send('PA1', new ArrayBuffer(8));
+    room.send('PA1', pose(0.9), 'coach-control');
+    room.send('PA3', pose(0.9));
+    room.send('PA9', pose(0.9));
+    expect(jakePoses).toHaveLength(1);
+    expect(roster.getPose('PA3')).toBeNull();
+    expect(roster.getPose('PA9')).toBeNull();
+
+    // Jake leaves: his pose and listeners go with him, Sam's stay
+    room.set([participant('PA2', 'Sam-vr-1', [track('data', 'pose-data')])]);
+    expect(roster.getPose('PA1')).toBeNull();
+    expect(roster.getPose('PA2')).not.toBeNull();
+    room.set([participant('PA2', 'Sam-vr-1'), participant('PA1', 'Jake-vr-1')]);
+    room.send('PA1', pose(0.3));
+    expect(jakePoses).toHaveLength(1);
+    expect(roster.getPose('PA1')?.keypoints[0].x).toBe(0.3);
+  });
+
+  test('dispose stops following the room', () => {
+    const room = fakeRoom();
+    const roster = new AthleteRoster(room.connection);
+    room.set([participant('PA1', 'Jake-vr-1')]);
+
+    roster.dispose();
+    expect(room.listeners.size).toBe(0);
+    expect(room.messageListeners.size).toBe(0);
+    expect(roster.getAthletes()).toEqual([]);
+  });
+});
@@ -0,0 +1,116 @@
+import { expect, test } from '@playwright/test';
+import {
+  CARD_LAYOUT_MODES,
+  computeCardLayout,
+  yawFromDirection,
+  type CardSlot,
+} from '../src/lib/vr/card-layout-engine.ts';
+
+// Offline layout tests - pure geometry, no scene
+
+const distinct = (values: number[]) => new Set(values.map((value) => value.toFixed(3))).size;
+const heights = (slots: CardSlot[]) => slots.map((slot) => slot.position[1]);
+const horizontalDistance = ({ position: [x, , z] }: CardSlot) => Math.hypot(x, z);
+
+test.describe('card layout engine', () => {
+  test('every mode gives each card exactly one slot', () => {
+    for (const mode of CARD_LAYOUT_MODES) {
+      for (const count of [0, 1, 2, 7, 24, 60]) {
+        const { slots } = computeCardLayout({ mode, count, focusIndex: count > 0 ? count - 1 : undefined });
+        expect(slots, `${mode} with ${count} cards`).toHaveLength(count);
+        slots.forEach((slot) => slot.position.forEach((value) => expect(Number.isFinite(value)).toBe(true)));
+      }
+    }
+    expect(computeCardLayout({ mode: 'ring', count: -3 }).slots).toEqual([]);
+    expect(computeCardLayout({ mode: 'wall', count: 4.7 }).slots).toHaveLength(4);
+  });
+
+  test('the ring keeps the front free for the coach card and wraps into at most three rows', () => {
+    const open = computeCardLayout({ mode: 'ring', count: 6 }).slots;
+    expect(open[0].position[0]).toBeCloseTo(0);
+    expect(open[0].position[2]).toBeCloseTo(-6);
+
+    const reserved = computeCardLayout({ mode: 'ring', count: 6, reserveFront: true }).slots;
+    expect(reserved).toHaveLength(6);
+    reserved.forEach((slot) => expect(Math.abs(slot.position[0]) > 0.1 || slot.position[2] > 0).toBe(true));
+
+    // 18 cards fit around one loop at the default size: extra rows first, then a wider ring
+    expect(distinct(heights(computeCardLayout({ mode: 'ring', count: 18 }).slots))).toBe(1);
+    expect(distinct(heights(computeCardLayout({ mode: 'ring', count: 19 }).slots))).toBe(2);
+    expect(horizontalDistance(computeCardLayout({ mode: 'ring', count: 54 }).slots[0])).toBeCloseTo(6);
+    const packed = computeCardLayout({ mode: 'ring', count: 200 }).slots;
+    expect(distinct(heights(packed))).toBe(3);
+    expect(horizontalDistance(packed[0])).toBeGreaterThan(6);
+    packed.forEach((slot) => expect(horizontalDistance(slot)).toBeCloseTo(horizontalDistance(packed[0])));
+  });
+
+  test('the arc stays in front of the user and grows outward rather than past three rows', () => {
+    const { slots } = computeCardLayout({ mode: 'arc', count: 5 });
+    expect(distinct(heights(slots))).toBe(1);
+    slots.forEach((slot) => expect(slot.position[2]).toBeLessThan(0));
+    expect(slots[0].position[0]).toBeCloseTo(-slots[4].position[0]);
+
+    const packed = computeCardLayout({ mode: 'arc', count: 80 }).slots;
+    expect(distinct(heights(packed))).toBeLessThanOrEqual(3);
+    expect(horizontalDistance(packed[0])).toBeGreaterThan(4.5);
+  });
+
+  test('the wall shrinks cards to stay within a comfortable width', () => {
+    const few = computeCardLayout({ mode: 'wall', count: 4 }).slots;
+    expect(few[0].scale).toBe(0.5);
+
+    const many = computeCardLayout({ mode: 'wall', count: 40 }).slots;
+    expect(many[0].scale).toBeLessThan(0.5);
+    const xs = many.map((slot) => slot.position[0]);
+    expect(Math.max(...xs) - Math.min(...xs) + 3.4 * many[0].scale).toBeLessThanOrEqual(9);
+    many.forEach((slot) => expect(slot.position[2]).toBe(-5));
+  });
+
+  test('carousel pages wrap around in both directions', () => {
+    const page = (value: number) => computeCardLayout({ mode: 'carousel', count: 12, pageSize: 5, page: value });
+    const visibleOn = (value: number) =>
+      page(value)
+        .slots.map((slot, index) => (slot.visible ? index : -1))
+        .filter((index) => index >= 0);
+
+    expect(page(0).pageCount).toBe(3);
+    expect(visibleOn(0)).toEqual([0, 1, 2, 3, 4]);
+    expect(visibleOn(2)).toEqual([10, 11]);
+    expect(visibleOn(3)).toEqual(visibleOn(0));
+    expect(visibleOn(-1)).toEqual([10, 11]);
+    expect(visibleOn(-5)).toEqual([5, 6, 7, 8, 9]);
+
+    // Off-page cards wait in their on-page counterpart's slot; a short last page is centred
+    const { slots } = page(0);
+    expect(slots[5].position).toEqual(slots[0].position);
+    expect(slots[10].position[0]).toBeCloseTo(-slots[11].position[0]);
+
+    expect(computeCardLayout({ mode: 'carousel', count: 0, page: 5 }).pageCount).toBe(1);
+    expect(computeCardLayout({ mode: 'carousel', count: 3, pageSize: 0 }).pageCount).toBe(3);
+  });
+
+  test('focus pulls one card in front of the user and leaves the rest on the ring', () => {
+    const { slots } = computeCardLayout({ mode: 'focus', count: 6, focusIndex: 2, eyeHeight: 1.7 });
+    expect(slots.filter((slot) => slot.focused)).toHaveLength(1);
+    expect(slots[2]).toMatchObject({ position: [0, 1.7, -2.2], focused: true, scale: 0.6 });
+
+    const ring = computeCardLayout({ mode: 'ring', count: 5, eyeHeight: 1.7 }).slots;
+    expect(slots.filter((slot) => !slot.focused)).toEqual(ring);
+
+    // Nothing valid to focus on - just the ring
+    expect(computeCardLayout({ mode: 'focus', count: 6, focusIndex: 6 }).slots).toEqual(
+      computeCardLayout({ mode: 'ring', count: 6 }).slots
+    );
+  });
+
+  test('layouts follow the user around and face where they look', () => {
+    const yaw = yawFromDirection({ x: -1, z: 0 });
+    const [front] = computeCardLayout({ mode: 'wall', count: 1, yaw, origin: [2, 0, 3] }).slots;
+    // Looking down -X from (2, 3): the wall is 5m that way
+    expect(front.position[0]).toBeCloseTo(-3);
+    expect(front.position[2]).toBeCloseTo(3);
+    expect(front.rotation[1]).toBeCloseTo(Math.PI / 2);
+
+    expect(yawFromDirection({ x: 0, z: -1 })).toBeCloseTo(0);
+  });
+});
@@ -0,0 +1,241 @@
+import { expect, test } from '@playwright/test';
+import {
+  applyCardLayout,
+  getActiveLayoutName,
+  LocalCardLayoutStorage,
+  nextLayoutName,
+  RemoteCardLayoutStorage,
+  sanitizeCardLayout,
+  setActiveLayoutName,
+  SyncedCardLayoutStorage,
+  type CardLayout,
+  type CardLayoutStorage,
+  type CardTransform,
+} from '../src/lib/layouts/card-layouts.ts';
+
+// Offline layout persistence tests - in-memory storage and a stubbed fetch in place of the browser
+
+const AT_DESK: CardTransform = { position: [0, 1.5, -2], rotation: [0, 0, 0], scale: 0.5 };
+const ON_WALL: CardTransform = { position: [3, 1.5, -5], rotation: [0, 0.4, 0], scale: 0.3 };
+
+function layout(name: string, updatedAt: number, cards: Record<string, CardTransform> = {}): CardLayout {
+  return { name, updatedAt, coach: null, cards };
+}
+
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => [...items.keys()][index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+/** A storage with `layouts` in it, that can be told to fail like an unreachable server */
+function fakeStorage(layouts: CardLayout[] = []): CardLayoutStorage & { layouts: CardLayout[]; down: boolean } {
+  const fake = {
+    layouts,
+    down: false,
+    async listLayouts() {
+      if (fake.down) throw new Error('offline');
+      return fake.layouts;
+    },
+    async saveLayout(_userId: string, saved: CardLayout) {
+      if (fake.down) throw new Error('offline');
+      fake.layouts = [...fake.layouts.filter((existing) => existing.name !== saved.name), saved];
+    },
+    async deleteLayout(_userId: string, name: string) {
+      if (fake.down) throw new Error('offline');
+      fake.layouts = fake.layouts.filter((existing) => existing.name !== name);
+    },
+  };
+  return fake;
+}
+
+const names = (layouts: CardLayout[]) => layouts.map((entry) => entry.name).sort();
+
+let localStorage: Storage;
+let sessionStorage: Storage;
+const realFetch = globalThis.fetch;
+
+test.beforeEach(() => {
+  localStorage = memoryStorage();
+  sessionStorage = memoryStorage();
+  Object.assign(globalThis, {
+    window: { localStorage, location: { origin: 'http://localhost:5173', search: '' } },
+    sessionStorage,
+  });
+});
+
+test.afterEach(() => {
+  globalThis.fetch = realFetch;
+  Reflect.deleteProperty(globalThis, 'window');
+  Reflect.deleteProperty(globalThis, 'sessionStorage');
+});
+
+test.describe('card layout payloads', () => {
+  test('anything that is not a layout is dropped', () => {
+    const notLayouts = [null, undefined, 'Default', 42, [], { name: 'Default' }, { name: 7, cards: {} }, { cards: {} }];
+    for (const value of notLayouts) {
+      expect(sanitizeCardLayout(value), JSON.stringify(value) ?? String(value)).toBeNull();
+    }
+    expect(sanitizeCardLayout({ name: 'Default', cards: 'none' })).toBeNull();
+  });
+
+  test('broken transforms are dropped card by card and the rest is kept', () => {
+    const sanitized = sanitizeCardLayout({
+      name: 'Default',
+      updatedAt: '2024-01-01',
+      coach: { position: [0, 1], rotation: [0, 0, 0], scale: 1 },
+      cards: {
+        good: AT_DESK,
+        short: { ...AT_DESK, position: [0, 1] },
+        notANumber: { ...AT_DESK, rotation: [0, Number.NaN, 0] },
+        endless: { ...AT_DESK, scale: Number.POSITIVE_INFINITY },
+        stringy: { ...AT_DESK, scale: '0.5' },
+        empty: null,
+      },
+    });
+    expect(sanitized).toEqual({ name: 'Default', updatedAt: 0, coach: null, cards: { good: AT_DESK } });
+  });
+
+  test('card ids like __proto__ stay ordinary keys', () => {
+    const cards = `{"__proto__":${JSON.stringify(ON_WALL)},"constructor":${JSON.stringify(AT_DESK)}}`;
+    const parsed = JSON.parse(`{"name":"Default","updatedAt":1,"cards":${cards}}`);
+    const sanitized = sanitizeCardLayout(parsed)!;
+
+    expect(Object.keys(sanitized.cards)).toEqual(['__proto__', 'constructor']);
+    expect(Object.getPrototypeOf(sanitized.cards)).toBe(Object.prototype);
+    expect(Object.getOwnPropertyDescriptor(sanitized.cards, '__proto__')?.value).toEqual(ON_WALL);
+    expect(Object.prototype).not.toHaveProperty('scale');
+
+    // Applying it moves the card called constructor and leaves the one called toString alone
+    const [constructorCard, toStringCard] = applyCardLayout(
+      [
+        { id: 'constructor', ...ON_WALL },
+        { id: 'toString', ...ON_WALL },
+      ],
+      sanitized
+    );
+    expect(constructorCard).toEqual({ id: 'constructor', ...AT_DESK });
+    expect(toStringCard).toEqual({ id: 'toString', ...ON_WALL });
+  });
+});
+
+test.describe('local layouts', () => {
+  test('saved layouts come back per wrestler, a save replacing the layout of the same name', async () => {
+    const storage = new LocalCardLayoutStorage();
+    await storage.saveLayout('jake', layout('Default', 1, { 'latora-5': AT_DESK }));
+    await storage.saveLayout('jake', layout('Wall', 2));
+    await storage.saveLayout('jake', layout('Default', 3, { 'latora-5': ON_WALL }));
+    await storage.saveLayout('sam', layout('Sam only', 4));
+
+    const jakes = await storage.listLayouts('jake');
+    expect(names(jakes)).toEqual(['Default', 'Wall']);
+    expect(jakes.find((entry) => entry.name === 'Default')).toEqual(layout('Default', 3, { 'latora-5': ON_WALL }));
+
+    await storage.deleteLayout('jake', 'Wall');
+    expect(names(await storage.listLayouts('jake'))).toEqual(['Default']);
+    expect(names(await storage.listLayouts('sam'))).toEqual(['Sam only']);
+  });
+
+  test('storage left by older builds reads as nothing, or as the layouts still valid', async () => {
+    const storage = new LocalCardLayoutStorage();
+    localStorage.setItem('aether-vr:layouts:jake', '{not json');
+    expect(await storage.listLayouts('jake')).toEqual([]);
+
+    localStorage.setItem('aether-vr:layouts:jake', JSON.stringify({ Default: layout('Default', 1) }));
+    expect(await storage.listLayouts('jake')).toEqual([]);
+
+    localStorage.setItem('aether-vr:layouts:jake', JSON.stringify([layout('Default', 1), { name: 'Old' }, 'Wall']));
+    expect(await storage.listLayouts('jake')).toEqual([layout('Default', 1)]);
+    // The next save writes back only the good ones
+    await storage.saveLayout('jake', layout('Wall', 2));
+    expect(JSON.parse(localStorage.getItem('aether-vr:layouts:jake')!)).toEqual([
+      layout('Default', 1),
+      layout('Wall', 2),
+    ]);
+  });
+
+  test('the active layout name defaults until one is chosen', () => {
+    expect(getActiveLayoutName('jake')).toBe('Default');
+    setActiveLayoutName('jake', 'Wall');
+    expect(getActiveLayoutName('jake')).toBe('Wall');
+    expect(getActiveLayoutName('sam')).toBe('Default');
+
+    expect(nextLayoutName([layout('Default', 1), layout('Layout 2', 1)])).toBe('Layout 3');
+    expect(nextLayoutName([layout('Layout 1', 1)])).toBe('Layout 2');
+  });
+});
+
+test.describe('synced layouts', () => {
+  test('the newest copy of each layout wins, whichever side it is on', async () => {
+    const local = fakeStorage([
+      layout('Default', 200, { a: AT_DESK }),
+      layout('Wall', 100),
+      layout('Tie', 50, { a: AT_DESK }),
+    ]);
+    const remote = fakeStorage([
+      layout('Default', 100, { a: ON_WALL }),
+      layout('Wall', 300, { a: ON_WALL }),
+      layout('Tie', 50, { a: ON_WALL }),
+      layout('From the other headset', 10),
+    ]);
+    const listed = await new SyncedCardLayoutStorage(local, remote).listLayouts('jake');
+    const byName = Object.fromEntries(listed.map((entry) => [entry.name, entry]));
+
+    expect(names(listed)).toEqual(['Default', 'From the other headset', 'Tie', 'Wall']);
+    expect(byName.Default.cards.a).toEqual(AT_DESK);
+    expect(byName.Wall.cards.a).toEqual(ON_WALL);
+    // Same time: the headset's own copy is kept
+    expect(byName.Tie.cards.a).toEqual(AT_DESK);
+  });
+
+  test('an unreachable server leaves the headset working from its own copy', async () => {
+    const local = fakeStorage([layout('Default', 1)]);
+    const remote = fakeStorage([layout('Remote', 2)]);
+    const synced = new SyncedCardLayoutStorage(local, remote);
+    remote.down = true;
+
+    expect(await synced.listLayouts('jake')).toEqual([layout('Default', 1)]);
+    await synced.saveLayout('jake', layout('Wall', 3));
+    await synced.deleteLayout('jake', 'Default');
+    expect(local.layouts).toEqual([layout('Wall', 3)]);
+    expect(remote.layouts).toEqual([layout('Remote', 2)]);
+
+    remote.down = false;
+    await synced.saveLayout('jake', layout('Ring', 4));
+    await expect.poll(() => names(remote.layouts)).toEqual(['Remote', 'Ring']);
+  });
+
+  test('the server copy is requested with the room session and sanitized on the way in', async () => {
+    sessionStorage.setItem(
+      'aether-room-session',
+      JSON.stringify({ session: 'session-1', name: 'Jake Smith', role: 'athlete', expiresAt: Date.now() + 3_600_000 })
+    );
+    const requests: { url: string; init?: RequestInit }[] = [];
+    let reply = new Response(JSON.stringify({ layouts: [layout('Default', 5), { name: 'Broken', cards: null }, 7] }));
+    globalThis.fetch = async (url, init) => {
+      requests.push({ url: String(url), init });
+      return reply;
+    };
+    const remote = new RemoteCardLayoutStorage('https://api.example', 'gym');
+
+    expect(await remote.listLayouts('Jake Smith')).toEqual([layout('Default', 5)]);
+    await remote.saveLayout('Jake Smith', layout('Drills / Tuesday', 6));
+
+    expect(requests.map(({ url, init }) => [init?.method ?? 'GET', url])).toEqual([
+      ['GET', 'https://api.example/api/layouts/Jake%20Smith'],
+      ['PUT', 'https://api.example/api/layouts/Jake%20Smith/Drills%20%2F%20Tuesday'],
+    ]);
+    requests.forEach(({ init }) => expect(init?.headers).toMatchObject({ Authorization: 'Bearer session-1' }));
+
+    reply = new Response('{"error":"Not your layouts"}', { status: 403 });
+    await expect(remote.listLayouts('Jake Smith')).rejects.toThrow('Failed to list layouts: 403');
+  });
+});
@@ -0,0 +1,182 @@
+import { expect, test } from '@playwright/test';
+import {
+  conversationKey,
+  createConversationStore,
+  summarizeTurnsLocally,
+  type ConversationSummarizer,
+} from '../server/coach/coach-conversations.ts';
+import { createFakeChatModel } from '../server/coach/coach-providers.ts';
+import { createCoachService } from '../server/coach/coach-service.ts';
+import type { CoachChatTurn } from '../server/coach/coach-types.ts';
+
+// Offline conversation memory tests - a fake clock and scripted summarizers
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function clock(start = 0) {
+  const state = { now: start };
+  return { state, now: () => state.now };
+}
+
+/** Remembers what it was asked to fold, and answers with a numbered summary */
+function recordingSummarizer() {
+  const calls: { previous: string | null; turns: CoachChatTurn[] }[] = [];
+  const summarize: ConversationSummarizer = async (previous, turns) => {
+    calls.push({ previous, turns });
+    return `summary ${calls.length}`;
+  };
+  return { calls, summarize };
+}
+
+async function chat(store: ReturnType<typeof createConversationStore>, key: string, count: number, from = 1) {
+  for (let index = from; index < from + count; index++) {
+    await store.append(key, `question ${index}`, `answer ${index}`);
+  }
+}
+
+test.describe('coach conversations', () => {
+  test('keys need both a wrestler and a room', () => {
+    expect(conversationKey('Jake', 'tigers-practice')).toBe('tigers-practice:Jake');
+    expect(conversationKey('  Jake ', ' gym ')).toBe('gym:Jake');
+    expect(conversationKey('x'.repeat(100), 'gym')).toBe(`gym:${'x'.repeat(64)}`);
+    for (const [userId, room] of [
+      ['Jake', undefined],
+      [undefined, 'gym'],
+      ['Jake', '   '],
+      [42, 'gym'],
+    ]) {
+      expect(conversationKey(userId, room), `${userId} in ${room}`).toBeNull();
+    }
+  });
+
+  test('long histories fold their oldest turns into a running summary', async () => {
+    const summarizer = recordingSummarizer();
+    const store = createConversationStore({ keepMessages: 4, summarizeAfter: 6, summarize: summarizer.summarize });
+
+    await chat(store, 'gym:Jake', 3);
+    expect(summarizer.calls).toHaveLength(0);
+    expect(store.get('gym:Jake').messages).toHaveLength(6);
+
+    // The fourth exchange tips it over: all but the last four messages are folded
+    await chat(store, 'gym:Jake', 1, 4);
+    expect(summarizer.calls).toHaveLength(1);
+    expect(summarizer.calls[0].previous).toBeNull();
+    expect(summarizer.calls[0].turns.map((turn) => turn.content)).toEqual([
+      'question 1',
+      'answer 1',
+      'question 2',
+      'answer 2',
+    ]);
+    expect(store.get('gym:Jake')).toMatchObject({
+      summary: 'summary 1',
+      messages: [
+        { role: 'user', content: 'question 3' },
+        { role: 'assistant', content: 'answer 3' },
+        { role: 'user', content: 'question 4' },
+        { role: 'assistant', content: 'answer 4' },
+      ],
+    });
+
+    // The next fold builds on the summary so far
+    await chat(store, 'gym:Jake', 2, 5);
+    expect(summarizer.calls[1].previous).toBe('summary 1');
+    expect(store.get('gym:Jake').summary).toBe('summary 2');
+
+    expect(store.buildMessages('gym:Jake', 'You are Coach Andy', 'question 7')).toEqual([
+      { role: 'system', content: 'You are Coach Andy' },
+      { role: 'system', content: 'Earlier in this conversation: summary 2' },
+      ...store.get('gym:Jake').messages,
+      { role: 'user', content: 'question 7' },
+    ]);
+  });
+
+  test('a failing summarizer falls back to the local one so memory stays bounded', async () => {
+    const store = createConversationStore({
+      keepMessages: 2,
+      summarizeAfter: 4,
+      summarize: async () => {
+        throw new Error('model offline');
+      },
+    });
+    await chat(store, 'gym:Jake', 3);
+
+    const session = store.get('gym:Jake');
+    expect(session.messages.map((turn) => turn.content)).toEqual(['question 3', 'answer 3']);
+    expect(session.summary).toBe('Wrestler asked about: question 1; question 2');
+  });
+
+  test('the local summary keeps the questions and the newest part when it gets long', async () => {
+    const turns: CoachChatTurn[] = [
+      { role: 'user', content: ' how do I sprawl? ' },
+      { role: 'assistant', content: 'Hips down.' },
+      { role: 'user', content: 'and then?' },
+    ];
+    expect(await summarizeTurnsLocally('Working on shots.', turns)).toBe(
+      'Working on shots. Wrestler asked about: how do I sprawl?; and then?'
+    );
+    expect(await summarizeTurnsLocally(null, [{ role: 'assistant', content: 'Hi' }])).toBe('');
+
+    const long = await summarizeTurnsLocally('x'.repeat(2000), [{ role: 'user', content: 'last question' }]);
+    expect(long).toHaveLength(1201);
+    expect(long.startsWith('…')).toBe(true);
+    expect(long.endsWith('last question')).toBe(true);
+  });
+
+  test('past the session limit the least recently used conversation is forgotten', async () => {
+    const store = createConversationStore({ maxSessions: 2 });
+    await chat(store, 'gym:Jake', 1);
+    await chat(store, 'gym:Sam', 1);
+    // Jake talks again, so Sam is now the least recently used
+    await chat(store, 'gym:Jake', 1, 2);
+    await chat(store, 'gym:Ali', 1);
+
+    expect(store.size).toBe(2);
+    expect(store.get('gym:Jake').messages).toHaveLength(4);
+    expect(store.get('gym:Ali').messages).toHaveLength(2);
+    // Sam starts over - and pushes out Jake, who was used before Ali
+    expect(store.get('gym:Sam').messages).toEqual([]);
+    expect(store.size).toBe(2);
+    expect(store.get('gym:Ali').messages).toHaveLength(2);
+  });
+
+  test('idle conversations are forgotten, active ones are kept', async () => {
+    const time = clock();
+    const store = createConversationStore({ idleTimeoutMs: 2 * HOUR_MS, now: time.now });
+    await chat(store, 'gym:Jake', 1);
+    await chat(store, 'gym:Sam', 1);
+
+    time.state.now += 90 * 60_000;
+    await chat(store, 'gym:Sam', 1, 2);
+    time.state.now += 60 * 60_000;
+
+    // Jake has been quiet for two and a half hours, Sam for one
+    expect(store.get('gym:Sam').messages).toHaveLength(4);
+    expect(store.size).toBe(1);
+    expect(store.get('gym:Jake').messages).toEqual([]);
+
+    expect(store.reset('gym:Jake')).toBe(true);
+    expect(store.reset('gym:Jake')).toBe(false);
+  });
+
+  test('the coach service remembers per wrestler per room and nothing outside a room', async () => {
+    const coach = createCoachService({ chat: createFakeChatModel() });
+    const jake = { userId: 'Jake', room: 'tigers-practice' };
+
+    await coach.chat({ message: 'How do I sprawl?', ...jake });
+    await coach.chat({ message: 'Hello', userId: 'Jake', room: 'tigers-film' });
+    await coach.chat({ message: 'Just me here', userId: 'Jake' });
+    await coach.chat({ message: 'Nobody at all' });
+
+    expect(coach.getConversation(jake).messages.map((turn) => turn.content)).toEqual([
+      'How do I sprawl?',
+      expect.any(String),
+    ]);
+    expect(coach.getConversation({ userId: 'Jake', room: 'tigers-film' }).messages).toHaveLength(2);
+    expect(coach.getConversation({ userId: 'Jake' })).toEqual({ summary: null, messages: [] });
+    expect(coach.getConversation({})).toEqual({ summary: null, messages: [] });
+
+    expect(coach.resetConversation(jake)).toEqual({ success: true });
+    expect(coach.getConversation(jake).messages).toEqual([]);
+    expect(coach.getConversation({ userId: 'Jake', room: 'tigers-film' }).messages).toHaveLength(2);
+  });
+});
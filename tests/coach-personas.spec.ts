@@ -0,0 +1,77 @@
+import { expect, test } from '@playwright/test';
+import {
+  COACH_PERSONAS,
+  DEFAULT_COACH_PERSONA_ID,
+  personaTechniques,
+  renderPersonaPrompt,
+  resolveCoachPersona,
+  type CoachPersona,
+} from '../server/coach/coach-personas.ts';
+
+// Offline coach persona tests - a small made-up registry, no model calls
+
+function persona(id: string, extra: Partial<CoachPersona> = {}): CoachPersona {
+  return {
+    id,
+    name: `Coach ${id}`,
+    title: 'CAMP',
+    avatarUrl: `/${id}.jpg`,
+    greeting: 'Hey wrestler!',
+    prompt: 'You are {{name}}.\n\n{{techniques}}\n\nKeep it short.',
+    ...extra,
+  };
+}
+
+const ANDY = persona('andy');
+const SAM = persona('sam', { rooms: ['tigers-practice'], techniques: ['sprawl', 'gone', 'single-leg'] });
+const PERSONAS = [ANDY, SAM];
+
+const LIBRARY = [
+  { id: 'single-leg', title: 'Single Leg Finish' },
+  { id: 'sprawl', title: 'Sprawl' },
+  { id: 'stand-up', title: 'Stand Up' },
+];
+
+test.describe('coach personas', () => {
+  test('the shipped registry starts with the default coach', () => {
+    expect(COACH_PERSONAS[0].id).toBe(DEFAULT_COACH_PERSONA_ID);
+    expect(new Set(COACH_PERSONAS.map(({ id }) => id)).size).toBe(COACH_PERSONAS.length);
+    expect(resolveCoachPersona({})).toBe(COACH_PERSONAS[0]);
+    expect(resolveCoachPersona({ persona: DEFAULT_COACH_PERSONA_ID })).toBe(COACH_PERSONAS[0]);
+  });
+
+  test('a persona is looked up by id, then by room', () => {
+    expect(resolveCoachPersona({ persona: 'sam' }, PERSONAS)).toBe(SAM);
+    expect(resolveCoachPersona({ room: 'tigers-practice' }, PERSONAS)).toBe(SAM);
+    // Asking for one by id wins over the room
+    expect(resolveCoachPersona({ persona: 'andy', room: 'tigers-practice' }, PERSONAS)).toBe(ANDY);
+  });
+
+  test('an unknown id or room falls back to the default', () => {
+    expect(resolveCoachPersona({ persona: 'nobody' }, PERSONAS)).toBe(ANDY);
+    expect(resolveCoachPersona({ room: 'lions-practice' }, PERSONAS)).toBe(ANDY);
+    expect(resolveCoachPersona({ persona: undefined, room: undefined }, PERSONAS)).toBe(ANDY);
+    expect(resolveCoachPersona({ room: '' }, [persona('empty', { rooms: [''] }), ANDY])).toMatchObject({ id: 'empty' });
+    // A stale link to a renamed coach still gets the room coach
+    expect(resolveCoachPersona({ persona: 'nobody', room: 'tigers-practice' }, PERSONAS)).toBe(SAM);
+  });
+
+  test('a coach teaches from his own techniques in his order, or the whole library', () => {
+    expect(personaTechniques(ANDY, LIBRARY)).toBe(LIBRARY);
+    // Ids no longer in the library are skipped
+    expect(personaTechniques(SAM, LIBRARY).map(({ id }) => id)).toEqual(['sprawl', 'single-leg']);
+    expect(personaTechniques(SAM, [])).toEqual([]);
+  });
+
+  test('the prompt names the coach and lists his techniques, or drops the list', () => {
+    expect(renderPersonaPrompt(SAM, LIBRARY)).toBe(
+      'You are Coach sam.\n\n**Available Techniques** (videos around the room):\n1. Sprawl\n2. Single Leg Finish' +
+        '\n\nKeep it short.'
+    );
+    expect(renderPersonaPrompt(SAM, [LIBRARY[2]])).toBe('You are Coach sam.\n\nKeep it short.');
+
+    const shipped = renderPersonaPrompt(COACH_PERSONAS[0], LIBRARY);
+    expect(shipped).not.toContain('{{');
+    expect(shipped).toContain('1. Single Leg Finish\n2. Sprawl\n3. Stand Up');
+  });
+});
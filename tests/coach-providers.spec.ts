@@ -0,0 +1,174 @@
+import { expect, test } from '@playwright/test';
+import {
+  createElevenLabsTts,
+  createFakeSpeechToText,
+  createFakeTextToSpeech,
+  DEFAULT_LOCAL_URL,
+  resolveCoachProviders,
+  type OpenAIClientFactory,
+  type OpenAICompatibleClient,
+} from '../server/coach/coach-providers.ts';
+import { COACH_FALLBACKS, createCoachService, createCoachServiceFromEnv } from '../server/coach/coach-service.ts';
+
+// Offline coach provider tests - fake providers and stubbed clients, no network
+
+interface ClientCall {
+  baseURL?: string;
+  kind: 'chat' | 'transcription' | 'speech';
+  model: string;
+}
+
+function stubClientFactory(calls: ClientCall[], reply = 'Sprawl harder!'): OpenAIClientFactory {
+  return ({ baseURL }) => {
+    const client: OpenAICompatibleClient = {
+      chat: {
+        completions: {
+          async create({ model }) {
+            calls.push({ baseURL, kind: 'chat', model });
+            return { choices: [{ message: { content: reply } }] };
+          },
+        },
+      },
+      audio: {
+        transcriptions: {
+          async create({ model }) {
+            calls.push({ baseURL, kind: 'transcription', model });
+            return { text: ' Single leg setup? ' };
+          },
+        },
+        speech: {
+          async create({ model }) {
+            calls.push({ baseURL, kind: 'speech', model });
+            return { arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer };
+          },
+        },
+      },
+    };
+    return client;
+  };
+}
+
+const speak = (text: string) => new TextEncoder().encode(text);
+
+test.describe('coach providers', () => {
+  test('fake providers run the whole voice chat offline', async () => {
+    const coach = createCoachServiceFromEnv({ COACH_PROVIDER: 'fake' }, null);
+    const session = { userId: 'jake', room: 'gym' };
+
+    const result = await coach.voiceChat(speak('How do I finish a double leg?'), session);
+    expect(result.transcript).toBe('How do I finish a double leg?');
+    expect(result.response).toBe('Coach Andy heard "How do I finish a double leg?". Hands up, hips down, and drill it again!');
+    expect(result.audioUrl).toMatch(/^data:audio\/wav;base64,/);
+
+    // Same answer every time, and remembered like a real one
+    const again = await coach.voiceChat(speak('How do I finish a double leg?'), session);
+    expect(again.response).toBe(result.response);
+    expect(coach.getConversation(session).messages).toHaveLength(4);
+  });
+
+  test('fake speech-to-text hears real audio as a fixed question', async () => {
+    const stt = createFakeSpeechToText();
+    const webmHeader = new Uint8Array([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x86, 0x81]);
+    expect(await stt.transcribe(webmHeader, 'audio/webm')).toBe('How do I finish a single leg?');
+    expect(await stt.transcribe(speak('  stand up  '), 'audio/webm')).toBe('stand up');
+  });
+
+  test('fake text-to-speech returns a playable silent WAV sized to the line', async () => {
+    const tts = createFakeTextToSpeech();
+    const short = Buffer.from((await tts.synthesize('Go!'))!.split(',')[1], 'base64');
+    const long = Buffer.from((await tts.synthesize('Keep your head up and your hips under you'))!.split(',')[1], 'base64');
+
+    expect(short.toString('ascii', 0, 4)).toBe('RIFF');
+    expect(short.toString('ascii', 8, 12)).toBe('WAVE');
+    expect(short.readUInt32LE(24)).toBe(8000);
+    expect(short.readUInt32LE(40)).toBe(short.length - 44);
+    expect(long.length).toBeGreaterThan(short.length);
+  });
+
+  test('defaults follow the configured keys', () => {
+    expect(resolveCoachProviders({}, stubClientFactory([]))).toEqual({ chat: null, stt: null, tts: null });
+
+    const providers = resolveCoachProviders(
+      { OPENAI_API_KEY: 'sk-test', ELEVENLABS_API_KEY: 'el', ELEVENLABS_VOICE_ID: 'andy' },
+      stubClientFactory([])
+    );
+    expect(providers.chat?.name).toBe('openai');
+    expect(providers.stt?.name).toBe('openai');
+    expect(providers.tts?.name).toBe('elevenlabs');
+  });
+
+  test('each capability can be picked separately', () => {
+    const providers = resolveCoachProviders(
+      { OPENAI_API_KEY: 'sk-test', COACH_STT_PROVIDER: 'fake', COACH_TTS_PROVIDER: 'openai' },
+      stubClientFactory([])
+    );
+    expect(providers.chat?.name).toBe('openai');
+    expect(providers.stt?.name).toBe('fake');
+    expect(providers.tts?.name).toBe('openai');
+  });
+
+  test('missing keys and unknown names disable a provider instead of failing', () => {
+    const providers = resolveCoachProviders(
+      { COACH_CHAT_PROVIDER: 'openai', COACH_STT_PROVIDER: 'deepgram', COACH_TTS_PROVIDER: 'elevenlabs' },
+      stubClientFactory([])
+    );
+    expect(providers).toEqual({ chat: null, stt: null, tts: null });
+  });
+
+  test('local provider talks to an OpenAI-compatible server', async () => {
+    const calls: ClientCall[] = [];
+    const coach = createCoachServiceFromEnv({ COACH_PROVIDER: 'local', COACH_CHAT_MODEL: 'llama3.2' }, stubClientFactory(calls));
+
+    const result = await coach.voiceChat(new Uint8Array([1, 2, 3]), {});
+    expect(result).toEqual({
+      transcript: 'Single leg setup?',
+      response: 'Sprawl harder!',
+      audioUrl: `data:audio/mpeg;base64,${Buffer.from([1, 2, 3]).toString('base64')}`,
+    });
+    expect(calls).toEqual([
+      { baseURL: DEFAULT_LOCAL_URL, kind: 'transcription', model: 'whisper' },
+      { baseURL: DEFAULT_LOCAL_URL, kind: 'chat', model: 'llama3.2' },
+      { baseURL: DEFAULT_LOCAL_URL, kind: 'speech', model: 'tts' },
+    ]);
+
+    const elsewhere: ClientCall[] = [];
+    const { chat } = resolveCoachProviders(
+      { COACH_CHAT_PROVIDER: 'local', COACH_LOCAL_URL: 'http://gym-laptop:11434/v1' },
+      stubClientFactory(elsewhere)
+    );
+    await chat?.complete([{ role: 'user', content: 'hi' }]);
+    expect(elsewhere[0]?.baseURL).toBe('http://gym-laptop:11434/v1');
+  });
+
+  test('provider failures fall back to Coach Andy lines', async () => {
+    const coach = createCoachService({
+      chat: {
+        name: 'broken',
+        async complete() {
+          throw new Error('model offline');
+        },
+      },
+      stt: createFakeSpeechToText(),
+    });
+    expect(await coach.chat({ message: 'Help' })).toEqual({ response: COACH_FALLBACKS.chatError, audioUrl: null });
+    expect(await coach.voiceChat(speak('Help'), {})).toEqual({
+      transcript: '',
+      response: COACH_FALLBACKS.voiceError,
+      audioUrl: null,
+    });
+  });
+
+  test('ElevenLabs synthesis returns null on an API error', async () => {
+    const requests: string[] = [];
+    const tts = createElevenLabsTts({
+      apiKey: 'el',
+      voiceId: 'andy',
+      fetchImpl: async (url) => {
+        requests.push(String(url));
+        return new Response('quota exceeded', { status: 429 });
+      },
+    });
+    expect(await tts.synthesize('Hello')).toBeNull();
+    expect(requests).toEqual(['https://api.elevenlabs.io/v1/text-to-speech/andy']);
+  });
+});
@@ -0,0 +1,140 @@
+import { expect, test } from '@playwright/test';
+import type { ChatModel, ToolCall, ToolChatMessage, ToolChatPart } from '../server/coach/coach-providers.ts';
+import { createCoachService } from '../server/coach/coach-service.ts';
+import { COACH_DRILL_IDS, runCoachTool } from '../server/coach/coach-tools.ts';
+import type { TechniqueRef } from '../server/coach/technique-catalog.ts';
+import { DRILL_IDS } from '../src/lib/drills/rep-counter.ts';
+
+// Offline coach tool tests - a small library and a scripted tool-calling model, no network
+
+const LIBRARY: TechniqueRef[] = [
+  { id: 'latora-5', title: 'Leg Camp #5', category: 'takedowns', tags: ['latora-leg-camp', 'single-leg'] },
+  { id: 'latora-12', title: 'Leg Camp #12', category: 'takedowns', tags: ['latora-leg-camp', 'double-leg'] },
+  { id: 'cradle-1', title: 'Far Side Cradle', category: 'pinning', tags: ['top'] },
+];
+
+let calls = 0;
+function call(name: string, args: unknown): ToolCall {
+  return { id: `call-${++calls}`, name, arguments: typeof args === 'string' ? args : JSON.stringify(args) };
+}
+
+const run = (name: string, args: unknown, techniques = LIBRARY) => runCoachTool(call(name, args), techniques);
+
+/** Plays one scripted round per request and keeps what it was sent */
+function toolModel(rounds: ToolChatPart[][]): ChatModel & { seen: ToolChatMessage[][] } {
+  const seen: ToolChatMessage[][] = [];
+  return {
+    name: 'scripted',
+    seen,
+    async complete() {
+      throw new Error('the tools should be used');
+    },
+    async *streamWithTools(messages) {
+      seen.push([...messages]);
+      yield* rounds[seen.length - 1] ?? [];
+    },
+  };
+}
+
+test.describe('coach tools', () => {
+  test('list_techniques searches titles, categories and tags', () => {
+    const listed = (query?: string) => JSON.parse(run('list_techniques', query === undefined ? {} : { query }).result);
+
+    expect(listed()).toMatchObject({ total: 3 });
+    expect(listed('leg camp five').techniques.map((entry: TechniqueRef) => entry.id)).toEqual(['latora-5']);
+    expect(listed('double leg').techniques.map((entry: TechniqueRef) => entry.id)).toEqual(['latora-12']);
+    expect(listed('pinning')).toMatchObject({ total: 1, techniques: [LIBRARY[2]] });
+    expect(listed('ankle pick')).toEqual({ total: 0, techniques: [] });
+    expect(run('list_techniques', {}).action).toBeNull();
+
+    // Big libraries are counted in full but only partly listed
+    const big = Array.from({ length: 60 }, (_, index) => ({ ...LIBRARY[0], id: `drill-${index}` }));
+    const capped = JSON.parse(run('list_techniques', '', big).result);
+    expect(capped.total).toBe(60);
+    expect(capped.techniques).toHaveLength(40);
+  });
+
+  test('made-up technique ids are errors the model can recover from, not actions', () => {
+    for (const techniqueId of ['double-leg-1', 'Leg Camp #5', 'latora-05', '', 5, null, undefined]) {
+      for (const name of ['highlight_card', 'play_card']) {
+        const outcome = run(name, { techniqueId });
+        expect(outcome.action, `${name} ${String(techniqueId)}`).toBeNull();
+        expect(outcome.result).toMatch(/^Error: no technique with id .* - call list_techniques for the ids$/);
+      }
+    }
+    // An id that isn't in this library is made up, wherever else it exists
+    expect(run('play_card', { techniqueId: 'cradle-1' }, LIBRARY.slice(0, 2)).action).toBeNull();
+  });
+
+  test('real ids become scene actions, with only the playback options that make sense', () => {
+    expect(run('highlight_card', { techniqueId: 'cradle-1' })).toEqual({
+      result: 'Far Side Cradle is glowing and the wrestler is looking at it',
+      action: { type: 'highlight-card', techniqueId: 'cradle-1' },
+    });
+    expect(run('play_card', { techniqueId: 'latora-5', startSeconds: 12.5, rate: 0.5 })).toEqual({
+      result: 'Leg Camp #5 is playing at 0.5x',
+      action: { type: 'play-card', techniqueId: 'latora-5', startSeconds: 12.5, rate: 0.5 },
+    });
+    // A negative start and a speed the player doesn't have are dropped, not passed on
+    expect(run('play_card', { techniqueId: 'latora-5', startSeconds: -3, rate: 0.75 })).toEqual({
+      result: 'Leg Camp #5 is playing',
+      action: { type: 'play-card', techniqueId: 'latora-5' },
+    });
+  });
+
+  test('start_drill knows only the counter drills and keeps the numbers sensible', () => {
+    expect(COACH_DRILL_IDS).toEqual(DRILL_IDS);
+
+    expect(run('start_drill', { drillId: 'sprawl', sets: 2.6, targetReps: 0 }).action).toEqual({
+      type: 'start-drill',
+      drillId: 'sprawl',
+      sets: 3,
+      targetReps: 1,
+    });
+    expect(run('start_drill', { drillId: 'sprawl', sets: 99, targetReps: 500 }).action).toMatchObject({
+      sets: 10,
+      targetReps: 50,
+    });
+    expect(run('start_drill', { drillId: 'level-change', sets: '3' }).action).toEqual({
+      type: 'start-drill',
+      drillId: 'level-change',
+    });
+
+    const unknown = run('start_drill', { drillId: 'burpees' });
+    expect(unknown).toEqual({
+      result: 'Error: drillId must be one of stance-motion, sprawl, level-change, penetration-step',
+      action: null,
+    });
+  });
+
+  test('broken calls are errors, never exceptions', () => {
+    expect(run('play_card', '{"techniqueId": "latora-5"')).toEqual({
+      result: 'Error: arguments are not valid JSON',
+      action: null,
+    });
+    expect(run('play_card', 'null').result).toBe('Error: arguments must be an object');
+    expect(run('delete_card', { techniqueId: 'latora-5' }).result).toBe('Error: unknown tool delete_card');
+  });
+
+  test('the chat passes the error back and keeps only the actions that happened', async () => {
+    const model = toolModel([
+      [{ type: 'tool-call', call: call('play_card', { techniqueId: 'double-leg-1', rate: 0.5 }) }],
+      [
+        { type: 'tool-call', call: call('list_techniques', { query: 'double leg' }) },
+        { type: 'tool-call', call: call('play_card', { techniqueId: 'latora-12', rate: 0.5 }) },
+      ],
+      [{ type: 'text', text: 'Watch how low he gets on Leg Camp 12.' }],
+    ]);
+    const coach = createCoachService({ chat: model, techniques: async () => LIBRARY });
+
+    const result = await coach.chat({ message: 'Show me a double leg', userId: 'jake', room: 'gym' });
+
+    expect(result.response).toBe('Watch how low he gets on Leg Camp 12.');
+    expect(result.actions).toEqual([{ type: 'play-card', techniqueId: 'latora-12', rate: 0.5 }]);
+
+    const [firstError] = model.seen[1].filter((message) => message.role === 'tool');
+    expect(firstError.content).toMatch(/^Error: no technique with id "double-leg-1"/);
+    const listing = model.seen[2].filter((message) => message.role === 'tool')[1];
+    expect(JSON.parse(listing.content)).toMatchObject({ total: 1, techniques: [{ id: 'latora-12' }] });
+  });
+});
@@ -0,0 +1,126 @@
+import { expect, test } from '@playwright/test';
+import { createFakeSpeechToText, type ChatModel, type TextToSpeech } from '../server/coach/coach-providers.ts';
+import { createCoachService, formatServerSentEvent, takeSentences } from '../server/coach/coach-service.ts';
+import type { CoachVoiceStreamEvent } from '../server/coach/coach-types.ts';
+
+// Offline streaming tests - a scripted chat model and a text-to-speech stub, no network
+
+const speak = (text: string) => new TextEncoder().encode(text);
+
+/** Feeds `chunks` through takeSentences the way the sentence speaker does */
+function splitStream(chunks: string[]) {
+  const sentences: string[] = [];
+  let pending = '';
+  for (const chunk of chunks) {
+    const taken = takeSentences(pending + chunk);
+    sentences.push(...taken.sentences);
+    pending = taken.rest;
+  }
+  return { sentences, pending };
+}
+
+function scriptedModel(chunks: string[]): ChatModel {
+  return {
+    name: 'scripted',
+    async complete() {
+      return chunks.join('');
+    },
+    async *stream() {
+      yield* chunks;
+    },
+  };
+}
+
+/** Speaks each sentence as `audio:<text>`, the first ones slowest, so they finish out of order */
+function slowFirstTts(spoken: string[]): TextToSpeech {
+  let calls = 0;
+  return {
+    name: 'stub',
+    async synthesize(text) {
+      spoken.push(text);
+      const delay = 40 - 10 * calls++;
+      await new Promise((resolve) => setTimeout(resolve, Math.max(0, delay)));
+      return `audio:${text}`;
+    },
+  };
+}
+
+test.describe('coach voice streaming', () => {
+  test('takeSentences splits at sentence ends followed by whitespace and keeps the rest', () => {
+    expect(takeSentences('Hands up. Hips down! Ready? Go')).toEqual({
+      sentences: ['Hands up.', 'Hips down!', 'Ready?'],
+      rest: 'Go',
+    });
+    // Closing quotes and brackets stay with their sentence, runs of punctuation count once
+    expect(takeSentences('He said "sprawl!" Then shoot... (Again.) Now')).toEqual({
+      sentences: ['He said "sprawl!"', 'Then shoot...', '(Again.)'],
+      rest: 'Now',
+    });
+    // No whitespace after the stop yet - it could still be 2.5 or a URL
+    expect(takeSentences('Drill it 2.5 times.')).toEqual({ sentences: [], rest: 'Drill it 2.5 times.' });
+    expect(takeSentences('')).toEqual({ sentences: [], rest: '' });
+  });
+
+  test('sentences split across stream chunks come out whole and once', () => {
+    const whole = 'Good shot. Now finish it! Keep your head up, then drive.';
+    const chunkings = [
+      [whole],
+      whole.match(/\S+\s*/g)!,
+      [...whole],
+      ['Good shot', '.', ' ', 'Now finish it', '!', ' Keep your head up, then drive.'],
+      ['Good shot.', ' Now finish it!', ' Keep your head up, then drive.'],
+    ];
+
+    for (const chunks of chunkings) {
+      const { sentences, pending } = splitStream(chunks);
+      expect(sentences, JSON.stringify(chunks)).toEqual(['Good shot.', 'Now finish it!']);
+      expect(pending.trim()).toBe('Keep your head up, then drive.');
+    }
+  });
+
+  test('a streamed reply is spoken a sentence at a time, in order', async () => {
+    const spoken: string[] = [];
+    const coach = createCoachService({
+      chat: scriptedModel(['Good', ' shot', '. Now', ' finish', ' it! Keep', ' your head', ' up.']),
+      stt: createFakeSpeechToText(),
+      tts: slowFirstTts(spoken),
+    });
+    const events: CoachVoiceStreamEvent[] = [];
+
+    const result = await coach.streamVoiceChat(speak('How was that?'), { userId: 'jake', room: 'gym' }, (event) =>
+      events.push(event)
+    );
+
+    expect(result.response).toBe('Good shot. Now finish it! Keep your head up.');
+    expect(spoken).toEqual(['Good shot.', 'Now finish it!', 'Keep your head up.']);
+    const audio = events.filter((event) => event.type === 'audio');
+    expect(audio).toEqual([
+      { type: 'audio', index: 0, text: 'Good shot.', audioUrl: 'audio:Good shot.' },
+      { type: 'audio', index: 1, text: 'Now finish it!', audioUrl: 'audio:Now finish it!' },
+      { type: 'audio', index: 2, text: 'Keep your head up.', audioUrl: 'audio:Keep your head up.' },
+    ]);
+
+    // Tokens go out as they arrive; done comes last, after every sentence's audio
+    const tokens = events.filter((event) => event.type === 'token').map((event) => event.text);
+    expect(tokens.join('')).toBe(result.response);
+    expect(events.at(-1)).toMatchObject({ type: 'done', response: result.response });
+  });
+
+  test('an unfinished last sentence is still spoken when the stream ends', async () => {
+    const spoken: string[] = [];
+    const coach = createCoachService({
+      chat: scriptedModel(['Sprawl', ' hard.', ' Then', ' circle']),
+      stt: createFakeSpeechToText(),
+      tts: slowFirstTts(spoken),
+    });
+
+    await coach.streamVoiceChat(speak('And then?'), { userId: 'jake', room: 'gym' }, () => {});
+    expect(spoken).toEqual(['Sprawl hard.', 'Then circle']);
+  });
+
+  test('events are framed as named server-sent events', () => {
+    expect(formatServerSentEvent({ type: 'token', text: 'Hi\nthere' })).toBe(
+      'event: token\ndata: {"type":"token","text":"Hi\\nthere"}\n\n'
+    );
+  });
+});
@@ -0,0 +1,183 @@
+import { expect, test } from '@playwright/test';
+import {
+  analyzeWrestlingForm,
+  FormAnalysisRequestError,
+  parseFormAnalysisRequest,
+} from '../server/lib/form-analysis.js';
+import { createMockFormCoach, resolveFormCoachProvider } from '../server/lib/form-coach-providers.js';
+
+// Offline backend tests - synthetic keypoint clips, mock or stubbed LLM providers
+
+type Joint = [number, number, number];
+
+// Front-on athletic stance, aspect 1: torso 0.2 long, knees bent forward toward the camera
+const STANCE: Record<number, Joint> = {
+  0: [0.5, 0.25, 0],
+  11: [0.42, 0.35, 0],
+  12: [0.58, 0.35, 0],
+  13: [0.4, 0.48, -0.05],
+  14: [0.6, 0.48, -0.05],
+  15: [0.42, 0.6, -0.1],
+  16: [0.58, 0.6, -0.1],
+  23: [0.44, 0.55, 0],
+  24: [0.56, 0.55, 0],
+  25: [0.38, 0.68, -0.12],
+  26: [0.62, 0.68, -0.12],
+  27: [0.36, 0.82, 0],
+  28: [0.64, 0.82, 0],
+};
+
+// Upright, knees locked, feet together, hands hanging below the knees
+const STANDING_TALL: Record<number, Joint> = {
+  ...STANCE,
+  15: [0.44, 0.72, 0],
+  16: [0.56, 0.72, 0],
+  23: [0.46, 0.5, 0],
+  24: [0.54, 0.5, 0],
+  25: [0.46, 0.68, 0],
+  26: [0.54, 0.68, 0],
+  27: [0.49, 0.86, 0],
+  28: [0.51, 0.86, 0],
+};
+
+function frame(t: number, joints: Record<number, Joint>, shift: { hips?: number; nose?: number } = {}) {
+  return {
+    t,
+    k: Array.from({ length: 33 }, (_, index) => {
+      const [x, y, z] = joints[index] ?? joints[0];
+      const dy = index === 23 || index === 24 ? (shift.hips ?? 0) : index === 0 ? (shift.nose ?? 0) : 0;
+      return [x, y + dy, z, 0.9];
+    }),
+  };
+}
+
+/** `count` frames at 15fps, hips dropped by `hips(progress)` */
+function clip(joints: Record<number, Joint>, count: number, shift: (progress: number) => { hips?: number; nose?: number } = () => ({})) {
+  return Array.from({ length: count }, (_, index) => frame(index / 15, joints, shift(index / (count - 1))));
+}
+
+test.describe('form analysis backend', () => {
+  test('rejects malformed requests with the offending path', () => {
+    expect(() => parseFormAnalysisRequest({ frames: [] })).toThrow(FormAnalysisRequestError);
+    expect(() => parseFormAnalysisRequest({ exercise: 'stance', frames: [{ t: 0, k: [[0, 0, 0, 1]] }] })).toThrow(
+      'frames[0].k: expected 33 keypoints'
+    );
+    expect(() => parseFormAnalysisRequest({ exercise: 'stance', frames: [], image: 'http://x' })).toThrow(/^image:/);
+
+    const request = parseFormAnalysisRequest({ exercise: ' Stance ', frames: [frame(0.2, STANCE), frame(0.1, STANCE)] });
+    expect(request.exercise).toBe('stance');
+    expect(request.aspect).toBe(1);
+    expect(request.frames.map((item) => item.t)).toEqual([0.1, 0.2]);
+  });
+
+  test('a solid stance gets a single positive tip', async () => {
+    const result = await analyzeWrestlingForm({ exercise: 'stance', frames: clip(STANCE, 10) });
+    expect(result.provider).toBe('rules');
+    expect(result.framesAnalyzed).toBe(10);
+    expect(result.tips).toEqual([expect.objectContaining({ check: 'all-clear', severity: 'info' })]);
+    expect(result.metrics.kneeBend).toBeGreaterThan(45);
+  });
+
+  test('standing tall is flagged, most severe first', async () => {
+    const { tips } = await analyzeWrestlingForm({ exercise: 'stance', frames: clip(STANDING_TALL, 10) });
+    const checks = tips.map((item) => item.check);
+    expect(checks).toEqual(expect.arrayContaining(['knee-bend', 'hip-height', 'foot-width', 'hand-position']));
+    expect(tips[0].severity).toBe('critical');
+    const order = { critical: 0, warning: 1, info: 2 };
+    expect(tips.map((item) => order[item.severity])).toEqual([...tips.map((item) => order[item.severity])].sort());
+    expect(tips.find((item) => item.check === 'foot-width')?.type).toBe('positioning');
+  });
+
+  test('takedowns need a level change with the head up', async () => {
+    const noLevelChange = await analyzeWrestlingForm({ exercise: 'takedown', frames: clip(STANCE, 15) });
+    expect(noLevelChange.tips.map((item) => item.check)).toEqual(['level-change']);
+
+    const goodShot = await analyzeWrestlingForm({
+      exercise: 'takedown',
+      frames: clip(STANCE, 15, (progress) => ({ hips: progress * 0.1 })),
+    });
+    expect(goodShot.tips.map((item) => item.check)).toEqual(['all-clear']);
+
+    const headDown = await analyzeWrestlingForm({
+      exercise: 'takedown',
+      frames: clip(STANCE, 15, (progress) => ({ hips: progress * 0.1, nose: progress * 0.45 })),
+    });
+    expect(headDown.tips[0]).toMatchObject({ check: 'head-below-hips', severity: 'critical', type: 'technique' });
+  });
+
+  test('sprawls are judged on depth and speed', async () => {
+    // Stance for half a second, then hips down 0.9 torso lengths in a third of a second
+    const fast = clip(STANCE, 20, (progress) => ({ hips: Math.min(1, Math.max(0, (progress - 0.4) / 0.25)) * 0.18 }));
+    expect((await analyzeWrestlingForm({ exercise: 'sprawl', frames: fast })).tips.map((item) => item.check)).toEqual([
+      'all-clear',
+    ]);
+
+    const shallow = clip(STANCE, 20, (progress) => ({ hips: progress * 0.08 }));
+    expect((await analyzeWrestlingForm({ exercise: 'sprawl', frames: shallow })).tips[0]).toMatchObject({
+      check: 'sprawl-depth',
+      severity: 'critical',
+    });
+
+    const slow = clip(STANCE, 30, (progress) => ({ hips: Math.max(0, (progress - 0.25) / 0.75) * 0.18 }));
+    expect((await analyzeWrestlingForm({ exercise: 'defense', frames: slow })).tips.map((item) => item.check)).toEqual([
+      'sprawl-speed',
+    ]);
+  });
+
+  test('asks the wrestler to step back when the body is out of view', async () => {
+    const hidden = clip(STANCE, 10).map((item) => ({ ...item, k: item.k.map(([x, y, z]) => [x, y, z, 0.1]) }));
+    const result = await analyzeWrestlingForm({ exercise: 'stance', frames: hidden }, { provider: createMockFormCoach() });
+    expect(result.framesAnalyzed).toBe(0);
+    expect(result.provider).toBe('rules');
+    expect(result.tips).toEqual([expect.objectContaining({ check: 'visibility' })]);
+  });
+
+  test('providers enrich tips and fall back to the rules on failure', async () => {
+    const frames = clip(STANDING_TALL, 10);
+    const rules = await analyzeWrestlingForm({ exercise: 'stance', frames });
+
+    const mock = await resolveFormCoachProvider({ FORM_ANALYSIS_PROVIDER: 'mock' });
+    const enriched = await analyzeWrestlingForm({ exercise: 'stance', frames }, { provider: mock });
+    expect(enriched.provider).toBe('mock');
+    expect(enriched.tips.slice(0, -1)).toEqual(rules.tips);
+    expect(enriched.tips[enriched.tips.length - 1]).toMatchObject({ check: 'summary', severity: 'info' });
+
+    const failing = { name: 'broken', enrich: async () => Promise.reject(new Error('offline')) };
+    expect(await analyzeWrestlingForm({ exercise: 'stance', frames }, { provider: failing })).toEqual(rules);
+
+    const garbage = { name: 'garbage', enrich: async () => [{ type: 'vibes', severity: 'huge', message: '' }] };
+    expect(await analyzeWrestlingForm({ exercise: 'stance', frames }, { provider: garbage })).toEqual(rules);
+  });
+
+  test('resolves the OpenAI provider from the environment without the SDK', async () => {
+    expect(await resolveFormCoachProvider({})).toBeNull();
+    expect(await resolveFormCoachProvider({ FORM_ANALYSIS_PROVIDER: 'openai' })).toBeNull();
+
+    const requests: { model: string; response_format: unknown }[] = [];
+    const client = {
+      chat: {
+        completions: {
+          create: async (request: { model: string; response_format: unknown }) => {
+            requests.push(request);
+            return {
+              choices: [
+                {
+                  message: {
+                    content: JSON.stringify({
+                      tips: [{ type: 'stance', severity: 'critical', message: 'Sit in that stance!', check: 'knee-bend' }],
+                    }),
+                  },
+                },
+              ],
+            };
+          },
+        },
+      },
+    };
+    const provider = await resolveFormCoachProvider({ OPENAI_API_KEY: 'sk-test', FORM_ANALYSIS_MODEL: 'test-model' }, () => client);
+    const result = await analyzeWrestlingForm({ exercise: 'stance', frames: clip(STANDING_TALL, 10) }, { provider });
+    expect(result.provider).toBe('openai');
+    expect(result.tips).toEqual([{ type: 'stance', severity: 'critical', message: 'Sit in that stance!', check: 'knee-bend' }]);
+    expect(requests[0]).toMatchObject({ model: 'test-model', response_format: { type: 'json_object' } });
+  });
+});
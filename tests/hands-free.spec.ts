@@ -0,0 +1,157 @@
+import { expect, test } from '@playwright/test';
+import { createFakeChatModel, createFakeSpeechToText } from '../server/coach/coach-providers.ts';
+import { COACH_FALLBACKS, createCoachService, matchWakePhrase } from '../server/coach/coach-service.ts';
+import { createVoiceActivityTracker, type VoiceActivityEvent } from '../src/lib/coach/voice-activity.ts';
+
+// Offline hands-free tests - wake phrase matching and the voice activity state machine on synthetic levels
+
+const speak = (text: string) => new TextEncoder().encode(text);
+
+// One reading every 33ms, like VoiceActivityDetector
+const READING_MS = 33;
+const QUIET_DB = -62;
+const VOICE_DB = -30;
+
+/** Feeds levels (dBFS, one per reading); `feed` returns the events it caused, `events` keeps them all with their times */
+function levels(tracker = createVoiceActivityTracker()) {
+  let now = 0;
+  const events: [VoiceActivityEvent, number][] = [];
+  return {
+    tracker,
+    events,
+    get now() {
+      return now;
+    },
+    feed(levelDb: number, ms: number, extraMarginDb = 0) {
+      const caused: VoiceActivityEvent[] = [];
+      for (let elapsed = 0; elapsed < ms; elapsed += READING_MS) {
+        const event = tracker.update(levelDb, now, extraMarginDb);
+        if (event) {
+          events.push([event, now]);
+          caused.push(event);
+        }
+        now += READING_MS;
+      }
+      return caused;
+    },
+  };
+}
+
+test.describe('wake phrase', () => {
+  test('returns what was said after the phrase, ignoring case and punctuation', () => {
+    expect(matchWakePhrase('Hey coach, how do I sprawl?', 'hey coach')).toBe('how do I sprawl?');
+    expect(matchWakePhrase('HEY, COACH! What now', 'Hey Coach')).toBe('What now');
+    expect(matchWakePhrase("hey coach - what's a cradle", 'hey coach')).toBe("what's a cradle");
+    expect(matchWakePhrase('Hey coach.', 'hey coach')).toBe('');
+  });
+
+  test('allows a couple of filler words first, but not a phrase buried in the sentence', () => {
+    expect(matchWakePhrase('Um okay hey coach pause it', 'hey coach')).toBe('pause it');
+    expect(matchWakePhrase('so um okay hey coach pause it', 'hey coach')).toBeNull();
+    expect(matchWakePhrase('I told him hey coach', 'hey coach')).toBeNull();
+    expect(matchWakePhrase('hey', 'hey coach')).toBeNull();
+    expect(matchWakePhrase('Hey coaches, listen', 'hey coach')).toBeNull();
+  });
+
+  test('an empty phrase lets everything through', () => {
+    expect(matchWakePhrase('  what about a switch  ', '')).toBe('what about a switch');
+    expect(matchWakePhrase('what about a switch', ' ?! ')).toBe('what about a switch');
+  });
+
+  test('the voice chat ignores recordings without the phrase and prompts after a bare one', async () => {
+    const coach = createCoachService({ chat: createFakeChatModel(), stt: createFakeSpeechToText() });
+    const session = { userId: 'jake', room: 'gym' };
+
+    const ignored = await coach.voiceChat(speak('nice shot man'), session, { wakePhrase: 'hey coach' });
+    expect(ignored).toMatchObject({ ignored: true, response: '' });
+    const bare = await coach.voiceChat(speak('Hey coach!'), session, { wakePhrase: 'hey coach' });
+    expect(bare.response).toBe(COACH_FALLBACKS.wakeOnly);
+
+    const answered = await coach.voiceChat(speak('Hey coach, what is a sprawl?'), session, { wakePhrase: 'hey coach' });
+    expect(answered.transcript).toBe('what is a sprawl?');
+    // Only the real question is remembered
+    expect(coach.getConversation(session).messages.map((turn) => turn.content)).toEqual([
+      'what is a sprawl?',
+      answered.response,
+    ]);
+  });
+});
+
+test.describe('voice activity tracker', () => {
+  test('learns the room before anything can start', () => {
+    const run = levels();
+    expect(run.feed(VOICE_DB, 450)).toEqual([]);
+    expect(run.tracker.active).toBe(false);
+    // The calibration readings pulled the floor up towards the loud room
+    expect(run.tracker.floorDb).toBeGreaterThan(-40);
+  });
+
+  test('speech long enough to count is kept, with start, speech and end in order', () => {
+    const run = levels();
+    run.feed(QUIET_DB, 600);
+    expect(run.feed(VOICE_DB, 400)).toEqual(['start', 'speech']);
+    expect(run.tracker.active).toBe(true);
+
+    // Short pauses between words don't end it
+    expect(run.feed(QUIET_DB, 500)).toEqual([]);
+    run.feed(VOICE_DB, 300);
+    const lastVoiceAt = run.now - READING_MS;
+    expect(run.feed(QUIET_DB, 1200)).toEqual(['end']);
+    const [, endedAt] = run.events.at(-1)!;
+    expect(endedAt - lastVoiceAt).toBeGreaterThanOrEqual(900);
+    expect(endedAt - lastVoiceAt).toBeLessThan(900 + 2 * READING_MS);
+  });
+
+  test('a burst shorter than speech is discarded', () => {
+    const run = levels();
+    run.feed(QUIET_DB, 600);
+    expect(run.feed(VOICE_DB, 150)).toEqual(['start']);
+    expect(run.feed(QUIET_DB, 1200)).toEqual(['discard']);
+    expect(run.tracker.active).toBe(false);
+  });
+
+  test('a loud gym raises the bar instead of holding the mic open', () => {
+    const run = levels();
+    run.feed(-40, 600);
+    // 8dB over a -40 floor is just the gym getting louder
+    expect(run.feed(-32, 600)).toEqual([]);
+    expect(run.feed(-18, 400)).toEqual(['start', 'speech']);
+  });
+
+  test('a silent room never starts, however far above its floor a whisper is', () => {
+    const run = levels(createVoiceActivityTracker({ minStartDb: -50 }));
+    run.feed(-85, 600);
+    expect(run.feed(-55, 600)).toEqual([]);
+  });
+
+  test('an extra margin keeps the coach voice from opening the mic', () => {
+    const run = levels();
+    run.feed(QUIET_DB, 600);
+    expect(run.feed(-35, 200, 20)).toEqual([]);
+    expect(run.feed(-35, 400)).toEqual(['start', 'speech']);
+  });
+
+  test('utterances are cut off at the maximum length', () => {
+    const run = levels(createVoiceActivityTracker({ maxUtteranceMs: 2000 }));
+    run.feed(QUIET_DB, 600);
+    // Still talking, so the next utterance starts straight away
+    expect(run.feed(VOICE_DB, 2100)).toEqual(['start', 'speech', 'end', 'start']);
+    const [[, startedAt], , [, endedAt]] = run.events;
+    expect(endedAt - startedAt).toBeGreaterThanOrEqual(2000);
+    expect(endedAt - startedAt).toBeLessThan(2000 + READING_MS);
+  });
+
+  test('begin starts without the threshold and the grace period holds off silence', () => {
+    const run = levels();
+    run.feed(QUIET_DB, 600);
+    run.tracker.begin(run.now, 3000);
+    expect(run.tracker.active).toBe(true);
+    expect(run.feed(QUIET_DB, 2500)).toEqual([]);
+    // Nothing said by the end of the grace period - nothing to keep
+    expect(run.feed(QUIET_DB, 600)).toEqual(['discard']);
+
+    run.tracker.begin(run.now);
+    run.tracker.reset();
+    expect(run.tracker.active).toBe(false);
+  });
+});
@@ -0,0 +1,200 @@
+import { expect, test } from '@playwright/test';
+import type { LocalVideoTrack } from 'twilio-video';
+import { HeadsetViewPublisher } from '../src/lib/room/headset-view-publisher.ts';
+import type { RoomConnection, RoomConnectionState, RoomConnectionStatus } from '../src/lib/room/room-connection.ts';
+
+// Offline headset view publisher tests - a stand-in canvas, track and room connection, no browser or Twilio
+
+/** Just enough of a canvas: its 2D context records the frames put on it */
+function fakeCanvas() {
+  const frames: { width: number; height: number; first: number }[] = [];
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => ({
+      createImageData: (width: number, height: number) => ({
+        width,
+        height,
+        data: new Uint8ClampedArray(width * height * 4),
+      }),
+      putImageData: (image: { width: number; height: number; data: Uint8ClampedArray }) =>
+        frames.push({ width: image.width, height: image.height, first: image.data[0] }),
+    }),
+    captureStream: () => ({ getVideoTracks: () => [{ kind: 'video' }] }),
+  };
+  return { canvas, frames };
+}
+
+function fakeTrack() {
+  return {
+    name: 'headset-view',
+    stopped: false,
+    stop() {
+      this.stopped = true;
+    },
+  };
+}
+
+/** The headset's room connection as the publisher sees it, driven by the test */
+function fakeConnection() {
+  const bitrates: (number | null | undefined)[] = [];
+  const room = {
+    name: 'tigers-practice',
+    localParticipant: {
+      setParameters: (parameters: { maxVideoBitrate?: number | null }) => bitrates.push(parameters.maxVideoBitrate),
+    },
+  };
+  let state = { status: 'idle', room: null, participants: [], retries: 0, error: null } as unknown as RoomConnectionState;
+  const listeners = new Set<(state: RoomConnectionState) => void>();
+  const published = new Set<unknown>();
+  let connects = 0;
+
+  function set(status: RoomConnectionStatus, error: string | null = null) {
+    const live = status === 'connected' || status === 'reconnecting';
+    state = { ...state, status, error, room: live ? room : null } as unknown as RoomConnectionState;
+    listeners.forEach((listener) => listener(state));
+  }
+
+  const connection = {
+    getState: () => state,
+    subscribe: (listener: (state: RoomConnectionState) => void) => {
+      listeners.add(listener);
+      listener(state);
+      return () => listeners.delete(listener);
+    },
+    publish: (track: unknown) => published.add(track),
+    unpublish: (track: unknown) => published.delete(track),
+    // Like the real one: starts joining when it isn't in the room or on its way
+    connect: () => {
+      connects++;
+      if (state.status === 'idle' || state.status === 'error') set('connecting');
+    },
+  } as unknown as RoomConnection;
+
+  return {
+    connection,
+    bitrates,
+    published,
+    listeners,
+    get connects() {
+      return connects;
+    },
+    set,
+  };
+}
+
+function setup(createTrack = async () => fakeTrack() as unknown as LocalVideoTrack) {
+  const { canvas, frames } = fakeCanvas();
+  (globalThis as { document?: unknown }).document = { createElement: () => canvas };
+  const room = fakeConnection();
+  const publisher = new HeadsetViewPublisher(room.connection, createTrack);
+  // Each status once, as the panel would show them
+  const statuses: string[] = [];
+  publisher.subscribe(({ status }) => {
+    if (statuses.at(-1) !== status) statuses.push(status);
+  });
+  return { publisher, room, canvas, frames, statuses };
+}
+
+test.describe('headset view publisher', () => {
+  test.afterEach(() => {
+    delete (globalThis as { document?: unknown }).document;
+  });
+
+  test('sharing publishes on the headset connection and goes live with the preset upload cap', async () => {
+    const { publisher, room, canvas, frames, statuses } = setup();
+    room.set('connected');
+
+    await publisher.start();
+    expect(room.published.size).toBe(1);
+    expect(statuses).toEqual(['off', 'connecting', 'live']);
+    expect(room.bitrates).toEqual([600_000]);
+    expect([canvas.width, canvas.height]).toEqual([640, 360]);
+
+    publisher.drawFrame(new Uint8Array(640 * 360 * 4).fill(7), 640, 360);
+    // Rendered just before a quality change - dropped
+    publisher.drawFrame(new Uint8Array(480 * 270 * 4), 480, 270);
+    expect(frames).toEqual([{ width: 640, height: 360, first: 7 }]);
+
+    publisher.setQuality('high');
+    expect([canvas.width, canvas.height]).toEqual([960, 540]);
+    expect(room.bitrates).toEqual([600_000, 1_200_000]);
+  });
+
+  test('waits for the room, and follows it through a reconnect', async () => {
+    const { publisher, room, statuses } = setup();
+
+    await publisher.start();
+    // Sharing also brings a headset that had failed to join back into the room
+    expect(room.connects).toBe(1);
+    expect(publisher.getState().status).toBe('connecting');
+
+    room.set('connected');
+    room.set('reconnecting');
+    room.set('connected');
+    expect(statuses).toEqual(['off', 'connecting', 'live', 'reconnecting', 'live']);
+    // The cap is applied again to the room after the reconnect
+    expect(room.bitrates).toEqual([600_000, 600_000]);
+  });
+
+  test('stopping unpublishes the view but leaves the headset in the room', async () => {
+    const track = fakeTrack();
+    const { publisher, room, statuses } = setup(async () => track as unknown as LocalVideoTrack);
+    room.set('connected');
+    await publisher.start();
+
+    publisher.stop();
+    expect(room.published.size).toBe(0);
+    expect(track.stopped).toBe(true);
+    // The webcam gets the whole upload again
+    expect(room.bitrates).toEqual([600_000, null]);
+    expect(room.connection.getState().status).toBe('connected');
+    expect(room.listeners.size).toBe(0);
+
+    room.set('reconnecting');
+    expect(statuses).toEqual(['off', 'connecting', 'live', 'off']);
+  });
+
+  test('a failed track or room ends in an error that can be retried', async () => {
+    let fail = true;
+    const { publisher, room } = setup(async () => {
+      if (fail) throw new Error('Canvas capture not supported');
+      return fakeTrack() as unknown as LocalVideoTrack;
+    });
+
+    await publisher.start();
+    expect(publisher.getState()).toMatchObject({ status: 'error', error: 'Canvas capture not supported' });
+    expect(room.published.size).toBe(0);
+
+    fail = false;
+    await publisher.start();
+    room.set('connected');
+    expect(publisher.getState().status).toBe('live');
+
+    room.set('error', 'Room not found');
+    expect(publisher.getState()).toMatchObject({ status: 'error', error: 'Room not found' });
+    expect(room.published.size).toBe(0);
+
+    // The headset leaving the room ends a share that was live
+    await publisher.start();
+    room.set('connected');
+    room.set('idle');
+    expect(publisher.getState().status).toBe('off');
+    expect(room.published.size).toBe(0);
+  });
+
+  test('stopping while the track is still being made drops it when it arrives', async () => {
+    let resolveTrack: (track: LocalVideoTrack) => void = () => {};
+    const { publisher, room } = setup(() => new Promise((resolve) => (resolveTrack = resolve)));
+    const track = fakeTrack();
+
+    const starting = publisher.start();
+    publisher.stop();
+    resolveTrack(track as unknown as LocalVideoTrack);
+    await starting;
+
+    expect(track.stopped).toBe(true);
+    expect(room.published.size).toBe(0);
+    expect(publisher.getState().status).toBe('off');
+  });
+});
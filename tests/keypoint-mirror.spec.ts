@@ -0,0 +1,156 @@
+import { expect, test } from '@playwright/test';
+import { BLAZEPOSE_MIRROR_INDEX, mirrorKeypoints, mirrorNormalizedX } from '../src/lib/pose/keypoint-mirror.ts';
+
+// Offline keypoint mirror tests - the BlazePose topology as a table, no detector
+
+// BlazePose keypoint names, by index
+const NAMES = [
+  'nose',
+  'left_eye_inner',
+  'left_eye',
+  'left_eye_outer',
+  'right_eye_inner',
+  'right_eye',
+  'right_eye_outer',
+  'left_ear',
+  'right_ear',
+  'mouth_left',
+  'mouth_right',
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_pinky',
+  'right_pinky',
+  'left_index',
+  'right_index',
+  'left_thumb',
+  'right_thumb',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+  'left_heel',
+  'right_heel',
+  'left_foot_index',
+  'right_foot_index',
+];
+
+const PAIRS: [string, string][] = [
+  ['left_eye_inner', 'right_eye_inner'],
+  ['left_eye', 'right_eye'],
+  ['left_eye_outer', 'right_eye_outer'],
+  ['left_ear', 'right_ear'],
+  ['mouth_left', 'mouth_right'],
+  ['left_shoulder', 'right_shoulder'],
+  ['left_elbow', 'right_elbow'],
+  ['left_wrist', 'right_wrist'],
+  ['left_pinky', 'right_pinky'],
+  ['left_index', 'right_index'],
+  ['left_thumb', 'right_thumb'],
+  ['left_hip', 'right_hip'],
+  ['left_knee', 'right_knee'],
+  ['left_ankle', 'right_ankle'],
+  ['left_heel', 'right_heel'],
+  ['left_foot_index', 'right_foot_index'],
+];
+
+const index = (name: string) => NAMES.indexOf(name);
+
+/** A pose where every joint has its own position, named or not */
+function pose(named = true) {
+  return NAMES.map((name, at) => ({
+    x: 0.1 + at * 0.02,
+    y: 0.9 - at * 0.01,
+    score: at / 100,
+    ...(named ? { name } : {}),
+  }));
+}
+
+test.describe('keypoint mirror', () => {
+  test('covers the 33 BlazePose keypoints', () => {
+    expect(BLAZEPOSE_MIRROR_INDEX).toHaveLength(NAMES.length);
+    // Every left/right pair plus the nose
+    expect(PAIRS.length * 2 + 1).toBe(NAMES.length);
+  });
+
+  for (const [left, right] of PAIRS) {
+    test(`${left} and ${right} swap`, () => {
+      expect(BLAZEPOSE_MIRROR_INDEX[index(left)]).toBe(index(right));
+      expect(BLAZEPOSE_MIRROR_INDEX[index(right)]).toBe(index(left));
+
+      const mirrored = mirrorKeypoints(pose());
+      const original = pose();
+      // The left joint takes the right joint's place, flipped, and keeps its own name
+      expect(mirrored[index(left)]).toEqual({
+        ...original[index(right)],
+        x: 1 - original[index(right)].x,
+        name: left,
+      });
+      expect(mirrored[index(right)]).toEqual({
+        ...original[index(left)],
+        x: 1 - original[index(left)].x,
+        name: right,
+      });
+    });
+  }
+
+  test('the nose stays the nose', () => {
+    expect(BLAZEPOSE_MIRROR_INDEX[index('nose')]).toBe(index('nose'));
+    expect(mirrorKeypoints(pose())[0]).toMatchObject({ name: 'nose', x: 0.9, y: 0.9 });
+  });
+
+  test('mirroring twice gives the pose back', () => {
+    BLAZEPOSE_MIRROR_INDEX.forEach((other, at) => expect(BLAZEPOSE_MIRROR_INDEX[other], NAMES[at]).toBe(at));
+
+    const original = pose();
+    const twice = mirrorKeypoints(mirrorKeypoints(original));
+    twice.forEach((keypoint, at) => {
+      expect(keypoint.x).toBeCloseTo(original[at].x, 10);
+      expect({ ...keypoint, x: 0 }).toEqual({ ...original[at], x: 0 });
+    });
+  });
+
+  test('x flips around the middle of the frame, normalized or in pixels', () => {
+    const cases: [x: number, width: number, flipped: number][] = [
+      [0, 1, 1],
+      [0.5, 1, 0.5],
+      [0.25, 1, 0.75],
+      [1, 1, 0],
+      [0, 640, 640],
+      [160, 640, 480],
+      [320, 640, 320],
+      [-10, 640, 650],
+    ];
+    for (const [x, width, flipped] of cases) {
+      const keypoints = pose(false);
+      keypoints[0] = { ...keypoints[0], x };
+      expect(mirrorKeypoints(keypoints, width)[0].x, `${x} in ${width}`).toBe(flipped);
+      if (width === 1) expect(mirrorNormalizedX(x)).toBe(flipped);
+    }
+  });
+
+  test('unnamed keypoints are swapped by index and the input is left alone', () => {
+    const original = pose(false);
+    const copy = structuredClone(original);
+    const mirrored = mirrorKeypoints(original);
+
+    expect(mirrored[index('left_wrist')].y).toBe(original[index('right_wrist')].y);
+    expect(mirrored[index('left_wrist')].score).toBe(original[index('right_wrist')].score);
+    expect(mirrored[index('left_wrist')].name).toBeUndefined();
+    expect(original).toEqual(copy);
+  });
+
+  test('another topology is only flipped', () => {
+    // MoveNet's 17 keypoints - left/right indices differ, so nothing is swapped
+    const moveNet = Array.from({ length: 17 }, (_, at) => ({ x: at * 10, y: at, name: `kp${at}` }));
+    const mirrored = mirrorKeypoints(moveNet, 200);
+    expect(mirrored.map(({ x }) => x)).toEqual(moveNet.map(({ x }) => 200 - x));
+    expect(mirrored.map(({ name }) => name)).toEqual(moveNet.map(({ name }) => name));
+    expect(mirrorKeypoints([])).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect, test } from '@playwright/test';
+import { mkdtemp, readdir, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createLayoutStore, LayoutStoreError } from '../server/lib/layout-store.js';
+
+// Offline layout store tests - a store per test in a temp directory
+
+const CARDS = { 'leg-camp-1': { position: [0, 1.5, -2], rotation: [0, 0, 0], scale: 1 } };
+
+let directory: string;
+let path: string;
+
+test.beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'layout-store-'));
+  path = join(directory, 'data', 'card-layouts.json');
+});
+
+test.afterEach(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+test.describe('card layout store', () => {
+  test('saves, lists and removes layouts per user', async () => {
+    const store = createLayoutStore(path);
+    expect(await store.list('Jake')).toEqual([]);
+
+    await store.save('Jake', 'Wall', { name: 'ignored', updatedAt: 5, coach: null, cards: CARDS });
+    await store.save('Sam', 'Ring', { cards: CARDS });
+    expect(await store.list('Jake')).toEqual([{ name: 'Wall', updatedAt: 5, coach: null, cards: CARDS }]);
+    expect((await store.list('Sam'))[0].updatedAt).toBeGreaterThan(0);
+
+    expect(await store.remove('Jake', 'Wall')).toBe(true);
+    expect(await store.remove('Jake', 'Wall')).toBe(false);
+    expect(await store.list('Jake')).toEqual([]);
+    expect(await store.list('Sam')).toHaveLength(1);
+  });
+
+  test('overlapping saves all land, and only the finished file is left behind', async () => {
+    const store = createLayoutStore(path);
+    const names = Array.from({ length: 20 }, (_, index) => `Layout ${index + 1}`);
+    await Promise.all(names.map((name) => store.save('Jake', name, { cards: CARDS })));
+
+    expect((await store.list('Jake')).map((layout) => layout.name).sort()).toEqual([...names].sort());
+    expect(await readdir(join(directory, 'data'))).toEqual(['card-layouts.json']);
+  });
+
+  test('an invalid layout among overlapping saves is refused on its own', async () => {
+    const store = createLayoutStore(path);
+    const results = await Promise.allSettled([
+      store.save('Jake', 'Wall', { cards: CARDS }),
+      store.save('Jake', 'Bad', { cards: null }),
+      store.save('Jake', 'Ring', { cards: CARDS }),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect((await store.list('Jake')).map((layout) => layout.name)).toEqual(['Wall', 'Ring']);
+  });
+
+  test('refuses names that would reach the object prototype', async () => {
+    const store = createLayoutStore(path);
+    for (const name of ['__proto__', 'constructor', 'prototype']) {
+      await expect(store.save(name, 'Wall', { cards: CARDS })).rejects.toBeInstanceOf(LayoutStoreError);
+      await expect(store.save('Jake', name, { cards: CARDS })).rejects.toMatchObject({ status: 400 });
+      await expect(store.list(name)).rejects.toMatchObject({ status: 400 });
+    }
+    await expect(store.save('Jake', '', { cards: CARDS })).rejects.toMatchObject({ status: 400 });
+    await expect(store.save('Jake', 'Wall', [])).rejects.toMatchObject({ status: 400 });
+    expect(Object.prototype).not.toHaveProperty('Wall');
+  });
+
+  test('a file holding those names stays plain data', async () => {
+    await writeFile(join(directory, 'card-layouts.json'), '{"__proto__": {"Wall": {"name": "Wall", "cards": {}}}}');
+    const store = createLayoutStore(join(directory, 'card-layouts.json'));
+
+    expect(await store.list('Jake')).toEqual([]);
+    expect(await store.list('toString')).toEqual([]);
+    await store.save('Jake', 'Ring', { cards: CARDS });
+    const written = JSON.parse(await readFile(join(directory, 'card-layouts.json'), 'utf8'));
+    expect(Object.keys(written)).toEqual(['__proto__', 'Jake']);
+  });
+});
@@ -0,0 +1,249 @@
+import { expect, test } from '@playwright/test';
+import {
+  PlaybackController,
+  formatTimestamp,
+  getPlaybackController,
+  parseTimestamp,
+  registerPlaybackController,
+  unregisterPlaybackController,
+} from '../src/lib/video/playback-controller.ts';
+import type { LiveVideo, VideoResourceManager } from '../src/lib/video/video-resource-manager.ts';
+
+// Offline playback controller tests - a stand-in video element and resource manager, no decoder
+
+/** The parts of an HTMLVideoElement the controller drives; metadata arrives when the test says */
+class FakeVideo {
+  currentTime = 0;
+  duration = NaN;
+  readyState = 0;
+  paused = true;
+  ended = false;
+  playbackRate = 1;
+  private readonly handlers = new Map<string, Set<() => void>>();
+
+  play() {
+    this.paused = false;
+    this.emit('play');
+    return Promise.resolve();
+  }
+  pause() {
+    this.paused = true;
+    this.emit('pause');
+  }
+  loadMetadata(duration: number) {
+    this.duration = duration;
+    this.readyState = 1;
+    this.emit('loadedmetadata');
+  }
+  addEventListener(event: string, handler: () => void) {
+    this.handlers.set(event, (this.handlers.get(event) ?? new Set()).add(handler));
+  }
+  removeEventListener(event: string, handler: () => void) {
+    this.handlers.get(event)?.delete(handler);
+  }
+  private emit(event: string) {
+    this.handlers.get(event)?.forEach((handler) => handler());
+  }
+}
+
+/** A resource manager for one card: play attaches a stream, and the test can evict it */
+function fakeManager() {
+  let live: LiveVideo | null = null;
+  const listeners = new Set<() => void>();
+  const calls: string[] = [];
+  const attach = (video: FakeVideo | null) => {
+    live = video ? ({ video, texture: {} } as unknown as LiveVideo) : null;
+    listeners.forEach((listener) => listener());
+  };
+
+  const manager = {
+    getLiveVideo: () => live,
+    subscribe: (_id: string, listener: () => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    pin: () => {
+      calls.push('pin');
+      if (!live) attach(new FakeVideo());
+      return live;
+    },
+    unpin: () => calls.push('unpin'),
+  } as unknown as VideoResourceManager;
+
+  return {
+    manager,
+    calls,
+    listeners,
+    attach,
+    get video() {
+      return live?.video as unknown as FakeVideo | undefined;
+    },
+  };
+}
+
+/** A card whose stream is attached, with metadata for a 10 second clip */
+function liveCard(frameRate?: number) {
+  const cards = fakeManager();
+  const video = new FakeVideo();
+  video.loadMetadata(10);
+  cards.attach(video);
+  const controller = new PlaybackController('single-leg', cards.manager, frameRate);
+  return { ...cards, video, controller };
+}
+
+test.describe('playback controller', () => {
+  test('speed cycles 1x, 0.5x, 0.25x and survives a new stream', () => {
+    const { controller, video, attach } = liveCard();
+    expect(controller.getState().rate).toBe(1);
+
+    const rates: number[] = [];
+    for (let step = 0; step < 3; step++) {
+      controller.cycleRate();
+      rates.push(video.playbackRate);
+    }
+    expect(rates).toEqual([0.5, 0.25, 1]);
+
+    controller.setRate(0.25);
+    // Evicted and attached again - the slow motion is put back on the new stream
+    attach(null);
+    expect(controller.getState()).toMatchObject({ isLive: false, rate: 0.25 });
+    const next = new FakeVideo();
+    attach(next);
+    expect(next.playbackRate).toBe(0.25);
+  });
+
+  test('the loop range jumps back to its start and keeps a valid order', () => {
+    const { controller, video } = liveCard();
+    controller.setLoop(2, 3);
+    controller.play();
+
+    video.currentTime = 2.5;
+    controller.tick();
+    expect(video.currentTime).toBe(2.5);
+
+    video.currentTime = 3;
+    controller.tick();
+    expect(video.currentTime).toBe(2);
+
+    // Seeking just before the loop is allowed, well before it snaps back
+    video.currentTime = 1.8;
+    controller.tick();
+    expect(video.currentTime).toBe(1.8);
+    video.currentTime = 1;
+    controller.tick();
+    expect(video.currentTime).toBe(2);
+
+    // Paused: the wrestler can scrub outside the loop
+    controller.pause();
+    video.currentTime = 8;
+    controller.tick();
+    expect(video.currentTime).toBe(8);
+
+    expect(() => controller.setLoop(4, 4)).toThrow('Loop end (4s) must be after loop start (4s)');
+
+    // A start past the end drops the end; an end before the start is ignored
+    controller.setLoopStart(5);
+    expect(controller.getState()).toMatchObject({ loopStart: 5, loopEnd: null });
+    controller.setLoopEnd(4);
+    expect(controller.getState().loopEnd).toBeNull();
+    // Both default to the current time
+    video.currentTime = 6.5;
+    controller.setLoopEnd();
+    expect(controller.getState()).toMatchObject({ loopStart: 5, loopEnd: 6.5 });
+
+    controller.clearLoop();
+    controller.play();
+    video.currentTime = 9;
+    controller.tick();
+    expect(video.currentTime).toBe(9);
+    expect(controller.getState()).toMatchObject({ loopStart: null, loopEnd: null });
+  });
+
+  test('frame steps pause and move one frame, within the clip', () => {
+    const { controller, video, calls } = liveCard();
+    controller.play();
+    video.currentTime = 1;
+
+    controller.stepFrame(1);
+    expect(video.paused).toBe(true);
+    expect(calls).toEqual(['pin', 'unpin']);
+    expect(video.currentTime).toBeCloseTo(1 + 1 / 30, 6);
+
+    controller.stepFrame(-1);
+    controller.stepFrame(-1);
+    expect(video.currentTime).toBeCloseTo(1 - 1 / 30, 6);
+
+    video.currentTime = 0.01;
+    controller.stepFrame(-1);
+    expect(video.currentTime).toBe(0);
+    video.currentTime = 9.99;
+    controller.stepFrame(1);
+    expect(video.currentTime).toBe(10);
+
+    const sixty = liveCard(60);
+    sixty.controller.stepFrame(1);
+    expect(sixty.video.currentTime).toBeCloseTo(1 / 60, 6);
+  });
+
+  test('a seek before the stream has metadata is applied when it arrives', () => {
+    const cards = fakeManager();
+    const controller = new PlaybackController('single-leg', cards.manager);
+    const states: string[] = [];
+    controller.subscribe((state) => states.push(`${state.isLive}:${state.currentTime.toFixed(3)}`));
+
+    // On its poster: the step is remembered
+    controller.stepFrame(1);
+    expect(controller.getState()).toMatchObject({ isLive: false, currentTime: 1 / 30 });
+
+    controller.playFrom(4);
+    const video = cards.video!;
+    expect(video.paused).toBe(false);
+    expect(video.currentTime).toBe(0);
+    expect(controller.isPlaybackRequested).toBe(true);
+
+    video.loadMetadata(10);
+    expect(video.currentTime).toBe(4);
+    expect(states.at(-1)).toBe('true:4.000');
+
+    // Evicted while playing - a stream that comes back starts paused
+    cards.attach(null);
+    expect(controller.isPlaybackRequested).toBe(false);
+
+    controller.dispose();
+    expect(cards.listeners.size).toBe(0);
+  });
+
+  test('one controller per card id', () => {
+    const first = new PlaybackController('sprawl', fakeManager().manager);
+    const cards = fakeManager();
+    const second = new PlaybackController('sprawl', cards.manager);
+    registerPlaybackController(first);
+    registerPlaybackController(second);
+    expect(getPlaybackController('sprawl')).toBe(second);
+
+    // An old card unmounting late doesn't take the new one with it
+    unregisterPlaybackController(first);
+    expect(getPlaybackController('sprawl')).toBe(second);
+    unregisterPlaybackController(second);
+    expect(getPlaybackController('sprawl')).toBeNull();
+    expect(cards.listeners.size).toBe(0);
+  });
+
+  test('timestamps parse the way coaches say them', () => {
+    const cases: [string, number | null][] = [
+      ['4', 4],
+      ['4.2s', 4.2],
+      [' 0:04 ', 4],
+      ['1:02.5', 62.5],
+      ['10:00', 600],
+      ['1:75', null],
+      ['-3', null],
+      ['four', null],
+      ['', null],
+    ];
+    for (const [said, seconds] of cases) {
+      expect(parseTimestamp(said), said).toBe(seconds);
+    }
+    expect([0, 4.25, 62.5, -1].map(formatTimestamp)).toEqual(['0:00.0', '0:04.3', '1:02.5', '0:00.0']);
+  });
+});
@@ -0,0 +1,161 @@
+import { expect, test } from '@playwright/test';
+import { mirrorKeypoints } from '../src/lib/pose/keypoint-mirror.ts';
+import { COMPARED_JOINTS, alignPoseForOverlay, comparePoses, jointAngle } from '../src/lib/pose/pose-comparison.ts';
+import type { PoseKeypoint } from '../src/lib/pose/reference-track.ts';
+
+// Offline pose comparison tests - hand-placed BlazePose skeletons, no detector
+
+// A wrestler in a lopsided stance, in pixels of a 640x480 frame: right arm reaching, right knee bent out
+const STANCE_PIXELS: Record<number, [number, number]> = {
+  11: [290, 150], // left shoulder
+  12: [350, 150], // right shoulder
+  13: [260, 220], // left elbow
+  14: [390, 210], // right elbow
+  15: [262, 290], // left wrist
+  16: [440, 250], // right wrist
+  23: [300, 290], // left hip
+  24: [340, 290], // right hip
+  25: [300, 370], // left knee
+  26: [390, 350], // right knee
+  27: [300, 450], // left ankle
+  28: [360, 440], // right ankle
+};
+
+/** The stance as normalized keypoints of a `width` x `height` frame, shifted by `offset` pixels */
+function stance(width = 640, height = 480, offset: [number, number] = [0, 0]): PoseKeypoint[] {
+  return Array.from({ length: 33 }, (_, index) => {
+    const [x, y] = STANCE_PIXELS[index] ?? [320, 100];
+    return { x: (x + offset[0]) / width, y: (y + offset[1]) / height, score: 0.9 };
+  });
+}
+
+function hide(keypoints: PoseKeypoint[], ...indices: number[]) {
+  return keypoints.map((keypoint, index) => (indices.includes(index) ? { ...keypoint, score: 0.1 } : keypoint));
+}
+
+const ids = (keypoints: PoseKeypoint[], reference: PoseKeypoint[]) =>
+  comparePoses(keypoints, reference)?.joints.map(({ id }) => id);
+
+test.describe('pose comparison', () => {
+  test('joint angles are measured at the vertex, in real image proportions', () => {
+    const at = (x: number, y: number): PoseKeypoint => ({ x, y, score: 1 });
+    expect(jointAngle(at(1, 0), at(0, 0), at(0, 1))).toBeCloseTo(90);
+    expect(jointAngle(at(-1, 0), at(0, 0), at(1, 0))).toBeCloseTo(180);
+    expect(jointAngle(at(1, 1), at(0, 0), at(2, 2))).toBeCloseTo(0);
+    // A point on the vertex has no angle
+    expect(jointAngle(at(0, 0), at(0, 0), at(1, 0))).toBe(0);
+    // 45° in a square frame is wider once the frame is 16:9
+    expect(jointAngle(at(1, 0), at(0, 0), at(1, 1))).toBeCloseTo(45);
+    expect(jointAngle(at(1, 0), at(0, 0), at(1, 1), 16 / 9)).toBeCloseTo(29.36, 1);
+  });
+
+  test('an identical pose matches fully, wherever it stands and however the clip is framed', () => {
+    const same = comparePoses(stance(), stance());
+    expect(same?.similarity).toBe(100);
+    expect(same?.joints.map(({ id }) => id)).toEqual(COMPARED_JOINTS.map(({ id }) => id));
+    same?.joints.forEach((joint) => expect(joint.deviation).toBeCloseTo(0, 6));
+
+    // Moved across the frame, and filmed in 16:9 - the reference clip is framed differently
+    const moved = stance(640, 480, [120, -40]);
+    const wide = stance(1280, 480);
+    expect(comparePoses(moved, wide, 640 / 480, 1280 / 480)?.similarity).toBe(100);
+    // Without the aspect the wide clip's angles come out squashed
+    expect(comparePoses(moved, wide, 640 / 480, 1)?.similarity).toBeLessThan(100);
+  });
+
+  test('a mirrored pose matches joint for joint only once both sides are swapped', () => {
+    const pose = stance();
+
+    // Flipping the picture doesn't change any angle
+    const flipped = pose.map((keypoint) => ({ ...keypoint, x: 1 - keypoint.x }));
+    expect(comparePoses(flipped, pose)?.similarity).toBe(100);
+
+    // The same stance off the other leg: the bent knee is now the left one
+    const otherLeg = mirrorKeypoints(pose);
+    const comparison = comparePoses(otherLeg, pose)!;
+    expect(comparison.similarity).toBeLessThan(80);
+    const angle = (id: string, side: 'liveAngle' | 'referenceAngle') =>
+      comparison.joints.find((joint) => joint.id === id)![side];
+    expect(angle('left_knee', 'liveAngle')).toBeCloseTo(angle('right_knee', 'referenceAngle'), 6);
+    expect(angle('right_elbow', 'liveAngle')).toBeCloseTo(angle('left_elbow', 'referenceAngle'), 6);
+
+    // Mirroring the reference too - what mirror mode does - lines them up again
+    expect(comparePoses(otherLeg, mirrorKeypoints(pose))?.similarity).toBe(100);
+  });
+
+  test('joints with a missing or unsure keypoint are left out', () => {
+    const pose = stance();
+
+    // The left knee is the vertex of one joint and an end of another
+    expect(ids(hide(pose, 25), pose)).toEqual([
+      'left_elbow',
+      'right_elbow',
+      'left_shoulder',
+      'right_shoulder',
+      'right_hip',
+      'right_knee',
+    ]);
+    // Either side not seeing it is enough
+    expect(ids(pose, hide(pose, 15, 16))).not.toContain('left_elbow');
+    expect(ids(pose, hide(pose, 15, 16))).not.toContain('right_elbow');
+
+    // Right at the confidence cut-off still counts
+    const unsure = pose.map((keypoint) => ({ ...keypoint, score: 0.3 }));
+    expect(comparePoses(unsure, pose)?.joints).toHaveLength(COMPARED_JOINTS.length);
+
+    // An upper-body-only detection has no hips or knees
+    expect(ids(pose.slice(0, 23), pose)).toEqual(['left_elbow', 'right_elbow']);
+    // The rest of the match doesn't get a worse score for it
+    expect(comparePoses(hide(pose, 25), pose)?.similarity).toBe(100);
+
+    expect(comparePoses(hide(pose, 11, 12, 23, 24, 25, 26), pose)).toBeNull();
+    expect(comparePoses([], pose)).toBeNull();
+  });
+
+  test('a joint 60 degrees off counts for nothing, half of that for half', () => {
+    const pose = stance();
+    const at = (x: number, y: number): PoseKeypoint => ({ x: x / 640, y: y / 480, score: 0.9 });
+    const bend = (degrees: number) => {
+      // Swing the right wrist around the right elbow - negative closes the arm
+      const [ex, ey] = STANCE_PIXELS[14];
+      const [wx, wy] = STANCE_PIXELS[16];
+      const turn = (degrees * Math.PI) / 180;
+      const [dx, dy] = [wx - ex, wy - ey];
+      const moved = [...pose];
+      moved[16] = at(ex + dx * Math.cos(turn) - dy * Math.sin(turn), ey + dx * Math.sin(turn) + dy * Math.cos(turn));
+      return moved;
+    };
+
+    const elbow = (live: PoseKeypoint[]) =>
+      comparePoses(live, pose, 640 / 480, 640 / 480)!.joints.find(({ id }) => id === 'right_elbow')!;
+    expect(elbow(bend(-30)).deviation).toBeCloseTo(30, 6);
+    // Seven joints match, one is half off
+    expect(comparePoses(bend(-30), pose, 640 / 480, 640 / 480)?.similarity).toBe(Math.round((7.5 / 8) * 100));
+    expect(elbow(bend(-75)).deviation).toBeCloseTo(75, 6);
+    expect(comparePoses(bend(-75), pose, 640 / 480, 640 / 480)?.similarity).toBe(Math.round((7 / 8) * 100));
+  });
+
+  test('poses are aligned on the hips with a unit torso for the overlay', () => {
+    const aligned = alignPoseForOverlay(stance(), 640 / 480)!;
+    const midpoint = (a: number, b: number) => [(aligned[a].x + aligned[b].x) / 2, (aligned[a].y + aligned[b].y) / 2];
+
+    const [hipX, hipY] = midpoint(23, 24);
+    expect(hipX).toBeCloseTo(0, 6);
+    expect(hipY).toBeCloseTo(0, 6);
+    const [shoulderX, shoulderY] = midpoint(11, 12);
+    expect(Math.hypot(shoulderX, shoulderY)).toBeCloseTo(1, 6);
+    // y points up: the shoulders are above the hips
+    expect(shoulderY).toBeGreaterThan(0);
+
+    // The same stance anywhere in the frame lines up on top of it
+    const moved = alignPoseForOverlay(stance(640, 480, [-90, 25]), 640 / 480)!;
+    moved.forEach((keypoint, index) => {
+      expect(keypoint.x).toBeCloseTo(aligned[index].x, 6);
+      expect(keypoint.y).toBeCloseTo(aligned[index].y, 6);
+    });
+
+    expect(alignPoseForOverlay(stance().slice(0, 23))).toBeNull();
+    const collapsed = stance().map((keypoint) => ({ ...keypoint, x: 0.5, y: 0.5 }));
+    expect(alignPoseForOverlay(collapsed)).toBeNull();
+  });
+});
@@ -0,0 +1,136 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import { openY4mFrameSource, type VideoFrame } from '../scripts/pose-extract/frame-source.ts';
+import type { PoseEstimator } from '../scripts/pose-extract/pose-estimator.ts';
+import { extractReferenceTrack, writeReferenceTrack } from '../scripts/pose-extract/extract.ts';
+import {
+  BLAZEPOSE_KEYPOINT_COUNT,
+  decodeReferenceTrack,
+  encodeReferenceTrack,
+  parseReferenceTrack,
+  serializeReferenceTrack,
+  type PoseFrame,
+} from '../src/lib/pose/reference-track.ts';
+import { smoothPoseFrames } from '../src/lib/pose/pose-smoothing.ts';
+
+// Offline pipeline tests - no browser, no model download
+const FIXTURE = 'tests/fixtures/pose/sliding-figure.y4m';
+
+// Deterministic stand-in for BlazePose: every keypoint sits on the centroid of the bright pixels
+function createCentroidEstimator(): PoseEstimator {
+  return {
+    async estimate({ width, height, data }: VideoFrame) {
+      let sumX = 0;
+      let sumY = 0;
+      let count = 0;
+      for (let pixel = 0; pixel < width * height; pixel++) {
+        if (data[pixel * 3] > 200) {
+          sumX += pixel % width;
+          sumY += Math.floor(pixel / width);
+          count++;
+        }
+      }
+      if (count === 0) {
+        return null;
+      }
+      const x = (sumX / count + 0.5) / width;
+      const y = (sumY / count + 0.5) / height;
+      return Array.from({ length: BLAZEPOSE_KEYPOINT_COUNT }, () => ({ x, y, z: 0, score: 0.9 }));
+    },
+    dispose() {},
+  };
+}
+
+test.describe('pose extraction pipeline', () => {
+  test('decodes y4m fixtures and samples them down to the requested rate', async () => {
+    const source = await openY4mFrameSource(FIXTURE, 12);
+    expect([source.width, source.height, source.fps]).toEqual([48, 36, 12]);
+
+    const frames: VideoFrame[] = [];
+    for await (const frame of source.frames()) {
+      frames.push(frame);
+    }
+    expect(frames.map((frame) => frame.t)).toEqual(Array.from({ length: 12 }, (_, index) => (index * 2) / 24));
+
+    // Studio-range black mat, white athlete block
+    const { data, width } = frames[0];
+    expect(data[0]).toBeLessThan(10);
+    const athlete = (10 * width + 8) * 3;
+    expect(data[athlete]).toBeGreaterThan(245);
+  });
+
+  test('extracts a versioned track with a gap where the athlete is missing', async () => {
+    const source = await openY4mFrameSource(FIXTURE, 30);
+    const track = await extractReferenceTrack(source, createCentroidEstimator(), {
+      techniqueId: 'sliding-figure',
+      minScore: 0.3,
+      smoothing: null,
+    });
+
+    expect(track).toMatchObject({ version: 1, techniqueId: 'sliding-figure', fps: 24, width: 48, height: 36 });
+    expect(track.frames).toHaveLength(20);
+    expect(track.frames.some((frame) => frame.t > 9.5 / 24 && frame.t < 13.5 / 24)).toBe(false);
+
+    const xs = track.frames.map((frame) => frame.keypoints[0].x);
+    xs.slice(1).forEach((x, index) => expect(x).toBeGreaterThan(xs[index]));
+    expect(xs[0]).toBeCloseTo(10 / 48, 5);
+
+    // What the headset will load
+    const parsed = parseReferenceTrack(JSON.parse(JSON.stringify(serializeReferenceTrack(track))));
+    expect(parsed.frames).toHaveLength(20);
+    expect(parsed.frames[5].keypoints[0].x).toBeCloseTo(track.frames[5].keypoints[0].x, 4);
+  });
+
+  test('writes json and binary tracks that decode to the same data', async () => {
+    const outDir = await mkdtemp(join(tmpdir(), 'pose-tracks-'));
+    try {
+      const source = await openY4mFrameSource(FIXTURE, 24);
+      const track = await extractReferenceTrack(source, createCentroidEstimator(), {
+        techniqueId: 'sliding-figure',
+        minScore: 0.3,
+        smoothing: {},
+      });
+      const written = await writeReferenceTrack(track, outDir, 'both');
+      expect(written).toEqual([join(outDir, 'sliding-figure.json'), join(outDir, 'sliding-figure.ptrk')]);
+
+      const fromJson = parseReferenceTrack(JSON.parse(await readFile(written[0], 'utf8')));
+      const fromBinary = decodeReferenceTrack(await readFile(written[1]));
+      expect(fromBinary).toMatchObject({ version: 1, techniqueId: 'sliding-figure', fps: 24, width: 48, height: 36 });
+      expect(fromBinary.frames).toHaveLength(fromJson.frames.length);
+      fromBinary.frames.forEach((frame, index) => {
+        expect(frame.t).toBeCloseTo(fromJson.frames[index].t, 4);
+        expect(frame.keypoints[12].x).toBeCloseTo(fromJson.frames[index].keypoints[12].x, 4);
+      });
+    } finally {
+      await rm(outDir, { recursive: true, force: true });
+    }
+  });
+
+  test('rejects binary data that is not a pose track', () => {
+    const encoded = encodeReferenceTrack({ version: 1, techniqueId: 'x', fps: 15, width: 2, height: 2, frames: [] });
+    expect(decodeReferenceTrack(encoded).frames).toEqual([]);
+    encoded[0] = 0;
+    expect(() => decodeReferenceTrack(encoded)).toThrow(/not a binary pose track/);
+    expect(() => decodeReferenceTrack(encoded.subarray(0, 8))).toThrow(/truncated/);
+  });
+
+  test('smoothing removes jitter and restarts after gaps', () => {
+    const pose = (t: number, x: number): PoseFrame => ({
+      t,
+      keypoints: Array.from({ length: BLAZEPOSE_KEYPOINT_COUNT }, () => ({ x, y: 0.5, z: 0, score: 0.9 })),
+    });
+    const jittery = Array.from({ length: 30 }, (_, index) => pose(index / 30, 0.5 + (index % 2 ? 0.02 : -0.02)));
+    const smoothed = smoothPoseFrames(jittery);
+    const spread = (frames: PoseFrame[]) => {
+      const xs = frames.slice(10).map((frame) => frame.keypoints[0].x);
+      return Math.max(...xs) - Math.min(...xs);
+    };
+    expect(spread(smoothed)).toBeLessThan(spread(jittery) / 2);
+
+    // Athlete reappears elsewhere after a second off-screen - no glide from the old spot
+    const [, afterGap] = smoothPoseFrames([pose(0, 0.2), pose(1, 0.8)]);
+    expect(afterGap.keypoints[0].x).toBe(0.8);
+  });
+});
@@ -0,0 +1,190 @@
+import { expect, test } from '@playwright/test';
+import { RepCounter, type DrillId, type PoseSample } from '../src/lib/drills/rep-counter.ts';
+
+// Offline drill tests - synthetic keypoint sequences through each drill's state machine
+
+// Front-on, aspect 1: torso 0.2 long, so a drop of 1 torso length is 0.2 of the frame
+const TORSO = 0.2;
+const ANKLE_Y = 0.95;
+const FRAME_MS = 50;
+
+interface Pose {
+  /** Hips below standing, in torso lengths */
+  drop?: number;
+  /** Sideways hip travel from the middle of the frame, in torso lengths */
+  shift?: number;
+  /** Knee above ankle, in torso lengths */
+  knee?: number;
+  /** Shoulders and hips out of view */
+  hidden?: boolean;
+}
+
+function sample(timestamp: number, { drop = 0, shift = 0, knee = 0.8, hidden = false }: Pose): PoseSample {
+  const hipX = 0.5 + shift * TORSO;
+  const hipY = 0.5 + drop * TORSO;
+  const joints: Record<number, [number, number]> = {
+    11: [hipX - 0.08, hipY - TORSO],
+    12: [hipX + 0.08, hipY - TORSO],
+    23: [hipX - 0.06, hipY],
+    24: [hipX + 0.06, hipY],
+    25: [hipX - 0.08, ANKLE_Y - knee * TORSO],
+    26: [hipX + 0.08, ANKLE_Y - knee * TORSO],
+    27: [hipX - 0.08, ANKLE_Y],
+    28: [hipX + 0.08, ANKLE_Y],
+  };
+  const keypoints = Array.from({ length: 33 }, (_, index) => {
+    const [x, y] = joints[index] ?? [0.5, 0.2];
+    return { x, y, z: 0, score: hidden && index in joints ? 0.1 : 0.9 };
+  });
+  return { keypoints, aspect: 1, timestamp };
+}
+
+/** A counter on a clock that moves one camera frame per sample */
+function drill(id: DrillId) {
+  const counter = new RepCounter(id);
+  let now = 0;
+  return {
+    counter,
+    /** Holds `pose` for `ms`; returns the reps completed meanwhile */
+    hold(pose: Pose, ms = FRAME_MS) {
+      let reps = 0;
+      for (let elapsed = 0; elapsed < ms; elapsed += FRAME_MS) {
+        if (counter.update(sample(now, pose))) reps++;
+        now += FRAME_MS;
+      }
+      return reps;
+    },
+    /** Down to `down`, held `downMs`, then back to standing */
+    rep(down: Pose, downMs = 400) {
+      return this.hold(down, downMs) + this.hold({}, 400);
+    },
+  };
+}
+
+function calibrated(id: DrillId) {
+  const session = drill(id);
+  session.hold({}, 900);
+  expect(session.counter.phase).toBe('ready');
+  return session;
+}
+
+test.describe('rep counter calibration', () => {
+  test('takes the stance once it has been held in view', () => {
+    const session = drill('level-change');
+    session.hold({}, 750);
+    expect(session.counter.phase).toBe('calibrating');
+    session.hold({}, 100);
+    expect(session.counter.phase).toBe('ready');
+  });
+
+  test('starts over when the wrestler drops out of view', () => {
+    const session = drill('level-change');
+    session.hold({}, 600);
+    session.hold({ hidden: true });
+    session.hold({}, 750);
+    expect(session.counter.phase).toBe('calibrating');
+    session.hold({}, 100);
+    expect(session.counter.phase).toBe('ready');
+  });
+
+  test('starts over while the hips are still moving', () => {
+    const session = drill('level-change');
+    // Walking into place, then bouncing on the toes
+    for (let step = 0; step < 10; step++) session.hold({ shift: step * 0.2 }, 100);
+    expect(session.counter.phase).toBe('calibrating');
+    for (let bounce = 0; bounce < 4; bounce++) session.hold({ shift: 2, drop: bounce % 2 ? 0.3 : 0 }, 300);
+    expect(session.counter.phase).toBe('calibrating');
+
+    // Small sway inside the tolerance still counts as standing still
+    for (let sway = 0; sway < 9; sway++) session.hold({ shift: 2 + (sway % 2) * 0.1 }, 100);
+    expect(session.counter.phase).toBe('ready');
+  });
+
+  test('measures from the stance it settled in, not where calibration began', () => {
+    const session = drill('level-change');
+    session.hold({ drop: 0.5 }, 600);
+    session.hold({}, 900);
+    expect(session.counter.phase).toBe('ready');
+    // Had the crouch been averaged in, the baseline would sit low and this level change would be missed
+    expect(session.rep({ drop: 0.4 })).toBe(1);
+  });
+
+  test('reset forgets the stance and the count', () => {
+    const session = calibrated('sprawl');
+    expect(session.rep({ drop: 1 })).toBe(1);
+    session.counter.reset();
+    expect(session.counter.phase).toBe('calibrating');
+    expect(session.counter.reps).toBe(0);
+    expect(session.counter.completedAt).toEqual([]);
+  });
+});
+
+test.describe('drill state machines', () => {
+  test('level change counts a drop past 0.35 and a recovery past 0.15', () => {
+    const session = calibrated('level-change');
+    expect(session.rep({ drop: 0.3 })).toBe(0);
+    expect(session.rep({ drop: 0.4 })).toBe(1);
+
+    // Not all the way back up yet - the rep finishes when they are
+    session.hold({ drop: 0.4 }, 400);
+    expect(session.counter.phase).toBe('in-rep');
+    expect(session.hold({ drop: 0.2 }, 400)).toBe(0);
+    expect(session.hold({ drop: 0.1 })).toBe(1);
+    expect(session.counter.reps).toBe(2);
+    expect(session.counter.completedAt).toHaveLength(2);
+  });
+
+  test('sprawl needs the hips most of the way to the mat', () => {
+    const session = calibrated('sprawl');
+    expect(session.rep({ drop: 0.6 })).toBe(0);
+    expect(session.rep({ drop: 1 })).toBe(1);
+    expect(session.rep({ drop: 1.1 }, 600)).toBe(1);
+    expect(session.counter.reps).toBe(2);
+  });
+
+  test('penetration step needs the knee on the mat as well as the level change', () => {
+    const session = calibrated('penetration-step');
+    expect(session.rep({ drop: 0.6 })).toBe(0);
+    expect(session.rep({ drop: 0.3, knee: 0.1 })).toBe(0);
+    expect(session.rep({ drop: 0.6, knee: 0.1 })).toBe(1);
+  });
+
+  test('reps faster than MIN_REP_MS are treated as detector noise', () => {
+    const session = calibrated('level-change');
+    // Down for a single 50ms frame, up on the next - a 50ms rep
+    expect(session.rep({ drop: 0.5 }, 50)).toBe(0);
+    expect(session.counter.phase).toBe('ready');
+    // 250ms down, up on the frame after: 250ms from down to up
+    expect(session.rep({ drop: 0.5 }, 250)).toBe(0);
+    // 300ms is the shortest that counts
+    expect(session.rep({ drop: 0.5 }, 300)).toBe(1);
+  });
+
+  test('stance and motion counts each shuffle in either direction while staying low', () => {
+    const session = calibrated('stance-motion');
+    session.hold({ drop: 0.3 }, 400);
+    expect(session.hold({ drop: 0.3, shift: 0.4 }, 400)).toBe(0);
+    expect(session.counter.phase).toBe('in-rep');
+    expect(session.hold({ drop: 0.3, shift: 0.7 }, 400)).toBe(1);
+    // Re-anchored where the shuffle ended, so coming back counts too
+    expect(session.hold({ drop: 0.3, shift: 0 }, 400)).toBe(1);
+    expect(session.counter.reps).toBe(2);
+  });
+
+  test('stance and motion re-anchors on fast jitter and when they stand up', () => {
+    const session = calibrated('stance-motion');
+    session.hold({ drop: 0.3 }, 400);
+    expect(session.hold({ drop: 0.3, shift: 0.7 })).toBe(1);
+    // Snapping straight back a frame later is too fast to be a shuffle, but it moves the anchor
+    expect(session.hold({ drop: 0.3, shift: 0 })).toBe(0);
+    expect(session.hold({ drop: 0.3, shift: 0.1 }, 400)).toBe(0);
+    expect(session.hold({ drop: 0.3, shift: 0.7 })).toBe(1);
+
+    // Standing up tall walks away the anchor - the next shuffle is measured from where they drop back down
+    session.hold({ drop: 0, shift: 3 }, 400);
+    expect(session.counter.phase).toBe('ready');
+    session.hold({ drop: 0.3, shift: 3 }, 400);
+    expect(session.hold({ drop: 0.3, shift: 3.4 }, 400)).toBe(0);
+    expect(session.hold({ drop: 0.3, shift: 3.7 }, 400)).toBe(1);
+  });
+});
@@ -0,0 +1,268 @@
+import { expect, test } from '@playwright/test';
+import type { ConnectOptions, Room } from 'twilio-video';
+import { RoomTokenError } from '../src/lib/room/room-access.ts';
+import {
+  RoomConnection,
+  isRetryableRoomError,
+  roomRetryDelay,
+  type RoomConnectionOptions,
+} from '../src/lib/room/room-connection.ts';
+
+// Offline room connection tests - a scripted connect, token fetch and backoff timer, no Twilio involved
+
+type Handler = (...args: unknown[]) => void;
+
+/** A Twilio room that only does what the test tells it to */
+class FakeRoom {
+  readonly handlers = new Map<string, Handler[]>();
+  readonly participants = new Map<string, unknown>();
+  readonly localParticipant = { publishTrack: async () => ({}), unpublishTrack: () => null };
+  disconnected = false;
+
+  constructor(readonly name: string) {}
+
+  on(event: string, handler: Handler) {
+    this.handlers.set(event, [...(this.handlers.get(event) ?? []), handler]);
+    return this;
+  }
+
+  emit(event: string, ...args: unknown[]) {
+    this.handlers.get(event)?.forEach((handler) => handler(...args));
+  }
+
+  disconnect() {
+    this.disconnected = true;
+    return this;
+  }
+}
+
+function twilioError(code: number, message = `Twilio error ${code}`) {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * Each connect takes the next scripted outcome - a room, or an error to
+ * throw. Retries wait for the test to run them.
+ */
+function setup(outcomes: (FakeRoom | Error)[], options: Partial<RoomConnectionOptions> = {}) {
+  const script = [...outcomes];
+  const tokens: string[] = [];
+  const connects: ConnectOptions[] = [];
+  const delays: number[] = [];
+  let pending: { retry: () => void; cancelled: boolean } | null = null;
+
+  const connection = new RoomConnection({
+    roomName: 'tigers-practice',
+    identity: 'Jake-vr-1',
+    connect: { tracks: [] },
+    fetchToken: async (roomName, identity) => {
+      tokens.push(`${roomName}/${identity}`);
+      return `token-${tokens.length}`;
+    },
+    connectRoom: async (_token, connectOptions) => {
+      connects.push(connectOptions);
+      const next = script.shift();
+      if (!next) throw new Error('no more scripted outcomes');
+      if (next instanceof Error) throw next;
+      return next as unknown as Room;
+    },
+    schedule: (retry, delayMs) => {
+      delays.push(delayMs);
+      const timer = { retry, cancelled: false };
+      pending = timer;
+      return () => {
+        timer.cancelled = true;
+      };
+    },
+    ...options,
+  });
+
+  const statuses: string[] = [];
+  connection.subscribe(({ status }) => {
+    if (statuses.at(-1) !== status) statuses.push(status);
+  });
+
+  return {
+    connection,
+    tokens,
+    connects,
+    delays,
+    statuses,
+    get pending() {
+      return pending;
+    },
+    /** Runs the scheduled retry as if its time had come, and lets the attempt finish */
+    async retry() {
+      const timer = pending;
+      pending = null;
+      if (!timer) throw new Error('no retry scheduled');
+      if (!timer.cancelled) timer.retry();
+      await settle();
+    },
+  };
+}
+
+// Lets a connect attempt - a few awaits deep - run to the end
+async function settle() {
+  for (let index = 0; index < 10; index++) await Promise.resolve();
+}
+
+test.describe('room connection', () => {
+  test('backs off from one second, doubling up to thirty', () => {
+    expect([0, 1, 2, 3, 4, 5, 6, 7].map(roomRetryDelay)).toEqual([
+      1000, 2000, 4000, 8000, 16000, 30000, 30000, 30000,
+    ]);
+  });
+
+  test('only dropped connections, expired tokens and server hiccups are retried', () => {
+    // Token expired, signaling lost or timed out, media failed
+    for (const code of [20104, 53000, 53001, 53002, 53405, 53407]) {
+      expect(isRetryableRoomError(twilioError(code)), `${code}`).toBe(true);
+    }
+    // Invalid token, room full, duplicate identity
+    for (const code of [20101, 53105, 53205]) {
+      expect(isRetryableRoomError(twilioError(code)), `${code}`).toBe(false);
+    }
+    expect(isRetryableRoomError(new RoomTokenError(429, 'Too many token requests'))).toBe(true);
+    expect(isRetryableRoomError(new RoomTokenError(503, 'Server unavailable'))).toBe(true);
+    expect(isRetryableRoomError(new RoomTokenError(401, 'Invite code not recognized'))).toBe(false);
+    expect(isRetryableRoomError(new RoomTokenError(403, 'Not invited to room'))).toBe(false);
+    // fetch() with the network down
+    expect(isRetryableRoomError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isRetryableRoomError(new Error('Something else'))).toBe(false);
+    expect(isRetryableRoomError(null)).toBe(false);
+  });
+
+  test('a room lost for good is joined again with a fresh token and the same identity', async () => {
+    const first = new FakeRoom('tigers-practice');
+    const second = new FakeRoom('tigers-practice');
+    const room = setup([first, twilioError(53000), second]);
+
+    room.connection.connect();
+    await settle();
+    expect(room.connection.getState()).toMatchObject({ status: 'connected', room: first, retries: 0 });
+    expect(room.connects[0]).toEqual({ tracks: [], name: 'tigers-practice' });
+
+    // Twilio recovering by itself is only reported
+    first.emit('reconnecting', twilioError(53001, 'Signaling connection lost'));
+    first.emit('reconnected');
+    expect(room.delays).toEqual([]);
+
+    first.emit('disconnected', first, twilioError(53001, 'Signaling connection lost'));
+    expect(room.connection.getState()).toMatchObject({ status: 'reconnecting', room: null, retries: 1 });
+    expect(room.delays).toEqual([1000]);
+
+    // The first try fails as well, the second gets back in
+    await room.retry();
+    expect(room.delays).toEqual([1000, 2000]);
+    await room.retry();
+    expect(room.connection.getState()).toMatchObject({ status: 'connected', room: second, retries: 0, error: null });
+
+    expect(room.tokens).toEqual([
+      'tigers-practice/Jake-vr-1',
+      'tigers-practice/Jake-vr-1',
+      'tigers-practice/Jake-vr-1',
+    ]);
+    expect(room.statuses).toEqual([
+      'idle',
+      'connecting',
+      'connected',
+      // Twilio's own recovery
+      'reconnecting',
+      'connected',
+      // Ours
+      'reconnecting',
+      'connected',
+    ]);
+
+    // Events from the room that was given up on don't count any more
+    first.emit('disconnected', first, twilioError(53001));
+    expect(room.connection.getState().room).toBe(second);
+  });
+
+  test('gives up after eight retries', async () => {
+    const room = setup(Array.from({ length: 10 }, () => twilioError(53405, 'Media connection failed')));
+
+    room.connection.connect();
+    await settle();
+    for (let retry = 0; retry < 8; retry++) await room.retry();
+
+    expect(room.delays).toEqual([1000, 2000, 4000, 8000, 16000, 30000, 30000, 30000]);
+    expect(room.connects).toHaveLength(9);
+    expect(room.connection.getState()).toMatchObject({ status: 'error', error: 'Media connection failed' });
+    expect(room.pending).toBeNull();
+
+    // connect() starts over from the first delay
+    room.connection.connect();
+    await settle();
+    expect(room.connection.getState()).toMatchObject({ status: 'reconnecting', retries: 1 });
+    expect(room.delays.at(-1)).toBe(1000);
+  });
+
+  test('a refused invite is not retried', async () => {
+    const room = setup([new FakeRoom('tigers-varsity')], {
+      roomName: 'tigers-varsity',
+      fetchToken: async () => {
+        throw new RoomTokenError(403, 'Not invited to room tigers-varsity');
+      },
+    });
+
+    room.connection.connect();
+    await settle();
+    expect(room.connection.getState()).toMatchObject({ status: 'error', error: 'Not invited to room tigers-varsity' });
+    expect(room.connects).toEqual([]);
+    expect(room.delays).toEqual([]);
+  });
+
+  test('disconnecting during the backoff cancels the retry', async () => {
+    const room = setup([twilioError(53000), new FakeRoom('tigers-practice')]);
+
+    room.connection.connect();
+    await settle();
+    expect(room.connection.getState().status).toBe('reconnecting');
+
+    room.connection.disconnect();
+    expect(room.pending?.cancelled).toBe(true);
+    expect(room.connection.getState()).toMatchObject({ status: 'idle', retries: 0, error: null });
+
+    // Even if the timer fired anyway, nothing would connect
+    room.pending?.retry();
+    await settle();
+    expect(room.connects).toHaveLength(1);
+    expect(room.connection.getState().status).toBe('idle');
+  });
+
+  test('a room that arrives after disconnect() is left straight away', async () => {
+    let resolveRoom: (room: Room) => void = () => {};
+    const late = new FakeRoom('tigers-practice');
+    const connection = new RoomConnection({
+      roomName: 'tigers-practice',
+      identity: 'Jake-vr-1',
+      fetchToken: async () => 'token',
+      connectRoom: () => new Promise((resolve) => (resolveRoom = resolve)),
+    });
+
+    connection.connect();
+    await settle();
+    connection.disconnect();
+    resolveRoom(late as unknown as Room);
+    await settle();
+
+    expect(late.disconnected).toBe(true);
+    expect(connection.getState()).toMatchObject({ status: 'idle', room: null });
+  });
+
+  test('joins without the camera when it is optional and busy', async () => {
+    const room = new FakeRoom('tigers-practice');
+    const busy = Object.assign(new Error('Could not start video source'), { name: 'NotReadableError' });
+    const { connection, connects } = setup([busy, room], {
+      connect: { audio: true, video: { width: 640 } },
+      videoOptional: true,
+    });
+
+    connection.connect();
+    await settle();
+    expect(connects.map((options) => options.video)).toEqual([{ width: 640 }, false]);
+    expect(connection.getState()).toMatchObject({ status: 'connected', room });
+  });
+});
@@ -0,0 +1,132 @@
+import { expect, test } from '@playwright/test';
+import {
+  analyzeStance,
+  DEFAULT_STANCE_THRESHOLDS,
+  stanceCorrections,
+  type StanceAnalysis,
+  type StanceMetricId,
+} from '../src/lib/pose/stance-analysis.ts';
+import type { PoseKeypoint } from '../src/lib/pose/reference-track.ts';
+
+// Offline stance tests - hand-placed keypoints, front-on camera
+
+type Joint = [number, number, number];
+
+// Athletic stance, aspect 1: torso leaning toward the camera, knees bent, right foot back
+const STANCE: Record<number, Joint> = {
+  0: [0.5, 0.25, -0.12],
+  11: [0.42, 0.35, -0.1],
+  12: [0.58, 0.35, -0.1],
+  15: [0.42, 0.6, -0.15],
+  16: [0.58, 0.6, -0.15],
+  23: [0.44, 0.55, 0],
+  24: [0.56, 0.55, 0],
+  25: [0.38, 0.7, -0.1],
+  26: [0.62, 0.7, -0.1],
+  27: [0.37, 0.85, 0],
+  28: [0.63, 0.8, 0],
+};
+
+// Upright and square: straight legs, feet together, hands hanging at the knees
+const STANDING_TALL: Record<number, Joint> = {
+  0: [0.5, 0.2, 0],
+  11: [0.42, 0.3, 0],
+  12: [0.58, 0.3, 0],
+  15: [0.44, 0.72, 0],
+  16: [0.56, 0.72, 0],
+  23: [0.46, 0.52, 0],
+  24: [0.54, 0.52, 0],
+  25: [0.46, 0.7, 0],
+  26: [0.54, 0.7, 0],
+  27: [0.47, 0.88, 0],
+  28: [0.53, 0.88, 0],
+};
+
+function keypoints(joints: Record<number, Joint>, hidden: number[] = []): PoseKeypoint[] {
+  return Array.from({ length: 33 }, (_, index) => {
+    const [x, y, z] = joints[index] ?? [0.5, 0.5, 0];
+    return { x, y, z, score: index in joints && !hidden.includes(index) ? 0.9 : 0.1 };
+  });
+}
+
+function metric(analysis: StanceAnalysis | null, id: StanceMetricId) {
+  const result = analysis?.metrics.find((entry) => entry.id === id);
+  if (!result) throw new Error(`no ${id} metric`);
+  return result;
+}
+
+test.describe('stance analysis', () => {
+  test('a good athletic stance passes every check', () => {
+    const analysis = analyzeStance(keypoints(STANCE));
+    expect(analysis?.score).toBe(100);
+    analysis?.metrics.forEach((result) => expect(result, result.id).toMatchObject({ status: 'good', severity: 'info' }));
+    expect(stanceCorrections(analysis!)).toEqual([]);
+  });
+
+  test('standing tall is flagged on level, knees, back and feet', () => {
+    const analysis = analyzeStance(keypoints(STANDING_TALL))!;
+    expect(metric(analysis, 'knee-bend')).toMatchObject({ status: 'low', severity: 'critical' });
+    expect(metric(analysis, 'hip-height')).toMatchObject({ status: 'high', severity: 'critical' });
+    expect(metric(analysis, 'back-angle')).toMatchObject({ status: 'low', severity: 'critical' });
+    expect(metric(analysis, 'foot-width')).toMatchObject({ status: 'low', severity: 'critical' });
+    // Square feet miss by exactly the tolerance, which is still only a warning
+    expect(metric(analysis, 'foot-stagger')).toMatchObject({ status: 'low', severity: 'warning' });
+    expect(metric(analysis, 'hand-position')).toMatchObject({ status: 'low', severity: 'warning' });
+    expect(metric(analysis, 'head-position').status).toBe('good');
+    expect(analysis.score).toBeLessThan(30);
+
+    // Worst first: every critical correction comes before any warning
+    const severities = stanceCorrections(analysis).map((result) => result.severity);
+    expect(severities).toEqual(['critical', 'critical', 'critical', 'critical', 'warning', 'warning']);
+  });
+
+  test('the ideal range is inclusive and the tolerance separates warnings from critical misses', () => {
+    const value = metric(analyzeStance(keypoints(STANCE)), 'knee-bend').value!;
+    const rate = (min: number, max: number, tolerance = 10) =>
+      metric(analyzeStance(keypoints(STANCE), 1, { 'knee-bend': { min, max, tolerance } }), 'knee-bend');
+
+    expect(rate(value, value)).toMatchObject({ status: 'good', severity: 'info', message: 'Knees bent and loaded' });
+    expect(rate(value + 10, value + 50)).toMatchObject({ status: 'low', severity: 'warning' });
+    expect(rate(value + 10.5, value + 50)).toMatchObject({ status: 'low', severity: 'critical' });
+    expect(rate(value - 50, value - 10)).toMatchObject({
+      status: 'high',
+      severity: 'warning',
+      message: 'Too deep - come up so you can still move',
+    });
+    expect(rate(value - 50, value - 10.5)).toMatchObject({ status: 'high', severity: 'critical' });
+  });
+
+  test('overridden thresholds leave the other defaults alone and score warnings as half', () => {
+    const hands = metric(analyzeStance(keypoints(STANCE)), 'hand-position').value!;
+    const analysis = analyzeStance(keypoints(STANCE), 1, {
+      'hand-position': { ...DEFAULT_STANCE_THRESHOLDS['hand-position'], min: hands + 0.1, tolerance: 0.2 },
+    })!;
+
+    expect(metric(analysis, 'hand-position')).toMatchObject({ status: 'low', severity: 'warning' });
+    // Six good metrics and one warning out of seven
+    expect(analysis.score).toBe(Math.round((6.5 / 7) * 100));
+  });
+
+  test('joints out of view leave their metrics unmeasured and too little body gives no analysis', () => {
+    const noHands = analyzeStance(keypoints(STANCE, [15, 16]))!;
+    expect(metric(noHands, 'hand-position')).toMatchObject({
+      status: 'unmeasured',
+      value: null,
+      message: 'Hands: not visible',
+    });
+    expect(noHands.score).toBe(100);
+
+    // Only the head and shoulders - nothing below the waist to judge
+    expect(analyzeStance(keypoints(STANCE, [23, 24, 25, 26, 27, 28]))).toBeNull();
+  });
+
+  test('measurements are the same whatever the camera aspect', () => {
+    const aspect = 16 / 9;
+    const squeezed = Object.fromEntries(
+      Object.entries(STANCE).map(([index, [x, y, z]]) => [index, [x / aspect, y, z / aspect] as Joint])
+    );
+    const square = analyzeStance(keypoints(STANCE))!;
+    const wide = analyzeStance(keypoints(squeezed), aspect)!;
+    square.metrics.forEach((result, index) => expect(wide.metrics[index].value).toBeCloseTo(result.value!));
+  });
+});
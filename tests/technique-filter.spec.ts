@@ -0,0 +1,130 @@
+import { readFile } from 'node:fs/promises';
+import { expect, test } from '@playwright/test';
+import {
+  EMPTY_TECHNIQUE_FILTER,
+  availableFacetValues,
+  filterTechniqueIds,
+  isTechniqueFilterActive,
+  matchesTechniqueFilter,
+  type TechniqueFilter,
+} from '../src/lib/techniques/technique-filter.ts';
+import {
+  TECHNIQUE_CATEGORIES,
+  TECHNIQUE_DIFFICULTIES,
+  TECHNIQUE_POSITIONS,
+  parseTechniqueManifest,
+  type TechniqueEntry,
+} from '../src/lib/techniques/technique-manifest.ts';
+
+// Offline technique filter tests - a small tagged library and the shipped manifest, no scene
+
+function technique(id: string, entry: Partial<TechniqueEntry> = {}): TechniqueEntry {
+  return {
+    id,
+    title: id,
+    category: 'uncategorized',
+    position: null,
+    difficulty: null,
+    weightClass: 'all',
+    tags: [],
+    streamUrl: `https://videos.example/${id}.m3u8`,
+    thumbnailUrl: null,
+    poseTrackUrl: null,
+    durationSeconds: null,
+    ...entry,
+  };
+}
+
+const LIBRARY = [
+  technique('single', {
+    title: 'Single Leg Finish',
+    category: 'takedown',
+    position: 'neutral',
+    difficulty: 'beginner',
+    tags: ['single-leg', 'finish'],
+  }),
+  technique('sprawl', { title: 'Sprawl and Spin', category: 'defense', position: 'neutral', difficulty: 'beginner' }),
+  technique('standup', { title: 'Stand Up', category: 'escape', position: 'bottom', difficulty: 'intermediate' }),
+  technique('half', { title: 'Half Nelson', category: 'pin', position: 'top', weightClass: '165' }),
+  technique('camp', { title: 'Leg Camp #1', tags: ['latora-leg-camp'] }),
+];
+
+const filter = (patch: Partial<TechniqueFilter>): TechniqueFilter => ({ ...EMPTY_TECHNIQUE_FILTER, ...patch });
+const ids = (patch: Partial<TechniqueFilter>) => [...filterTechniqueIds(LIBRARY, filter(patch))];
+
+test.describe('technique filter', () => {
+  test('an empty filter matches every clip', () => {
+    expect(isTechniqueFilterActive(EMPTY_TECHNIQUE_FILTER)).toBe(false);
+    expect(isTechniqueFilterActive(filter({ query: '   ' }))).toBe(false);
+    expect(isTechniqueFilterActive(filter({ position: 'top' }))).toBe(true);
+    expect(ids({})).toEqual(['single', 'sprawl', 'standup', 'half', 'camp']);
+  });
+
+  test('facets narrow together and untagged clips only match when the facet is open', () => {
+    expect(ids({ category: 'takedown' })).toEqual(['single']);
+    expect(ids({ category: 'uncategorized' })).toEqual(['camp']);
+    expect(ids({ position: 'neutral' })).toEqual(['single', 'sprawl']);
+    expect(ids({ position: 'neutral', category: 'defense' })).toEqual(['sprawl']);
+    expect(ids({ difficulty: 'beginner', position: 'bottom' })).toEqual([]);
+    expect(ids({ difficulty: 'advanced' })).toEqual([]);
+  });
+
+  test('search needs every word, in the title, tags, facets or weight class', () => {
+    // "single-leg" is typed as two words on the headset keyboard
+    expect(ids({ query: 'single leg' })).toEqual(['single']);
+    expect(ids({ query: 'LEG' })).toEqual(['single', 'camp']);
+    expect(ids({ query: 'leg camp' })).toEqual(['camp']);
+    expect(ids({ query: 'neutral spin' })).toEqual(['sprawl']);
+    expect(ids({ query: '165' })).toEqual(['half']);
+    expect(ids({ query: 'leg  escape' })).toEqual([]);
+    expect(ids({ query: 'stand', position: 'top' })).toEqual([]);
+    expect(matchesTechniqueFilter(LIBRARY[2], filter({ query: 'intermediate' }))).toBe(true);
+  });
+
+  test('facets offer the values in the library, in their canonical order', () => {
+    expect(availableFacetValues(LIBRARY, TECHNIQUE_CATEGORIES, (entry) => entry.category)).toEqual([
+      'takedown',
+      'defense',
+      'escape',
+      'pin',
+      'uncategorized',
+    ]);
+    expect(availableFacetValues(LIBRARY, TECHNIQUE_POSITIONS, (entry) => entry.position)).toEqual([
+      'neutral',
+      'top',
+      'bottom',
+    ]);
+    // Two untagged clips are what makes "beginner" narrow anything
+    expect(availableFacetValues(LIBRARY, TECHNIQUE_DIFFICULTIES, (entry) => entry.difficulty)).toEqual([
+      'beginner',
+      'intermediate',
+    ]);
+  });
+
+  test('a facet that is the same on every clip is left out', () => {
+    const untagged = [technique('a'), technique('b')];
+    expect(availableFacetValues(untagged, TECHNIQUE_CATEGORIES, (entry) => entry.category)).toEqual([]);
+    expect(availableFacetValues(untagged, TECHNIQUE_POSITIONS, (entry) => entry.position)).toEqual([]);
+
+    const allTop = [technique('a', { position: 'top' }), technique('b', { position: 'top' })];
+    expect(availableFacetValues(allTop, TECHNIQUE_POSITIONS, (entry) => entry.position)).toEqual([]);
+    expect(availableFacetValues([], TECHNIQUE_POSITIONS, (entry) => entry.position)).toEqual([]);
+  });
+
+  test('the shipped library offers no facet until its clips are tagged', async () => {
+    const raw = JSON.parse(await readFile('public/technique-manifest.json', 'utf8'));
+    const { techniques } = parseTechniqueManifest(raw);
+    expect(techniques.length).toBeGreaterThan(0);
+
+    const untagged = [
+      availableFacetValues(techniques, TECHNIQUE_CATEGORIES, (entry) => entry.category),
+      availableFacetValues(techniques, TECHNIQUE_POSITIONS, (entry) => entry.position),
+      availableFacetValues(techniques, TECHNIQUE_DIFFICULTIES, (entry) => entry.difficulty),
+    ].every((values) => values.length === 0);
+    const tagged = techniques.some((entry) => entry.position || entry.difficulty || entry.category !== 'uncategorized');
+    // Once some clips are tagged, their facets appear
+    expect(untagged).toBe(!tagged);
+    // Search works either way
+    expect(filterTechniqueIds(techniques, filter({ query: 'leg camp' })).size).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,177 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { expect, test } from '@playwright/test';
+import { loadTechniqueCatalog, readTechniqueManifest, readTechniqueRefs } from '../server/coach/technique-catalog.ts';
+import { TechniqueManifestError, parseTechniqueManifest } from '../src/lib/techniques/technique-manifest.ts';
+
+// Offline technique manifest tests - the schema the headset, /api/techniques and the coach catalog share
+
+const VALID = {
+  id: 'single-leg',
+  title: 'Single Leg Finish',
+  category: 'takedown',
+  streamUrl: 'https://videos.example/single-leg.m3u8',
+};
+
+function manifest(...techniques: unknown[]) {
+  return { version: 1, techniques };
+}
+
+/** Parses, and collects why each skipped entry was skipped */
+function parse(raw: unknown) {
+  const skipped: string[] = [];
+  const result = parseTechniqueManifest(raw, (error) => skipped.push(error.message));
+  return { ids: result.techniques.map(({ id }) => id), skipped };
+}
+
+test.describe('technique manifest', () => {
+  test('fills in defaults and tidies up a minimal entry', () => {
+    const { techniques } = parseTechniqueManifest(
+      manifest({
+        id: ' single-leg ',
+        title: 'Single Leg Finish',
+        streamUrl: '/videos/single-leg.mp4',
+        tags: ['Single-Leg', ' Finish '],
+      })
+    );
+    expect(techniques).toEqual([
+      {
+        id: 'single-leg',
+        title: 'Single Leg Finish',
+        category: 'uncategorized',
+        position: null,
+        difficulty: null,
+        weightClass: 'all',
+        tags: ['single-leg', 'finish'],
+        // Relative URLs are clips hosted next to the app
+        streamUrl: '/videos/single-leg.mp4',
+        thumbnailUrl: null,
+        poseTrackUrl: null,
+        durationSeconds: null,
+      },
+    ]);
+  });
+
+  test('malformed entries are skipped with the path of what is wrong, the rest are kept', () => {
+    const { ids, skipped } = parse(
+      manifest(
+        VALID,
+        null,
+        'single-leg',
+        { ...VALID, id: 'no-title', title: '   ' },
+        { ...VALID, id: undefined },
+        { ...VALID, id: 'no-stream', streamUrl: undefined },
+        { ...VALID, id: 'bad-url', streamUrl: 'http://[broken' },
+        { ...VALID, id: 'bad-thumb', thumbnailUrl: 42 },
+        { ...VALID, id: 'bad-category', category: 'throw' },
+        { ...VALID, id: 'bad-position', position: 'standing' },
+        { ...VALID, id: 'bad-level', difficulty: 'expert' },
+        { ...VALID, id: 'bad-tags', tags: 'single-leg' },
+        { ...VALID, id: 'bad-tag', tags: ['ok', 7] },
+        { ...VALID, id: 'bad-duration', durationSeconds: -3 },
+        { ...VALID, id: 'bad-weight', weightClass: '' },
+        { ...VALID, title: 'Same id again' },
+        { ...VALID, id: 'sprawl', title: 'Sprawl', position: 'neutral', difficulty: 'beginner', durationSeconds: 42 }
+      )
+    );
+
+    expect(ids).toEqual(['single-leg', 'sprawl']);
+    expect(skipped).toEqual([
+      'manifest.techniques[1]: expected an object',
+      'manifest.techniques[2]: expected an object',
+      'manifest.techniques[3].title: expected a non-empty string',
+      'manifest.techniques[4].id: expected a non-empty string',
+      'manifest.techniques[5].streamUrl: expected a non-empty string',
+      'manifest.techniques[6].streamUrl: invalid URL "http://[broken"',
+      'manifest.techniques[7].thumbnailUrl: expected a non-empty string',
+      'manifest.techniques[8].category: unknown category "throw" (expected one of takedown, defense, escape, ' +
+        'reversal, turn, pin, drill, uncategorized)',
+      'manifest.techniques[9].position: unknown position "standing" (expected one of neutral, top, bottom)',
+      'manifest.techniques[10].difficulty: unknown difficulty "expert" (expected one of beginner, intermediate, ' +
+        'advanced)',
+      'manifest.techniques[11].tags: expected an array of strings',
+      'manifest.techniques[12].tags[1]: expected a non-empty string',
+      'manifest.techniques[13].durationSeconds: expected a positive number of seconds',
+      'manifest.techniques[14].weightClass: expected a non-empty string',
+      'manifest.techniques[15].id: duplicate id "single-leg"',
+    ]);
+  });
+
+  test('a manifest that is broken as a whole is rejected', () => {
+    const reject = (raw: unknown) => {
+      try {
+        parseTechniqueManifest(raw, () => {});
+      } catch (error) {
+        expect(error).toBeInstanceOf(TechniqueManifestError);
+        return (error as TechniqueManifestError).path;
+      }
+      throw new Error('expected the manifest to be rejected');
+    };
+
+    expect(reject(null)).toBe('manifest');
+    expect(reject([VALID])).toBe('manifest.version');
+    expect(reject({ techniques: [VALID] })).toBe('manifest.version');
+    expect(reject({ version: 2, techniques: [VALID] })).toBe('manifest.version');
+    expect(reject({ version: 1 })).toBe('manifest.techniques');
+    expect(reject({ version: 1, techniques: { 0: VALID } })).toBe('manifest.techniques');
+    // Every entry broken is an empty library, not a broken manifest
+    expect(parse(manifest(null, {})).ids).toEqual([]);
+  });
+
+  test('the coach catalog keeps and skips the same entries as the headset', () => {
+    const raw = manifest(
+      { ...VALID, tags: ['Single-Leg'] },
+      { ...VALID, id: 'bad-url', streamUrl: 'http://[broken' },
+      { ...VALID, id: 'bad-category', category: 'throw' },
+      { ...VALID, title: 'Same id again' },
+      { id: 'sprawl', title: 'Sprawl', streamUrl: 'https://videos.example/sprawl.m3u8' }
+    );
+
+    const warnings: unknown[] = [];
+    const warn = console.warn;
+    console.warn = (...args: unknown[]) => warnings.push(args);
+    try {
+      expect(readTechniqueRefs(raw)).toEqual([
+        { id: 'single-leg', title: 'Single Leg Finish', category: 'takedown', tags: ['single-leg'] },
+        { id: 'sprawl', title: 'Sprawl', category: 'uncategorized', tags: [] },
+      ]);
+    } finally {
+      console.warn = warn;
+    }
+    expect(parse(raw).ids).toEqual(['single-leg', 'sprawl']);
+    expect(warnings).toHaveLength(3);
+    expect(() => readTechniqueRefs({ techniques: [VALID] })).toThrow(TechniqueManifestError);
+  });
+
+  test('the served manifest is the checked one, and a broken file keeps the last good catalog', async () => {
+    const directory = await mkdtemp(join(tmpdir(), 'technique-manifest-'));
+    const file = join(directory, 'technique-manifest.json');
+    const error = console.error;
+    const warn = console.warn;
+    console.error = () => {};
+    console.warn = () => {};
+    try {
+      await writeFile(file, JSON.stringify(manifest(VALID, { ...VALID, id: 'bad', category: 'throw' })));
+      const served = await readTechniqueManifest(file);
+      expect(served.techniques.map(({ id }) => id)).toEqual(['single-leg']);
+      // What the server sends passes the headset's check unchanged
+      expect(parseTechniqueManifest(JSON.parse(JSON.stringify(served)))).toEqual(served);
+
+      const catalog = loadTechniqueCatalog(file, 0);
+      expect((await catalog()).map(({ id }) => id)).toEqual(['single-leg']);
+
+      await writeFile(file, JSON.stringify({ version: 1, clips: [] }));
+      await expect(readTechniqueManifest(file)).rejects.toThrow('manifest.techniques: expected an array');
+      expect((await catalog()).map(({ id }) => id)).toEqual(['single-leg']);
+
+      // The shipped library passes as it is
+      const shipped = await readTechniqueManifest('public/technique-manifest.json');
+      expect(shipped.techniques.length).toBeGreaterThan(0);
+    } finally {
+      console.error = error;
+      console.warn = warn;
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,5 +1,12 @@
 import { expect, test } from '@playwright/test';
 
+interface VideoStats {
+  registered: number;
+  live: number;
+  maxLiveStreams: number;
+  peakLive: number;
+}
+
 async function clickCanvasCenter(page: import('@playwright/test').Page) {
   const canvas = page.locator('canvas');
   await expect(canvas).toBeVisible();
@@ -12,41 +19,58 @@ async function clickCanvasCenter(page: import('@playwright/test').Page) {
   await page.mouse.click(x, y, { delay: 25 });
 }
 
-test('technique card toggles video playback when clicked', async ({ page }) => {
-  await page.goto('/');
-
-  await page.waitForSelector('canvas');
+// Dev builds expose the video manager's stats (the test server runs `vite` in dev mode)
+async function readVideoStats(page: import('@playwright/test').Page) {
   await page.waitForFunction(() => {
-    const videos = Array.from(document.querySelectorAll('video[data-technique-video]')) as HTMLVideoElement[];
-    return videos.length > 0 && videos.every((video) => video.readyState >= 2);
+    const stats = (window as Window & { __videoStats?: () => VideoStats }).__videoStats?.();
+    return Boolean(stats && stats.registered > 0);
   });
+  return page.evaluate(() => (window as Window & { __videoStats?: () => VideoStats }).__videoStats!());
+}
 
-  const firstVideo = page.locator('video[data-technique-video]').first();
-  await expect(firstVideo).toHaveJSProperty('paused', true);
+test('technique cards only load streams within the decoder budget', async ({ page }) => {
+  await page.goto('/');
+  await page.waitForSelector('canvas');
+
+  // Give the gaze check a few rounds to preload what is in view
+  await page.waitForTimeout(2000);
+  const stats = await readVideoStats(page);
+  const videos = await page.locator('video[data-technique-video]').count();
+
+  expect(videos).toBe(stats.live);
+  expect(stats.live).toBeLessThanOrEqual(stats.maxLiveStreams);
+  expect(stats.peakLive).toBeLessThanOrEqual(stats.maxLiveStreams);
+  if (stats.registered > stats.maxLiveStreams) {
+    // Cards out of view stay on their poster
+    expect(videos).toBeLessThan(stats.registered);
+  }
+});
+
+test('technique card toggles video playback when clicked', async ({ page }) => {
+  await page.goto('/');
+  await page.waitForSelector('canvas');
+  await readVideoStats(page);
 
+  // The card's stream is attached by the click if gaze hasn't preloaded it
   await clickCanvasCenter(page);
 
-  await expect(firstVideo).toHaveJSProperty('paused', false);
-  await firstVideo.evaluate(
-    (video) =>
-      new Promise<void>((resolve, reject) => {
-        const timeout = window.setTimeout(() => reject(new Error('Video did not advance in time')), 5000);
-        const check = () => {
-          if (video.currentTime > 0) {
-            window.clearTimeout(timeout);
-            resolve();
-            return;
-          }
-          requestAnimationFrame(check);
-        };
-        check();
-      })
+  const playing = await page.waitForFunction(
+    () => {
+      const videos = Array.from(document.querySelectorAll('video[data-technique-video]')) as HTMLVideoElement[];
+      const video = videos.find((candidate) => !candidate.paused && candidate.currentTime > 0);
+      return video?.dataset.techniqueVideo ?? null;
+    },
+    undefined,
+    { timeout: 15000 }
   );
+  const url = await playing.jsonValue();
+  const video = page.locator(`video[data-technique-video="${url}"]`);
+  await expect(video).toHaveJSProperty('paused', false);
 
-  const currentTime = await firstVideo.evaluate((video) => video.currentTime);
-  expect(currentTime).toBeGreaterThan(0);
+  const { live, maxLiveStreams } = await readVideoStats(page);
+  expect(live).toBeLessThanOrEqual(maxLiveStreams);
 
   await clickCanvasCenter(page);
 
-  await expect(firstVideo).toHaveJSProperty('paused', true);
+  await expect(video).toHaveJSProperty('paused', true);
 });
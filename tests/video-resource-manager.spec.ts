@@ -0,0 +1,224 @@
+import { expect, test } from '@playwright/test';
+import * as THREE from 'three';
+import { VideoResourceManager, type GazeAnchor } from '../src/lib/video/video-resource-manager.ts';
+
+// Offline video resource manager tests - stand-in video elements and a test clock, no browser or decoder
+
+/** Just enough of an HTMLVideoElement: records whether it's in the page and what it's loading */
+class FakeVideo {
+  src = '';
+  paused = true;
+  parentNode: { removeChild: (video: FakeVideo) => void } | null = null;
+  readonly style: Record<string, string> = {};
+  readonly dataset: Record<string, string> = {};
+  private readonly handlers = new Map<string, Set<() => void>>();
+
+  setAttribute() {}
+  removeAttribute(name: string) {
+    if (name === 'src') this.src = '';
+  }
+  load() {}
+  pause() {
+    this.paused = true;
+    this.emit('pause');
+  }
+  play() {
+    this.paused = false;
+    this.emit('playing');
+  }
+  addEventListener(event: string, handler: () => void) {
+    this.handlers.set(event, (this.handlers.get(event) ?? new Set()).add(handler));
+  }
+  removeEventListener(event: string, handler: () => void) {
+    this.handlers.get(event)?.delete(handler);
+  }
+  private emit(event: string) {
+    this.handlers.get(event)?.forEach((handler) => handler());
+  }
+}
+
+/** Swaps in a document whose body keeps the videos the manager creates */
+function fakeDocument() {
+  const inPage = new Set<FakeVideo>();
+  const body = {
+    appendChild(video: FakeVideo) {
+      inPage.add(video);
+      video.parentNode = { removeChild: (child) => inPage.delete(child) };
+    },
+  };
+  (globalThis as { document?: unknown }).document = { body, createElement: () => new FakeVideo() };
+  return inPage;
+}
+
+function anchorAt(x: number, y: number, z: number, visible = true): GazeAnchor {
+  return { visible, getWorldPosition: (target) => target.set(x, y, z) };
+}
+
+const VIEWER = new THREE.Vector3(0, 0, 0);
+const FORWARD = new THREE.Vector3(0, 0, -1);
+
+function setup(maxLiveStreams = 2) {
+  const inPage = fakeDocument();
+  const clock = { now: 0 };
+  const manager = new VideoResourceManager({ maxLiveStreams, idleReleaseMs: 15000, now: () => clock.now });
+  const live = () => ['a', 'b', 'c', 'd', 'e'].filter((id) => manager.getLiveVideo(id) !== null);
+  for (const id of ['a', 'b', 'c', 'd', 'e']) manager.register(id, `https://videos.example/${id}.m3u8`);
+  return { manager, inPage, clock, live };
+}
+
+test.describe('video resource manager', () => {
+  test.afterEach(() => {
+    delete (globalThis as { document?: unknown }).document;
+  });
+
+  test('cards register with a poster only, and a stream is attached when one is played', () => {
+    const { manager, inPage } = setup();
+    expect(manager.getStats()).toMatchObject({ registered: 5, live: 0, playing: 0 });
+    expect(inPage.size).toBe(0);
+
+    const changes: string[] = [];
+    manager.subscribe('a', () => changes.push(manager.getLiveVideo('a') ? 'attached' : 'released'));
+    const stream = manager.pin('a');
+    expect(stream?.video.src).toBe('https://videos.example/a.m3u8');
+    expect(stream?.video.dataset.techniqueVideo).toBe('https://videos.example/a.m3u8');
+    expect(inPage.size).toBe(1);
+
+    // Pinning again reuses the stream
+    expect(manager.pin('a')).toBe(stream);
+    expect(changes).toEqual(['attached']);
+
+    (stream?.video as unknown as FakeVideo).play();
+    expect(manager.getStats()).toMatchObject({ live: 1, playing: 1, peakLive: 1 });
+  });
+
+  test('playing past the decoder budget evicts the least recently used stream', () => {
+    const { manager, inPage, clock, live } = setup(2);
+
+    clock.now = 100;
+    const first = manager.pin('a');
+    clock.now = 200;
+    manager.pin('b');
+    clock.now = 300;
+    // Playing "a" again makes "b" the oldest
+    manager.pin('a');
+    clock.now = 400;
+    manager.pin('c');
+
+    expect(live()).toEqual(['a', 'c']);
+    expect(inPage.size).toBe(2);
+    expect(manager.getStats()).toMatchObject({ live: 2, peakLive: 2, evictions: 1 });
+
+    // An evicted stream is gone for good: out of the page and its source dropped
+    clock.now = 500;
+    manager.pin('d');
+    expect(live()).toEqual(['c', 'd']);
+    expect(first?.video.src).toBe('');
+    expect(inPage.has(first?.video as unknown as FakeVideo)).toBe(false);
+    expect(manager.getStats().evictions).toBe(2);
+  });
+
+  test('a stream that is only looked at goes before one that is playing', () => {
+    const { manager, clock, live } = setup(2);
+
+    clock.now = 100;
+    manager.pin('a');
+    manager.setAnchor('b', anchorAt(0, 0, -5));
+    clock.now = 200;
+    manager.updateGaze(VIEWER, FORWARD);
+    expect(live()).toEqual(['a', 'b']);
+
+    // "b" was used last, but "a" is playing
+    clock.now = 300;
+    manager.pin('c');
+    expect(live()).toEqual(['a', 'c']);
+  });
+
+  test('cards in the gaze cone are preloaded, closest to the centre first', () => {
+    const { manager, clock, live } = setup(2);
+    manager.setAnchor('a', anchorAt(4, 0, -5)); // ~39°, outside the 35° cone
+    manager.setAnchor('b', anchorAt(2, 0, -5)); // ~22°
+    manager.setAnchor('c', anchorAt(0, 0, -5)); // dead ahead
+    manager.setAnchor('d', anchorAt(-1, 0, -5)); // ~11°
+    manager.setAnchor('e', anchorAt(0, 0, 5)); // behind
+
+    manager.updateGaze(VIEWER, FORWARD);
+    expect(live()).toEqual(['c', 'd']);
+
+    // Turning right brings "a" and "b" into view, and they take over the older streams
+    clock.now = 100;
+    manager.updateGaze(VIEWER, new THREE.Vector3(4, 0, -5).normalize());
+    expect(live()).toEqual(['a', 'b']);
+
+    // A hidden card (filtered out, another carousel page) isn't preloaded
+    const hidden = setup(2);
+    hidden.manager.setAnchor('a', anchorAt(0, 0, -5, false));
+    hidden.manager.setAnchor('b', anchorAt(0, 0, -6));
+    hidden.manager.updateGaze(VIEWER, FORWARD);
+    expect(hidden.live()).toEqual(['b']);
+  });
+
+  test('gaze only gets the budget the playing cards leave', () => {
+    const { manager, live } = setup(3);
+    manager.pin('a');
+    manager.pin('b');
+    manager.setAnchor('c', anchorAt(0, 0, -5));
+    manager.setAnchor('d', anchorAt(0.5, 0, -5));
+    manager.setAnchor('e', anchorAt(1, 0, -5));
+
+    manager.updateGaze(VIEWER, FORWARD);
+    expect(live()).toEqual(['a', 'b', 'c']);
+
+    manager.pin('d');
+    manager.updateGaze(VIEWER, FORWARD);
+    expect(live()).toEqual(['a', 'b', 'd']);
+  });
+
+  test('streams out of gaze and not playing are released once idle', () => {
+    const { manager, clock, live } = setup(3);
+    manager.setAnchor('a', anchorAt(0, 0, -5));
+    manager.pin('b');
+    manager.updateGaze(VIEWER, FORWARD);
+    expect(live()).toEqual(['a', 'b']);
+
+    // Looking away: kept for a while in case the wrestler looks back
+    clock.now = 1000;
+    manager.updateGaze(VIEWER, FORWARD.clone().negate());
+    clock.now = 15000;
+    manager.updateGaze(VIEWER, FORWARD.clone().negate());
+    expect(live()).toEqual(['a', 'b']);
+
+    clock.now = 16001;
+    manager.updateGaze(VIEWER, FORWARD.clone().negate());
+    // "b" is still playing
+    expect(live()).toEqual(['b']);
+
+    manager.unpin('b');
+    clock.now = 31002;
+    manager.updateGaze(VIEWER, FORWARD.clone().negate());
+    expect(live()).toEqual([]);
+    expect(manager.getStats()).toMatchObject({ live: 0, evictions: 0 });
+  });
+
+  test('a new URL, unregistering and dispose release the stream', () => {
+    const { manager, inPage, live } = setup(4);
+    const stats: number[] = [];
+    manager.onStats(({ live: count }) => stats.push(count));
+
+    const old = manager.pin('a');
+    manager.register('a', 'https://videos.example/a-recut.m3u8');
+    expect(manager.getLiveVideo('a')).toBeNull();
+    expect(old?.video.src).toBe('');
+    expect(manager.pin('a')?.video.src).toBe('https://videos.example/a-recut.m3u8');
+
+    manager.pin('b');
+    manager.unregister('b');
+    expect(manager.getStats().registered).toBe(4);
+    expect(manager.pin('b')).toBeNull();
+
+    manager.dispose();
+    expect(live()).toEqual([]);
+    expect(inPage.size).toBe(0);
+    expect(manager.getStats()).toMatchObject({ registered: 0, live: 0 });
+    expect(stats.at(-1)).toBe(0);
+  });
+});
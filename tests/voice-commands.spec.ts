@@ -0,0 +1,143 @@
+import { expect, test } from '@playwright/test';
+import { createFakeChatModel, createFakeSpeechToText } from '../server/coach/coach-providers.ts';
+import { createCoachService } from '../server/coach/coach-service.ts';
+import type { SceneCommand } from '../server/coach/coach-types.ts';
+import { loadTechniqueCatalog, type TechniqueRef } from '../server/coach/technique-catalog.ts';
+import { describeSceneCommand, parseVoiceCommand } from '../server/coach/voice-commands.ts';
+
+// Offline voice command tests - the grammar against the technique manifest that ships with the app
+
+const MANIFEST = 'public/technique-manifest.json';
+
+const speak = (text: string) => new TextEncoder().encode(text);
+
+let catalog: TechniqueRef[] = [];
+
+test.beforeAll(async () => {
+  catalog = await loadTechniqueCatalog(MANIFEST)();
+  expect(catalog.length).toBeGreaterThan(0);
+});
+
+const parse = (transcript: string) => parseVoiceCommand(transcript, catalog);
+
+test.describe('voice commands', () => {
+  test('each scene command has a few ways to say it', () => {
+    const said: [string, SceneCommand][] = [
+      ['pause', { type: 'pause' }],
+      ['Hold on', { type: 'pause' }],
+      ['stop the video', { type: 'pause' }],
+      ['play', { type: 'resume' }],
+      ['keep going', { type: 'resume' }],
+      ['play it again', { type: 'restart' }],
+      ['From the top!', { type: 'restart' }],
+      ['slow it down', { type: 'speed', change: 'slower' }],
+      ['slow mo', { type: 'speed', change: 'slower' }],
+      ['speed that up', { type: 'speed', change: 'faster' }],
+      ['half speed', { type: 'speed', rate: 0.5 }],
+      ['play at quarter speed', { type: 'speed', rate: 0.25 }],
+      ['real time', { type: 'speed', rate: 1 }],
+      ['next one', { type: 'next-video' }],
+      ['skip', { type: 'next-video' }],
+      ['go back', { type: 'previous-video' }],
+      ['last video', { type: 'previous-video' }],
+      ['arrange as a grid', { type: 'arrange', mode: 'wall' }],
+      ['put the cards in a circle', { type: 'arrange', mode: 'ring' }],
+      ['switch to carousel view', { type: 'arrange', mode: 'carousel' }],
+      ['arc', { type: 'arrange', mode: 'arc' }],
+      ['take a screenshot', { type: 'screenshot' }],
+      ['grab me a pic', { type: 'screenshot' }],
+      ['mirror the videos', { type: 'mirror' }],
+      ['switch sides', { type: 'mirror' }],
+    ];
+    for (const [transcript, command] of said) {
+      expect(parse(transcript), transcript).toEqual(command);
+    }
+  });
+
+  test('politeness and addressing are stripped from either end', () => {
+    expect(parse('Hey coach, pause it please')).toEqual({ type: 'pause' });
+    expect(parse('can you slow it down for me')).toEqual({ type: 'speed', change: 'slower' });
+    expect(parse("Okay, let's just take a screenshot, thanks")).toEqual({ type: 'screenshot' });
+    expect(parse('could you go ahead and play leg camp five now coach')).toEqual({
+      type: 'play-technique',
+      techniqueId: 'latora-5',
+    });
+    // Nothing left once the fillers are gone
+    expect(parse('please')).toBeNull();
+    expect(parse('  ')).toBeNull();
+  });
+
+  test('a command has to be the whole utterance - questions go to the coach', () => {
+    for (const question of [
+      'show me how to finish a double leg',
+      'why do I pause before I shoot',
+      'how do I go faster',
+      "what's next",
+      'pause the fight at the takedown',
+      'is a ring better than a wall',
+    ]) {
+      expect(parse(question), question).toBeNull();
+    }
+  });
+
+  test('every technique in the manifest can be asked for by its title', () => {
+    for (const technique of catalog) {
+      const command = parse(`play ${technique.title}`);
+      expect(command, technique.title).toEqual({ type: 'play-technique', techniqueId: technique.id });
+      expect(describeSceneCommand(command!, catalog)).toBe(`Playing ${technique.title}`);
+    }
+  });
+
+  test('technique names are matched against the catalog, spoken numbers included', () => {
+    expect(parse('play leg camp five')).toEqual({ type: 'play-technique', techniqueId: 'latora-5' });
+    expect(parse('pull up leg camp number twenty two')).toEqual({ type: 'play-technique', techniqueId: 'latora-22' });
+    expect(parse('show me leg camp #30')).toEqual({ type: 'play-technique', techniqueId: 'latora-30' });
+    // "one" is #1, not the first of #10-#19
+    expect(parse('go to leg camp one')).toEqual({ type: 'play-technique', techniqueId: 'latora-1' });
+
+    // Not in the library: a question, not a command
+    expect(parse('play leg camp two')).toBeNull();
+    expect(parse('play leg camp fifteen')).toBeNull();
+    expect(parse('play a double leg')).toBeNull();
+    expect(parseVoiceCommand('play leg camp five', [])).toBeNull();
+    expect(parseVoiceCommand('pause', [])).toEqual({ type: 'pause' });
+  });
+
+  test('confirmations are short and name the video', () => {
+    const described: [SceneCommand, string][] = [
+      [{ type: 'play-technique', techniqueId: 'latora-99' }, 'Playing latora-99'],
+      [{ type: 'restart' }, 'From the top'],
+      [{ type: 'speed', rate: 0.5 }, '0.5x speed'],
+      [{ type: 'speed', rate: 1 }, 'Normal speed'],
+      [{ type: 'speed', change: 'faster' }, 'Speeding it up'],
+      [{ type: 'arrange', mode: 'wall' }, 'Wall layout'],
+      [{ type: 'mirror' }, 'Flipping the videos'],
+    ];
+    for (const [command, text] of described) {
+      expect(describeSceneCommand(command, catalog)).toBe(text);
+    }
+  });
+
+  test('the voice chat acts on commands without answering or remembering them', async () => {
+    const coach = createCoachService({
+      chat: createFakeChatModel(),
+      stt: createFakeSpeechToText(),
+      techniques: loadTechniqueCatalog(MANIFEST),
+    });
+    const session = { userId: 'jake', room: 'gym' };
+
+    const played = await coach.voiceChat(speak('Play leg camp five please'), session);
+    expect(played).toMatchObject({
+      command: { type: 'play-technique', techniqueId: 'latora-5' },
+      response: 'Playing Leg Camp #5',
+      audioUrl: null,
+    });
+    const asked = await coach.voiceChat(speak('play a double leg'), session);
+    expect(asked.command).toBeUndefined();
+
+    expect(coach.getConversation(session).messages.map((turn) => turn.content)).toEqual([
+      'play a double leg',
+      asked.response,
+    ]);
+  });
+});
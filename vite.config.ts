@@ -15,6 +15,10 @@ export default defineConfig({
       '/api': {
         target: 'http://localhost:3002',
         changeOrigin: true,
+        // Passes the browser's address on, so the server's token rate limit isn't shared
+        xfwd: true,
+        // Coach channel relay (WebSocket)
+        ws: true,
       },
     },
   },